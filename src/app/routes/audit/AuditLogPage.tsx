@@ -7,10 +7,15 @@ import {
     CheckCircle2,
     XCircle,
     Layers,
+    Server,
+    Calendar,
+    RefreshCw,
 } from "lucide-react";
 import {
     getAuditLog,
     clearAuditLog,
+    filterAuditEntries,
+    auditSource,
     type AuditEntry,
     type AuditOperation,
 } from "../../../lib/auditLog";
@@ -23,8 +28,19 @@ const OP_COLORS: Record<string, string> = {
     get_items: "#14b8a6",
     delete_collection: "#ef4444",
     delete_items: "#f97316",
+    add_items: "#22c55e",
+    update_items: "#eab308",
+    upsert_items: "#84cc16",
+    create_collection: "#6366f1",
+    create_tenant: "#d946ef",
+    create_database: "#ec4899",
     export: "#f59e0b",
     import: "#8b5cf6",
+    diff_collections: "#06b6d4",
+    ann_check: "#14b8a6",
+    find_duplicates: "#f43f5e",
+    evaluate: "#0891b2",
+    golden_run: "#ca8a04",
 };
 
 const OP_LABELS: Record<string, string> = {
@@ -35,24 +51,57 @@ const OP_LABELS: Record<string, string> = {
     get_items: "Get Items",
     delete_collection: "Delete Collection",
     delete_items: "Delete Items",
+    add_items: "Add Items",
+    update_items: "Update Items",
+    upsert_items: "Upsert Items",
+    create_collection: "Create Collection",
+    create_tenant: "Create Tenant",
+    create_database: "Create Database",
     export: "Export",
     import: "Import",
+    diff_collections: "Diff Collections",
+    ann_check: "ANN Check",
+    find_duplicates: "Find Duplicates",
+    evaluate: "Evaluate",
+    golden_run: "Golden Queries",
 };
 
 export function AuditLogPage() {
     const [entries, setEntries] = useState<AuditEntry[]>(() => getAuditLog());
     const [filterOp, setFilterOp] = useState<AuditOperation | "">("");
+    const [filterSource, setFilterSource] = useState("");
+    const [fromDate, setFromDate] = useState("");
+    const [toDate, setToDate] = useState("");
 
-    const filtered = useMemo(() => {
-        if (!filterOp) return entries;
-        return entries.filter((e) => e.operation === filterOp);
-    }, [entries, filterOp]);
+    const filtered = useMemo(
+        () =>
+            filterAuditEntries(entries, {
+                operation: filterOp || undefined,
+                source: filterSource || undefined,
+                // Date inputs give local calendar days; include the whole "to" day
+                from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+                to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+            }),
+        [entries, filterOp, filterSource, fromDate, toDate],
+    );
 
     const operations = useMemo(
         () => Array.from(new Set(entries.map((e) => e.operation))).sort(),
         [entries],
     );
 
+    // Distinct profiles (or bare server URLs) that appear in the log
+    const sources = useMemo(() => {
+        const map = new Map<string, string>();
+        for (const e of entries) {
+            const key = auditSource(e);
+            if (key && !map.has(key)) map.set(key, e.profileName ?? e.server ?? key);
+        }
+        return Array.from(map.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+    }, [entries]);
+
+    const hasFilters = !!(filterOp || filterSource || fromDate || toDate);
+
     const handleClear = () => {
         if (confirm("Clear all audit log entries?")) {
             clearAuditLog();
@@ -90,7 +139,9 @@ export function AuditLogPage() {
                             className="text-xs"
                             style={{ color: "var(--color-text-muted)" }}
                         >
-                            {entries.length} operations tracked
+                            {hasFilters
+                                ? `${filtered.length} of ${entries.length} operations`
+                                : `${entries.length} operations tracked`}
                         </p>
                     </div>
                 </div>
@@ -123,6 +174,19 @@ export function AuditLogPage() {
                         </select>
                     </div>
 
+                    <button
+                        onClick={() => setEntries(getAuditLog())}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs cursor-pointer transition-colors"
+                        style={{
+                            background: "var(--color-bg-card)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        <RefreshCw size={12} />
+                        Refresh
+                    </button>
+
                     <button
                         onClick={handleClear}
                         disabled={entries.length === 0}
@@ -139,6 +203,76 @@ export function AuditLogPage() {
                 </div>
             </div>
 
+            {/* Profile + date range filters */}
+            <div
+                className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-2xl text-xs"
+                style={{
+                    background: "var(--color-bg-card)",
+                    border: "1px solid var(--color-border)",
+                }}
+            >
+                <div className="flex items-center gap-2">
+                    <Server size={14} style={{ color: "var(--color-text-dim)" }} />
+                    <select
+                        value={filterSource}
+                        onChange={(e) => setFilterSource(e.target.value)}
+                        className="px-3 py-1.5 rounded-lg outline-none cursor-pointer max-w-[220px]"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    >
+                        <option value="">All profiles</option>
+                        {sources.map(([key, label]) => (
+                            <option key={key} value={key}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Calendar size={14} style={{ color: "var(--color-text-dim)" }} />
+                    <input
+                        type="date"
+                        value={fromDate}
+                        onChange={(e) => setFromDate(e.target.value)}
+                        className="px-2 py-1.5 rounded-lg outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    />
+                    <span style={{ color: "var(--color-text-dim)" }}>to</span>
+                    <input
+                        type="date"
+                        value={toDate}
+                        onChange={(e) => setToDate(e.target.value)}
+                        className="px-2 py-1.5 rounded-lg outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    />
+                </div>
+                {hasFilters && (
+                    <button
+                        onClick={() => {
+                            setFilterOp("");
+                            setFilterSource("");
+                            setFromDate("");
+                            setToDate("");
+                        }}
+                        className="sm:ml-auto px-2 py-1 rounded-lg cursor-pointer"
+                        style={{ color: "var(--color-accent)" }}
+                    >
+                        Clear filters
+                    </button>
+                )}
+            </div>
+
             {/* Empty state */}
             {filtered.length === 0 && (
                 <div
@@ -157,7 +291,7 @@ export function AuditLogPage() {
                         className="text-sm"
                         style={{ color: "var(--color-text-muted)" }}
                     >
-                        No audit entries{filterOp ? ` for "${OP_LABELS[filterOp]}"` : " yet"}
+                        No audit entries{hasFilters ? " match these filters" : " yet"}
                     </p>
                     <p
                         className="text-xs mt-1"
@@ -230,6 +364,18 @@ export function AuditLogPage() {
 
                                 <span className="flex-1" />
 
+                                {/* Profile */}
+                                {(entry.profileName || entry.server) && (
+                                    <span
+                                        className="hidden md:flex items-center gap-1 text-[11px] truncate max-w-[140px]"
+                                        style={{ color: "var(--color-text-dim)" }}
+                                        title={entry.server}
+                                    >
+                                        <Server size={10} />
+                                        {entry.profileName ?? entry.server}
+                                    </span>
+                                )}
+
                                 {/* Duration */}
                                 {entry.durationMs != null && (
                                     <span
@@ -0,0 +1,310 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+    Star,
+    Download,
+    RefreshCw,
+    Loader2,
+    AlertCircle,
+    Trash2,
+    Layers,
+    X,
+} from "lucide-react";
+import { ChromaError, getItems } from "../../../lib/chromaClient";
+import {
+    useBookmarks,
+    removeBookmark,
+    removeBookmarks,
+    type Bookmark,
+} from "../../../lib/bookmarks";
+import { useScope, scopedPath } from "../../../lib/scopeContext";
+import type { ChromaScope } from "../../../lib/storage";
+import type { GetItemsResponse } from "../../../lib/zodSchemas";
+
+interface BookmarkGroup {
+    collectionId: string;
+    collectionName: string;
+    scope: ChromaScope;
+    bookmarks: Bookmark[];
+}
+
+interface ResolvedRecord {
+    id: string;
+    document: string | null;
+    metadata: Record<string, unknown> | null;
+}
+
+function resolveRecords(data: GetItemsResponse | undefined): Map<string, ResolvedRecord> {
+    const map = new Map<string, ResolvedRecord>();
+    data?.ids.forEach((id, i) => {
+        map.set(id, {
+            id,
+            document: data.documents?.[i] ?? null,
+            metadata: data.metadatas?.[i] ?? null,
+        });
+    });
+    return map;
+}
+
+/**
+ * Records found for a group, or null while loading or after a failure. A
+ * collection that no longer exists resolves to no records, so every bookmark
+ * in it shows as missing; any other error leaves them unknown.
+ */
+function groupRecords(result: { data?: GetItemsResponse; error: unknown }): Map<string, ResolvedRecord> | null {
+    if (result.data) return resolveRecords(result.data);
+    if (result.error instanceof ChromaError && result.error.status === 404) return new Map();
+    return null;
+}
+
+function groupError(error: unknown): string | null {
+    if (!error || (error instanceof ChromaError && error.status === 404)) return null;
+    return (error as Error).message;
+}
+
+export function BookmarksPage() {
+    const bookmarks = useBookmarks();
+    const currentScope = useScope();
+    const queryClient = useQueryClient();
+
+    const groups: BookmarkGroup[] = useMemo(() => {
+        const byCollection = new Map<string, BookmarkGroup>();
+        for (const b of bookmarks) {
+            let group = byCollection.get(b.collectionId);
+            if (!group) {
+                group = {
+                    collectionId: b.collectionId,
+                    collectionName: b.collectionName,
+                    scope: b.tenant && b.database ? { tenant: b.tenant, database: b.database } : currentScope,
+                    bookmarks: [],
+                };
+                byCollection.set(b.collectionId, group);
+            }
+            group.bookmarks.push(b);
+        }
+        return Array.from(byCollection.values());
+    }, [bookmarks, currentScope]);
+
+    // Resolve every group live so deleted records show up as missing
+    const results = useQueries({
+        queries: groups.map((g) => ({
+            queryKey: ["bookmarks", g.collectionId, g.bookmarks.map((b) => b.id)],
+            queryFn: () =>
+                getItems(g.collectionId, {
+                    ids: g.bookmarks.map((b) => b.id),
+                    include: ["documents", "metadatas"],
+                }, g.scope),
+            retry: false,
+        })),
+    });
+
+    const exportAll = () => {
+        const records = groups.flatMap((g, i) => {
+            const result = results[i];
+            const resolved = result ? groupRecords(result) : null;
+            const error = result ? groupError(result.error) : null;
+            return g.bookmarks.map((b) => {
+                const record = resolved?.get(b.id);
+                return {
+                    collection: g.collectionName,
+                    collectionId: g.collectionId,
+                    tenant: g.scope.tenant,
+                    database: g.scope.database,
+                    id: b.id,
+                    bookmarkedAt: new Date(b.timestamp).toISOString(),
+                    // Unknown (null) when the collection could not be read
+                    missing: resolved ? !record : null,
+                    ...(error ? { error } : {}),
+                    document: record?.document ?? null,
+                    metadata: record?.metadata ?? null,
+                };
+            });
+        });
+        const blob = new Blob(
+            [JSON.stringify({ exportedAt: new Date().toISOString(), records }, null, 2)],
+            { type: "application/json" },
+        );
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = "bookmarked-records.json";
+        a.click();
+        URL.revokeObjectURL(url);
+        toast.success(`Exported ${records.length} bookmarked records`);
+    };
+
+    const resolving = results.some((r) => r.isFetching);
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div
+                        className="w-10 h-10 rounded-xl flex items-center justify-center"
+                        style={{ background: "linear-gradient(135deg, #f59e0b, #ef4444)" }}
+                    >
+                        <Star size={20} color="#fff" />
+                    </div>
+                    <div>
+                        <h1 className="text-xl font-bold">Bookmarks</h1>
+                        <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                            {bookmarks.length} bookmarked record{bookmarks.length !== 1 ? "s" : ""} across{" "}
+                            {groups.length} collection{groups.length !== 1 ? "s" : ""}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 self-start sm:self-auto">
+                    <button
+                        onClick={() => queryClient.invalidateQueries({ queryKey: ["bookmarks"] })}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-card)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        {resolving ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                        Refresh
+                    </button>
+                    <button
+                        onClick={exportAll}
+                        disabled={bookmarks.length === 0 || resolving}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold cursor-pointer disabled:opacity-40"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <Download size={14} />
+                        Export records
+                    </button>
+                </div>
+            </div>
+
+            {bookmarks.length === 0 && (
+                <div
+                    className="text-center py-16 rounded-2xl"
+                    style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+                >
+                    <Star size={32} className="mx-auto mb-3" style={{ color: "var(--color-text-dim)" }} />
+                    <p className="text-sm" style={{ color: "var(--color-text-muted)" }}>
+                        No bookmarks yet. Star records in Browse or Query results to collect them here.
+                    </p>
+                </div>
+            )}
+
+            {groups.map((g, i) => {
+                const result = results[i];
+                return (
+                    <BookmarkGroupCard
+                        key={g.collectionId}
+                        group={g}
+                        resolved={result ? groupRecords(result) : null}
+                        loading={!!result?.isLoading}
+                        error={result ? groupError(result.error) : null}
+                    />
+                );
+            })}
+        </div>
+    );
+}
+
+/* ── Collection group ──────────────────────────────────────────────── */
+
+function BookmarkGroupCard({
+    group,
+    resolved,
+    loading,
+    error,
+}: {
+    group: BookmarkGroup;
+    resolved: Map<string, ResolvedRecord> | null;
+    loading: boolean;
+    error: string | null;
+}) {
+    const missingIds = resolved ? group.bookmarks.filter((b) => !resolved.has(b.id)).map((b) => b.id) : [];
+
+    return (
+        <div
+            className="rounded-2xl overflow-hidden"
+            style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+        >
+            <div
+                className="flex items-center gap-2 px-5 py-3 border-b"
+                style={{ borderColor: "var(--color-border)", background: "var(--color-bg-elevated)" }}
+            >
+                <Layers size={15} style={{ color: "var(--color-accent)" }} />
+                <Link
+                    to={scopedPath(group.scope, `/collections/${encodeURIComponent(group.collectionName)}`)}
+                    className="text-sm font-semibold truncate hover:underline"
+                >
+                    {group.collectionName}
+                </Link>
+                <span className="text-[11px] truncate" style={{ color: "var(--color-text-dim)" }}>
+                    {group.scope.tenant}/{group.scope.database}
+                </span>
+                <span className="flex-1" />
+                {loading && <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />}
+                {missingIds.length > 0 && (
+                    <button
+                        onClick={() => removeBookmarks(group.collectionId, missingIds)}
+                        className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer"
+                        style={{ background: "rgba(255,71,87,0.1)", color: "var(--color-error)" }}
+                    >
+                        <Trash2 size={12} /> Remove {missingIds.length} missing
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="flex items-start gap-2 px-5 py-3 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                    Could not resolve bookmarks: {error}
+                </div>
+            )}
+
+            <div className="divide-y" style={{ borderColor: "var(--color-border)" }}>
+                {group.bookmarks.map((b) => {
+                    const record = resolved?.get(b.id);
+                    const missing = resolved !== null && !record;
+                    return (
+                        <div key={b.id} className="flex items-start gap-3 px-5 py-3">
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <code className="text-xs truncate">{b.id}</code>
+                                    {missing && (
+                                        <span
+                                            className="text-[10px] px-1.5 py-0.5 rounded-md font-medium shrink-0"
+                                            style={{ background: "rgba(255,71,87,0.1)", color: "var(--color-error)" }}
+                                        >
+                                            no longer exists
+                                        </span>
+                                    )}
+                                </div>
+                                {record && (
+                                    <p
+                                        className="text-xs mt-1 line-clamp-2"
+                                        style={{ color: record.document ? "var(--color-text-muted)" : "var(--color-text-dim)" }}
+                                    >
+                                        {record.document ?? `${Object.keys(record.metadata ?? {}).length} metadata keys, no document`}
+                                    </p>
+                                )}
+                            </div>
+                            <span className="text-[11px] shrink-0" style={{ color: "var(--color-text-dim)" }}>
+                                {new Date(b.timestamp).toLocaleDateString()}
+                            </span>
+                            <button
+                                onClick={() => removeBookmark(group.collectionId, b.id)}
+                                className="p-1 rounded-md cursor-pointer shrink-0"
+                                style={{ color: "var(--color-text-dim)" }}
+                                title="Remove bookmark"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
-import { useState, useMemo, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { useQuery, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { type ColumnDef } from "@tanstack/react-table";
 import toast from "react-hot-toast";
 import {
@@ -18,57 +18,138 @@ import {
     Box,
     Activity,
     TrendingUp,
+    Upload,
+    Pencil,
+    Cpu,
+    Sparkles,
+    Crosshair,
+    FlaskConical,
+    ClipboardCheck,
+    Download,
+    Copy,
 } from "lucide-react";
 import {
     getCollection,
     getCollectionCount,
     getItems,
+    fetchItems,
     queryCollection,
     deleteCollection,
     getAllItems,
+    updateItems,
+    upsertItems,
 } from "../../../lib/chromaClient";
 import { DataTable } from "../../../components/table/DataTable";
+import { ServerPagination } from "../../../components/table/ServerPagination";
 import {
     EmbeddingScatter,
     pcaProject,
 } from "../../../components/charts/EmbeddingScatter";
 import { RecordDrawer } from "../../../components/common/RecordDrawer";
+import {
+    RecordEditor,
+    inferMetadataTypes,
+    type RecordSave,
+} from "../../../components/common/RecordEditor";
+import { ImportBackupDialog } from "../../../components/common/ImportBackupDialog";
+import { BookmarkStar } from "../../../components/common/BookmarkStar";
+import { SimilarRecords } from "../../../components/common/SimilarRecords";
 import { Modal } from "../../../components/common/Modal";
 import {
     MetadataFilterBuilder,
     buildWhereClause,
-    type MetadataFilter,
+    emptyFilterGroup,
+    filtersFromWhere,
+    type MetadataFilterGroup,
 } from "../../../components/common/MetadataFilterBuilder";
+import {
+    DocumentFilterBuilder,
+    buildWhereDocument,
+    documentFilterError,
+    documentFiltersFromWhere,
+    type DocumentFilter,
+    type DocumentFilterMode,
+} from "../../../components/common/DocumentFilterBuilder";
+import { SavedQueriesPanel } from "../../../components/common/SavedQueriesPanel";
+import { RerankComparison } from "../../../components/common/RerankComparison";
+import { MmrComparison } from "../../../components/common/MmrComparison";
+import { GoldenQueriesPanel } from "../../../components/common/GoldenQueriesPanel";
+import { RelevanceReviewQueue } from "../../../components/common/RelevanceReviewQueue";
+import { AnnQualityPanel } from "../../../components/common/AnnQualityPanel";
+import { EvaluationPanel } from "../../../components/common/EvaluationPanel";
+import { DuplicatesPanel } from "../../../components/common/DuplicatesPanel";
+import { collectionSpace, type DistanceSpace } from "../../../lib/annQuality";
 import { SkeletonStats, SkeletonTable } from "../../../components/common/Skeleton";
 import { GrowthChart } from "../../../components/charts/GrowthChart";
 import { MetadataCharts } from "../../../components/charts/MetadataCharts";
 import { SimilarityHeatmap } from "../../../components/charts/SimilarityHeatmap";
+import { DistanceDistribution } from "../../../components/charts/DistanceDistribution";
 import { recordSnapshot, getSnapshots } from "../../../lib/growthTracker";
+import { useScope, scopedPath } from "../../../lib/scopeContext";
+import { meanVector } from "../../../lib/vectorMath";
+import {
+    useRelevanceLabels,
+    setJudgement,
+    labelQueryId,
+    toQrels,
+    toEvalJsonl,
+    RELEVANCE_GRADES,
+    type LabelQuery,
+    type RelevanceGrade,
+} from "../../../lib/relevanceLabels";
+import { useProfiles } from "../../../lib/profileContext";
+import {
+    useEmbeddingProviders,
+    getCollectionProviderId,
+    getProfileProviderId,
+    setCollectionProvider,
+    resolveEmbeddingProvider,
+    embedTexts,
+    parseVector,
+    SERVER_SIDE,
+} from "../../../lib/embeddingProviders";
+import {
+    getLastQuery,
+    getSavedQuery,
+    recordQueryHistory,
+    type QuerySpec,
+} from "../../../lib/savedQueries";
 
-type Tab = "browse" | "query" | "visualize" | "analytics" | "settings";
+type Tab = "browse" | "query" | "evaluate" | "visualize" | "analytics" | "duplicates" | "settings";
 
 const TABS: { key: Tab; label: string; icon: React.ReactNode }[] = [
     { key: "browse", label: "Browse", icon: <Table2 size={15} /> },
     { key: "query", label: "Query", icon: <SearchIcon size={15} /> },
+    { key: "evaluate", label: "Evaluate", icon: <FlaskConical size={15} /> },
     { key: "visualize", label: "Visualize", icon: <BarChart3 size={15} /> },
     { key: "analytics", label: "Analytics", icon: <TrendingUp size={15} /> },
+    { key: "duplicates", label: "Duplicates", icon: <Copy size={15} /> },
     { key: "settings", label: "Settings", icon: <Settings size={15} /> },
 ];
 
 export function CollectionPage() {
     const { name } = useParams<{ name: string }>();
     const navigate = useNavigate();
-    const [tab, setTab] = useState<Tab>("browse");
+    const scope = useScope();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const savedQueryId = searchParams.get("query");
+    const [tab, setTab] = useState<Tab>(savedQueryId ? "query" : "browse");
+    const [centroid, setCentroid] = useState<QueryCentroid | null>(null);
+
+    // The command palette opens saved queries through ?query=<id>
+    useEffect(() => {
+        if (savedQueryId) setTab("query");
+    }, [savedQueryId]);
 
     const collectionQuery = useQuery({
-        queryKey: ["collection", name],
-        queryFn: () => getCollection(name!),
+        queryKey: ["collection", scope.tenant, scope.database, name],
+        queryFn: () => getCollection(name!, scope),
         enabled: !!name,
     });
 
     const countQuery = useQuery({
         queryKey: ["collectionCount", collectionQuery.data?.id],
-        queryFn: () => getCollectionCount(collectionQuery.data!.id),
+        queryFn: () => getCollectionCount(collectionQuery.data!.id, scope),
         enabled: !!collectionQuery.data?.id,
     });
 
@@ -79,7 +160,7 @@ export function CollectionPage() {
             getItems(collectionQuery.data!.id, {
                 limit: 10,
                 include: ["metadatas", "embeddings"],
-            }),
+            }, scope),
         enabled: !!collectionQuery.data?.id,
     });
 
@@ -145,7 +226,7 @@ export function CollectionPage() {
             {/* Header */}
             <div className="flex flex-col sm:flex-row sm:items-center gap-4">
                 <button
-                    onClick={() => navigate("/collections")}
+                    onClick={() => navigate(scopedPath(scope, "/collections"))}
                     className="p-2 rounded-xl transition-colors cursor-pointer self-start"
                     style={{
                         background: "var(--color-bg-elevated)",
@@ -237,13 +318,35 @@ export function CollectionPage() {
             {tab === "browse" && (
                 <BrowseTab
                     collectionId={collection.id}
+                    collectionName={collection.name}
                     metadataKeys={statsData.metadataKeys}
+                    embeddingDims={collection.dimension ?? statsData.embeddingDims}
+                    onQueryCentroid={(c) => {
+                        setCentroid(c);
+                        setTab("query");
+                    }}
                 />
             )}
             {tab === "query" && (
                 <QueryTab
                     collectionId={collection.id}
+                    collectionName={collection.name}
                     metadataKeys={statsData.metadataKeys}
+                    embeddingDims={collection.dimension ?? statsData.embeddingDims}
+                    savedQueryId={savedQueryId}
+                    onSavedQueryHandled={() => setSearchParams({}, { replace: true })}
+                    centroid={centroid}
+                    onCentroidHandled={() => setCentroid(null)}
+                />
+            )}
+            {tab === "evaluate" && (
+                <EvaluateTab
+                    collectionId={collection.id}
+                    collectionName={collection.name}
+                    metadataKeys={statsData.metadataKeys}
+                    embeddingDims={collection.dimension ?? statsData.embeddingDims}
+                    count={countQuery.data ?? null}
+                    space={collectionSpace(collection.metadata)}
                 />
             )}
             {tab === "visualize" && <VisualizeTab collectionId={collection.id} />}
@@ -253,13 +356,16 @@ export function CollectionPage() {
                     metadataKeys={statsData.metadataKeys}
                 />
             )}
+            {tab === "duplicates" && (
+                <DuplicatesPanel collectionId={collection.id} collectionName={collection.name} />
+            )}
             {tab === "settings" && (
                 <SettingsTab
                     collection={collection}
                     count={countQuery.data ?? null}
                     embDims={statsData.embeddingDims}
                     metadataKeys={statsData.metadataKeys}
-                    onDeleted={() => navigate("/collections")}
+                    onDeleted={() => navigate(scopedPath(scope, "/collections"))}
                 />
             )}
         </div>
@@ -317,33 +423,80 @@ interface ItemRow {
     embedding: number[] | null;
 }
 
+/** Records sampled to infer metadata key types when editing. */
+const METADATA_TYPE_SAMPLE = 1000;
+
 function BrowseTab({
     collectionId,
+    collectionName,
     metadataKeys,
+    embeddingDims,
+    onQueryCentroid,
 }: {
     collectionId: string;
+    collectionName: string;
     metadataKeys: string[];
+    embeddingDims: number | null;
+    onQueryCentroid: (centroid: QueryCentroid) => void;
 }) {
     const [drawerItem, setDrawerItem] = useState<ItemRow | null>(null);
     const [offset, setOffset] = useState(0);
-    const [filters, setFilters] = useState<MetadataFilter[]>([]);
+    const [filters, setFilters] = useState<MetadataFilterGroup>(() => emptyFilterGroup());
+    const [rawWhere, setRawWhere] = useState<Record<string, unknown> | null>(null);
+    const [docFilters, setDocFilters] = useState<DocumentFilter[]>([]);
+    const [docFilterMode, setDocFilterMode] = useState<DocumentFilterMode>("$and");
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
-    const limit = 100;
-
-    const whereClause = useMemo(() => buildWhereClause(filters), [filters]);
+    const [editing, setEditing] = useState(false);
+    const [showSimilar, setShowSimilar] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [pageSize, setPageSize] = useState(100);
+    const scope = useScope();
+    const queryClient = useQueryClient();
+
+    const whereClause = useMemo(() => rawWhere ?? buildWhereClause(filters), [rawWhere, filters]);
+    const whereDocument = useMemo(
+        () => buildWhereDocument(docFilters, docFilterMode),
+        [docFilters, docFilterMode],
+    );
+    // Hold the current page while a regex row does not compile
+    const docFiltersValid = documentFilterError(docFilters) === null;
 
-    const { data, isLoading, error } = useQuery({
-        queryKey: ["items", collectionId, offset, limit, whereClause],
+    // Paging, refetches and next-page prefetches are routine reads, so they
+    // stay out of the audit log like counts do.
+    const pageQuery = (pageOffset: number) => ({
+        queryKey: ["items", collectionId, pageOffset, pageSize, whereClause, whereDocument],
         queryFn: () =>
-            getItems(collectionId, {
-                limit,
-                offset,
+            fetchItems(collectionId, {
+                limit: pageSize,
+                offset: pageOffset,
                 include: ["documents", "metadatas", "embeddings"],
                 where: whereClause,
-            }),
+                where_document: whereDocument,
+            }, scope),
+    });
+
+    const { data, isLoading, isFetching, error } = useQuery({
+        ...pageQuery(offset),
+        placeholderData: keepPreviousData,
+        enabled: docFiltersValid,
+    });
+
+    const countQuery = useQuery({
+        queryKey: ["collectionCount", collectionId],
+        queryFn: () => getCollectionCount(collectionId, scope),
     });
 
+    // Chroma cannot count filtered results, so the total is only known unfiltered
+    const total = whereClause || whereDocument ? null : countQuery.data ?? null;
+    const rowCount = data?.ids.length ?? 0;
+    const hasNext = total !== null ? offset + rowCount < total : rowCount === pageSize;
+
+    // Warm the cache with the next page
+    useEffect(() => {
+        if (data && hasNext && docFiltersValid) void queryClient.prefetchQuery(pageQuery(offset + pageSize));
+    }, [data, hasNext, docFiltersValid, offset, pageSize, whereClause, whereDocument, collectionId]);
+
     const rows: ItemRow[] = useMemo(() => {
         if (!data) return [];
         return data.ids.map((id, i) => ({
@@ -360,8 +513,32 @@ function BrowseTab({
             {
                 accessorKey: "id",
                 header: "ID",
-                cell: ({ getValue }) => (
-                    <span className="font-mono text-xs">{String(getValue())}</span>
+                cell: ({ getValue, row }) => (
+                    <span className="flex items-center gap-1">
+                        <BookmarkStar
+                            collectionId={collectionId}
+                            collectionName={collectionName}
+                            itemId={String(getValue())}
+                            size={13}
+                        />
+                        <span className="font-mono text-xs">{String(getValue())}</span>
+                        {row.original.embeddingDims ? (
+                            <button
+                                type="button"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDrawerItem(row.original);
+                                    setEditing(false);
+                                    setShowSimilar(true);
+                                }}
+                                className="p-0.5 rounded cursor-pointer"
+                                style={{ color: "var(--color-text-dim)" }}
+                                title="Find similar records"
+                            >
+                                <Sparkles size={12} />
+                            </button>
+                        ) : null}
+                    </span>
                 ),
             },
             {
@@ -406,14 +583,76 @@ function BrowseTab({
                 },
             },
         ],
-        [],
+        [collectionId, collectionName],
     );
 
+    // Metadata sample beyond the current page, fetched while editing to flag conflicting key types
+    const typeSampleQuery = useQuery({
+        queryKey: ["metadata-types", collectionId],
+        queryFn: () => fetchItems(collectionId, { limit: METADATA_TYPE_SAMPLE, include: ["metadatas"] }, scope),
+        enabled: editing,
+    });
+
+    // Key types seen on other records (the sample plus the loaded page)
+    const { existingTypes, typeSampleSize } = useMemo(() => {
+        const others = new Map<string, Record<string, unknown> | null>();
+        typeSampleQuery.data?.ids.forEach((id, i) => others.set(id, typeSampleQuery.data!.metadatas?.[i] ?? null));
+        rows.forEach((r) => others.set(r.id, r.metadata));
+        if (drawerItem) others.delete(drawerItem.id);
+        return { existingTypes: inferMetadataTypes([...others.values()]), typeSampleSize: others.size };
+    }, [typeSampleQuery.data, rows, drawerItem?.id]);
+
+    const closeDrawer = () => {
+        setDrawerItem(null);
+        setEditing(false);
+        setShowSimilar(false);
+    };
+
+    const handleSave = async ({ mode, data }: RecordSave) => {
+        setSaving(true);
+        try {
+            if (mode === "update") {
+                await updateItems(collectionId, data, scope);
+                toast.success("Record updated");
+            } else {
+                await upsertItems(collectionId, data, scope);
+                toast.success(`Saved as "${data.ids[0]}"`);
+            }
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ["items", collectionId] }),
+                queryClient.invalidateQueries({ queryKey: ["sample", collectionId] }),
+                queryClient.invalidateQueries({ queryKey: ["collectionCount", collectionId] }),
+                queryClient.invalidateQueries({ queryKey: ["metadata-types", collectionId] }),
+            ]);
+            closeDrawer();
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
     const handleBulkDelete = (selected: ItemRow[]) => {
         setPendingDeleteIds(selected.map((r) => r.id));
         setShowDeleteModal(true);
     };
 
+    const handleQueryCentroid = (selected: ItemRow[]) => {
+        const embedded = selected.filter((r) => r.embedding);
+        if (embedded.length === 0) {
+            toast.error("None of the selected records has a stored embedding");
+            return;
+        }
+        try {
+            onQueryCentroid({
+                ids: embedded.map((r) => r.id),
+                vector: meanVector(embedded.map((r) => r.embedding!)),
+            });
+        } catch (err) {
+            toast.error((err as Error).message);
+        }
+    };
+
     if (isLoading) {
         return <SkeletonTable rows={8} cols={4} />;
     }
@@ -424,9 +663,9 @@ function BrowseTab({
 
     return (
         <>
-            {/* Metadata filters */}
+            {/* Metadata and document filters */}
             <div
-                className="p-4 rounded-2xl"
+                className="p-4 rounded-2xl space-y-4"
                 style={{
                     background: "var(--color-bg-card)",
                     border: "1px solid var(--color-border)",
@@ -438,8 +677,22 @@ function BrowseTab({
                         setFilters(f);
                         setOffset(0);
                     }}
+                    rawWhere={rawWhere}
+                    onRawWhereChange={(w) => {
+                        setRawWhere(w);
+                        setOffset(0);
+                    }}
                     availableKeys={metadataKeys}
                 />
+                <DocumentFilterBuilder
+                    filters={docFilters}
+                    mode={docFilterMode}
+                    onChange={(f, mode) => {
+                        setDocFilters(f);
+                        setDocFilterMode(mode);
+                        setOffset(0);
+                    }}
+                />
             </div>
 
             <DataTable
@@ -447,32 +700,38 @@ function BrowseTab({
                 columns={columns}
                 onRowClick={setDrawerItem}
                 enableSelection
+                manualPagination
                 onBulkDelete={handleBulkDelete}
-                exportFilename={`collection-${collectionId}`}
-            />
-
-            {/* Offset pagination */}
-            <div className="flex flex-col sm:flex-row justify-between items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
-                <span>Showing {rows.length} items (offset {offset})</span>
-                <div className="flex gap-2">
+                selectionActions={(selected) => (
                     <button
-                        onClick={() => setOffset(Math.max(0, offset - limit))}
-                        disabled={offset === 0}
-                        className="px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-30"
-                        style={{ background: "var(--color-bg-elevated)", border: "1px solid var(--color-border)" }}
-                    >
-                        ← Prev
-                    </button>
-                    <button
-                        onClick={() => setOffset(offset + limit)}
-                        disabled={rows.length < limit}
-                        className="px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-30"
-                        style={{ background: "var(--color-bg-elevated)", border: "1px solid var(--color-border)" }}
+                        onClick={() => handleQueryCentroid(selected)}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium cursor-pointer transition-colors"
+                        style={{
+                            background: "var(--color-accent-glow)",
+                            color: "var(--color-accent)",
+                            border: "1px solid var(--color-border)",
+                        }}
+                        title="Query with the mean embedding of the selected records"
                     >
-                        Next →
+                        <Crosshair size={14} />
+                        Query centroid ({selected.length})
                     </button>
-                </div>
-            </div>
+                )}
+                exportFilename={`collection-${collectionId}`}
+            />
+
+            <ServerPagination
+                offset={offset}
+                pageSize={pageSize}
+                rowCount={rowCount}
+                total={total}
+                fetching={isFetching}
+                onOffsetChange={setOffset}
+                onPageSizeChange={(size) => {
+                    setPageSize(size);
+                    setOffset(Math.floor(offset / size) * size);
+                }}
+            />
 
             {/* Bulk delete confirm modal */}
             <Modal
@@ -515,11 +774,73 @@ function BrowseTab({
             {/* Drawer */}
             <RecordDrawer
                 open={!!drawerItem}
-                onClose={() => setDrawerItem(null)}
-                title={drawerItem?.id ?? ""}
+                onClose={closeDrawer}
+                title={editing ? `Edit ${drawerItem?.id ?? ""}` : drawerItem?.id ?? ""}
+                actions={
+                    drawerItem && (
+                        <BookmarkStar
+                            collectionId={collectionId}
+                            collectionName={collectionName}
+                            itemId={drawerItem.id}
+                            size={18}
+                        />
+                    )
+                }
             >
-                {drawerItem && (
+                {drawerItem && editing && (
+                    <RecordEditor
+                        key={drawerItem.id}
+                        record={drawerItem}
+                        existingTypes={existingTypes}
+                        typeSampleSize={typeSampleSize}
+                        typeSampleLoading={typeSampleQuery.isLoading}
+                        embeddingDims={embeddingDims}
+                        saving={saving}
+                        onCancel={() => setEditing(false)}
+                        onSave={handleSave}
+                    />
+                )}
+                {drawerItem && !editing && (
                     <div className="space-y-4 text-sm">
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={() => setShowSimilar((v) => !v)}
+                                disabled={!drawerItem.embeddingDims}
+                                className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                                style={{
+                                    background: showSimilar ? "var(--color-accent)" : "var(--color-accent-glow)",
+                                    color: showSimilar ? "#fff" : "var(--color-accent)",
+                                }}
+                                title={drawerItem.embeddingDims ? undefined : "This record has no stored embedding"}
+                            >
+                                <Sparkles size={12} /> Find similar
+                            </button>
+                            <button
+                                onClick={() => setEditing(true)}
+                                className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                                style={{
+                                    background: "var(--color-accent-glow)",
+                                    color: "var(--color-accent)",
+                                }}
+                            >
+                                <Pencil size={12} /> Edit record
+                            </button>
+                        </div>
+                        {showSimilar && (
+                            <SimilarRecords
+                                collectionId={collectionId}
+                                itemId={drawerItem.id}
+                                onSelect={(item) =>
+                                    setDrawerItem({
+                                        id: item.id,
+                                        document: item.document,
+                                        metadata: item.metadata,
+                                        embedding: item.embedding,
+                                        embeddingDims: item.embedding?.length ?? null,
+                                    })
+                                }
+                            />
+                        )}
                         <Section title="ID">
                             <code className="text-xs break-all">{drawerItem.id}</code>
                         </Section>
@@ -556,67 +877,361 @@ function BrowseTab({
    Query Tab
    ═════════════════════════════════════════════════════════════════════ */
 
+const QUERY_INCLUDE_OPTIONS = ["documents", "metadatas", "distances", "embeddings"] as const;
+const DEFAULT_QUERY_INCLUDE = ["documents", "metadatas", "distances"];
+
+type QueryInputMode = "text" | "vector" | "batch" | "centroid";
+
+const QUERY_INPUT_MODES: { key: QueryInputMode; label: string }[] = [
+    { key: "text", label: "Text" },
+    { key: "vector", label: "Vector" },
+    { key: "batch", label: "Batch" },
+    { key: "centroid", label: "Centroid" },
+];
+
+/** Mean embedding of records selected in Browse. */
+interface QueryCentroid {
+    ids: string[];
+    vector: number[];
+}
+
+interface QueryResultRow {
+    id: string;
+    distance: number | null;
+    document: string | null;
+    metadata: Record<string, unknown> | null;
+    embeddingDims: number | null;
+    embedding: number[] | null;
+    /** Relevance-label topic of the query that returned this row. */
+    labelId: string;
+}
+
+interface QueryResultGroup {
+    label: string;
+    /** The query text, absent for vector and centroid queries. */
+    text: string | null;
+    /** The query embedding when it is known in the browser. */
+    queryVector: number[] | null;
+    labelQuery: LabelQuery;
+    labelId: string;
+    /** The top nResults candidates. */
+    rows: QueryResultRow[];
+    /** Everything fetched, which is more than rows while distance analysis is on. */
+    candidates: QueryResultRow[];
+}
+
+/** Form state for a saved or historical query; filters fall back to raw JSON when the builders cannot show them. */
+function queryForm(spec: QuerySpec | null) {
+    const docs = spec?.whereDocument ? documentFiltersFromWhere(spec.whereDocument) : null;
+    const filters = spec?.where ? filtersFromWhere(spec.where) : null;
+    const inputMode: QueryInputMode = spec?.centroidOf
+        ? "centroid"
+        : spec?.vector
+          ? "vector"
+          : spec?.texts
+            ? "batch"
+            : "text";
+    return {
+        inputMode,
+        queryText:
+            inputMode === "vector"
+                ? JSON.stringify(spec!.vector)
+                : inputMode === "batch"
+                  ? spec!.texts!.join("\n")
+                  : spec?.text ?? "",
+        centroid: spec?.centroidOf && spec.vector ? { ids: spec.centroidOf, vector: spec.vector } : null,
+        nResults: spec?.nResults ?? 10,
+        include: spec?.include ?? DEFAULT_QUERY_INCLUDE,
+        filters: filters ?? emptyFilterGroup(),
+        rawWhere: spec?.where && !filters ? spec.where : null,
+        docFilters: docs?.filters ?? [],
+        docFilterMode: docs?.mode ?? ("$and" as DocumentFilterMode),
+    };
+}
+
 function QueryTab({
     collectionId,
+    collectionName,
     metadataKeys,
+    embeddingDims,
+    savedQueryId,
+    onSavedQueryHandled,
+    centroid: centroidProp,
+    onCentroidHandled,
 }: {
     collectionId: string;
+    collectionName: string;
     metadataKeys: string[];
+    /** Collection dimensionality, used to reject mismatched query vectors. */
+    embeddingDims: number | null;
+    /** Saved query to run on mount, e.g. picked from the command palette. */
+    savedQueryId?: string | null;
+    onSavedQueryHandled?: () => void;
+    /** Centroid handed over from Browse; switches the form to centroid mode. */
+    centroid?: QueryCentroid | null;
+    onCentroidHandled?: () => void;
 }) {
-    const [queryText, setQueryText] = useState("");
-    const [nResults, setNResults] = useState(10);
-    const [filters, setFilters] = useState<MetadataFilter[]>([]);
-    const [results, setResults] = useState<QueryResultRow[] | null>(null);
+    const { providers } = useEmbeddingProviders();
+    const { activeProfile } = useProfiles();
+    const providerOverride = getCollectionProviderId(collectionId) ?? "";
+    const profileDefault = providers.find((p) => p.id === getProfileProviderId(activeProfile?.id ?? null));
+    const provider = resolveEmbeddingProvider(collectionId, activeProfile?.id ?? null);
+    const manualVector = provider?.kind === "manual";
+
+    // Start from the last query run on this collection
+    const [initial] = useState(() => queryForm(getLastQuery(collectionId)));
+    const [inputMode, setInputMode] = useState<QueryInputMode>(centroidProp ? "centroid" : initial.inputMode);
+    const [queryText, setQueryText] = useState(initial.queryText);
+    const [centroid, setCentroid] = useState<QueryCentroid | null>(centroidProp ?? initial.centroid);
+    const [nResults, setNResults] = useState(initial.nResults);
+    const [include, setInclude] = useState<string[]>(initial.include);
+    const [filters, setFilters] = useState<MetadataFilterGroup>(initial.filters);
+    const [rawWhere, setRawWhere] = useState<Record<string, unknown> | null>(initial.rawWhere);
+    const [docFilters, setDocFilters] = useState<DocumentFilter[]>(initial.docFilters);
+    const [docFilterMode, setDocFilterMode] = useState<DocumentFilterMode>(initial.docFilterMode);
+    const [results, setResults] = useState<QueryResultGroup[] | null>(null);
+    const [analyze, setAnalyze] = useState(false);
+    const [candidateCount, setCandidateCount] = useState(200);
+    const [threshold, setThreshold] = useState<number | null>(null);
+    const [rerank, setRerank] = useState(false);
+    const [mmr, setMmr] = useState(false);
+    const [inspectedGroup, setInspectedGroup] = useState(0);
+    const [reviewGroup, setReviewGroup] = useState<number | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const scope = useScope();
+    const vectorFileRef = useRef<HTMLInputElement>(null);
 
-    interface QueryResultRow {
-        id: string;
-        distance: number | null;
-        document: string | null;
-        metadata: Record<string, unknown> | null;
-    }
+    // A "paste vector" provider cannot embed text, so text input falls back to a vector
+    const mode: QueryInputMode = manualVector && (inputMode === "text" || inputMode === "batch") ? "vector" : inputMode;
+
+    useEffect(() => {
+        if (centroidProp) onCentroidHandled?.();
+    }, [centroidProp]);
+
+    const queryInput = (): Pick<QuerySpec, "text" | "texts" | "vector" | "centroidOf"> => {
+        switch (mode) {
+            case "text":
+                if (!queryText.trim()) throw new Error("Enter a query text to search by similarity.");
+                return { text: queryText.trim() };
+            case "vector":
+                if (!queryText.trim()) throw new Error("Paste or upload a query vector to search by similarity.");
+                return { vector: parseVector(queryText) };
+            case "batch": {
+                const texts = queryText.split("\n").map((t) => t.trim()).filter(Boolean);
+                if (texts.length === 0) throw new Error("Enter one query text per line.");
+                return { texts };
+            }
+            case "centroid":
+                if (!centroid) throw new Error("Select records in Browse and choose \"Query centroid\".");
+                return { vector: centroid.vector, centroidOf: centroid.ids };
+        }
+    };
+
+    /** The form as a QuerySpec; throws when the query input is missing or malformed. */
+    const buildSpec = (): QuerySpec => {
+        const docError = documentFilterError(docFilters);
+        if (docError) throw new Error(docError);
+        const where = rawWhere ?? buildWhereClause(filters);
+        const whereDocument = buildWhereDocument(docFilters, docFilterMode);
+        return {
+            ...queryInput(),
+            nResults,
+            include,
+            ...(where ? { where } : {}),
+            ...(whereDocument ? { whereDocument } : {}),
+        };
+    };
+
+    const currentSpec = useMemo(() => {
+        try {
+            return buildSpec();
+        } catch {
+            return null;
+        }
+    }, [queryText, mode, centroid, nResults, include, filters, rawWhere, docFilters, docFilterMode]);
+
+    // Dimension check shown while a vector is typed or pasted
+    const vectorDims = useMemo(() => {
+        if (mode !== "vector" || !queryText.trim()) return null;
+        try {
+            return parseVector(queryText).length;
+        } catch {
+            return null;
+        }
+    }, [mode, queryText]);
+
+    const loadVectorFile = async (file: File) => {
+        try {
+            const vector = parseVector(await file.text());
+            setQueryText(JSON.stringify(vector));
+        } catch (err) {
+            toast.error(`${file.name}: ${(err as Error).message}`);
+        }
+    };
+
+    const loadSpec = (spec: QuerySpec) => {
+        const form = queryForm(spec);
+        setInputMode(form.inputMode);
+        setQueryText(form.queryText);
+        if (form.centroid) setCentroid(form.centroid);
+        setNResults(form.nResults);
+        setInclude(form.include);
+        setFilters(form.filters);
+        setRawWhere(form.rawWhere);
+        setDocFilters(form.docFilters);
+        setDocFilterMode(form.docFilterMode);
+    };
 
-    const runQuery = async () => {
-        if (!queryText.trim()) {
-            setError("Enter a query text to search by similarity.");
+    const runQuery = async (given?: QuerySpec) => {
+        let spec: QuerySpec;
+        try {
+            spec = given ?? buildSpec();
+        } catch (err) {
+            setError((err as Error).message);
             return;
         }
         setLoading(true);
         setError(null);
+        const started = performance.now();
+        let resultCount: number | null = null;
+        let failure: string | undefined;
         try {
-            const where = buildWhereClause(filters);
+            const texts = spec.texts ?? (spec.text !== undefined ? [spec.text] : []);
+
+            // Embed locally when a provider is assigned; otherwise Chroma embeds the text
+            let embeddings: number[][] | null = spec.vector ? [spec.vector] : null;
+            if (!embeddings && provider) {
+                if (manualVector) throw new Error(`"${provider.name}" needs a pasted vector; switch to Vector input`);
+                embeddings = await embedTexts(provider, texts);
+            }
+            const mismatch = embeddings?.find((e) => embeddingDims !== null && e.length !== embeddingDims);
+            if (mismatch) {
+                throw new Error(
+                    `Query vector has ${mismatch.length} dimensions but the collection expects ${embeddingDims}`,
+                );
+            }
 
+            // Distance analysis, re-ranking and MMR work on a wider candidate pool
+            const widen = analyze || rerank || mmr;
             const resp = await queryCollection(collectionId, {
-                query_texts: [queryText.trim()],
-                n_results: nResults,
-                include: ["documents", "metadatas", "distances"],
-                where,
+                ...(embeddings ? { query_embeddings: embeddings } : { query_texts: texts }),
+                n_results: widen ? Math.max(spec.nResults, candidateCount) : spec.nResults,
+                include: widen
+                    ? QUERY_INCLUDE_OPTIONS.filter(
+                          (f) =>
+                              f === "distances" ||
+                              (f === "metadatas" && analyze) ||
+                              (f === "documents" && rerank) ||
+                              (f === "embeddings" && mmr) ||
+                              spec.include.includes(f),
+                      )
+                    : spec.include,
+                where: spec.where,
+                where_document: spec.whereDocument,
+            }, scope);
+
+            // One group per query; Chroma answers a batch in request order
+            const groups: QueryResultGroup[] = resp.ids.map((ids, q) => {
+                const labelQuery: LabelQuery = spec.vector ? { vector: spec.vector } : { text: texts[q] ?? "" };
+                const labelId = labelQueryId(labelQuery);
+                const candidates = ids.map((id, i) => ({
+                    id,
+                    distance: resp.distances?.[q]?.[i] ?? null,
+                    document: resp.documents?.[q]?.[i] ?? null,
+                    metadata: resp.metadatas?.[q]?.[i] ?? null,
+                    embeddingDims: resp.embeddings?.[q]?.[i]?.length ?? null,
+                    embedding: resp.embeddings?.[q]?.[i] ?? null,
+                    labelId,
+                }));
+                return {
+                    label: spec.centroidOf
+                        ? `Centroid of ${spec.centroidOf.length} records`
+                        : texts[q] ?? "Query vector",
+                    text: spec.vector ? null : texts[q] ?? null,
+                    queryVector: embeddings?.[q] ?? null,
+                    labelQuery,
+                    labelId,
+                    rows: candidates.slice(0, spec.nResults),
+                    candidates,
+                };
             });
 
-            const ids = resp.ids[0] ?? [];
-            const rows: QueryResultRow[] = ids.map((id, i) => ({
-                id,
-                distance: resp.distances?.[0]?.[i] ?? null,
-                document: resp.documents?.[0]?.[i] ?? null,
-                metadata: resp.metadatas?.[0]?.[i] ?? null,
-            }));
-
-            setResults(rows);
+            resultCount = groups.reduce((n, g) => n + g.rows.length, 0);
+            setResults(groups);
+            setInspectedGroup(0);
         } catch (err) {
-            setError((err as Error).message);
+            failure = (err as Error).message;
+            setError(failure);
         } finally {
             setLoading(false);
+            try {
+                recordQueryHistory({
+                    collectionId,
+                    query: spec,
+                    durationMs: Math.round(performance.now() - started),
+                    resultCount,
+                    error: failure,
+                });
+            } catch (err) {
+                toast.error(`Query history not saved: ${(err as Error).message}`);
+            }
         }
     };
 
+    // Run a saved query handed over through the URL (command palette)
+    useEffect(() => {
+        if (!savedQueryId) return;
+        const saved = getSavedQuery(savedQueryId);
+        if (saved) {
+            loadSpec(saved.query);
+            void runQuery(saved.query);
+        } else {
+            toast.error("Saved query not found");
+        }
+        onSavedQueryHandled?.();
+    }, [savedQueryId]);
+
+    const allLabels = useRelevanceLabels();
+    const labels = useMemo(() => allLabels.filter((l) => l.collectionId === collectionId), [allLabels, collectionId]);
+    const judgementsById = useMemo(() => new Map(labels.map((l) => [l.id, l.judgements])), [labels]);
+    const labelQueries = useMemo(() => new Map(results?.map((g) => [g.labelId, g.labelQuery])), [results]);
+
+    const judge = (labelId: string, itemId: string, grade: RelevanceGrade | null) => {
+        const query = labelQueries.get(labelId);
+        if (query) setJudgement(collectionId, collectionName, query, itemId, grade);
+    };
+
+    const exportLabels = (format: "qrels" | "jsonl") => {
+        const text = format === "qrels" ? toQrels(labels) : toEvalJsonl(labels);
+        const blob = new Blob([text + "\n"], { type: format === "qrels" ? "text/plain" : "application/x-ndjson" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${collectionName}-labels.${format}`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    // Results within the distance threshold, when one is set
+    const visibleRows = (group: QueryResultGroup) =>
+        threshold === null ? group.rows : group.rows.filter((r) => r.distance != null && r.distance <= threshold);
+
     const columns: ColumnDef<QueryResultRow, unknown>[] = useMemo(
         () => [
             {
                 accessorKey: "id",
                 header: "ID",
                 cell: ({ getValue }) => (
-                    <span className="font-mono text-xs">{String(getValue())}</span>
+                    <span className="flex items-center gap-1">
+                        <BookmarkStar
+                            collectionId={collectionId}
+                            collectionName={collectionName}
+                            itemId={String(getValue())}
+                            size={13}
+                        />
+                        <span className="font-mono text-xs">{String(getValue())}</span>
+                    </span>
                 ),
             },
             {
@@ -656,10 +1271,68 @@ function QueryTab({
                     );
                 },
             },
+            {
+                accessorKey: "embeddingDims",
+                header: "Embedding",
+                cell: ({ getValue }) => {
+                    const d = getValue() as number | null;
+                    return (
+                        <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                            {d ? `${d}d` : "—"}
+                        </span>
+                    );
+                },
+            },
+            {
+                id: "relevance",
+                header: "Relevance",
+                cell: ({ row }) => {
+                    const grade = judgementsById.get(row.original.labelId)?.[row.original.id];
+                    return (
+                        <span className="flex items-center gap-1">
+                            {RELEVANCE_GRADES.map((g) => (
+                                <button
+                                    key={g.grade}
+                                    type="button"
+                                    onClick={() => judge(row.original.labelId, row.original.id, grade === g.grade ? null : g.grade)}
+                                    className="w-5 h-5 rounded text-[10px] font-bold cursor-pointer"
+                                    style={{
+                                        border: `1px solid ${g.color}`,
+                                        background: grade === g.grade ? g.color : "transparent",
+                                        color: grade === g.grade ? "#fff" : g.color,
+                                    }}
+                                    title={g.label}
+                                >
+                                    {g.shortcut}
+                                </button>
+                            ))}
+                        </span>
+                    );
+                },
+            },
         ],
-        [],
+        [collectionId, collectionName, judgementsById, labelQueries],
     );
 
+    const labelSummary = (group: QueryResultGroup, index: number) => {
+        const judged = judgementsById.get(group.labelId) ?? {};
+        const count = group.rows.filter((r) => judged[r.id] !== undefined).length;
+        return (
+            <span className="flex items-center gap-2 text-xs font-normal" style={{ color: "var(--color-text-dim)" }}>
+                {count} of {group.rows.length} labelled
+                <button
+                    type="button"
+                    onClick={() => setReviewGroup(index)}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg cursor-pointer"
+                    style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                    title="Judge results one at a time from the keyboard"
+                >
+                    <ClipboardCheck size={12} /> Review
+                </button>
+            </span>
+        );
+    };
+
     return (
         <div className="space-y-4">
             {/* Query form */}
@@ -670,52 +1343,258 @@ function QueryTab({
                     border: "1px solid var(--color-border)",
                 }}
             >
-                <div>
-                    <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
-                        Query Text
-                    </label>
-                    <textarea
-                        value={queryText}
-                        onChange={(e) => setQueryText(e.target.value)}
-                        rows={2}
-                        className="w-full px-4 py-2.5 rounded-xl text-sm outline-none resize-none"
+                <div className="flex flex-wrap items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    <Cpu size={14} />
+                    Embedding
+                    <select
+                        value={providerOverride}
+                        onChange={(e) => setCollectionProvider(collectionId, e.target.value || null)}
+                        className="px-2 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
                         style={{
                             background: "var(--color-bg-input)",
                             border: "1px solid var(--color-border)",
                             color: "var(--color-text)",
                         }}
-                        placeholder="Enter text to search for similar documents…"
-                    />
+                    >
+                        <option value="">Profile default ({profileDefault?.name ?? "server-side"})</option>
+                        <option value={SERVER_SIDE}>Server-side</option>
+                        {providers.map((p) => (
+                            <option key={p.id} value={p.id}>
+                                {p.name}
+                            </option>
+                        ))}
+                    </select>
+                    {embeddingDims !== null && (
+                        <span style={{ color: "var(--color-text-dim)" }}>collection uses {embeddingDims} dims</span>
+                    )}
                 </div>
-                <div className="flex flex-col sm:flex-row gap-4">
-                    <div className="sm:w-32">
-                        <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
-                            Results (n)
+                <div>
+                    <div className="flex items-center justify-between gap-2 mb-1.5">
+                        <label className="block text-xs font-medium" style={{ color: "var(--color-text-muted)" }}>
+                            {mode === "vector"
+                                ? "Query Vector"
+                                : mode === "batch"
+                                  ? "Query Texts (one per line)"
+                                  : mode === "centroid"
+                                    ? "Centroid"
+                                    : "Query Text"}
                         </label>
-                        <input
-                            type="number"
-                            value={nResults}
-                            min={1}
-                            max={100}
-                            onChange={(e) => setNResults(Number(e.target.value))}
-                            className="w-full px-4 py-2.5 rounded-xl text-sm outline-none"
+                        <div
+                            className="flex rounded-lg overflow-hidden text-xs"
+                            style={{ border: "1px solid var(--color-border)" }}
+                        >
+                            {QUERY_INPUT_MODES.map((m) => (
+                                <button
+                                    key={m.key}
+                                    type="button"
+                                    onClick={() => setInputMode(m.key)}
+                                    disabled={manualVector && (m.key === "text" || m.key === "batch")}
+                                    className="px-2 py-1 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                                    style={{
+                                        background: mode === m.key ? "var(--color-accent-glow)" : "transparent",
+                                        color: mode === m.key ? "var(--color-accent)" : "var(--color-text-muted)",
+                                    }}
+                                >
+                                    {m.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {mode === "centroid" ? (
+                        <div
+                            className="px-4 py-3 rounded-xl text-xs space-y-1"
+                            style={{
+                                background: "var(--color-bg-input)",
+                                border: "1px solid var(--color-border)",
+                                color: "var(--color-text-muted)",
+                            }}
+                        >
+                            {centroid ? (
+                                <>
+                                    <p>
+                                        Mean of <strong style={{ color: "var(--color-text)" }}>{centroid.ids.length}</strong>{" "}
+                                        record embeddings ({centroid.vector.length} dims)
+                                    </p>
+                                    <p className="font-mono truncate" style={{ color: "var(--color-text-dim)" }}>
+                                        {centroid.ids.join(", ")}
+                                    </p>
+                                </>
+                            ) : (
+                                <p>Select records in the Browse tab and choose "Query centroid".</p>
+                            )}
+                        </div>
+                    ) : (
+                        <textarea
+                            value={queryText}
+                            onChange={(e) => setQueryText(e.target.value)}
+                            rows={mode === "text" ? 2 : 4}
+                            className="w-full px-4 py-2.5 rounded-xl text-sm outline-none resize-none"
                             style={{
                                 background: "var(--color-bg-input)",
                                 border: "1px solid var(--color-border)",
                                 color: "var(--color-text)",
                             }}
+                            placeholder={
+                                mode === "vector"
+                                    ? "Paste a vector: [0.12, -0.03, …] or comma-separated numbers"
+                                    : mode === "batch"
+                                      ? "One query per line…"
+                                      : "Enter text to search for similar documents…"
+                            }
                         />
+                    )}
+                    {mode === "vector" && (
+                        <div className="flex items-center gap-3 mt-1.5 text-xs">
+                            <button
+                                type="button"
+                                onClick={() => vectorFileRef.current?.click()}
+                                className="flex items-center gap-1 cursor-pointer"
+                                style={{ color: "var(--color-accent)" }}
+                            >
+                                <Upload size={12} /> Upload vector file
+                            </button>
+                            <input
+                                ref={vectorFileRef}
+                                type="file"
+                                accept=".json,.txt,.csv,application/json,text/plain"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) void loadVectorFile(file);
+                                    e.target.value = "";
+                                }}
+                            />
+                            {vectorDims !== null && (
+                                <span
+                                    style={{
+                                        color:
+                                            embeddingDims !== null && vectorDims !== embeddingDims
+                                                ? "var(--color-error)"
+                                                : "var(--color-text-dim)",
+                                    }}
+                                >
+                                    {vectorDims} dims
+                                    {embeddingDims !== null && vectorDims !== embeddingDims && ` — collection expects ${embeddingDims}`}
+                                </span>
+                            )}
+                        </div>
+                    )}
+                </div>
+                <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="sm:w-32 space-y-4">
+                        <div>
+                            <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                                Results (n)
+                            </label>
+                            <input
+                                type="number"
+                                value={nResults}
+                                min={1}
+                                max={100}
+                                onChange={(e) => setNResults(Number(e.target.value))}
+                                className="w-full px-4 py-2.5 rounded-xl text-sm outline-none"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-text)",
+                                }}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                                Include
+                            </label>
+                            {QUERY_INCLUDE_OPTIONS.map((field) => (
+                                <label
+                                    key={field}
+                                    className="flex items-center gap-2 text-xs py-0.5 cursor-pointer"
+                                    style={{ color: "var(--color-text-muted)" }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={include.includes(field)}
+                                        onChange={(e) =>
+                                            setInclude(
+                                                e.target.checked
+                                                    ? QUERY_INCLUDE_OPTIONS.filter((f) => f === field || include.includes(f))
+                                                    : include.filter((f) => f !== field),
+                                            )
+                                        }
+                                    />
+                                    {field}
+                                </label>
+                            ))}
+                        </div>
+                        <div>
+                            <label
+                                className="flex items-center gap-2 text-xs font-medium cursor-pointer"
+                                style={{ color: "var(--color-text-muted)" }}
+                                title="Fetch a larger candidate set and chart its distances to tune a relevance threshold"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={analyze}
+                                    onChange={(e) => {
+                                        setAnalyze(e.target.checked);
+                                        if (!e.target.checked) setThreshold(null);
+                                    }}
+                                />
+                                Distance analysis
+                            </label>
+                            <label
+                                className="flex items-center gap-2 text-xs font-medium cursor-pointer mt-1"
+                                style={{ color: "var(--color-text-muted)" }}
+                                title="Re-rank a larger candidate set with BM25 keyword scores and compare the orders"
+                            >
+                                <input type="checkbox" checked={rerank} onChange={(e) => setRerank(e.target.checked)} />
+                                Hybrid re-rank
+                            </label>
+                            <label
+                                className="flex items-center gap-2 text-xs font-medium cursor-pointer mt-1"
+                                style={{ color: "var(--color-text-muted)" }}
+                                title="Diversify a larger candidate set with maximal marginal relevance and compare redundancy"
+                            >
+                                <input type="checkbox" checked={mmr} onChange={(e) => setMmr(e.target.checked)} />
+                                MMR diversify
+                            </label>
+                            {(analyze || rerank || mmr) && (
+                                <input
+                                    type="number"
+                                    value={candidateCount}
+                                    min={1}
+                                    max={1000}
+                                    onChange={(e) => setCandidateCount(Number(e.target.value))}
+                                    title="Candidates to fetch for analysis and re-ranking"
+                                    className="w-full mt-1.5 px-3 py-2 rounded-xl text-xs outline-none"
+                                    style={{
+                                        background: "var(--color-bg-input)",
+                                        border: "1px solid var(--color-border)",
+                                        color: "var(--color-text)",
+                                    }}
+                                />
+                            )}
+                        </div>
                     </div>
-                    <div className="flex-1">
+                    <div className="flex-1 space-y-4">
                         <MetadataFilterBuilder
                             filters={filters}
                             onChange={setFilters}
+                            rawWhere={rawWhere}
+                            onRawWhereChange={setRawWhere}
                             availableKeys={metadataKeys}
                         />
+                        <DocumentFilterBuilder
+                            filters={docFilters}
+                            mode={docFilterMode}
+                            onChange={(f, mode) => {
+                                setDocFilters(f);
+                                setDocFilterMode(mode);
+                            }}
+                        />
                     </div>
                 </div>
                 <button
-                    onClick={runQuery}
+                    onClick={() => void runQuery()}
                     disabled={loading}
                     className="px-6 py-2.5 rounded-xl text-sm font-semibold flex items-center gap-2 cursor-pointer disabled:opacity-60"
                     style={{ background: "var(--color-accent)", color: "#fff" }}
@@ -729,15 +1608,232 @@ function QueryTab({
                 </button>
             </div>
 
+            <SavedQueriesPanel
+                collectionId={collectionId}
+                collectionName={collectionName}
+                current={currentSpec}
+                onLoad={loadSpec}
+                onRun={(spec) => {
+                    loadSpec(spec);
+                    void runQuery(spec);
+                }}
+            />
+
             {error && <ErrorInline message={error} />}
 
-            {results && (
+            {(analyze || rerank || mmr) && results && results.length > 0 && (
+                <div className="space-y-2">
+                    {results.length > 1 && (
+                        <select
+                            value={inspectedGroup}
+                            onChange={(e) => setInspectedGroup(Number(e.target.value))}
+                            className="text-xs px-3 py-2 rounded-xl outline-none cursor-pointer"
+                            style={{
+                                background: "var(--color-bg-input)",
+                                border: "1px solid var(--color-border)",
+                                color: "var(--color-text)",
+                            }}
+                        >
+                            {results.map((g, i) => (
+                                <option key={i} value={i}>
+                                    #{i + 1} {g.label}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    {analyze && (
+                        <DistanceDistribution
+                            candidates={results[inspectedGroup]?.candidates ?? []}
+                            threshold={threshold}
+                            onThresholdChange={setThreshold}
+                        />
+                    )}
+                    {rerank && results[inspectedGroup] && (
+                        <RerankComparison
+                            key={`${inspectedGroup}-${results[inspectedGroup]!.text}`}
+                            candidates={results[inspectedGroup]!.candidates}
+                            query={results[inspectedGroup]!.text ?? ""}
+                            nResults={results[inspectedGroup]!.rows.length}
+                        />
+                    )}
+                    {mmr && results[inspectedGroup] && (
+                        <MmrComparison
+                            candidates={results[inspectedGroup]!.candidates}
+                            queryVector={results[inspectedGroup]!.queryVector}
+                            nResults={results[inspectedGroup]!.rows.length}
+                        />
+                    )}
+                </div>
+            )}
+
+            {threshold !== null && results && (
+                <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    Showing results with distance ≤ {threshold.toFixed(4)}.
+                </p>
+            )}
+
+            {results && results.length > 0 && (
+                <div className="flex items-center gap-3 flex-wrap text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    {results.length === 1 && labelSummary(results[0]!, 0)}
+                    <span className="flex-1" />
+                    <span style={{ color: "var(--color-text-dim)" }}>
+                        {labels.length} labelled queries in this collection
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => exportLabels("qrels")}
+                        disabled={labels.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg cursor-pointer disabled:opacity-40"
+                        style={{ border: "1px solid var(--color-border)" }}
+                        title="TREC qrels: topic 0 docid grade"
+                    >
+                        <Download size={12} /> qrels
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => exportLabels("jsonl")}
+                        disabled={labels.length === 0}
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg cursor-pointer disabled:opacity-40"
+                        style={{ border: "1px solid var(--color-border)" }}
+                        title="One query per line with graded relevant IDs (Evaluate tab format)"
+                    >
+                        <Download size={12} /> JSONL
+                    </button>
+                </div>
+            )}
+
+            {results?.length === 1 && (
                 <DataTable
-                    data={results}
+                    data={visibleRows(results[0]!)}
                     columns={columns}
                     exportFilename="query-results"
                 />
             )}
+            {results && results.length > 1 &&
+                results.map((group, i) => (
+                    <div key={i} className="space-y-2">
+                        <h3 className="text-sm font-semibold flex items-center gap-2">
+                            <span className="text-xs font-mono" style={{ color: "var(--color-text-dim)" }}>
+                                #{i + 1}
+                            </span>
+                            <span className="truncate">{group.label}</span>
+                            <span className="text-xs font-normal" style={{ color: "var(--color-text-dim)" }}>
+                                {visibleRows(group).length} results
+                            </span>
+                            <span className="flex-1" />
+                            {labelSummary(group, i)}
+                        </h3>
+                        <DataTable
+                            data={visibleRows(group)}
+                            columns={columns}
+                            exportFilename={`query-results-${i + 1}`}
+                        />
+                    </div>
+                ))}
+
+            {reviewGroup !== null && results?.[reviewGroup] && (
+                <RelevanceReviewQueue
+                    open
+                    onClose={() => setReviewGroup(null)}
+                    queryLabel={results[reviewGroup]!.label}
+                    items={results[reviewGroup]!.rows}
+                    judgements={judgementsById.get(results[reviewGroup]!.labelId) ?? {}}
+                    onJudge={(itemId, grade) => judge(results[reviewGroup]!.labelId, itemId, grade)}
+                />
+            )}
+        </div>
+    );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════
+   Evaluate Tab
+   ═════════════════════════════════════════════════════════════════════ */
+
+function EvaluateTab({
+    collectionId,
+    collectionName,
+    metadataKeys,
+    embeddingDims,
+    count,
+    space,
+}: {
+    collectionId: string;
+    collectionName: string;
+    metadataKeys: string[];
+    embeddingDims: number | null;
+    count: number | null;
+    space: DistanceSpace;
+}) {
+    useEmbeddingProviders();
+    const { activeProfile } = useProfiles();
+    const provider = resolveEmbeddingProvider(collectionId, activeProfile?.id ?? null);
+    const [view, setView] = useState<"labelled" | "golden" | "ann">("labelled");
+
+    const viewToggle = (
+        <div
+            className="inline-flex rounded-lg overflow-hidden text-xs"
+            style={{ border: "1px solid var(--color-border)" }}
+        >
+            {(
+                [
+                    ["labelled", "Labelled evaluation"],
+                    ["golden", "Golden queries"],
+                    ["ann", "ANN quality"],
+                ] as const
+            ).map(([key, label]) => (
+                <button
+                    key={key}
+                    type="button"
+                    onClick={() => setView(key)}
+                    className="px-3 py-1.5 cursor-pointer"
+                    style={{
+                        background: view === key ? "var(--color-accent-glow)" : "transparent",
+                        color: view === key ? "var(--color-accent)" : "var(--color-text-muted)",
+                    }}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (view === "ann") {
+        return (
+            <div className="space-y-4">
+                {viewToggle}
+                <AnnQualityPanel
+                    collectionId={collectionId}
+                    collectionName={collectionName}
+                    count={count}
+                    defaultSpace={space}
+                />
+            </div>
+        );
+    }
+
+    if (view === "golden") {
+        return (
+            <div className="space-y-4">
+                {viewToggle}
+                <GoldenQueriesPanel
+                    collectionId={collectionId}
+                    collectionName={collectionName}
+                    provider={provider}
+                    embeddingDims={embeddingDims}
+                />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {viewToggle}
+            <EvaluationPanel
+                collectionId={collectionId}
+                collectionName={collectionName}
+                metadataKeys={metadataKeys}
+                embeddingDims={embeddingDims}
+            />
         </div>
     );
 }
@@ -753,6 +1849,7 @@ function AnalyticsTab({
     collectionId: string;
     metadataKeys: string[];
 }) {
+    const scope = useScope();
     const snapshots = useMemo(() => getSnapshots(collectionId), [collectionId]);
 
     // Fetch a bigger sample for metadata distribution analysis
@@ -762,7 +1859,7 @@ function AnalyticsTab({
             getItems(collectionId, {
                 limit: 500,
                 include: ["metadatas"],
-            }),
+            }, scope),
         enabled: !!collectionId,
     });
 
@@ -826,6 +1923,7 @@ function AnalyticsTab({
 function VisualizeTab({ collectionId }: { collectionId: string }) {
     const [sampleSize, setSampleSize] = useState(200);
     const [fetched, setFetched] = useState(false);
+    const scope = useScope();
 
     const { data, isLoading, error } = useQuery({
         queryKey: ["embeddings", collectionId, sampleSize],
@@ -833,7 +1931,7 @@ function VisualizeTab({ collectionId }: { collectionId: string }) {
             getItems(collectionId, {
                 limit: sampleSize,
                 include: ["embeddings", "metadatas", "documents"],
-            }),
+            }, scope),
         enabled: fetched,
     });
 
@@ -994,11 +2092,13 @@ function SettingsTab({
 }) {
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [deleting, setDeleting] = useState(false);
+    const [showImport, setShowImport] = useState(false);
+    const scope = useScope();
 
     const handleDelete = async () => {
         setDeleting(true);
         try {
-            await deleteCollection(collection.name);
+            await deleteCollection(collection.name, scope);
             toast.success(`Deleted collection "${collection.name}"`);
             onDeleted();
         } catch (err) {
@@ -1103,7 +2203,7 @@ function SettingsTab({
                                     return;
                                 }
                                 toast.loading("Exporting…", { id: "export" });
-                                const all = await getAllItems(collection.id, totalCount);
+                                const all = await getAllItems(collection.id, totalCount, undefined, scope);
                                 const blob = new Blob([JSON.stringify({
                                     name: collection.name,
                                     metadata: collection.metadata,
@@ -1130,12 +2230,31 @@ function SettingsTab({
                     >
                         <Database size={15} /> Export JSON
                     </button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            color: "var(--color-text-muted)",
+                            border: "1px solid var(--color-border)",
+                        }}
+                    >
+                        <Upload size={15} /> Import JSON
+                    </button>
                 </div>
                 <p className="text-[11px] mt-2" style={{ color: "var(--color-text-dim)" }}>
-                    Export all items (IDs, documents, metadata, embeddings) as a JSON file.
+                    Export all items (IDs, documents, metadata, embeddings) as a JSON file, or
+                    restore an exported file into this or a new collection.
                 </p>
             </div>
 
+            <ImportBackupDialog
+                open={showImport}
+                onClose={() => setShowImport(false)}
+                scope={scope}
+                currentCollection={collection}
+            />
+
             {/* Delete modal */}
             <Modal
                 open={showDeleteModal}
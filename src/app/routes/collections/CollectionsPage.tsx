@@ -1,5 +1,6 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import {
     Layers,
     RefreshCw,
@@ -7,12 +8,25 @@ import {
     Hash,
     AlertCircle,
     Plus,
+    Upload,
 } from "lucide-react";
 import { listCollections, getCollectionCount } from "../../../lib/chromaClient";
 import { SkeletonCard } from "../../../components/common/Skeleton";
+import { CreateCollectionWizard } from "../../../components/common/CreateCollectionWizard";
+import { ImportBackupDialog } from "../../../components/common/ImportBackupDialog";
+import { useScope, scopedPath } from "../../../lib/scopeContext";
+import type { ChromaScope } from "../../../lib/storage";
 
 export function CollectionsPage() {
     const navigate = useNavigate();
+    const scope = useScope();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const showCreate = searchParams.get("new") === "1";
+    const [showImport, setShowImport] = useState(false);
+
+    const setShowCreate = (open: boolean) => {
+        setSearchParams(open ? { new: "1" } : {}, { replace: true });
+    };
 
     const {
         data: collections,
@@ -20,8 +34,8 @@ export function CollectionsPage() {
         error,
         refetch,
     } = useQuery({
-        queryKey: ["collections"],
-        queryFn: listCollections,
+        queryKey: ["collections", scope.tenant, scope.database],
+        queryFn: () => listCollections(scope),
     });
 
     return (
@@ -37,20 +51,47 @@ export function CollectionsPage() {
                     >
                         <Layers size={20} color="#fff" />
                     </div>
-                    <h2 className="text-xl font-bold">Collections</h2>
+                    <div>
+                        <h2 className="text-xl font-bold">Collections</h2>
+                        <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                            {scope.tenant} / {scope.database}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 self-start sm:self-auto">
+                    <button
+                        onClick={() => refetch()}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer transition-colors"
+                        style={{
+                            background: "var(--color-bg-card)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        <RefreshCw size={14} />
+                        Refresh
+                    </button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer transition-colors"
+                        style={{
+                            background: "var(--color-bg-card)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        <Upload size={14} />
+                        Import
+                    </button>
+                    <button
+                        onClick={() => setShowCreate(true)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold cursor-pointer transition-colors"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <Plus size={14} />
+                        New Collection
+                    </button>
                 </div>
-                <button
-                    onClick={() => refetch()}
-                    className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer transition-colors self-start sm:self-auto"
-                    style={{
-                        background: "var(--color-bg-card)",
-                        border: "1px solid var(--color-border)",
-                        color: "var(--color-text-muted)",
-                    }}
-                >
-                    <RefreshCw size={14} />
-                    Refresh
-                </button>
             </div>
 
             {/* Loading skeleton */}
@@ -105,7 +146,7 @@ export function CollectionsPage() {
                         No collections found.
                     </p>
                     <p className="text-xs mt-1" style={{ color: "var(--color-text-dim)" }}>
-                        Create a collection using the Chroma client library.
+                        Use "New Collection" to create one.
                     </p>
                 </div>
             )}
@@ -117,27 +158,41 @@ export function CollectionsPage() {
                         <CollectionCard
                             key={col.id}
                             collection={col}
+                            scope={scope}
                             onClick={() =>
-                                navigate(`/collections/${encodeURIComponent(col.name)}`)
+                                navigate(scopedPath(scope, `/collections/${encodeURIComponent(col.name)}`))
                             }
                         />
                     ))}
                 </div>
             )}
+
+            <CreateCollectionWizard
+                open={showCreate}
+                onClose={() => setShowCreate(false)}
+                scope={scope}
+            />
+            <ImportBackupDialog
+                open={showImport}
+                onClose={() => setShowImport(false)}
+                scope={scope}
+            />
         </div>
     );
 }
 
 function CollectionCard({
     collection,
+    scope,
     onClick,
 }: {
     collection: { id: string; name: string; metadata?: Record<string, unknown> | null };
+    scope: ChromaScope;
     onClick: () => void;
 }) {
     const { data: count } = useQuery({
         queryKey: ["count", collection.id],
-        queryFn: () => getCollectionCount(collection.id),
+        queryFn: () => getCollectionCount(collection.id, scope),
     });
 
     const metaKeys = collection.metadata
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import {
     GitCompare,
@@ -8,20 +8,33 @@ import {
     Box,
     Key,
     AlertCircle,
+    Play,
+    Square,
+    Download,
+    FileDiff,
 } from "lucide-react";
 import {
     listCollections,
     getCollectionCount,
     getItems,
 } from "../../../lib/chromaClient";
+import { useScope } from "../../../lib/scopeContext";
+import {
+    diffCollections,
+    type DiffProgress,
+    type DiffReport,
+    type RecordDiff,
+} from "../../../lib/collectionDiff";
+import type { ChromaScope } from "../../../lib/storage";
 
 export function ComparePage() {
     const [colA, setColA] = useState("");
     const [colB, setColB] = useState("");
+    const scope = useScope();
 
     const collectionsQuery = useQuery({
-        queryKey: ["compare-collections"],
-        queryFn: listCollections,
+        queryKey: ["compare-collections", scope.tenant, scope.database],
+        queryFn: () => listCollections(scope),
     });
 
     const collections = collectionsQuery.data ?? [];
@@ -32,14 +45,14 @@ export function ComparePage() {
     // Counts
     const countA = useQuery({
         queryKey: ["compare-count", colA],
-        queryFn: () => getCollectionCount(collA!.name),
+        queryFn: () => getCollectionCount(collA!.id, scope),
         enabled: !!collA,
         retry: false,
     });
 
     const countB = useQuery({
         queryKey: ["compare-count", colB],
-        queryFn: () => getCollectionCount(collB!.name),
+        queryFn: () => getCollectionCount(collB!.id, scope),
         enabled: !!collB,
         retry: false,
     });
@@ -48,10 +61,10 @@ export function ComparePage() {
     const sampleA = useQuery({
         queryKey: ["compare-sample", colA],
         queryFn: () =>
-            getItems(collA!.name, {
+            getItems(collA!.id, {
                 limit: 100,
                 include: ["metadatas", "embeddings"],
-            }),
+            }, scope),
         enabled: !!collA && !countA.isError,
         retry: false,
     });
@@ -59,10 +72,10 @@ export function ComparePage() {
     const sampleB = useQuery({
         queryKey: ["compare-sample", colB],
         queryFn: () =>
-            getItems(collB!.name, {
+            getItems(collB!.id, {
                 limit: 100,
                 include: ["metadatas", "embeddings"],
-            }),
+            }, scope),
         enabled: !!collB && !countB.isError,
         retry: false,
     });
@@ -104,7 +117,7 @@ export function ComparePage() {
                 <div>
                     <h1 className="text-xl font-bold">Compare Collections</h1>
                     <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
-                        Side-by-side stats and metadata analysis
+                        Side-by-side stats, metadata analysis and record-level diff
                     </p>
                 </div>
                 {isLoading && (
@@ -292,6 +305,16 @@ export function ComparePage() {
                             </div>
                         </div>
                     )}
+
+                    {collA && collB && (
+                        <RecordDiffSection
+                            collA={collA}
+                            collB={collB}
+                            countA={countA.data ?? null}
+                            countB={countB.data ?? null}
+                            scope={scope}
+                        />
+                    )}
                 </>
             )}
 
@@ -321,6 +344,380 @@ export function ComparePage() {
     );
 }
 
+/* ── Record diff ──────────────────────────────────────────────────────── */
+
+type DiffView = "changed" | "onlyA" | "onlyB";
+const DIFF_PAGE = 100;
+
+function RecordDiffSection({
+    collA,
+    collB,
+    countA,
+    countB,
+    scope,
+}: {
+    collA: { id: string; name: string };
+    collB: { id: string; name: string };
+    countA: number | null;
+    countB: number | null;
+    scope: ChromaScope;
+}) {
+    const [compareEmbeddings, setCompareEmbeddings] = useState(false);
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState<DiffProgress | null>(null);
+    const [report, setReport] = useState<DiffReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [view, setView] = useState<DiffView>("changed");
+    const [selected, setSelected] = useState<RecordDiff | null>(null);
+    const [visible, setVisible] = useState(DIFF_PAGE);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // A new pair of collections invalidates the previous report
+    useEffect(() => {
+        abortRef.current?.abort();
+        setReport(null);
+        setProgress(null);
+        setError(null);
+        setSelected(null);
+    }, [collA.id, collB.id]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const run = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setRunning(true);
+        setReport(null);
+        setError(null);
+        setSelected(null);
+        setVisible(DIFF_PAGE);
+        setProgress({ phase: "a", scanned: 0 });
+        try {
+            const result = await diffCollections(collA, collB, scope, {
+                compareEmbeddings,
+                signal: controller.signal,
+                onProgress: setProgress,
+            });
+            setReport(result);
+            setView(result.changed.length > 0 ? "changed" : result.onlyInA.length > 0 ? "onlyA" : "onlyB");
+        } catch (err) {
+            if ((err as Error).name !== "AbortError") setError((err as Error).message);
+        } finally {
+            setRunning(false);
+            setProgress(null);
+        }
+    };
+
+    const exportReport = () => {
+        if (!report) return;
+        const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `diff-${collA.name}-${collB.name}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const phaseA = progress?.phase === "a" ? progress.scanned : progress ? countA ?? 0 : 0;
+    const phaseB = progress?.phase === "b" ? progress.scanned : 0;
+
+    const listIds = report ? (view === "onlyA" ? report.onlyInA : view === "onlyB" ? report.onlyInB : []) : [];
+
+    return (
+        <div
+            className="rounded-2xl p-6 space-y-4"
+            style={{
+                background: "var(--color-bg-card)",
+                border: "1px solid var(--color-border)",
+            }}
+        >
+            <div className="flex flex-wrap items-center gap-3">
+                <h2 className="text-sm font-semibold flex items-center gap-2 flex-1">
+                    <FileDiff size={16} style={{ color: "var(--color-accent)" }} />
+                    Record Diff
+                </h2>
+                <label className="flex items-center gap-2 text-xs cursor-pointer" style={{ color: "var(--color-text-muted)" }}>
+                    <input
+                        type="checkbox"
+                        checked={compareEmbeddings}
+                        onChange={(e) => setCompareEmbeddings(e.target.checked)}
+                        disabled={running}
+                        className="accent-[var(--color-accent)]"
+                    />
+                    Compare embeddings
+                </label>
+                {running ? (
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium cursor-pointer"
+                        style={{ background: "rgba(255,71,87,0.15)", color: "var(--color-error)" }}
+                    >
+                        <Square size={12} /> Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={run}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium cursor-pointer"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <Play size={12} /> {report ? "Run again" : "Run diff"}
+                    </button>
+                )}
+                {report && (
+                    <button
+                        onClick={exportReport}
+                        className="flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-medium cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        <Download size={12} /> Export JSON
+                    </button>
+                )}
+            </div>
+
+            {!report && !running && !error && (
+                <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    Streams every record of both collections and matches them by ID. Large collections
+                    take a while; embeddings are only fetched when compared.
+                </p>
+            )}
+
+            {running && (
+                <div className="space-y-2">
+                    <ProgressBar label={`Scanning ${collA.name}`} value={phaseA} total={countA} color="#6c5ce7" />
+                    <ProgressBar label={`Scanning ${collB.name}`} value={phaseB} total={countB} color="#0ea5e9" />
+                </div>
+            )}
+
+            {error && (
+                <div className="flex items-start gap-2 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={14} className="shrink-0 mt-0.5" /> {error}
+                </div>
+            )}
+
+            {report && (
+                <>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        <DiffTab active={view === "onlyA"} onClick={() => setView("onlyA")} label="Only in A" value={report.onlyInA.length} color="#6c5ce7" />
+                        <DiffTab active={view === "onlyB"} onClick={() => setView("onlyB")} label="Only in B" value={report.onlyInB.length} color="#0ea5e9" />
+                        <DiffTab active={view === "changed"} onClick={() => setView("changed")} label="Changed" value={report.changed.length} color="var(--color-warning)" />
+                        <DiffTab active={false} label="Identical" value={report.identical} color="var(--color-success)" />
+                    </div>
+
+                    {view === "changed" ? (
+                        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-4">
+                            <div className="max-h-[28rem] overflow-y-auto space-y-1">
+                                {report.changed.slice(0, visible).map((d) => (
+                                    <button
+                                        key={d.id}
+                                        onClick={() => setSelected(d)}
+                                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-xs cursor-pointer"
+                                        style={{
+                                            background: selected?.id === d.id ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                                            color: selected?.id === d.id ? "var(--color-accent)" : "var(--color-text)",
+                                        }}
+                                    >
+                                        <code className="flex-1 truncate">{d.id}</code>
+                                        {d.document && <DiffBadge label="doc" />}
+                                        {d.metadata && <DiffBadge label="meta" />}
+                                        {d.embedding && <DiffBadge label="emb" />}
+                                    </button>
+                                ))}
+                                {report.changed.length === 0 && <EmptyList />}
+                                {report.changed.length > visible && (
+                                    <ShowMore onClick={() => setVisible((v) => v + DIFF_PAGE)} remaining={report.changed.length - visible} />
+                                )}
+                            </div>
+                            {selected ? (
+                                <RecordDiffViewer diff={selected} nameA={collA.name} nameB={collB.name} />
+                            ) : (
+                                <p className="text-xs py-8 text-center" style={{ color: "var(--color-text-dim)" }}>
+                                    Select a record to see what changed
+                                </p>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="max-h-[28rem] overflow-y-auto space-y-1">
+                            {listIds.slice(0, visible).map((id) => (
+                                <code
+                                    key={id}
+                                    className="block px-3 py-1.5 rounded-lg text-xs truncate"
+                                    style={{ background: "var(--color-bg-elevated)" }}
+                                >
+                                    {id}
+                                </code>
+                            ))}
+                            {listIds.length === 0 && <EmptyList />}
+                            {listIds.length > visible && (
+                                <ShowMore onClick={() => setVisible((v) => v + DIFF_PAGE)} remaining={listIds.length - visible} />
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
+
+function RecordDiffViewer({ diff, nameA, nameB }: { diff: RecordDiff; nameA: string; nameB: string }) {
+    const rows = diff.metadata
+        ? [
+            ...diff.metadata.removed.map((c) => ({ ...c, kind: "removed" as const })),
+            ...diff.metadata.added.map((c) => ({ ...c, kind: "added" as const })),
+            ...diff.metadata.changed.map((c) => ({ ...c, kind: "changed" as const })),
+        ]
+        : [];
+    const kindColor = { removed: "var(--color-error)", added: "var(--color-success)", changed: "var(--color-warning)" };
+    const show = (v: unknown) => (v === undefined ? "—" : JSON.stringify(v));
+
+    return (
+        <div className="space-y-4 min-w-0">
+            <code className="text-xs break-all" style={{ color: "var(--color-text-muted)" }}>{diff.id}</code>
+
+            {diff.document && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {([["A", nameA, diff.document.a, "#6c5ce7"], ["B", nameB, diff.document.b, "#0ea5e9"]] as const).map(
+                        ([side, name, doc, color]) => (
+                            <div key={side} className="min-w-0">
+                                <p className="text-[10px] uppercase tracking-wider font-semibold mb-1 truncate" style={{ color }}>
+                                    Document · {name}
+                                </p>
+                                <pre
+                                    className="text-xs p-3 rounded-lg whitespace-pre-wrap max-h-56 overflow-y-auto"
+                                    style={{ background: "var(--color-bg)", color: doc ? "var(--color-text)" : "var(--color-text-dim)" }}
+                                >
+                                    {doc ?? "No document"}
+                                </pre>
+                            </div>
+                        ),
+                    )}
+                </div>
+            )}
+
+            {rows.length > 0 && (
+                <div>
+                    <p className="text-[10px] uppercase tracking-wider font-semibold mb-1" style={{ color: "var(--color-text-dim)" }}>
+                        Metadata
+                    </p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr style={{ color: "var(--color-text-muted)" }}>
+                                <th className="text-left py-1 pr-2 font-medium">Key</th>
+                                <th className="text-left py-1 pr-2 font-medium" style={{ color: "#6c5ce7" }}>A</th>
+                                <th className="text-left py-1 font-medium" style={{ color: "#0ea5e9" }}>B</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((r) => (
+                                <tr key={r.key} style={{ borderTop: "1px solid var(--color-border)" }}>
+                                    <td className="py-1.5 pr-2 font-mono" style={{ color: kindColor[r.kind] }}>{r.key}</td>
+                                    <td className="py-1.5 pr-2 font-mono break-all">{show(r.a)}</td>
+                                    <td className="py-1.5 font-mono break-all">{show(r.b)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {diff.embedding && (
+                <div className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    <p className="text-[10px] uppercase tracking-wider font-semibold mb-1" style={{ color: "var(--color-text-dim)" }}>
+                        Embedding
+                    </p>
+                    {diff.embedding.maxAbsDelta === null
+                        ? `Dimensions differ: ${diff.embedding.dimsA ?? "none"} vs ${diff.embedding.dimsB ?? "none"}`
+                        : `Max absolute component difference ${diff.embedding.maxAbsDelta.toExponential(3)} over ${diff.embedding.dimsA} dims`}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ProgressBar({ label, value, total, color }: { label: string; value: number; total: number | null; color: string }) {
+    const pct = total ? Math.min(100, (value / total) * 100) : 0;
+    return (
+        <div>
+            <div className="flex justify-between text-[11px] mb-1" style={{ color: "var(--color-text-muted)" }}>
+                <span className="truncate">{label}</span>
+                <span>
+                    {value.toLocaleString()}
+                    {total !== null && ` / ${total.toLocaleString()}`}
+                </span>
+            </div>
+            <div className="h-1.5 rounded-full overflow-hidden" style={{ background: "var(--color-bg-elevated)" }}>
+                <div className="h-full transition-all" style={{ width: `${pct}%`, background: color }} />
+            </div>
+        </div>
+    );
+}
+
+function DiffTab({
+    active,
+    onClick,
+    label,
+    value,
+    color,
+}: {
+    active: boolean;
+    onClick?: () => void;
+    label: string;
+    value: number;
+    color: string;
+}) {
+    return (
+        <button
+            onClick={onClick}
+            disabled={!onClick}
+            className="p-3 rounded-xl text-left cursor-pointer disabled:cursor-default"
+            style={{
+                background: active ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                border: active ? "1px solid var(--color-accent)" : "1px solid var(--color-border)",
+            }}
+        >
+            <p className="text-[10px] uppercase tracking-wider font-semibold" style={{ color }}>
+                {label}
+            </p>
+            <p className="text-lg font-bold">{value.toLocaleString()}</p>
+        </button>
+    );
+}
+
+function DiffBadge({ label }: { label: string }) {
+    return (
+        <span
+            className="text-[10px] px-1.5 py-0.5 rounded-md shrink-0"
+            style={{ background: "rgba(255,165,2,0.12)", color: "var(--color-warning)" }}
+        >
+            {label}
+        </span>
+    );
+}
+
+function EmptyList() {
+    return (
+        <p className="text-xs py-4 text-center" style={{ color: "var(--color-text-dim)" }}>
+            Nothing here
+        </p>
+    );
+}
+
+function ShowMore({ onClick, remaining }: { onClick: () => void; remaining: number }) {
+    return (
+        <button
+            onClick={onClick}
+            className="w-full py-2 text-xs cursor-pointer"
+            style={{ color: "var(--color-accent)" }}
+        >
+            Show more ({remaining.toLocaleString()} remaining)
+        </button>
+    );
+}
+
 /* ── Helpers ──────────────────────────────────────────────────────────── */
 
 interface CollectionSelectorProps {
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -15,6 +15,11 @@ import {
     Key,
     Lock,
     User,
+    Save,
+    Copy,
+    Pencil,
+    Trash2,
+    Bookmark,
 } from "lucide-react";
 import {
     getBaseUrl,
@@ -24,8 +29,12 @@ import {
     getAuthType,
     setAuth,
     getAuthCredentials,
+    PROFILE_COLORS,
     type ConnectionMode,
     type AuthType,
+    type AuthCredentials,
+    type ProfileColor,
+    type ServerProfile,
 } from "../../../lib/storage";
 import {
     testConnection,
@@ -33,6 +42,11 @@ import {
     type Capabilities,
 } from "../../../lib/chromaClient";
 import { CorsHelpPanel } from "../../../components/common/CorsHelpPanel";
+import { VaultPanel } from "../../../components/common/VaultPanel";
+import { EmbeddingProvidersPanel } from "../../../components/common/EmbeddingProvidersPanel";
+import { useProfiles } from "../../../lib/profileContext";
+import { useVaultState, requestVaultUnlock } from "../../../lib/vault";
+import { useScope } from "../../../lib/scopeContext";
 
 const ConnectFormSchema = z.object({
     baseUrl: z.string().url("Enter a valid URL"),
@@ -61,30 +75,51 @@ export function ConnectPage() {
     const [authUsername, setAuthUsername] = useState(savedCreds.username ?? "");
     const [authPassword, setAuthPassword] = useState(savedCreds.password ?? "");
 
+    // Credentials live in the vault while it is enabled; reload them when it unlocks or is cleared
+    const vault = useVaultState();
+    const loadSavedCredentials = () => {
+        const creds = getAuthCredentials();
+        setAuthToken(creds.token ?? "");
+        setAuthUsername(creds.username ?? "");
+        setAuthPassword(creds.password ?? "");
+    };
+    useEffect(loadSavedCredentials, [vault.unlocked, vault.enabled]);
+
+    // Profile state
+    const { profiles, activeProfile, create, update, duplicate, remove, switchTo, clearActive } = useProfiles();
+    const scope = useScope();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [profileName, setProfileName] = useState("");
+    const [profileColor, setProfileColor] = useState<ProfileColor>("gray");
+
     const {
         register,
         handleSubmit,
+        reset,
         formState: { errors },
     } = useForm<ConnectForm>({
         resolver: zodResolver(ConnectFormSchema),
         defaultValues: { baseUrl: getBaseUrl() },
     });
 
-    const onSubmit = async (data: ConnectForm) => {
-        setBaseUrl(data.baseUrl);
-        setConnectionMode(mode);
+    const formCredentials = (): AuthCredentials => {
+        if (authType === "token" || authType === "x-chroma-token") return { token: authToken };
+        if (authType === "basic") return { username: authUsername, password: authPassword };
+        return {};
+    };
 
-        // Persist auth settings
-        if (authType === "none") {
-            setAuth("none", {});
-        } else if (authType === "token") {
-            setAuth("token", { token: authToken });
-        } else if (authType === "basic") {
-            setAuth("basic", { username: authUsername, password: authPassword });
-        } else if (authType === "x-chroma-token") {
-            setAuth("x-chroma-token", { token: authToken });
-        }
+    const loadProfile = (profile: ServerProfile) => {
+        reset({ baseUrl: profile.url });
+        setMode(profile.mode);
+        setAuthType(profile.authType);
+        setAuthToken(profile.authCredentials.token ?? "");
+        setAuthUsername(profile.authCredentials.username ?? "");
+        setAuthPassword(profile.authCredentials.password ?? "");
+        setProfileName(profile.name);
+        setProfileColor(profile.color ?? "gray");
+    };
 
+    const runTest = async () => {
         setTestState({ status: "loading" });
 
         try {
@@ -103,6 +138,69 @@ export function ConnectPage() {
         }
     };
 
+    const onSubmit = async (data: ConnectForm) => {
+        setBaseUrl(data.baseUrl);
+        setConnectionMode(mode);
+
+        // Persist auth settings
+        try {
+            setAuth(authType, formCredentials());
+        } catch (err) {
+            toast.error((err as Error).message);
+            requestVaultUnlock();
+            return;
+        }
+
+        // Ad-hoc settings no longer match the active profile
+        if (
+            activeProfile &&
+            (activeProfile.url !== data.baseUrl ||
+                activeProfile.mode !== mode ||
+                activeProfile.authType !== authType)
+        ) {
+            clearActive();
+        }
+
+        await runTest();
+    };
+
+    const onSaveProfile = (data: ConnectForm) => {
+        const name = profileName.trim() || data.baseUrl;
+        const draft = {
+            name,
+            color: profileColor,
+            url: data.baseUrl,
+            mode,
+            authType,
+            authCredentials: formCredentials(),
+        };
+        try {
+            if (editingId) {
+                update(editingId, draft);
+                if (activeProfile?.id === editingId) switchTo({ ...activeProfile, ...draft });
+                toast.success(`Updated profile "${name}"`);
+                setEditingId(null);
+            } else {
+                create({ ...draft, tenant: scope.tenant, database: scope.database });
+                toast.success(`Saved profile "${name}"`);
+            }
+        } catch (err) {
+            toast.error((err as Error).message);
+            requestVaultUnlock();
+        }
+    };
+
+    const onConnectProfile = async (profile: ServerProfile) => {
+        if (vault.enabled && !vault.unlocked) {
+            requestVaultUnlock();
+            return;
+        }
+        switchTo(profile);
+        loadProfile(profile);
+        setEditingId(null);
+        await runTest();
+    };
+
     return (
         <div className="max-w-2xl mx-auto space-y-6">
             {/* Title */}
@@ -124,6 +222,40 @@ export function ConnectPage() {
                 </p>
             </div>
 
+            {/* Saved profiles */}
+            {profiles.length > 0 && (
+                <div
+                    className="p-5 rounded-2xl space-y-2"
+                    style={{
+                        background: "var(--color-bg-card)",
+                        border: "1px solid var(--color-border)",
+                    }}
+                >
+                    <h3 className="text-sm font-semibold flex items-center gap-2 mb-1">
+                        <Bookmark size={15} /> Server Profiles
+                    </h3>
+                    {profiles.map((p) => (
+                        <ProfileRow
+                            key={p.id}
+                            profile={p}
+                            active={p.id === activeProfile?.id}
+                            editing={p.id === editingId}
+                            onConnect={() => onConnectProfile(p)}
+                            onEdit={() => {
+                                loadProfile(p);
+                                setEditingId(p.id);
+                            }}
+                            onDuplicate={() => duplicate(p.id)}
+                            onDelete={() => {
+                                if (editingId === p.id) setEditingId(null);
+                                remove(p.id);
+                                toast.success(`Deleted profile "${p.name}"`);
+                            }}
+                        />
+                    ))}
+                </div>
+            )}
+
             {/* Form */}
             <form
                 onSubmit={handleSubmit(onSubmit)}
@@ -281,6 +413,73 @@ export function ConnectPage() {
                     )}
                 </div>
 
+                {/* ── Save as profile ───────────────────────── */}
+                <div>
+                    <label className="block text-sm font-medium mb-2 flex items-center gap-2">
+                        <Bookmark size={15} /> {editingId ? "Edit Profile" : "Save as Profile"}
+                    </label>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            value={profileName}
+                            onChange={(e) => setProfileName(e.target.value)}
+                            className="flex-1 px-4 py-2.5 rounded-xl text-sm outline-none"
+                            style={{
+                                background: "var(--color-bg-input)",
+                                border: "1px solid var(--color-border)",
+                                color: "var(--color-text)",
+                            }}
+                            placeholder="Profile name, e.g. Production"
+                        />
+                        <div className="flex items-center gap-1.5 px-1">
+                            {(Object.keys(PROFILE_COLORS) as ProfileColor[]).map((c) => (
+                                <button
+                                    key={c}
+                                    type="button"
+                                    onClick={() => setProfileColor(c)}
+                                    title={c}
+                                    className="w-5 h-5 rounded-full cursor-pointer transition-transform"
+                                    style={{
+                                        background: PROFILE_COLORS[c],
+                                        outline: profileColor === c ? "2px solid var(--color-text)" : "none",
+                                        outlineOffset: 2,
+                                        transform: profileColor === c ? "scale(1.1)" : undefined,
+                                    }}
+                                />
+                            ))}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={handleSubmit(onSaveProfile)}
+                            className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium cursor-pointer"
+                            style={{
+                                background: "var(--color-accent-glow)",
+                                color: "var(--color-accent)",
+                                border: "1px solid var(--color-accent)",
+                            }}
+                        >
+                            <Save size={14} /> {editingId ? "Update" : "Save"}
+                        </button>
+                        {editingId && (
+                            <button
+                                type="button"
+                                onClick={() => setEditingId(null)}
+                                className="px-4 py-2.5 rounded-xl text-sm cursor-pointer"
+                                style={{
+                                    background: "var(--color-bg-elevated)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-text-muted)",
+                                }}
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-xs mt-2" style={{ color: "var(--color-text-dim)" }}>
+                        Profiles keep the URL, mode, credentials and last tenant/database so you can
+                        switch servers from the sidebar or command palette.
+                    </p>
+                </div>
+
                 {/* Submit */}
                 <button
                     type="submit"
@@ -366,6 +565,10 @@ export function ConnectPage() {
                 </div>
             )}
 
+            <VaultPanel onSecretsChanged={loadSavedCredentials} />
+
+            <EmbeddingProvidersPanel />
+
             {/* CORS help */}
             {(testState.status === "error" && testState.isCors) ||
                 testState.status === "idle" ? (
@@ -375,6 +578,80 @@ export function ConnectPage() {
     );
 }
 
+/* ── Profile row ───────────────────────────────────────────────────── */
+
+function ProfileRow({
+    profile,
+    active,
+    editing,
+    onConnect,
+    onEdit,
+    onDuplicate,
+    onDelete,
+}: {
+    profile: ServerProfile;
+    active: boolean;
+    editing: boolean;
+    onConnect: () => void;
+    onEdit: () => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+}) {
+    const color = PROFILE_COLORS[profile.color ?? "gray"];
+    return (
+        <div
+            className="flex items-center gap-3 px-3 py-2.5 rounded-xl"
+            style={{
+                background: editing ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                border: "1px solid var(--color-border)",
+                borderLeft: `3px solid ${color}`,
+            }}
+        >
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{profile.name}</span>
+                    {active && (
+                        <span
+                            className="text-[10px] px-1.5 py-0.5 rounded-md font-medium"
+                            style={{ background: "rgba(0,214,143,0.1)", color: "var(--color-success)" }}
+                        >
+                            active
+                        </span>
+                    )}
+                </div>
+                <p className="text-xs truncate" style={{ color: "var(--color-text-dim)" }}>
+                    {profile.url} · {profile.mode} · {profile.authType === "none" ? "no auth" : profile.authType}
+                </p>
+            </div>
+            <button
+                type="button"
+                onClick={onConnect}
+                className="flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-lg cursor-pointer"
+                style={{ background: "var(--color-accent)", color: "#fff" }}
+            >
+                <PlugZap size={12} /> Connect
+            </button>
+            <IconButton title="Edit" onClick={onEdit} icon={<Pencil size={13} />} />
+            <IconButton title="Duplicate" onClick={onDuplicate} icon={<Copy size={13} />} />
+            <IconButton title="Delete" onClick={onDelete} icon={<Trash2 size={13} />} />
+        </div>
+    );
+}
+
+function IconButton({ title, onClick, icon }: { title: string; onClick: () => void; icon: React.ReactNode }) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            title={title}
+            className="p-1.5 rounded-lg cursor-pointer"
+            style={{ color: "var(--color-text-muted)" }}
+        >
+            {icon}
+        </button>
+    );
+}
+
 /* ── Mode card ─────────────────────────────────────────────────────── */
 
 function ModeCard({
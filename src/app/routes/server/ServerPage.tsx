@@ -11,8 +11,11 @@ import {
     CheckCircle2,
 } from "lucide-react";
 import { testConnection, listCollections, detectCapabilities } from "../../../lib/chromaClient";
+import { useScope } from "../../../lib/scopeContext";
 
 export function ServerPage() {
+    const scope = useScope();
+
     const heartbeatQuery = useQuery({
         queryKey: ["server-heartbeat"],
         queryFn: testConnection,
@@ -20,8 +23,8 @@ export function ServerPage() {
     });
 
     const collectionsQuery = useQuery({
-        queryKey: ["server-collections"],
-        queryFn: listCollections,
+        queryKey: ["server-collections", scope.tenant, scope.database],
+        queryFn: () => listCollections(scope),
     });
 
     const capabilitiesQuery = useQuery({
@@ -69,9 +72,9 @@ export function ServerPage() {
         {
             icon: Database,
             label: "Tenant",
-            value: "default_tenant",
+            value: scope.tenant,
             color: "#f59e0b",
-            sub: "Database: default_database",
+            sub: `Database: ${scope.database}`,
         },
     ];
 
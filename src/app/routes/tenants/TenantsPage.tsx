@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import toast from "react-hot-toast";
+import {
+    Building2,
+    Database,
+    Plus,
+    Loader2,
+    AlertCircle,
+    ArrowRight,
+    UserCircle,
+    X,
+    CheckCircle2,
+} from "lucide-react";
+import {
+    getUserIdentity,
+    getTenant,
+    createTenant,
+    listDatabases,
+    createDatabase,
+} from "../../../lib/chromaClient";
+import {
+    getKnownTenants,
+    addKnownTenant,
+    removeKnownTenant,
+    DEFAULT_TENANT,
+} from "../../../lib/storage";
+import { ResourceNameSchema } from "../../../lib/zodSchemas";
+import { useScope, useSetScope, scopedPath } from "../../../lib/scopeContext";
+
+const NameFormSchema = z.object({ name: ResourceNameSchema });
+type NameForm = z.infer<typeof NameFormSchema>;
+
+export function TenantsPage() {
+    const [tenants, setTenants] = useState<string[]>(() => getKnownTenants());
+    const [pendingAction, setPendingAction] = useState<"create" | "add" | null>(null);
+
+    const identityQuery = useQuery({
+        queryKey: ["identity"],
+        queryFn: getUserIdentity,
+        retry: false,
+    });
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<NameForm>({
+        resolver: zodResolver(NameFormSchema),
+        defaultValues: { name: "" },
+    });
+
+    const refreshTenants = () => setTenants(getKnownTenants());
+
+    const onCreate = async ({ name }: NameForm) => {
+        setPendingAction("create");
+        try {
+            await createTenant(name);
+            toast.success(`Created tenant "${name}"`);
+            refreshTenants();
+            reset();
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const onAddExisting = async ({ name }: NameForm) => {
+        setPendingAction("add");
+        try {
+            await getTenant(name);
+            addKnownTenant(name);
+            toast.success(`Added tenant "${name}"`);
+            refreshTenants();
+            reset();
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const identityTenant = identityQuery.data?.tenant;
+    const allTenants =
+        identityTenant && !tenants.includes(identityTenant)
+            ? [...tenants, identityTenant]
+            : tenants;
+
+    return (
+        <div className="max-w-5xl mx-auto space-y-6">
+            {/* Header */}
+            <div className="flex items-center gap-3">
+                <div
+                    className="w-10 h-10 rounded-xl flex items-center justify-center"
+                    style={{
+                        background: "linear-gradient(135deg, #f59e0b, #6c5ce7)",
+                    }}
+                >
+                    <Building2 size={20} color="#fff" />
+                </div>
+                <div>
+                    <h1 className="text-xl font-bold">Tenants &amp; Databases</h1>
+                    <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        Browse and create tenants and databases on this server
+                    </p>
+                </div>
+            </div>
+
+            {/* Identity */}
+            {identityQuery.data && (
+                <div
+                    className="flex items-center gap-3 p-4 rounded-2xl text-sm"
+                    style={{
+                        background: "var(--color-bg-card)",
+                        border: "1px solid var(--color-border)",
+                    }}
+                >
+                    <UserCircle size={18} style={{ color: "var(--color-accent)" }} />
+                    <span style={{ color: "var(--color-text-muted)" }}>
+                        Authenticated as{" "}
+                        <strong style={{ color: "var(--color-text)" }}>
+                            {identityQuery.data.user_id || "anonymous"}
+                        </strong>{" "}
+                        on tenant{" "}
+                        <strong style={{ color: "var(--color-text)" }}>
+                            {identityQuery.data.tenant}
+                        </strong>
+                    </span>
+                </div>
+            )}
+
+            {/* Create / add tenant */}
+            <form
+                onSubmit={handleSubmit(onCreate)}
+                className="p-5 rounded-2xl space-y-3"
+                style={{
+                    background: "var(--color-bg-card)",
+                    border: "1px solid var(--color-border)",
+                }}
+            >
+                <label className="block text-sm font-medium">Tenant name</label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                        {...register("name")}
+                        className="flex-1 px-4 py-2.5 rounded-xl text-sm outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: errors.name
+                                ? "1px solid var(--color-error)"
+                                : "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                        placeholder="acme_corp"
+                    />
+                    <button
+                        type="submit"
+                        disabled={pendingAction !== null}
+                        className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-semibold cursor-pointer disabled:opacity-60"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        {pendingAction === "create" ? (
+                            <Loader2 size={14} className="animate-spin" />
+                        ) : (
+                            <Plus size={14} />
+                        )}
+                        Create Tenant
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleSubmit(onAddExisting)}
+                        disabled={pendingAction !== null}
+                        className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-60"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        {pendingAction === "add" ? (
+                            <Loader2 size={14} className="animate-spin" />
+                        ) : (
+                            <CheckCircle2 size={14} />
+                        )}
+                        Add Existing
+                    </button>
+                </div>
+                {errors.name && (
+                    <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                        {errors.name.message}
+                    </p>
+                )}
+                <p className="text-[11px]" style={{ color: "var(--color-text-dim)" }}>
+                    Chroma cannot list tenants, so this page shows tenants you have created,
+                    added or opened from this browser.
+                </p>
+            </form>
+
+            {/* Tenant cards */}
+            <div className="space-y-4">
+                {allTenants.map((t) => (
+                    <TenantCard
+                        key={t}
+                        tenant={t}
+                        onForget={
+                            t === DEFAULT_TENANT || t === identityTenant
+                                ? undefined
+                                : () => {
+                                    removeKnownTenant(t);
+                                    refreshTenants();
+                                }
+                        }
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/* ── Tenant card ───────────────────────────────────────────────────── */
+
+function TenantCard({ tenant, onForget }: { tenant: string; onForget?: () => void }) {
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const scope = useScope();
+    const setScope = useSetScope();
+    const [creating, setCreating] = useState(false);
+
+    const databasesQuery = useQuery({
+        queryKey: ["databases", tenant],
+        queryFn: () => listDatabases(tenant),
+        retry: false,
+    });
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<NameForm>({
+        resolver: zodResolver(NameFormSchema),
+        defaultValues: { name: "" },
+    });
+
+    const onCreateDatabase = async ({ name }: NameForm) => {
+        setCreating(true);
+        try {
+            await createDatabase(tenant, name);
+            toast.success(`Created database "${name}"`);
+            await queryClient.invalidateQueries({ queryKey: ["databases", tenant] });
+            reset();
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const openDatabase = (database: string) => {
+        const next = { tenant, database };
+        setScope(next);
+        navigate(scopedPath(next, "/collections"));
+    };
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-4"
+            style={{
+                background: "var(--color-bg-card)",
+                border: "1px solid var(--color-border)",
+            }}
+        >
+            <div className="flex items-center gap-2">
+                <Building2 size={16} style={{ color: "var(--color-accent)" }} />
+                <h3 className="text-sm font-semibold flex-1 truncate">{tenant}</h3>
+                {databasesQuery.isLoading && (
+                    <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                )}
+                {onForget && (
+                    <button
+                        onClick={onForget}
+                        className="p-1 rounded-lg cursor-pointer"
+                        style={{ color: "var(--color-text-dim)" }}
+                        title="Remove from this list"
+                    >
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+
+            {databasesQuery.error && (
+                <div className="flex items-start gap-2 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                    {(databasesQuery.error as Error).message}
+                </div>
+            )}
+
+            {databasesQuery.data && databasesQuery.data.length === 0 && (
+                <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    No databases in this tenant yet.
+                </p>
+            )}
+
+            {databasesQuery.data && databasesQuery.data.length > 0 && (
+                <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                    {databasesQuery.data.map((db) => {
+                        const active = scope.tenant === tenant && scope.database === db.name;
+                        return (
+                            <button
+                                key={db.name}
+                                onClick={() => openDatabase(db.name)}
+                                className="flex items-center gap-2 px-3 py-2.5 rounded-xl text-sm text-left cursor-pointer transition-colors"
+                                style={{
+                                    background: active ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                                    border: active
+                                        ? "1px solid var(--color-accent)"
+                                        : "1px solid var(--color-border)",
+                                    color: active ? "var(--color-accent-hover)" : "var(--color-text)",
+                                }}
+                            >
+                                <Database size={14} />
+                                <span className="flex-1 truncate">{db.name}</span>
+                                <ArrowRight size={12} style={{ color: "var(--color-text-dim)" }} />
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit(onCreateDatabase)} className="space-y-1">
+                <div className="flex gap-2">
+                    <input
+                        {...register("name")}
+                        className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: errors.name
+                                ? "1px solid var(--color-error)"
+                                : "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                        placeholder="New database name"
+                    />
+                    <button
+                        type="submit"
+                        disabled={creating}
+                        className="flex items-center gap-1 text-xs px-3 py-2 rounded-lg cursor-pointer disabled:opacity-60"
+                        style={{
+                            background: "var(--color-accent-glow)",
+                            color: "var(--color-accent)",
+                        }}
+                    >
+                        {creating ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+                        Create Database
+                    </button>
+                </div>
+                {errors.name && (
+                    <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                        {errors.name.message}
+                    </p>
+                )}
+            </form>
+        </div>
+    );
+}
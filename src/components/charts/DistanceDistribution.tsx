@@ -0,0 +1,280 @@
+import { useMemo, useState } from "react";
+import {
+    BarChart,
+    Bar,
+    LineChart,
+    Line,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    ResponsiveContainer,
+    Cell,
+    ReferenceLine,
+    ReferenceDot,
+} from "recharts";
+import { summarizeDistances, distanceHistogram, findElbow, largestGaps } from "../../lib/distanceStats";
+
+export interface DistanceCandidate {
+    distance: number | null;
+    metadata: Record<string, unknown> | null;
+}
+
+interface DistanceDistributionProps {
+    /** Query candidates in rank order. */
+    candidates: DistanceCandidate[];
+    threshold: number | null;
+    onThresholdChange: (threshold: number | null) => void;
+}
+
+const TOOLTIP_STYLE = {
+    background: "var(--color-bg-elevated)",
+    border: "1px solid var(--color-border)",
+    borderRadius: "12px",
+    fontSize: "12px",
+    color: "var(--color-text)",
+};
+
+const fmt = (d: number) => d.toFixed(4);
+
+export function DistanceDistribution({ candidates, threshold, onThresholdChange }: DistanceDistributionProps) {
+    const [subsetKey, setSubsetKey] = useState("");
+    const [subsetValue, setSubsetValue] = useState("");
+
+    const keys = useMemo(() => {
+        const keySet = new Set<string>();
+        for (const c of candidates) {
+            if (c.metadata) Object.keys(c.metadata).forEach((k) => keySet.add(k));
+        }
+        return Array.from(keySet).sort();
+    }, [candidates]);
+
+    const values = useMemo(() => {
+        if (!subsetKey) return [];
+        const counts: Record<string, number> = {};
+        for (const c of candidates) {
+            const v = c.metadata?.[subsetKey];
+            if (v === undefined || v === null) continue;
+            counts[String(v)] = (counts[String(v)] ?? 0) + 1;
+        }
+        return Object.entries(counts)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 50);
+    }, [candidates, subsetKey]);
+
+    // Distances of the candidates in the chosen metadata subset, ascending
+    const sorted = useMemo(
+        () =>
+            candidates
+                .filter((c) => !subsetKey || !subsetValue || String(c.metadata?.[subsetKey]) === subsetValue)
+                .map((c) => c.distance)
+                .filter((d): d is number => d != null)
+                .sort((a, b) => a - b),
+        [candidates, subsetKey, subsetValue],
+    );
+
+    const summary = useMemo(() => summarizeDistances(sorted), [sorted]);
+    const bins = useMemo(
+        () => distanceHistogram(sorted).map((b) => ({ ...b, label: fmt(b.start) })),
+        [sorted],
+    );
+    const curve = useMemo(() => sorted.map((distance, i) => ({ rank: i + 1, distance })), [sorted]);
+    const elbow = useMemo(() => findElbow(sorted), [sorted]);
+    const gaps = useMemo(() => largestGaps(sorted), [sorted]);
+    const within = threshold === null ? sorted.length : sorted.filter((d) => d <= threshold).length;
+
+    const selectStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+    const chipButton = "text-xs px-2 py-1 rounded-lg cursor-pointer font-mono";
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-4"
+            style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+        >
+            <div className="flex items-center gap-2 flex-wrap">
+                <h3 className="text-sm font-semibold flex-1">Distance distribution</h3>
+                <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    Subset
+                </span>
+                <select
+                    value={subsetKey}
+                    onChange={(e) => {
+                        setSubsetKey(e.target.value);
+                        setSubsetValue("");
+                    }}
+                    className="text-xs px-2 py-1.5 rounded-lg outline-none cursor-pointer"
+                    style={selectStyle}
+                >
+                    <option value="">All candidates</option>
+                    {keys.map((k) => (
+                        <option key={k} value={k}>
+                            {k}
+                        </option>
+                    ))}
+                </select>
+                {subsetKey && (
+                    <select
+                        value={subsetValue}
+                        onChange={(e) => setSubsetValue(e.target.value)}
+                        className="text-xs px-2 py-1.5 rounded-lg outline-none cursor-pointer"
+                        style={selectStyle}
+                    >
+                        <option value="">Any value</option>
+                        {values.map(([v, n]) => (
+                            <option key={v} value={v}>
+                                {v} ({n})
+                            </option>
+                        ))}
+                    </select>
+                )}
+            </div>
+
+            {!summary ? (
+                <p className="text-center text-sm py-8" style={{ color: "var(--color-text-dim)" }}>
+                    No distances to analyse. Include distances in the query.
+                </p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-x-5 gap-y-1 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        <span>n {summary.count}</span>
+                        <span>min {fmt(summary.min)}</span>
+                        <span>median {fmt(summary.median)}</span>
+                        <span>mean {fmt(summary.mean)}</span>
+                        <span>p90 {fmt(summary.p90)}</span>
+                        <span>max {fmt(summary.max)}</span>
+                        <span>σ {fmt(summary.stdDev)}</span>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                        <ResponsiveContainer width="100%" height={220}>
+                            <BarChart data={bins} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" vertical={false} />
+                                <XAxis
+                                    dataKey="label"
+                                    tick={{ fill: "var(--color-text-dim)", fontSize: 10 }}
+                                    axisLine={{ stroke: "var(--color-border)" }}
+                                />
+                                <YAxis
+                                    allowDecimals={false}
+                                    width={32}
+                                    tick={{ fill: "var(--color-text-dim)", fontSize: 11 }}
+                                    axisLine={{ stroke: "var(--color-border)" }}
+                                />
+                                <Tooltip
+                                    contentStyle={TOOLTIP_STYLE}
+                                    labelFormatter={(_, payload) => {
+                                        const bin = payload?.[0]?.payload as { start: number; end: number } | undefined;
+                                        return bin ? `${fmt(bin.start)} – ${fmt(bin.end)}` : "";
+                                    }}
+                                    formatter={(value: number) => [value, "Results"]}
+                                />
+                                <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                                    {bins.map((b, idx) => (
+                                        <Cell
+                                            key={idx}
+                                            fill={threshold === null || b.start <= threshold ? "#6c5ce7" : "#6b7280"}
+                                            fillOpacity={0.85}
+                                        />
+                                    ))}
+                                </Bar>
+                            </BarChart>
+                        </ResponsiveContainer>
+
+                        <ResponsiveContainer width="100%" height={220}>
+                            <LineChart data={curve} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                                <XAxis
+                                    dataKey="rank"
+                                    type="number"
+                                    domain={[1, "dataMax"]}
+                                    tick={{ fill: "var(--color-text-dim)", fontSize: 11 }}
+                                    axisLine={{ stroke: "var(--color-border)" }}
+                                />
+                                <YAxis
+                                    domain={["auto", "auto"]}
+                                    width={48}
+                                    tickFormatter={(d: number) => d.toFixed(2)}
+                                    tick={{ fill: "var(--color-text-dim)", fontSize: 11 }}
+                                    axisLine={{ stroke: "var(--color-border)" }}
+                                />
+                                <Tooltip
+                                    contentStyle={TOOLTIP_STYLE}
+                                    labelFormatter={(rank) => `Rank ${rank}`}
+                                    formatter={(value: number) => [fmt(value), "Distance"]}
+                                />
+                                <Line type="monotone" dataKey="distance" stroke="#3ec2f7" strokeWidth={2} dot={false} />
+                                {threshold !== null && (
+                                    <ReferenceLine y={threshold} stroke="#ff4757" strokeDasharray="4 4" />
+                                )}
+                                {elbow && (
+                                    <ReferenceDot x={elbow.rank + 1} y={elbow.distance} r={5} fill="#ffc048" stroke="none" />
+                                )}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+
+                    {/* Threshold */}
+                    <div className="space-y-2">
+                        <div className="flex items-center gap-3 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                            <span className="font-medium">Threshold</span>
+                            <input
+                                type="range"
+                                min={summary.min}
+                                max={summary.max}
+                                step={(summary.max - summary.min) / 200 || 0.0001}
+                                value={threshold ?? summary.max}
+                                onChange={(e) => onThresholdChange(Number(e.target.value))}
+                                className="flex-1"
+                            />
+                            <span className="font-mono w-16 text-right" style={{ color: "var(--color-text)" }}>
+                                {threshold === null ? "none" : fmt(threshold)}
+                            </span>
+                            <span className="w-32 text-right">
+                                {within} of {sorted.length} within
+                            </span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                            {elbow && (
+                                <button
+                                    type="button"
+                                    onClick={() => onThresholdChange(elbow.distance)}
+                                    className={chipButton}
+                                    style={{ background: "rgba(255,192,72,0.15)", color: "#ffc048" }}
+                                    title={`The ranked distance curve bends most at result ${elbow.rank + 1}`}
+                                >
+                                    elbow @{elbow.rank + 1}: {fmt(elbow.distance)}
+                                </button>
+                            )}
+                            {gaps.map((g) => (
+                                <button
+                                    key={g.rank}
+                                    type="button"
+                                    onClick={() => onThresholdChange((g.before + g.after) / 2)}
+                                    className={chipButton}
+                                    style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                                    title={`Distance jumps from ${fmt(g.before)} to ${fmt(g.after)} after result ${g.rank + 1}`}
+                                >
+                                    gap after #{g.rank + 1}: +{fmt(g.size)}
+                                </button>
+                            ))}
+                            {threshold !== null && (
+                                <button
+                                    type="button"
+                                    onClick={() => onThresholdChange(null)}
+                                    className="text-xs px-2 py-1 rounded-lg cursor-pointer"
+                                    style={{ color: "var(--color-text-muted)" }}
+                                >
+                                    Clear
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
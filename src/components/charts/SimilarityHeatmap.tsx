@@ -1,22 +1,12 @@
 import { useRef, useEffect, useMemo, useState } from "react";
+import { cosineSimilarity } from "../../lib/vectorMath";
 
 interface SimilarityHeatmapProps {
     embeddings: (number[] | null)[];
     ids: string[];
     maxItems?: number;
-}
-
-function cosineSimilarity(a: number[], b: number[]): number {
-    let dot = 0;
-    let magA = 0;
-    let magB = 0;
-    for (let i = 0; i < a.length; i++) {
-        dot += a[i]! * b[i]!;
-        magA += a[i]! * a[i]!;
-        magB += b[i]! * b[i]!;
-    }
-    const denom = Math.sqrt(magA) * Math.sqrt(magB);
-    return denom === 0 ? 0 : dot / denom;
+    /** Show the sample size slider; without it the first maxItems items are drawn. */
+    showSampleSize?: boolean;
 }
 
 function interpolateColor(value: number): string {
@@ -37,7 +27,7 @@ function interpolateColor(value: number): string {
     }
 }
 
-export function SimilarityHeatmap({ embeddings, ids, maxItems = 50 }: SimilarityHeatmapProps) {
+export function SimilarityHeatmap({ embeddings, ids, maxItems = 50, showSampleSize = true }: SimilarityHeatmapProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const tooltipRef = useRef<HTMLDivElement>(null);
     const [tooltip, setTooltip] = useState<{
@@ -47,7 +37,7 @@ export function SimilarityHeatmap({ embeddings, ids, maxItems = 50 }: Similarity
         idB: string;
         sim: number;
     } | null>(null);
-    const [sampleSize, setSampleSize] = useState(Math.min(maxItems, 40));
+    const [sampleSize, setSampleSize] = useState(showSampleSize ? Math.min(maxItems, 40) : maxItems);
 
     // Filter valid embeddings
     const validData = useMemo(() => {
@@ -138,23 +128,25 @@ export function SimilarityHeatmap({ embeddings, ids, maxItems = 50 }: Similarity
     return (
         <div className="space-y-3">
             {/* Controls */}
-            <div className="flex items-center gap-4">
-                <label className="text-xs" style={{ color: "var(--color-text-muted)" }}>
-                    Sample Size
-                </label>
-                <input
-                    type="range"
-                    min={5}
-                    max={Math.min(maxItems, embeddings.filter(Boolean).length)}
-                    value={sampleSize}
-                    onChange={(e) => setSampleSize(Number(e.target.value))}
-                    className="flex-1 max-w-xs"
-                    style={{ accentColor: "var(--color-accent)" }}
-                />
-                <span className="text-xs font-mono" style={{ color: "var(--color-text-dim)" }}>
-                    {sampleSize}
-                </span>
-            </div>
+            {showSampleSize && (
+                <div className="flex items-center gap-4">
+                    <label className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        Sample Size
+                    </label>
+                    <input
+                        type="range"
+                        min={5}
+                        max={Math.min(maxItems, embeddings.filter(Boolean).length)}
+                        value={sampleSize}
+                        onChange={(e) => setSampleSize(Number(e.target.value))}
+                        className="flex-1 max-w-xs"
+                        style={{ accentColor: "var(--color-accent)" }}
+                    />
+                    <span className="text-xs font-mono" style={{ color: "var(--color-text-dim)" }}>
+                        {sampleSize}
+                    </span>
+                </div>
+            )}
 
             {/* Canvas */}
             <div className="relative inline-block">
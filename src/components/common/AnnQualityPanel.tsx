@@ -0,0 +1,371 @@
+import { useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import type { ColumnDef } from "@tanstack/react-table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { Gauge, Square, Loader2, Download, AlertTriangle } from "lucide-react";
+import { DataTable } from "../table/DataTable";
+import { runAnnCheck, DISTANCE_SPACES, type AnnProgress, type AnnReport, type DistanceSpace } from "../../lib/annQuality";
+import type { AnnQueryResult } from "../../lib/exactKnn";
+import { useScope } from "../../lib/scopeContext";
+
+interface AnnQualityPanelProps {
+    collectionId: string;
+    collectionName: string;
+    /** Records in the collection, or null while the count loads. */
+    count: number | null;
+    /** Space read from the collection metadata; can be overridden for older servers. */
+    defaultSpace: DistanceSpace;
+}
+
+/** Above this many records the default is a sampled corpus rather than a full scan. */
+const FULL_SCAN_DEFAULT_LIMIT = 20_000;
+
+const PHASE_LABELS: Record<AnnProgress["phase"], string> = {
+    stream: "Streaming embeddings",
+    query: "Querying the index",
+    exact: "Computing exact neighbours",
+};
+
+const TOOLTIP_STYLE = {
+    background: "var(--color-bg-elevated)",
+    border: "1px solid var(--color-border)",
+    borderRadius: "12px",
+    fontSize: "12px",
+    color: "var(--color-text)",
+};
+
+const fmt = (v: number) => v.toFixed(3);
+
+function recallColor(v: number): string {
+    if (v >= 0.99) return "var(--color-success)";
+    if (v >= 0.9) return "var(--color-warning)";
+    return "var(--color-error)";
+}
+
+/** Compare HNSW results against brute-force exact kNN and report recall@k. */
+export function AnnQualityPanel({ collectionId, collectionName, count, defaultSpace }: AnnQualityPanelProps) {
+    const scope = useScope();
+    const [space, setSpace] = useState<DistanceSpace>(defaultSpace);
+    const [k, setK] = useState(10);
+    const [queryCount, setQueryCount] = useState(100);
+    const [fullScan, setFullScan] = useState(count === null || count <= FULL_SCAN_DEFAULT_LIMIT);
+    const [corpusLimit, setCorpusLimit] = useState(10_000);
+    const [progress, setProgress] = useState<AnnProgress | null>(null);
+    const [report, setReport] = useState<AnnReport | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const handleRun = async () => {
+        if (count === null) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setProgress({ phase: "stream", done: 0, total: 1 });
+        try {
+            const result = await runAnnCheck(collectionId, collectionName, count, scope, {
+                space,
+                k,
+                queryCount,
+                corpusLimit: fullScan ? null : corpusLimit,
+                signal: controller.signal,
+                onProgress: setProgress,
+            });
+            setReport(result);
+        } catch (err) {
+            if ((err as Error).name !== "AbortError") toast.error((err as Error).message);
+        } finally {
+            abortRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleExport = (r: AnnReport) => {
+        const blob = new Blob([JSON.stringify(r, null, 2)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${collectionName}-ann-quality-${r.startedAt.slice(0, 19).replace(/:/g, "-")}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const columns: ColumnDef<AnnQueryResult, unknown>[] = useMemo(
+        () => [
+            {
+                accessorKey: "id",
+                header: "Query record",
+                cell: ({ getValue }) => <span className="font-mono text-xs">{getValue() as string}</span>,
+            },
+            {
+                accessorKey: "recall",
+                header: `Recall@${report?.k ?? k}`,
+                cell: ({ getValue }) => {
+                    const v = getValue() as number;
+                    return (
+                        <span className="font-mono text-xs font-semibold" style={{ color: recallColor(v) }}>
+                            {fmt(v)}
+                        </span>
+                    );
+                },
+            },
+            {
+                accessorKey: "missed",
+                header: "Missed neighbours",
+                cell: ({ getValue }) => {
+                    const missed = getValue() as string[];
+                    return missed.length === 0 ? (
+                        <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                            —
+                        </span>
+                    ) : (
+                        <span className="font-mono text-xs truncate block max-w-xs" title={missed.join("\n")}>
+                            {missed.length}: {missed.slice(0, 3).join(", ")}
+                            {missed.length > 3 && "…"}
+                        </span>
+                    );
+                },
+            },
+            {
+                accessorKey: "annKthDistance",
+                header: "ANN k-th distance",
+                cell: ({ getValue }) => {
+                    const d = getValue() as number | null;
+                    return <span className="font-mono text-xs">{d != null ? d.toFixed(4) : "—"}</span>;
+                },
+            },
+            {
+                accessorKey: "exactKthDistance",
+                header: "Exact k-th distance",
+                cell: ({ getValue }) => {
+                    const d = getValue() as number | null;
+                    return <span className="font-mono text-xs">{d != null ? d.toFixed(4) : "—"}</span>;
+                },
+            },
+        ],
+        [report?.k, k],
+    );
+
+    const card = { background: "var(--color-bg-card)", border: "1px solid var(--color-border)" };
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+    const labelClass = "block text-xs font-medium mb-1";
+    const labelStyle = { color: "var(--color-text-muted)" };
+    const sortedQueries = report ? [...report.queries].sort((a, b) => a.recall - b.recall) : [];
+
+    return (
+        <div className="space-y-4">
+            {/* Run form */}
+            <div className="p-5 rounded-2xl space-y-4" style={card}>
+                <div>
+                    <h3 className="text-sm font-semibold">ANN quality</h3>
+                    <p className="text-xs mt-1" style={{ color: "var(--color-text-dim)" }}>
+                        Samples records as query vectors, asks the index for their nearest neighbours and compares
+                        them with an exact brute-force search computed in the browser.
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    <div>
+                        <label className={labelClass} style={labelStyle}>
+                            Distance space
+                        </label>
+                        <select
+                            value={space}
+                            onChange={(e) => setSpace(e.target.value as DistanceSpace)}
+                            className="w-full px-3 py-2 rounded-lg text-xs outline-none"
+                            style={inputStyle}
+                        >
+                            {DISTANCE_SPACES.map((s) => (
+                                <option key={s.value} value={s.value}>
+                                    {s.label}
+                                    {s.value === defaultSpace ? " (collection)" : ""}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass} style={labelStyle}>
+                            k
+                        </label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={k}
+                            onChange={(e) => setK(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+                            className="w-full px-3 py-2 rounded-lg text-xs outline-none"
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass} style={labelStyle}>
+                            Query vectors
+                        </label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={1000}
+                            value={queryCount}
+                            onChange={(e) => setQueryCount(Math.max(1, Math.min(1000, Number(e.target.value) || 1)))}
+                            className="w-full px-3 py-2 rounded-lg text-xs outline-none"
+                            style={inputStyle}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass} style={labelStyle}>
+                            Exact search over
+                        </label>
+                        <div className="flex gap-2">
+                            <select
+                                value={fullScan ? "full" : "sample"}
+                                onChange={(e) => setFullScan(e.target.value === "full")}
+                                className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                                style={inputStyle}
+                            >
+                                <option value="full">Full collection</option>
+                                <option value="sample">Sample</option>
+                            </select>
+                            {!fullScan && (
+                                <input
+                                    type="number"
+                                    min={100}
+                                    step={1000}
+                                    value={corpusLimit}
+                                    onChange={(e) => setCorpusLimit(Math.max(100, Number(e.target.value) || 100))}
+                                    className="w-24 px-3 py-2 rounded-lg text-xs outline-none"
+                                    style={inputStyle}
+                                    title="Records streamed for the exact search"
+                                />
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {fullScan && count !== null && count > FULL_SCAN_DEFAULT_LIMIT && (
+                    <p className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-warning)" }}>
+                        <AlertTriangle size={12} /> Streams all {count.toLocaleString()} embeddings into the browser.
+                    </p>
+                )}
+                {!fullScan && (
+                    <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                        With a sample, neighbours outside it go unseen, so recall is an upper bound.
+                    </p>
+                )}
+
+                <div className="flex items-center gap-3">
+                    <button
+                        type="button"
+                        onClick={() => void handleRun()}
+                        disabled={progress !== null || count === null || count < 2}
+                        className="flex items-center gap-1.5 text-xs px-4 py-2 rounded-lg cursor-pointer disabled:opacity-40"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <Gauge size={13} /> Run check
+                    </button>
+                    {progress && (
+                        <>
+                            <span className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                                <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                                {PHASE_LABELS[progress.phase]} {progress.done} / {progress.total}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => abortRef.current?.abort()}
+                                className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                                style={{ color: "var(--color-error)", border: "1px solid var(--color-border)" }}
+                            >
+                                <Square size={11} /> Stop
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Report */}
+            {report && (
+                <div className="p-5 rounded-2xl space-y-4" style={card}>
+                    <div className="flex items-center gap-3 flex-wrap">
+                        <h3 className="text-sm font-semibold flex-1">
+                            Recall@{report.k} over {report.queries.length} queries
+                        </h3>
+                        <button
+                            type="button"
+                            onClick={() => handleExport(report)}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                        >
+                            <Download size={12} /> Export JSON
+                        </button>
+                    </div>
+                    <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                        {report.space} space · exact search over {report.corpusSize.toLocaleString()} of{" "}
+                        {report.total.toLocaleString()} records
+                        {!report.exhaustive && " (sampled; recall is an upper bound)"} · {(report.durationMs / 1000).toFixed(1)}s
+                    </p>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                        {(
+                            [
+                                ["Mean", report.summary.mean],
+                                ["Median", report.summary.median],
+                                ["p10", report.summary.p10],
+                                ["Min", report.summary.min],
+                            ] as const
+                        ).map(([label, value]) => (
+                            <div key={label} className="p-3 rounded-xl" style={{ background: "var(--color-bg-elevated)" }}>
+                                <p className="text-[11px] uppercase tracking-wider" style={{ color: "var(--color-text-dim)" }}>
+                                    {label}
+                                </p>
+                                <p className="text-lg font-bold font-mono" style={{ color: recallColor(value) }}>
+                                    {fmt(value)}
+                                </p>
+                            </div>
+                        ))}
+                        <div className="p-3 rounded-xl" style={{ background: "var(--color-bg-elevated)" }}>
+                            <p className="text-[11px] uppercase tracking-wider" style={{ color: "var(--color-text-dim)" }}>
+                                Perfect
+                            </p>
+                            <p className="text-lg font-bold font-mono">
+                                {report.summary.perfect} / {report.queries.length}
+                            </p>
+                        </div>
+                    </div>
+
+                    <ResponsiveContainer width="100%" height={200}>
+                        <BarChart data={report.histogram} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" vertical={false} />
+                            <XAxis
+                                dataKey="label"
+                                tick={{ fill: "var(--color-text-dim)", fontSize: 10 }}
+                                axisLine={{ stroke: "var(--color-border)" }}
+                            />
+                            <YAxis
+                                allowDecimals={false}
+                                width={32}
+                                tick={{ fill: "var(--color-text-dim)", fontSize: 11 }}
+                                axisLine={{ stroke: "var(--color-border)" }}
+                            />
+                            <Tooltip
+                                contentStyle={TOOLTIP_STYLE}
+                                labelFormatter={(label) => `Recall ${label}`}
+                                formatter={(value: number) => [value, "Queries"]}
+                            />
+                            <Bar dataKey="count" radius={[4, 4, 0, 0]}>
+                                {report.histogram.map((b, idx) => (
+                                    <Cell key={b.label} fill={recallColor(idx === 10 ? 1 : idx / 10)} />
+                                ))}
+                            </Bar>
+                        </BarChart>
+                    </ResponsiveContainer>
+
+                    <DataTable
+                        data={sortedQueries}
+                        columns={columns}
+                        pageSize={20}
+                        exportFilename={`${collectionName}-ann-recall`}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,30 @@
+import { Star } from "lucide-react";
+import { useBookmarks, toggleBookmark } from "../../lib/bookmarks";
+import { useScope } from "../../lib/scopeContext";
+
+interface BookmarkStarProps {
+    collectionId: string;
+    collectionName: string;
+    itemId: string;
+    size?: number;
+}
+
+export function BookmarkStar({ collectionId, collectionName, itemId, size = 14 }: BookmarkStarProps) {
+    const scope = useScope();
+    const bookmarks = useBookmarks();
+    const starred = bookmarks.some((b) => b.collectionId === collectionId && b.id === itemId);
+
+    return (
+        <button
+            onClick={(e) => {
+                e.stopPropagation();
+                toggleBookmark(collectionId, collectionName, itemId, scope);
+            }}
+            className="p-1 rounded-md cursor-pointer transition-colors"
+            style={{ color: starred ? "#f59e0b" : "var(--color-text-dim)" }}
+            title={starred ? "Remove bookmark" : "Bookmark this record"}
+        >
+            <Star size={size} fill={starred ? "currentColor" : "none"} />
+        </button>
+    );
+}
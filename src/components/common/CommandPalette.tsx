@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { Search, ArrowRight, Moon, Sun, Monitor, Layers, PlugZap, Server, FileText, GitCompare } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, ArrowRight, Moon, Sun, Monitor, Layers, PlugZap, Server, FileText, GitCompare, Building2, Plus, Database, Star, Play } from "lucide-react";
 import { useTheme } from "../../lib/themeContext";
+import { useScope, scopedPath } from "../../lib/scopeContext";
+import { listCollections } from "../../lib/chromaClient";
+import { useProfiles } from "../../lib/profileContext";
+import { profileScope, PROFILE_COLORS } from "../../lib/storage";
+import { useSavedQueries } from "../../lib/savedQueries";
 
 interface Command {
     id: string;
@@ -21,6 +27,16 @@ export function CommandPalette() {
     const navigate = useNavigate();
     const location = useLocation();
     const { theme, setTheme } = useTheme();
+    const scope = useScope();
+    const { profiles, activeProfile, switchTo } = useProfiles();
+    const { saved: savedQueries } = useSavedQueries();
+
+    const { data: collections } = useQuery({
+        queryKey: ["collections", scope.tenant, scope.database],
+        queryFn: () => listCollections(scope),
+        enabled: open,
+        retry: false,
+    });
 
     // Keyboard shortcut: Ctrl+K or Cmd+K
     useEffect(() => {
@@ -63,6 +79,14 @@ export function CommandPalette() {
                 action: () => navigate("/collections"),
                 keywords: "list browse",
             },
+            {
+                id: "nav-tenants",
+                label: "Go to Tenants & Databases",
+                category: "Navigation",
+                icon: <Building2 size={16} />,
+                action: () => navigate("/tenants"),
+                keywords: "tenant database switch scope",
+            },
             {
                 id: "nav-server",
                 label: "Go to Server Info",
@@ -79,6 +103,22 @@ export function CommandPalette() {
                 action: () => navigate("/compare"),
                 keywords: "comparison cross collection",
             },
+            {
+                id: "nav-audit",
+                label: "Go to Audit Log",
+                category: "Navigation",
+                icon: <FileText size={16} />,
+                action: () => navigate("/audit"),
+                keywords: "history operations log",
+            },
+            {
+                id: "nav-bookmarks",
+                label: "Go to Bookmarks",
+                category: "Navigation",
+                icon: <Star size={16} />,
+                action: () => navigate("/bookmarks"),
+                keywords: "starred saved records favorites",
+            },
             // Theme
             {
                 id: "theme-dark",
@@ -104,8 +144,59 @@ export function CommandPalette() {
                 action: () => setTheme("system"),
                 keywords: "system auto os",
             },
+            // Collections in the active tenant/database
+            {
+                id: "collection-new",
+                label: "New Collection…",
+                category: "Collections",
+                icon: <Plus size={16} />,
+                action: () => navigate(scopedPath(scope, "/collections?new=1")),
+                keywords: "create add wizard",
+            },
+            ...(collections ?? []).map((c) => ({
+                id: `collection-${c.id}`,
+                label: `Open ${c.name}`,
+                category: "Collections",
+                icon: <Database size={16} />,
+                action: () => navigate(scopedPath(scope, `/collections/${encodeURIComponent(c.name)}`)),
+                keywords: `collection ${c.name}`,
+            })),
+            // Saved queries open the collection's Query tab and run
+            ...savedQueries.map((q) => ({
+                id: `saved-query-${q.id}`,
+                label: `Run "${q.name}" on ${q.collectionName}`,
+                category: "Saved Queries",
+                icon: <Play size={16} />,
+                action: () => {
+                    const queryScope = q.tenant && q.database ? { tenant: q.tenant, database: q.database } : scope;
+                    const path = `/collections/${encodeURIComponent(q.collectionName)}?query=${encodeURIComponent(q.id)}`;
+                    navigate(scopedPath(queryScope, path));
+                },
+                keywords: `saved query search ${q.collectionName} ${q.query.text ?? ""}`,
+            })),
+            // Server profiles
+            ...profiles
+                .filter((p) => p.id !== activeProfile?.id)
+                .map((p) => ({
+                    id: `profile-${p.id}`,
+                    label: `Switch to ${p.name}`,
+                    category: "Profiles",
+                    icon: (
+                        <span
+                            className="block w-3 h-3 rounded-full"
+                            style={{ background: PROFILE_COLORS[p.color ?? "gray"] }}
+                        />
+                    ),
+                    action: () => {
+                        switchTo(p);
+                        if (location.pathname.startsWith("/t/")) {
+                            navigate(scopedPath(profileScope(p), "/collections"));
+                        }
+                    },
+                    keywords: `profile server ${p.url} ${p.color ?? ""}`,
+                })),
         ],
-        [navigate, setTheme],
+        [navigate, setTheme, scope, collections, savedQueries, profiles, activeProfile, switchTo, location.pathname],
     );
 
     const filtered = useMemo(() => {
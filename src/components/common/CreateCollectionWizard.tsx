@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { Plus, X, Loader2, ChevronLeft, ChevronRight, Check } from "lucide-react";
+import { Modal } from "./Modal";
+import { createCollection } from "../../lib/chromaClient";
+import { ResourceNameSchema, type Collection } from "../../lib/zodSchemas";
+import type { ChromaScope } from "../../lib/storage";
+
+// ── Form model ───────────────────────────────────────────────────────
+
+const MetadataEntrySchema = z
+    .object({
+        key: z
+            .string()
+            .trim()
+            .min(1, "Key is required")
+            .refine((k) => !k.startsWith("hnsw:"), "hnsw:* keys are set on the Index step"),
+        type: z.enum(["string", "number", "boolean"]),
+        value: z.string(),
+    })
+    .refine(
+        (e) => e.type !== "number" || (e.value.trim() !== "" && !isNaN(Number(e.value))),
+        { message: "Not a number", path: ["value"] },
+    );
+
+const CreateCollectionSchema = z.object({
+    name: ResourceNameSchema,
+    getOrCreate: z.boolean(),
+    metadata: z.array(MetadataEntrySchema).refine(
+        (entries) => new Set(entries.map((e) => e.key.trim())).size === entries.length,
+        "Metadata keys must be unique",
+    ),
+    space: z.enum(["cosine", "l2", "ip"]),
+    constructionEf: z.number({ invalid_type_error: "Required" }).int().min(1).max(10_000),
+    m: z.number({ invalid_type_error: "Required" }).int().min(2).max(512),
+    searchEf: z.number({ invalid_type_error: "Required" }).int().min(1).max(10_000),
+});
+
+type CreateCollectionForm = z.infer<typeof CreateCollectionSchema>;
+
+const DEFAULTS: CreateCollectionForm = {
+    name: "",
+    getOrCreate: false,
+    metadata: [],
+    space: "l2",
+    constructionEf: 100,
+    m: 16,
+    searchEf: 10,
+};
+
+const STEPS = [
+    { label: "Basics", fields: ["name", "getOrCreate"] },
+    { label: "Metadata", fields: ["metadata"] },
+    { label: "Index", fields: ["space", "constructionEf", "m", "searchEf"] },
+    { label: "Review", fields: [] },
+] as const;
+
+const SPACES = [
+    { value: "l2", label: "L2", desc: "Squared Euclidean distance (Chroma default)" },
+    { value: "cosine", label: "Cosine", desc: "1 − cosine similarity; for normalised text embeddings" },
+    { value: "ip", label: "Inner product", desc: "1 − dot product; for models trained with IP" },
+] as const;
+
+/** Collection metadata as sent to Chroma, including the legacy hnsw:* index keys older servers read. */
+function toCollectionMetadata(form: CreateCollectionForm): Record<string, unknown> {
+    const metadata: Record<string, unknown> = {};
+    for (const entry of form.metadata) {
+        const key = entry.key.trim();
+        if (entry.type === "number") metadata[key] = Number(entry.value);
+        // An untouched boolean select shows "true" while its value is still ""
+        else if (entry.type === "boolean") metadata[key] = entry.value !== "false";
+        else metadata[key] = entry.value;
+    }
+    metadata["hnsw:space"] = form.space;
+    metadata["hnsw:construction_ef"] = form.constructionEf;
+    metadata["hnsw:M"] = form.m;
+    metadata["hnsw:search_ef"] = form.searchEf;
+    return metadata;
+}
+
+/** The same index settings in the v2 `configuration` shape, which newer servers use instead. */
+function toCollectionConfiguration(form: CreateCollectionForm): Record<string, unknown> {
+    return {
+        hnsw: {
+            space: form.space,
+            ef_construction: form.constructionEf,
+            max_neighbors: form.m,
+            ef_search: form.searchEf,
+        },
+    };
+}
+
+// ── Wizard ───────────────────────────────────────────────────────────
+
+interface CreateCollectionWizardProps {
+    open: boolean;
+    onClose: () => void;
+    scope: ChromaScope;
+    onCreated?: (collection: Collection) => void;
+}
+
+export function CreateCollectionWizard({ open, onClose, scope, onCreated }: CreateCollectionWizardProps) {
+    const queryClient = useQueryClient();
+    const [step, setStep] = useState(0);
+    const [submitting, setSubmitting] = useState(false);
+
+    const {
+        register,
+        control,
+        handleSubmit,
+        trigger,
+        watch,
+        reset,
+        formState: { errors },
+    } = useForm<CreateCollectionForm>({
+        resolver: zodResolver(CreateCollectionSchema),
+        defaultValues: DEFAULTS,
+    });
+
+    const { fields, append, remove } = useFieldArray({ control, name: "metadata" });
+
+    const close = () => {
+        reset(DEFAULTS);
+        setStep(0);
+        onClose();
+    };
+
+    const next = async () => {
+        const ok = await trigger([...STEPS[step]!.fields]);
+        if (ok) setStep((s) => Math.min(s + 1, STEPS.length - 1));
+    };
+
+    const onSubmit = async (form: CreateCollectionForm) => {
+        setSubmitting(true);
+        try {
+            const created = await createCollection(
+                {
+                    name: form.name,
+                    metadata: toCollectionMetadata(form),
+                    configuration: toCollectionConfiguration(form),
+                    get_or_create: form.getOrCreate,
+                },
+                scope,
+            );
+
+            // Show the new collection right away in the grid and command palette
+            queryClient.setQueryData<Collection[]>(
+                ["collections", scope.tenant, scope.database],
+                (old) =>
+                    old && !old.some((c) => c.id === created.id) ? [...old, created] : old,
+            );
+            await queryClient.invalidateQueries({ queryKey: ["collections", scope.tenant, scope.database] });
+
+            toast.success(`Collection "${created.name}" ready`);
+            onCreated?.(created);
+            close();
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const values = watch();
+
+    const inputStyle = (hasError: boolean) => ({
+        background: "var(--color-bg-input)",
+        border: hasError ? "1px solid var(--color-error)" : "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    });
+
+    return (
+        <Modal open={open} onClose={close} title="New Collection" maxWidth="max-w-xl">
+            {/* Step indicator */}
+            <div className="flex items-center gap-2 mb-5">
+                {STEPS.map((s, i) => (
+                    <div key={s.label} className="flex items-center gap-2 flex-1">
+                        <span
+                            className="w-6 h-6 rounded-full flex items-center justify-center text-[11px] font-semibold shrink-0"
+                            style={{
+                                background: i <= step ? "var(--color-accent)" : "var(--color-bg-elevated)",
+                                color: i <= step ? "#fff" : "var(--color-text-dim)",
+                            }}
+                        >
+                            {i < step ? <Check size={12} /> : i + 1}
+                        </span>
+                        <span
+                            className="text-xs hidden sm:inline"
+                            style={{ color: i === step ? "var(--color-text)" : "var(--color-text-dim)" }}
+                        >
+                            {s.label}
+                        </span>
+                    </div>
+                ))}
+            </div>
+
+            <form
+                onSubmit={
+                    step === STEPS.length - 1
+                        ? handleSubmit(onSubmit)
+                        : (e) => {
+                            e.preventDefault();
+                            void next();
+                        }
+                }
+                className="space-y-4"
+            >
+                {/* ── Step 1: Basics ─────────────────── */}
+                {step === 0 && (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-1.5">Name</label>
+                            <input
+                                {...register("name")}
+                                autoFocus
+                                className="w-full px-4 py-2.5 rounded-xl text-sm outline-none"
+                                style={inputStyle(!!errors.name)}
+                                placeholder="my_documents"
+                            />
+                            {errors.name && (
+                                <p className="text-xs mt-1" style={{ color: "var(--color-error)" }}>
+                                    {errors.name.message}
+                                </p>
+                            )}
+                        </div>
+                        <label className="flex items-start gap-2 text-sm cursor-pointer">
+                            <input
+                                type="checkbox"
+                                {...register("getOrCreate")}
+                                className="mt-0.5 accent-[var(--color-accent)]"
+                            />
+                            <span>
+                                Get or create
+                                <span className="block text-xs" style={{ color: "var(--color-text-dim)" }}>
+                                    Return the existing collection if one with this name already exists
+                                </span>
+                            </span>
+                        </label>
+                    </div>
+                )}
+
+                {/* ── Step 2: Metadata ───────────────── */}
+                {step === 1 && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium">Collection metadata</label>
+                            <button
+                                type="button"
+                                onClick={() => append({ key: "", type: "string", value: "" })}
+                                className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer"
+                                style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                            >
+                                <Plus size={12} /> Add Field
+                            </button>
+                        </div>
+                        {fields.length === 0 && (
+                            <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                                No metadata. This step is optional.
+                            </p>
+                        )}
+                        {fields.map((field, i) => (
+                            <div key={field.id} className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        {...register(`metadata.${i}.key`)}
+                                        placeholder="key"
+                                        className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                                        style={inputStyle(!!errors.metadata?.[i]?.key)}
+                                    />
+                                    <select
+                                        {...register(`metadata.${i}.type`)}
+                                        className="w-24 px-2 py-2 rounded-lg text-xs outline-none cursor-pointer"
+                                        style={inputStyle(false)}
+                                    >
+                                        <option value="string">string</option>
+                                        <option value="number">number</option>
+                                        <option value="boolean">boolean</option>
+                                    </select>
+                                    {values.metadata[i]?.type === "boolean" ? (
+                                        <select
+                                            {...register(`metadata.${i}.value`)}
+                                            className="flex-1 px-3 py-2 rounded-lg text-xs outline-none cursor-pointer"
+                                            style={inputStyle(false)}
+                                        >
+                                            <option value="true">true</option>
+                                            <option value="false">false</option>
+                                        </select>
+                                    ) : (
+                                        <input
+                                            {...register(`metadata.${i}.value`)}
+                                            placeholder="value"
+                                            className="flex-1 px-3 py-2 rounded-lg text-xs outline-none font-mono"
+                                            style={inputStyle(!!errors.metadata?.[i]?.value)}
+                                        />
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => remove(i)}
+                                        className="p-1.5 rounded-lg cursor-pointer shrink-0"
+                                        style={{ color: "var(--color-error)" }}
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                                {(errors.metadata?.[i]?.key || errors.metadata?.[i]?.value) && (
+                                    <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                                        {errors.metadata[i]?.key?.message ?? errors.metadata[i]?.value?.message}
+                                    </p>
+                                )}
+                            </div>
+                        ))}
+                        {errors.metadata?.root && (
+                            <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                                {errors.metadata.root.message}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* ── Step 3: Index ──────────────────── */}
+                {step === 2 && (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Distance space</label>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                {SPACES.map((sp) => (
+                                    <label
+                                        key={sp.value}
+                                        className="p-3 rounded-xl cursor-pointer text-left"
+                                        style={{
+                                            background:
+                                                values.space === sp.value
+                                                    ? "var(--color-accent-glow)"
+                                                    : "var(--color-bg-input)",
+                                            border:
+                                                values.space === sp.value
+                                                    ? "1px solid var(--color-accent)"
+                                                    : "1px solid var(--color-border)",
+                                        }}
+                                    >
+                                        <input
+                                            type="radio"
+                                            value={sp.value}
+                                            {...register("space")}
+                                            className="sr-only"
+                                        />
+                                        <span className="block text-sm font-medium">{sp.label}</span>
+                                        <span className="block text-[11px] mt-0.5" style={{ color: "var(--color-text-dim)" }}>
+                                            {sp.desc}
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-3 gap-3">
+                            {([
+                                ["constructionEf", "construction_ef"],
+                                ["m", "M"],
+                                ["searchEf", "search_ef"],
+                            ] as const).map(([field, label]) => (
+                                <div key={field}>
+                                    <label
+                                        className="block text-xs font-medium mb-1 font-mono"
+                                        style={{ color: "var(--color-text-muted)" }}
+                                    >
+                                        {label}
+                                    </label>
+                                    <input
+                                        type="number"
+                                        {...register(field, { valueAsNumber: true })}
+                                        className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+                                        style={inputStyle(!!errors[field])}
+                                    />
+                                    {errors[field] && (
+                                        <p className="text-[11px] mt-1" style={{ color: "var(--color-error)" }}>
+                                            {errors[field]?.message}
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[11px]" style={{ color: "var(--color-text-dim)" }}>
+                            The distance space and construction parameters cannot be changed after creation.
+                        </p>
+                    </div>
+                )}
+
+                {/* ── Step 4: Review ─────────────────── */}
+                {step === 3 && (
+                    <div className="space-y-2 text-sm">
+                        <p style={{ color: "var(--color-text-muted)" }}>
+                            {values.getOrCreate ? "Get or create" : "Create"}{" "}
+                            <strong style={{ color: "var(--color-text)" }}>{values.name}</strong> in{" "}
+                            {scope.tenant} / {scope.database} with:
+                        </p>
+                        <pre
+                            className="text-xs p-3 rounded-lg overflow-x-auto max-h-60"
+                            style={{ background: "var(--color-bg)", color: "var(--color-text-muted)" }}
+                        >
+                            {JSON.stringify(
+                                {
+                                    metadata: toCollectionMetadata(values),
+                                    configuration: toCollectionConfiguration(values),
+                                },
+                                null,
+                                2,
+                            )}
+                        </pre>
+                    </div>
+                )}
+
+                {/* Footer */}
+                <div className="flex gap-3 justify-between pt-2">
+                    <button
+                        type="button"
+                        onClick={() => (step === 0 ? close() : setStep(step - 1))}
+                        className="flex items-center gap-1 px-4 py-2 rounded-xl text-sm cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        {step === 0 ? "Cancel" : <><ChevronLeft size={14} /> Back</>}
+                    </button>
+                    {step < STEPS.length - 1 ? (
+                        <button
+                            type="button"
+                            onClick={next}
+                            className="flex items-center gap-1 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            Next <ChevronRight size={14} />
+                        </button>
+                    ) : (
+                        <button
+                            type="submit"
+                            disabled={submitting}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-60"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            {submitting ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                            Create Collection
+                        </button>
+                    )}
+                </div>
+            </form>
+        </Modal>
+    );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { buildWhereDocument, documentFilterError, type DocumentFilter } from "./DocumentFilterBuilder";
+
+const row = (operator: string, value: string): DocumentFilter => ({ _id: `${operator}${value}`, operator, value });
+
+describe("documentFilterError", () => {
+    it("is null when every regex compiles", () => {
+        expect(documentFilterError([row("$regex", "^a.*z$"), row("$contains", "(")])).toBeNull();
+    });
+
+    it("reports the first regex that does not compile", () => {
+        expect(documentFilterError([row("$contains", "ok"), row("$regex", "(")])).toMatch(/^Document filter: /);
+    });
+});
+
+describe("buildWhereDocument", () => {
+    it("combines rows with the chosen mode and skips empty ones", () => {
+        expect(buildWhereDocument([row("$contains", "a"), row("$contains", ""), row("$regex", "b+")], "$or")).toEqual({
+            $or: [{ $contains: "a" }, { $regex: "b+" }],
+        });
+    });
+
+    it("leaves out a regex row that does not compile", () => {
+        expect(buildWhereDocument([row("$contains", "a"), row("$regex", "[")])).toEqual({ $contains: "a" });
+    });
+});
@@ -0,0 +1,206 @@
+import { Plus, X } from "lucide-react";
+
+export interface DocumentFilter {
+    _id: string;
+    operator: string;
+    value: string;
+}
+
+export type DocumentFilterMode = "$and" | "$or";
+
+interface DocumentFilterBuilderProps {
+    filters: DocumentFilter[];
+    mode: DocumentFilterMode;
+    onChange: (filters: DocumentFilter[], mode: DocumentFilterMode) => void;
+}
+
+let _filterId = 0;
+function nextFilterId(): string {
+    return `df-${++_filterId}-${Date.now()}`;
+}
+
+const OPERATORS = [
+    { value: "$contains", label: "contains" },
+    { value: "$not_contains", label: "not contains" },
+    { value: "$regex", label: "matches regex" },
+];
+
+/** Error message for an invalid `$regex` pattern, or null when it compiles. */
+function regexError(filter: DocumentFilter): string | null {
+    if (filter.operator !== "$regex" || !filter.value) return null;
+    try {
+        new RegExp(filter.value);
+        return null;
+    } catch (err) {
+        return (err as Error).message;
+    }
+}
+
+/** The first invalid `$regex` row as a message, or null when every row compiles. */
+export function documentFilterError(filters: DocumentFilter[]): string | null {
+    for (const filter of filters) {
+        const error = regexError(filter);
+        if (error) return `Document filter: ${error}`;
+    }
+    return null;
+}
+
+/** Invalid `$regex` rows are left out; check `documentFilterError` before running a query. */
+export function buildWhereDocument(
+    filters: DocumentFilter[],
+    mode: DocumentFilterMode = "$and",
+): Record<string, unknown> | undefined {
+    const active = filters.filter((f) => f.value !== "" && !regexError(f));
+    if (active.length === 0) return undefined;
+
+    const conditions = active.map((f) => ({ [f.operator]: f.value }));
+
+    if (conditions.length === 1) return conditions[0]!;
+    return { [mode]: conditions };
+}
+
+/** Convert a where_document clause back into builder rows, or null if it is nested deeper. */
+export function documentFiltersFromWhere(
+    where: Record<string, unknown>,
+): { filters: DocumentFilter[]; mode: DocumentFilterMode } | null {
+    const [key, value] = Object.entries(where)[0] ?? [];
+    const group = key === "$and" || key === "$or";
+    const conditions = group && Array.isArray(value) ? (value as Record<string, unknown>[]) : [where];
+    const filters: DocumentFilter[] = [];
+    for (const condition of conditions) {
+        const [operator, text] = Object.entries(condition ?? {})[0] ?? [];
+        if (!OPERATORS.some((op) => op.value === operator) || typeof text !== "string") return null;
+        filters.push({ _id: nextFilterId(), operator: operator!, value: text });
+    }
+    return { filters, mode: group ? (key as DocumentFilterMode) : "$and" };
+}
+
+export function DocumentFilterBuilder({
+    filters,
+    mode,
+    onChange,
+}: DocumentFilterBuilderProps) {
+    const addFilter = () => {
+        onChange([...filters, { _id: nextFilterId(), operator: "$contains", value: "" }], mode);
+    };
+
+    const removeFilter = (index: number) => {
+        onChange(filters.filter((_, i) => i !== index), mode);
+    };
+
+    const updateFilter = (index: number, field: keyof DocumentFilter, value: string) => {
+        const updated = filters.map((f, i) =>
+            i === index ? { ...f, [field]: value } : f,
+        );
+        onChange(updated, mode);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <label
+                    className="text-xs font-medium"
+                    style={{ color: "var(--color-text-muted)" }}
+                >
+                    Document Filters
+                </label>
+                <div className="flex items-center gap-2">
+                    {filters.length > 1 && (
+                        <div
+                            className="flex rounded-lg overflow-hidden text-xs"
+                            style={{ border: "1px solid var(--color-border)" }}
+                        >
+                            {(["$and", "$or"] as const).map((m) => (
+                                <button
+                                    key={m}
+                                    type="button"
+                                    onClick={() => onChange(filters, m)}
+                                    className="px-2 py-1 cursor-pointer"
+                                    style={{
+                                        background: mode === m ? "var(--color-accent-glow)" : "transparent",
+                                        color: mode === m ? "var(--color-accent)" : "var(--color-text-muted)",
+                                    }}
+                                >
+                                    {m === "$and" ? "All" : "Any"}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={addFilter}
+                        className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors"
+                        style={{
+                            background: "var(--color-accent-glow)",
+                            color: "var(--color-accent)",
+                        }}
+                    >
+                        <Plus size={12} /> Add Filter
+                    </button>
+                </div>
+            </div>
+
+            {filters.length === 0 && (
+                <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                    No filters applied. Click "Add Filter" to match on document text.
+                </p>
+            )}
+
+            {filters.map((filter, i) => {
+                const invalid = regexError(filter);
+                return (
+                    <div key={filter._id} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            {/* Operator */}
+                            <select
+                                value={filter.operator}
+                                onChange={(e) => updateFilter(i, "operator", e.target.value)}
+                                className="w-32 px-2 py-2 rounded-lg text-xs outline-none cursor-pointer"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-accent)",
+                                }}
+                            >
+                                {OPERATORS.map((op) => (
+                                    <option key={op.value} value={op.value}>
+                                        {op.label}
+                                    </option>
+                                ))}
+                            </select>
+
+                            {/* Value */}
+                            <input
+                                value={filter.value}
+                                onChange={(e) => updateFilter(i, "value", e.target.value)}
+                                placeholder={filter.operator === "$regex" ? "pattern" : "text"}
+                                title={invalid ?? undefined}
+                                className="flex-1 px-3 py-2 rounded-lg text-xs outline-none font-mono"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: `1px solid ${invalid ? "var(--color-error)" : "var(--color-border)"}`,
+                                    color: "var(--color-text)",
+                                }}
+                            />
+
+                            {/* Remove */}
+                            <button
+                                type="button"
+                                onClick={() => removeFilter(i)}
+                                className="p-1.5 rounded-lg cursor-pointer transition-colors shrink-0"
+                                style={{ color: "var(--color-error)" }}
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                        {invalid && (
+                            <p className="text-[11px] pl-34" style={{ color: "var(--color-error)" }}>
+                                {invalid}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useQueryClient } from "@tanstack/react-query";
+import { ScanSearch, Square, Loader2, Trash2, ChevronDown, ChevronRight } from "lucide-react";
+import { Modal } from "./Modal";
+import {
+    findDuplicates,
+    planDuplicateDeletion,
+    deleteDuplicates,
+    type DuplicateGroup,
+    type DuplicateKind,
+    type DuplicateProgress,
+    type DuplicateReport,
+} from "../../lib/duplicates";
+import { useScope } from "../../lib/scopeContext";
+
+interface DuplicatesPanelProps {
+    collectionId: string;
+    collectionName: string;
+}
+
+const KIND_LABELS: Record<DuplicateKind, { label: string; color: string }> = {
+    document: { label: "Same document", color: "var(--color-info)" },
+    embedding: { label: "Identical embedding", color: "var(--color-warning)" },
+    near: { label: "Near duplicate", color: "var(--color-accent)" },
+};
+
+function GroupRow({
+    group,
+    selected,
+    onSelect,
+    keep,
+    onKeep,
+}: {
+    group: DuplicateGroup;
+    selected: boolean;
+    onSelect: (selected: boolean) => void;
+    keep: string;
+    onKeep: (id: string) => void;
+}) {
+    const [open, setOpen] = useState(false);
+    const kind = KIND_LABELS[group.kind];
+    return (
+        <div className="rounded-lg text-xs" style={{ background: "var(--color-bg-elevated)" }}>
+            <div className="flex items-center gap-3 px-3 py-2">
+                <input type="checkbox" checked={selected} onChange={(e) => onSelect(e.target.checked)} />
+                <button
+                    type="button"
+                    onClick={() => setOpen(!open)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left cursor-pointer"
+                >
+                    {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                    <span
+                        className="px-2 py-0.5 rounded-full text-[10px] font-medium whitespace-nowrap"
+                        style={{ border: `1px solid ${kind.color}`, color: kind.color }}
+                    >
+                        {kind.label}
+                    </span>
+                    <span className="font-medium whitespace-nowrap">{group.ids.length} records</span>
+                    {group.kind === "near" && group.similarity !== null && (
+                        <span className="font-mono whitespace-nowrap" style={{ color: "var(--color-text-dim)" }} title="Lowest linked cosine similarity">
+                            ≥ {group.similarity.toFixed(4)}
+                        </span>
+                    )}
+                    <span className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                        {group.preview ?? "No document"}
+                    </span>
+                </button>
+            </div>
+            {open && (
+                <div className="px-9 pb-2 space-y-1">
+                    {group.ids.map((id) => (
+                        <label key={id} className="flex items-center gap-2 font-mono cursor-pointer">
+                            <input type="radio" name={group.key} checked={keep === id} onChange={() => onKeep(id)} />
+                            <span className="truncate">{id}</span>
+                            {keep === id && (
+                                <span className="font-sans text-[10px]" style={{ color: "var(--color-success)" }}>
+                                    keep
+                                </span>
+                            )}
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/** Find duplicate and near-duplicate records and keep one of each group. */
+export function DuplicatesPanel({ collectionId, collectionName }: DuplicatesPanelProps) {
+    const scope = useScope();
+    const queryClient = useQueryClient();
+    const [findNear, setFindNear] = useState(true);
+    const [threshold, setThreshold] = useState(0.98);
+    const [maxNearRecords, setMaxNearRecords] = useState(5000);
+    const [progress, setProgress] = useState<DuplicateProgress | null>(null);
+    const [report, setReport] = useState<DuplicateReport | null>(null);
+    const [kindFilter, setKindFilter] = useState<DuplicateKind | "all">("all");
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [keep, setKeep] = useState<Map<string, string>>(new Map());
+    const [confirmOpen, setConfirmOpen] = useState(false);
+    const [deleting, setDeleting] = useState<{ done: number; total: number } | null>(null);
+    const [controller, setController] = useState<AbortController | null>(null);
+
+    const handleScan = async () => {
+        const abort = new AbortController();
+        setController(abort);
+        setProgress({ phase: "scan", done: 0, total: null });
+        setSelected(new Set());
+        setKeep(new Map());
+        try {
+            setReport(
+                await findDuplicates(collectionId, collectionName, scope, {
+                    findNear,
+                    threshold,
+                    maxNearRecords,
+                    signal: abort.signal,
+                    onProgress: setProgress,
+                }),
+            );
+        } catch (err) {
+            if ((err as Error).name !== "AbortError") toast.error((err as Error).message);
+        } finally {
+            setController(null);
+            setProgress(null);
+        }
+    };
+
+    const groups = report?.groups.filter((g) => kindFilter === "all" || g.kind === kindFilter) ?? [];
+    const selectedGroups = report?.groups.filter((g) => selected.has(g.key)) ?? [];
+    const toDelete = planDuplicateDeletion(selectedGroups, keep);
+
+    const handleDelete = async () => {
+        if (!report) return;
+        setDeleting({ done: 0, total: toDelete.length });
+        try {
+            await deleteDuplicates(collectionId, toDelete, scope, (done, total) => setDeleting({ done, total }));
+            toast.success(`Deleted ${toDelete.length} duplicate record${toDelete.length !== 1 ? "s" : ""}`);
+            // Drop deleted records from every group, and groups left with a single record
+            const gone = new Set(toDelete);
+            setReport({
+                ...report,
+                groups: report.groups
+                    .map((g) => ({ ...g, ids: g.ids.filter((id) => !gone.has(id)) }))
+                    .filter((g) => g.ids.length > 1),
+            });
+            setSelected(new Set());
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ["items", collectionId] }),
+                queryClient.invalidateQueries({ queryKey: ["sample", collectionId] }),
+                queryClient.invalidateQueries({ queryKey: ["collectionCount", collectionId] }),
+            ]);
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setDeleting(null);
+            setConfirmOpen(false);
+        }
+    };
+
+    const card = { background: "var(--color-bg-card)", border: "1px solid var(--color-border)" };
+    const counts = (kind: DuplicateKind) => report?.groups.filter((g) => g.kind === kind).length ?? 0;
+
+    return (
+        <div className="space-y-4">
+            {/* Scan options */}
+            <div className="p-5 rounded-2xl space-y-4" style={card}>
+                <div>
+                    <h3 className="text-sm font-semibold">Duplicates</h3>
+                    <p className="text-xs mt-1" style={{ color: "var(--color-text-dim)" }}>
+                        Streams every record and groups identical documents and embeddings. Near duplicates compare
+                        distinct embeddings pairwise by cosine similarity.
+                    </p>
+                </div>
+                <div className="flex items-center gap-6 flex-wrap text-xs">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={findNear} onChange={(e) => setFindNear(e.target.checked)} />
+                        Near duplicates
+                    </label>
+                    {findNear && (
+                        <>
+                            <label className="flex items-center gap-2">
+                                <span style={{ color: "var(--color-text-muted)" }}>Cosine ≥</span>
+                                <input
+                                    type="range"
+                                    min={0.8}
+                                    max={1}
+                                    step={0.005}
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(Number(e.target.value))}
+                                />
+                                <span className="font-mono w-12">{threshold.toFixed(3)}</span>
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <span style={{ color: "var(--color-text-muted)" }}>Compare up to</span>
+                                <input
+                                    type="number"
+                                    min={100}
+                                    step={1000}
+                                    value={maxNearRecords}
+                                    onChange={(e) => setMaxNearRecords(Math.max(100, Number(e.target.value) || 100))}
+                                    className="w-24 px-2 py-1 rounded-lg outline-none"
+                                    style={{
+                                        background: "var(--color-bg-input)",
+                                        border: "1px solid var(--color-border)",
+                                        color: "var(--color-text)",
+                                    }}
+                                />
+                                <span style={{ color: "var(--color-text-muted)" }}>embeddings</span>
+                            </label>
+                        </>
+                    )}
+                </div>
+                <div className="flex items-center gap-3">
+                    <button
+                        type="button"
+                        onClick={() => void handleScan()}
+                        disabled={progress !== null || deleting !== null}
+                        className="flex items-center gap-1.5 text-xs px-4 py-2 rounded-lg cursor-pointer disabled:opacity-40"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <ScanSearch size={13} /> Find duplicates
+                    </button>
+                    {progress && (
+                        <>
+                            <span className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                                <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                                {progress.phase === "scan"
+                                    ? `Scanned ${progress.done.toLocaleString()} records`
+                                    : `Comparing embeddings ${progress.done.toLocaleString()} / ${progress.total?.toLocaleString()}`}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => controller?.abort()}
+                                className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                                style={{ color: "var(--color-error)", border: "1px solid var(--color-border)" }}
+                            >
+                                <Square size={11} /> Stop
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {/* Groups */}
+            {report && (
+                <div className="p-5 rounded-2xl space-y-3" style={card}>
+                    <div className="flex items-center gap-3 flex-wrap">
+                        <h3 className="text-sm font-semibold flex-1">
+                            {report.groups.length} duplicate group{report.groups.length !== 1 ? "s" : ""} in{" "}
+                            {report.scanned.toLocaleString()} records
+                        </h3>
+                        <button
+                            type="button"
+                            onClick={() => setSelected(new Set(groups.map((g) => g.key)))}
+                            disabled={groups.length === 0}
+                            className="text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40"
+                            style={{ color: "var(--color-text-muted)" }}
+                        >
+                            Select all
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setConfirmOpen(true)}
+                            disabled={toDelete.length === 0 || deleting !== null}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40"
+                            style={{ background: "var(--color-error)", color: "#fff" }}
+                        >
+                            <Trash2 size={12} /> Keep one, delete {toDelete.length}
+                        </button>
+                    </div>
+                    {report.nearTruncated && (
+                        <p className="text-xs" style={{ color: "var(--color-warning)" }}>
+                            Near duplicates were searched among the first {report.nearCompared.toLocaleString()} distinct
+                            embeddings only.
+                        </p>
+                    )}
+
+                    <div className="flex gap-1 text-xs flex-wrap">
+                        {(["all", "document", "embedding", "near"] as const).map((k) => (
+                            <button
+                                key={k}
+                                type="button"
+                                onClick={() => setKindFilter(k)}
+                                className="px-3 py-1 rounded-full cursor-pointer"
+                                style={{
+                                    background: kindFilter === k ? "var(--color-accent-glow)" : "transparent",
+                                    color: kindFilter === k ? "var(--color-accent)" : "var(--color-text-muted)",
+                                    border: "1px solid var(--color-border)",
+                                }}
+                            >
+                                {k === "all" ? `All (${report.groups.length})` : `${KIND_LABELS[k].label} (${counts(k)})`}
+                            </button>
+                        ))}
+                    </div>
+
+                    {groups.length === 0 ? (
+                        <p className="text-xs py-4 text-center" style={{ color: "var(--color-text-dim)" }}>
+                            No duplicates found.
+                        </p>
+                    ) : (
+                        <div className="space-y-1">
+                            {groups.map((g) => (
+                                <GroupRow
+                                    key={g.key}
+                                    group={g}
+                                    selected={selected.has(g.key)}
+                                    onSelect={(on) => {
+                                        const next = new Set(selected);
+                                        if (on) next.add(g.key);
+                                        else next.delete(g.key);
+                                        setSelected(next);
+                                    }}
+                                    keep={keep.get(g.key) ?? g.ids[0]!}
+                                    onKeep={(id) => setKeep(new Map(keep).set(g.key, id))}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Delete confirm modal */}
+            <Modal open={confirmOpen} onClose={() => setConfirmOpen(false)} title="Delete Duplicates">
+                <p className="text-sm mb-3" style={{ color: "var(--color-text-muted)" }}>
+                    Keep one record in each of{" "}
+                    <strong style={{ color: "var(--color-text)" }}>{selectedGroups.length}</strong> group
+                    {selectedGroups.length !== 1 ? "s" : ""} and delete the other{" "}
+                    <strong style={{ color: "var(--color-text)" }}>{toDelete.length}</strong> record
+                    {toDelete.length !== 1 ? "s" : ""}? This action cannot be undone.
+                </p>
+                <p className="text-xs font-mono mb-5 max-h-32 overflow-y-auto" style={{ color: "var(--color-text-dim)" }}>
+                    {toDelete.slice(0, 50).join(", ")}
+                    {toDelete.length > 50 && ` … and ${toDelete.length - 50} more`}
+                </p>
+                <div className="flex gap-3 justify-end">
+                    <button
+                        onClick={() => setConfirmOpen(false)}
+                        className="px-4 py-2 rounded-xl text-sm cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => void handleDelete()}
+                        disabled={deleting !== null}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-60"
+                        style={{ background: "var(--color-error)", color: "#fff" }}
+                    >
+                        {deleting ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                        {deleting ? `Deleting ${deleting.done} / ${deleting.total}` : "Delete"}
+                    </button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Cpu, Plus, Pencil, Trash2, Loader2, Zap, X, Check } from "lucide-react";
+import {
+    useEmbeddingProviders,
+    saveEmbeddingProvider,
+    updateEmbeddingProvider,
+    deleteEmbeddingProvider,
+    getProfileProviderId,
+    setProfileProvider,
+    embedTexts,
+    PROVIDER_KINDS,
+    type EmbeddingProvider,
+    type EmbeddingProviderKind,
+} from "../../lib/embeddingProviders";
+import { useProfiles } from "../../lib/profileContext";
+import { isVaultLocked, requestVaultUnlock, VAULT_LOCKED_MESSAGE } from "../../lib/vault";
+
+type ProviderDraft = Omit<EmbeddingProvider, "id" | "createdAt">;
+
+const emptyDraft = (kind: EmbeddingProviderKind = "openai"): ProviderDraft => ({
+    name: "",
+    kind,
+    url: PROVIDER_KINDS[kind].defaultUrl,
+    model: PROVIDER_KINDS[kind].defaultModel,
+    apiKey: "",
+});
+
+/**
+ * Register client-side embedding providers and pick the default one for the
+ * active server profile. Collections can override it from the Query tab.
+ */
+export function EmbeddingProvidersPanel() {
+    const { providers } = useEmbeddingProviders();
+    const { activeProfile } = useProfiles();
+    const [draft, setDraft] = useState<ProviderDraft | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [testingId, setTestingId] = useState<string | null>(null);
+
+    const profileDefault = getProfileProviderId(activeProfile?.id ?? null) ?? "";
+
+    const guarded = (fn: () => void) => {
+        try {
+            fn();
+            return true;
+        } catch (err) {
+            toast.error((err as Error).message);
+            if ((err as Error).message === VAULT_LOCKED_MESSAGE) requestVaultUnlock();
+            return false;
+        }
+    };
+
+    const save = () => {
+        if (!draft) return;
+        const clean: ProviderDraft = {
+            ...draft,
+            name: draft.name.trim() || PROVIDER_KINDS[draft.kind].label,
+            url: draft.url.trim(),
+            model: draft.model.trim(),
+            apiKey: draft.kind === "openai" && draft.apiKey ? draft.apiKey : undefined,
+        };
+        const ok = guarded(() => {
+            if (editingId) updateEmbeddingProvider(editingId, clean);
+            else saveEmbeddingProvider(clean);
+        });
+        if (ok) {
+            setDraft(null);
+            setEditingId(null);
+        }
+    };
+
+    const test = async (provider: EmbeddingProvider) => {
+        setTestingId(provider.id);
+        try {
+            const [vector] = await embedTexts(provider, ["hello world"]);
+            toast.success(`${provider.name} returned ${vector?.length ?? 0} dimensions`);
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-3"
+            style={{
+                background: "var(--color-bg-card)",
+                border: "1px solid var(--color-border)",
+            }}
+        >
+            <div className="flex items-center gap-2">
+                <Cpu size={15} style={{ color: "var(--color-accent)" }} />
+                <h3 className="text-sm font-semibold flex-1">Embedding Providers</h3>
+                {!draft && (
+                    <button
+                        type="button"
+                        onClick={() => {
+                            setEditingId(null);
+                            setDraft(emptyDraft());
+                        }}
+                        className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        <Plus size={12} /> Add provider
+                    </button>
+                )}
+            </div>
+
+            <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                Embed query text in the browser when collections have no server-side embedding
+                function. The endpoint must allow requests from this origin.
+            </p>
+
+            {providers.length > 0 && (
+                <label className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    Default for {activeProfile ? <strong>{activeProfile.name}</strong> : "this connection"}
+                    <select
+                        value={profileDefault}
+                        onChange={(e) => setProfileProvider(activeProfile?.id ?? null, e.target.value || null)}
+                        className="flex-1 px-2 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                        style={inputStyle}
+                    >
+                        <option value="">Server-side embedding</option>
+                        {providers.map((p) => (
+                            <option key={p.id} value={p.id}>
+                                {p.name}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            )}
+
+            <div className="space-y-1.5">
+                {providers.map((p) => (
+                    <div
+                        key={p.id}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs"
+                        style={{ background: "var(--color-bg-elevated)" }}
+                    >
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{p.name}</p>
+                            <p className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                                {PROVIDER_KINDS[p.kind].label}
+                                {p.kind !== "manual" && ` · ${p.model} · ${p.url}`}
+                                {p.kind === "openai" && !p.apiKey && isVaultLocked() && " · key locked"}
+                            </p>
+                        </div>
+                        {p.kind !== "manual" && (
+                            <button
+                                type="button"
+                                onClick={() => test(p)}
+                                disabled={testingId !== null}
+                                className="p-1.5 rounded-md cursor-pointer disabled:opacity-40"
+                                style={{ color: "var(--color-text-muted)" }}
+                                title="Test"
+                            >
+                                {testingId === p.id ? <Loader2 size={13} className="animate-spin" /> : <Zap size={13} />}
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setEditingId(p.id);
+                                setDraft({ name: p.name, kind: p.kind, url: p.url, model: p.model, apiKey: p.apiKey ?? "" });
+                            }}
+                            className="p-1.5 rounded-md cursor-pointer"
+                            style={{ color: "var(--color-text-muted)" }}
+                            title="Edit"
+                        >
+                            <Pencil size={13} />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => guarded(() => deleteEmbeddingProvider(p.id))}
+                            className="p-1.5 rounded-md cursor-pointer"
+                            style={{ color: "var(--color-error)" }}
+                            title="Delete"
+                        >
+                            <Trash2 size={13} />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {draft && (
+                <div className="space-y-2 p-3 rounded-xl" style={{ border: "1px solid var(--color-border)" }}>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            className="px-3 py-2 rounded-lg text-sm outline-none"
+                            style={inputStyle}
+                            placeholder="Name"
+                        />
+                        <select
+                            value={draft.kind}
+                            onChange={(e) => {
+                                const kind = e.target.value as EmbeddingProviderKind;
+                                setDraft({ ...emptyDraft(kind), name: draft.name });
+                            }}
+                            className="px-3 py-2 rounded-lg text-sm outline-none cursor-pointer"
+                            style={inputStyle}
+                        >
+                            {(Object.keys(PROVIDER_KINDS) as EmbeddingProviderKind[]).map((k) => (
+                                <option key={k} value={k}>
+                                    {PROVIDER_KINDS[k].label}
+                                </option>
+                            ))}
+                        </select>
+                        {draft.kind !== "manual" && (
+                            <>
+                                <input
+                                    value={draft.url}
+                                    onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                                    className="px-3 py-2 rounded-lg text-sm outline-none"
+                                    style={inputStyle}
+                                    placeholder="Base URL"
+                                />
+                                <input
+                                    value={draft.model}
+                                    onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                                    className="px-3 py-2 rounded-lg text-sm outline-none"
+                                    style={inputStyle}
+                                    placeholder="Model"
+                                />
+                            </>
+                        )}
+                        {draft.kind === "openai" && (
+                            <input
+                                type="password"
+                                value={draft.apiKey ?? ""}
+                                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                                className="sm:col-span-2 px-3 py-2 rounded-lg text-sm outline-none"
+                                style={inputStyle}
+                                placeholder="API key (optional for local servers)"
+                            />
+                        )}
+                    </div>
+                    {draft.kind === "manual" && (
+                        <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                            The Query tab will ask for a vector to paste instead of text.
+                        </p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setDraft(null);
+                                setEditingId(null);
+                            }}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={{
+                                background: "var(--color-bg-elevated)",
+                                border: "1px solid var(--color-border)",
+                                color: "var(--color-text-muted)",
+                            }}
+                        >
+                            <X size={12} /> Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={save}
+                            disabled={draft.kind !== "manual" && (!draft.url.trim() || !draft.model.trim())}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            <Check size={12} /> {editingId ? "Save" : "Add"}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
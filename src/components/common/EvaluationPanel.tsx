@@ -0,0 +1,443 @@
+import { useMemo, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import type { ColumnDef } from "@tanstack/react-table";
+import { Upload, ClipboardCheck, Cpu, Loader2, FlaskConical, GitCompare, Trash2 } from "lucide-react";
+import { DataTable } from "../table/DataTable";
+import { MetadataFilterBuilder, buildWhereClause, emptyFilterGroup, type MetadataFilterGroup } from "./MetadataFilterBuilder";
+import {
+    DocumentFilterBuilder,
+    buildWhereDocument,
+    documentFilterError,
+    type DocumentFilter,
+    type DocumentFilterMode,
+} from "./DocumentFilterBuilder";
+import {
+    parseEvalQueries,
+    runEvaluation,
+    aggregateMetrics,
+    saveEvalRun,
+    deleteEvalRun,
+    useEvalRuns,
+    type EvalConfig,
+    type EvalMetrics,
+    type EvalQuery,
+    type EvalQueryResult,
+} from "../../lib/retrievalEval";
+import { useRelevanceLabels, toEvalJsonl } from "../../lib/relevanceLabels";
+import { useEmbeddingProviders, resolveEmbeddingProvider } from "../../lib/embeddingProviders";
+import { useProfiles } from "../../lib/profileContext";
+import { useScope } from "../../lib/scopeContext";
+
+interface EvaluationPanelProps {
+    collectionId: string;
+    collectionName: string;
+    metadataKeys: string[];
+    embeddingDims: number | null;
+}
+
+const EVAL_METRICS: { key: keyof EvalMetrics; label: string }[] = [
+    { key: "recall", label: "Recall@k" },
+    { key: "precision", label: "Precision@k" },
+    { key: "mrr", label: "MRR" },
+    { key: "ndcg", label: "nDCG@k" },
+];
+
+type EvalRow = EvalQueryResult & { baseline: EvalQueryResult | null };
+
+function MetricDelta({ value }: { value: number }) {
+    if (Math.abs(value) < 0.0005) return <span style={{ color: "var(--color-text-dim)" }}>±0</span>;
+    return (
+        <span style={{ color: value > 0 ? "var(--color-success)" : "var(--color-error)" }}>
+            {value > 0 ? "+" : ""}
+            {value.toFixed(3)}
+        </span>
+    );
+}
+
+export function EvaluationPanel({
+    collectionId,
+    collectionName,
+    metadataKeys,
+    embeddingDims,
+}: EvaluationPanelProps) {
+    useEmbeddingProviders();
+    const { activeProfile } = useProfiles();
+    const provider = resolveEmbeddingProvider(collectionId, activeProfile?.id ?? null);
+    const scope = useScope();
+    const runs = useEvalRuns().filter((r) => r.collectionId === collectionId);
+    const labels = useRelevanceLabels().filter((l) => l.collectionId === collectionId);
+
+    const [dataset, setDataset] = useState<{ name: string; queries: EvalQuery[] } | null>(null);
+    const [runName, setRunName] = useState("");
+    const [nResults, setNResults] = useState(10);
+    const [k, setK] = useState(10);
+    const [filters, setFilters] = useState<MetadataFilterGroup>(() => emptyFilterGroup());
+    const [rawWhere, setRawWhere] = useState<Record<string, unknown> | null>(null);
+    const [docFilters, setDocFilters] = useState<DocumentFilter[]>([]);
+    const [docFilterMode, setDocFilterMode] = useState<DocumentFilterMode>("$and");
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [viewId, setViewId] = useState<string | null>(null);
+    const [baselineId, setBaselineId] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const cancelRef = useRef(false);
+
+    const viewed = runs.find((r) => r.id === viewId) ?? runs[0] ?? null;
+    const baseline = runs.find((r) => r.id === baselineId && r.id !== viewed?.id) ?? null;
+
+    const loadDataset = async (file: File) => {
+        try {
+            setDataset({ name: file.name, queries: parseEvalQueries(await file.text()) });
+        } catch (err) {
+            toast.error(`${file.name}: ${(err as Error).message}`);
+        }
+    };
+
+    const docError = documentFilterError(docFilters);
+
+    const handleRun = async () => {
+        if (!dataset || docError) return;
+        const config: EvalConfig = {
+            nResults,
+            k: Math.min(k, nResults),
+            where: rawWhere ?? buildWhereClause(filters),
+            whereDocument: buildWhereDocument(docFilters, docFilterMode),
+        };
+        cancelRef.current = false;
+        setProgress({ done: 0, total: dataset.queries.length });
+        try {
+            const results = await runEvaluation(collectionId, collectionName, dataset.queries, config, {
+                provider,
+                embeddingDims,
+                scope,
+                onProgress: (done, total) => setProgress({ done, total }),
+                cancelled: () => cancelRef.current,
+            });
+            const run = saveEvalRun({
+                name: runName.trim() || `Run ${new Date().toLocaleString()}`,
+                collectionId,
+                collectionName,
+                datasetName: dataset.name,
+                config,
+                providerName: provider?.name ?? null,
+                results,
+                aggregate: aggregateMetrics(results),
+                tenant: scope.tenant,
+                database: scope.database,
+            });
+            setViewId(run.id);
+            setRunName("");
+            const failed = results.filter((r) => r.error).length;
+            if (failed > 0) toast.error(`${failed} of ${results.length} queries failed`);
+            else toast.success(`Evaluated ${results.length} queries`);
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const rows: EvalRow[] = useMemo(() => {
+        if (!viewed) return [];
+        const before = new Map(baseline?.results.map((r) => [r.queryId, r]));
+        return viewed.results.map((r) => ({ ...r, baseline: before.get(r.queryId) ?? null }));
+    }, [viewed, baseline]);
+
+    const columns: ColumnDef<EvalRow, unknown>[] = useMemo(() => {
+        const metricCell = (key: keyof EvalMetrics): ColumnDef<EvalRow, unknown> => ({
+            accessorKey: key,
+            header: EVAL_METRICS.find((m) => m.key === key)!.label,
+            cell: ({ row }) => (
+                <span className="text-xs font-mono flex items-center gap-2">
+                    {row.original.error ? "—" : row.original[key].toFixed(3)}
+                    {row.original.baseline && !row.original.error && !row.original.baseline.error && (
+                        <span className="text-[10px]">
+                            <MetricDelta value={row.original[key] - row.original.baseline[key]} />
+                        </span>
+                    )}
+                </span>
+            ),
+        });
+        return [
+            {
+                accessorKey: "queryId",
+                header: "Query",
+                cell: ({ getValue }) => <span className="font-mono text-xs">{String(getValue())}</span>,
+            },
+            {
+                accessorKey: "label",
+                header: "Text",
+                cell: ({ row }) => (
+                    <span className="text-xs line-clamp-2 max-w-sm">
+                        {row.original.label}
+                        {row.original.error && (
+                            <span className="block" style={{ color: "var(--color-error)" }}>
+                                {row.original.error}
+                            </span>
+                        )}
+                    </span>
+                ),
+            },
+            {
+                accessorKey: "relevantCount",
+                header: "Relevant",
+                cell: ({ getValue }) => <span className="text-xs">{String(getValue())}</span>,
+            },
+            ...EVAL_METRICS.map((m) => metricCell(m.key)),
+            {
+                accessorKey: "durationMs",
+                header: "ms",
+                cell: ({ getValue }) => (
+                    <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                        {String(getValue())}
+                    </span>
+                ),
+            },
+        ];
+    }, []);
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Run form */}
+            <div
+                className="p-5 rounded-2xl space-y-4"
+                style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+            >
+                <div className="flex items-center gap-3 flex-wrap">
+                    <button
+                        type="button"
+                        onClick={() => fileRef.current?.click()}
+                        className="flex items-center gap-1.5 text-xs px-3 py-2 rounded-lg cursor-pointer"
+                        style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                    >
+                        <Upload size={13} /> Upload evaluation set (JSONL)
+                    </button>
+                    {labels.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() =>
+                                setDataset({ name: "Labelled in Query tab", queries: parseEvalQueries(toEvalJsonl(labels)) })
+                            }
+                            className="flex items-center gap-1.5 text-xs px-3 py-2 rounded-lg cursor-pointer"
+                            style={{ border: "1px solid var(--color-border)", color: "var(--color-text-muted)" }}
+                            title="Evaluate against the relevance labels recorded on query results"
+                        >
+                            <ClipboardCheck size={13} /> Use labelled queries ({labels.length})
+                        </button>
+                    )}
+                    <input
+                        ref={fileRef}
+                        type="file"
+                        accept=".jsonl,.ndjson,.json,application/x-ndjson"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) void loadDataset(file);
+                            e.target.value = "";
+                        }}
+                    />
+                    {dataset ? (
+                        <span className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                            <span className="font-mono">{dataset.name}</span> · {dataset.queries.length} queries (
+                            {dataset.queries.filter((q) => q.embedding).length} with embeddings)
+                        </span>
+                    ) : (
+                        <span className="text-xs font-mono" style={{ color: "var(--color-text-dim)" }}>
+                            {`{"id": "q1", "text": "…", "relevant": ["id-1", "id-2"]}`} · graded:{" "}
+                            {`"relevant": {"id-1": 2, "id-2": 1}`}
+                        </span>
+                    )}
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="sm:w-40 space-y-3">
+                        <div>
+                            <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                                Results (n)
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                value={nResults}
+                                onChange={(e) => setNResults(Number(e.target.value))}
+                                className="w-full px-3 py-2 rounded-xl text-sm outline-none"
+                                style={inputStyle}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                                Cut-off (k)
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={nResults}
+                                value={k}
+                                onChange={(e) => setK(Number(e.target.value))}
+                                className="w-full px-3 py-2 rounded-xl text-sm outline-none"
+                                style={inputStyle}
+                            />
+                        </div>
+                        <p className="text-xs flex items-center gap-1.5" style={{ color: "var(--color-text-dim)" }}>
+                            <Cpu size={12} /> {provider ? provider.name : "Server-side embedding"}
+                        </p>
+                    </div>
+                    <div className="flex-1 space-y-4">
+                        <MetadataFilterBuilder
+                            filters={filters}
+                            onChange={setFilters}
+                            rawWhere={rawWhere}
+                            onRawWhereChange={setRawWhere}
+                            availableKeys={metadataKeys}
+                        />
+                        <DocumentFilterBuilder
+                            filters={docFilters}
+                            mode={docFilterMode}
+                            onChange={(f, mode) => {
+                                setDocFilters(f);
+                                setDocFilterMode(mode);
+                            }}
+                        />
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3 flex-wrap">
+                    <input
+                        value={runName}
+                        onChange={(e) => setRunName(e.target.value)}
+                        placeholder="Run name, e.g. text-embedding-3-small, after re-index…"
+                        className="flex-1 min-w-48 px-3 py-2.5 rounded-xl text-sm outline-none"
+                        style={inputStyle}
+                    />
+                    {progress ? (
+                        <>
+                            <div className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                                <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                                {progress.done} / {progress.total}
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => (cancelRef.current = true)}
+                                className="px-4 py-2.5 rounded-xl text-sm cursor-pointer"
+                                style={{ color: "var(--color-error)", border: "1px solid var(--color-border)" }}
+                            >
+                                Stop
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={() => void handleRun()}
+                            disabled={!dataset || docError !== null}
+                            title={docError ?? undefined}
+                            className="px-6 py-2.5 rounded-xl text-sm font-semibold flex items-center gap-2 cursor-pointer disabled:opacity-50"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            <FlaskConical size={16} /> Run Evaluation
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Saved runs */}
+            {runs.length > 0 && (
+                <div
+                    className="p-4 rounded-2xl space-y-1"
+                    style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+                >
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: "var(--color-text-dim)" }}>
+                        Runs
+                    </h3>
+                    {runs.map((r) => (
+                        <div
+                            key={r.id}
+                            className="flex items-center gap-3 px-3 py-2 rounded-lg text-xs"
+                            style={{
+                                background: r.id === viewed?.id ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                            }}
+                        >
+                            <button
+                                type="button"
+                                onClick={() => setViewId(r.id)}
+                                className="flex-1 min-w-0 text-left cursor-pointer"
+                            >
+                                <p className="font-medium truncate">{r.name}</p>
+                                <p className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                                    {new Date(r.createdAt).toLocaleString()} · {r.datasetName} · {r.results.length} queries · n=
+                                    {r.config.nResults} k={r.config.k}
+                                    {r.providerName && ` · ${r.providerName}`}
+                                </p>
+                            </button>
+                            {EVAL_METRICS.map((m) => (
+                                <span key={m.key} className="font-mono w-20 text-right hidden md:inline" title={m.label}>
+                                    {r.aggregate[m.key].toFixed(3)}
+                                </span>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setBaselineId(baselineId === r.id ? null : r.id)}
+                                disabled={r.id === viewed?.id}
+                                className="p-1.5 rounded-md cursor-pointer disabled:opacity-30"
+                                style={{ color: baseline?.id === r.id ? "var(--color-warning)" : "var(--color-text-muted)" }}
+                                title={baseline?.id === r.id ? "Stop comparing" : "Compare the viewed run against this one"}
+                            >
+                                <GitCompare size={13} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => deleteEvalRun(r.id)}
+                                className="p-1.5 rounded-md cursor-pointer"
+                                style={{ color: "var(--color-error)" }}
+                                title="Delete run"
+                            >
+                                <Trash2 size={13} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Viewed run */}
+            {viewed && (
+                <>
+                    <div className="flex items-baseline gap-2 flex-wrap">
+                        <h3 className="text-sm font-semibold">{viewed.name}</h3>
+                        {baseline && (
+                            <span className="text-xs" style={{ color: "var(--color-warning)" }}>
+                                compared with {baseline.name}
+                            </span>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                        {EVAL_METRICS.map((m) => (
+                            <div
+                                key={m.key}
+                                className="p-4 rounded-2xl"
+                                style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+                            >
+                                <p className="text-xs mb-1" style={{ color: "var(--color-text-muted)" }}>
+                                    {m.label.replace("@k", `@${viewed.config.k}`)}
+                                </p>
+                                <p className="text-lg font-bold font-mono">
+                                    {viewed.aggregate[m.key].toFixed(3)}
+                                    {baseline && (
+                                        <span className="text-xs font-normal ml-2">
+                                            <MetricDelta value={viewed.aggregate[m.key] - baseline.aggregate[m.key]} />
+                                        </span>
+                                    )}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                    <DataTable data={rows} columns={columns} exportFilename={`eval-${viewed.name}`} />
+                </>
+            )}
+        </div>
+    );
+}
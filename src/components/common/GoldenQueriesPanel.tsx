@@ -0,0 +1,364 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Camera, Play, Trash2, Download, Loader2, ChevronDown, ChevronRight } from "lucide-react";
+import { useSavedQueries } from "../../lib/savedQueries";
+import {
+    useGoldenSnapshots,
+    runGoldenQueries,
+    buildGoldenReport,
+    saveGoldenSnapshot,
+    deleteGoldenSnapshot,
+    type GoldenReport,
+    type GoldenQueryDiff,
+    type GoldenResult,
+    type GoldenSnapshot,
+} from "../../lib/goldenQueries";
+import type { EmbeddingProvider } from "../../lib/embeddingProviders";
+import { useScope } from "../../lib/scopeContext";
+import { describeQuery } from "./SavedQueriesPanel";
+
+interface GoldenQueriesPanelProps {
+    collectionId: string;
+    collectionName: string;
+    provider: EmbeddingProvider | null;
+    embeddingDims: number | null;
+}
+
+const fmt = (v: number) => v.toFixed(3);
+
+function scoreColor(v: number): string {
+    if (v >= 0.99) return "var(--color-success)";
+    if (v >= 0.8) return "var(--color-warning)";
+    return "var(--color-error)";
+}
+
+function QueryDiffRow({ diff }: { diff: GoldenQueryDiff }) {
+    const [open, setOpen] = useState(false);
+    const changed = !diff.identical;
+    return (
+        <div className="rounded-lg text-xs" style={{ background: "var(--color-bg-elevated)" }}>
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                disabled={!changed && !diff.error && diff.distanceShifts.length === 0}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left cursor-pointer disabled:cursor-default"
+            >
+                {open ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                <span className="flex-1 min-w-0 truncate font-medium">{diff.label}</span>
+                {diff.error ? (
+                    <span className="truncate max-w-xs" style={{ color: "var(--color-error)" }}>
+                        {diff.error}
+                    </span>
+                ) : (
+                    <>
+                        <span style={{ color: "var(--color-success)" }}>+{diff.added.length}</span>
+                        <span style={{ color: "var(--color-error)" }}>−{diff.dropped.length}</span>
+                        <span style={{ color: "var(--color-text-muted)" }}>↕{diff.reordered.length}</span>
+                        <span className="font-mono w-20 text-right" style={{ color: "var(--color-text-dim)" }} title="Largest distance shift">
+                            Δd {diff.maxDistanceShift.toFixed(4)}
+                        </span>
+                        <span className="font-mono w-16 text-right" style={{ color: scoreColor(diff.jaccard) }} title="Jaccard">
+                            J {fmt(diff.jaccard)}
+                        </span>
+                        <span className="font-mono w-20 text-right" style={{ color: scoreColor(diff.rbo) }} title="Rank-biased overlap">
+                            RBO {fmt(diff.rbo)}
+                        </span>
+                    </>
+                )}
+            </button>
+            {open && (
+                <div className="px-9 pb-3 space-y-2 font-mono">
+                    {diff.added.length > 0 && (
+                        <p style={{ color: "var(--color-success)" }}>added: {diff.added.join(", ")}</p>
+                    )}
+                    {diff.dropped.length > 0 && (
+                        <p style={{ color: "var(--color-error)" }}>dropped: {diff.dropped.join(", ")}</p>
+                    )}
+                    {diff.reordered.length > 0 && (
+                        <p style={{ color: "var(--color-text-muted)" }}>
+                            re-ordered: {diff.reordered.map((r) => `${r.id} #${r.from + 1}→#${r.to + 1}`).join(", ")}
+                        </p>
+                    )}
+                    {diff.distanceShifts.length > 0 && (
+                        <div style={{ color: "var(--color-text-dim)" }}>
+                            {diff.distanceShifts.slice(0, 10).map((s) => (
+                                <p key={s.id}>
+                                    {s.id}: {s.before.toFixed(4)} → {s.after.toFixed(4)} ({s.delta > 0 ? "+" : ""}
+                                    {s.delta.toFixed(4)})
+                                </p>
+                            ))}
+                            {diff.distanceShifts.length > 10 && <p>…and {diff.distanceShifts.length - 10} more</p>}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/** Snapshot saved queries as golden queries and diff later runs against the snapshot. */
+export function GoldenQueriesPanel({ collectionId, collectionName, provider, embeddingDims }: GoldenQueriesPanelProps) {
+    const scope = useScope();
+    const saved = useSavedQueries().saved.filter((q) => q.collectionId === collectionId);
+    const snapshots = useGoldenSnapshots().filter((s) => s.collectionId === collectionId);
+
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [name, setName] = useState("");
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [report, setReport] = useState<{ snapshot: GoldenSnapshot; results: GoldenResult[]; report: GoldenReport } | null>(
+        null,
+    );
+
+    const run = (queries: GoldenSnapshot["queries"]) =>
+        runGoldenQueries(collectionId, collectionName, queries, {
+            provider,
+            embeddingDims,
+            scope,
+            onProgress: (done, total) => setProgress({ done, total }),
+        });
+
+    const createSnapshot = async (queries: GoldenSnapshot["queries"], snapshotName: string) => {
+        setProgress({ done: 0, total: queries.length });
+        try {
+            const results = await run(queries);
+            saveGoldenSnapshot({
+                name: snapshotName,
+                collectionId,
+                collectionName,
+                queries,
+                results,
+                providerName: provider?.name ?? null,
+                tenant: scope.tenant,
+                database: scope.database,
+            });
+            const failed = results.filter((r) => r.error).length;
+            if (failed > 0) toast.error(`Snapshot saved; ${failed} queries failed`);
+            else toast.success(`Snapshot "${snapshotName}" saved`);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleCreate = async () => {
+        const queries = saved.filter((q) => selected.has(q.id)).map((q) => ({ name: q.name, spec: q.query }));
+        if (queries.length === 0) return;
+        await createSnapshot(queries, name.trim() || `Snapshot ${new Date().toLocaleString()}`);
+        setName("");
+        setSelected(new Set());
+    };
+
+    const handleRerun = async (snapshot: GoldenSnapshot) => {
+        setProgress({ done: 0, total: snapshot.queries.length });
+        try {
+            const results = await run(snapshot.queries);
+            setReport({ snapshot, results, report: buildGoldenReport(snapshot, results) });
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleKeepAsBaseline = () => {
+        if (!report) return;
+        const snapshot = saveGoldenSnapshot({
+            name: `${report.snapshot.name} (re-run)`,
+            collectionId,
+            collectionName,
+            queries: report.snapshot.queries,
+            results: report.results,
+            providerName: provider?.name ?? null,
+            tenant: scope.tenant,
+            database: scope.database,
+        });
+        toast.success(`Snapshot "${snapshot.name}" saved`);
+        setReport(null);
+    };
+
+    const handleExport = (r: GoldenReport) => {
+        const blob = new Blob([JSON.stringify(r, null, 2)], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${collectionName}-golden-report-${r.generatedAt.slice(0, 19).replace(/:/g, "-")}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const card = { background: "var(--color-bg-card)", border: "1px solid var(--color-border)" };
+    const iconButton = "p-1.5 rounded-md cursor-pointer disabled:opacity-40";
+
+    return (
+        <div className="space-y-4">
+            {/* New snapshot */}
+            <div className="p-5 rounded-2xl space-y-3" style={card}>
+                <h3 className="text-sm font-semibold">New golden snapshot</h3>
+                {saved.length === 0 ? (
+                    <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                        Save queries in the Query tab first; golden snapshots are built from saved queries.
+                    </p>
+                ) : (
+                    <>
+                        <div className="space-y-1 max-h-48 overflow-y-auto">
+                            {saved.map((q) => (
+                                <label
+                                    key={q.id}
+                                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs cursor-pointer"
+                                    style={{ background: "var(--color-bg-elevated)" }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(q.id)}
+                                        onChange={(e) => {
+                                            const next = new Set(selected);
+                                            if (e.target.checked) next.add(q.id);
+                                            else next.delete(q.id);
+                                            setSelected(next);
+                                        }}
+                                    />
+                                    <span className="font-medium">{q.name}</span>
+                                    <span className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                                        {describeQuery(q.query)}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex gap-2">
+                            <input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="Snapshot name, e.g. before re-index…"
+                                className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-text)",
+                                }}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => setSelected(new Set(saved.map((q) => q.id)))}
+                                className="text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                                style={{ color: "var(--color-text-muted)" }}
+                            >
+                                Select all
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => void handleCreate()}
+                                disabled={selected.size === 0 || progress !== null}
+                                className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40"
+                                style={{ background: "var(--color-accent)", color: "#fff" }}
+                            >
+                                <Camera size={12} /> Snapshot {selected.size > 0 && `(${selected.size})`}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {progress && (
+                <div className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    <Loader2 size={14} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                    Running golden queries {progress.done} / {progress.total}
+                </div>
+            )}
+
+            {/* Snapshots */}
+            {snapshots.length > 0 && (
+                <div className="p-4 rounded-2xl space-y-1" style={card}>
+                    <h3 className="text-xs font-semibold uppercase tracking-wider mb-2" style={{ color: "var(--color-text-dim)" }}>
+                        Snapshots
+                    </h3>
+                    {snapshots.map((s) => (
+                        <div
+                            key={s.id}
+                            className="flex items-center gap-3 px-3 py-2 rounded-lg text-xs"
+                            style={{
+                                background:
+                                    report?.snapshot.id === s.id ? "var(--color-accent-glow)" : "var(--color-bg-elevated)",
+                            }}
+                        >
+                            <div className="flex-1 min-w-0">
+                                <p className="font-medium truncate">{s.name}</p>
+                                <p className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                                    {new Date(s.createdAt).toLocaleString()} · {s.queries.length} queries ·{" "}
+                                    {s.results.length} result lists
+                                    {s.providerName && ` · ${s.providerName}`}
+                                </p>
+                            </div>
+                            <button
+                                type="button"
+                                onClick={() => void handleRerun(s)}
+                                disabled={progress !== null}
+                                className={iconButton}
+                                style={{ color: "var(--color-accent)" }}
+                                title="Re-run and diff against this snapshot"
+                            >
+                                <Play size={13} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    deleteGoldenSnapshot(s.id);
+                                    if (report?.snapshot.id === s.id) setReport(null);
+                                }}
+                                className={iconButton}
+                                style={{ color: "var(--color-error)" }}
+                                title="Delete snapshot"
+                            >
+                                <Trash2 size={13} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Report */}
+            {report && (
+                <div className="p-5 rounded-2xl space-y-3" style={card}>
+                    <div className="flex items-center gap-3 flex-wrap">
+                        <h3 className="text-sm font-semibold flex-1">Diff against "{report.snapshot.name}"</h3>
+                        <button
+                            type="button"
+                            onClick={handleKeepAsBaseline}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={{ color: "var(--color-text-muted)", border: "1px solid var(--color-border)" }}
+                            title="Keep these results as a new snapshot"
+                        >
+                            <Camera size={12} /> New baseline
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => handleExport(report.report)}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={{ background: "var(--color-accent-glow)", color: "var(--color-accent)" }}
+                        >
+                            <Download size={12} /> Export JSON
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        <span>
+                            {report.report.summary.identical} of {report.report.summary.queries} unchanged
+                        </span>
+                        <span>
+                            mean Jaccard{" "}
+                            <span className="font-mono" style={{ color: scoreColor(report.report.summary.meanJaccard) }}>
+                                {fmt(report.report.summary.meanJaccard)}
+                            </span>
+                        </span>
+                        <span>
+                            mean RBO{" "}
+                            <span className="font-mono" style={{ color: scoreColor(report.report.summary.meanRbo) }}>
+                                {fmt(report.report.summary.meanRbo)}
+                            </span>
+                        </span>
+                    </div>
+                    <div className="space-y-1">
+                        {report.report.queries.map((d) => (
+                            <QueryDiffRow key={d.key} diff={d} />
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
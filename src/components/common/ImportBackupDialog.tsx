@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+    Upload,
+    Loader2,
+    AlertCircle,
+    CheckCircle2,
+    XCircle,
+    RotateCcw,
+    FileJson,
+} from "lucide-react";
+import { Modal } from "./Modal";
+import { createCollection } from "../../lib/chromaClient";
+import {
+    parseBackup,
+    planBatches,
+    importBatch,
+    ImportBatchError,
+    logImport,
+    DEFAULT_BATCH_SIZE,
+    type ImportBatch,
+} from "../../lib/backup";
+import { ResourceNameSchema, type Collection, type CollectionBackup } from "../../lib/zodSchemas";
+import type { ChromaScope } from "../../lib/storage";
+
+type TargetMode = "same" | "new" | "rename";
+
+interface ImportBackupDialogProps {
+    open: boolean;
+    onClose: () => void;
+    scope: ChromaScope;
+    /** Collection the dialog was opened from; enables "restore into this collection". */
+    currentCollection?: TargetCollection;
+}
+
+type TargetCollection = Pick<Collection, "id" | "name">;
+
+export function ImportBackupDialog({ open, onClose, scope, currentCollection }: ImportBackupDialogProps) {
+    const queryClient = useQueryClient();
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [backup, setBackup] = useState<CollectionBackup | null>(null);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [mode, setMode] = useState<TargetMode>(currentCollection ? "same" : "new");
+    const [renameTo, setRenameTo] = useState("");
+    const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+    const [batches, setBatches] = useState<ImportBatch[] | null>(null);
+    const [target, setTarget] = useState<TargetCollection | null>(null);
+    const [running, setRunning] = useState(false);
+
+    const reset = () => {
+        setFileName(null);
+        setBackup(null);
+        setParseError(null);
+        setMode(currentCollection ? "same" : "new");
+        setRenameTo("");
+        setBatchSize(DEFAULT_BATCH_SIZE);
+        setBatches(null);
+        setTarget(null);
+    };
+
+    const close = () => {
+        if (running) return;
+        reset();
+        onClose();
+    };
+
+    const handleFile = async (file: File) => {
+        reset();
+        setFileName(file.name);
+        try {
+            const parsed = parseBackup(await file.text());
+            setBackup(parsed);
+            setRenameTo(`${parsed.name}_restored`);
+        } catch (err) {
+            setParseError((err as Error).message);
+        }
+    };
+
+    const targetName =
+        mode === "same" ? currentCollection?.name ?? "" : mode === "new" ? backup?.name ?? "" : renameTo.trim();
+    const nameCheck = mode === "same" ? null : ResourceNameSchema.safeParse(targetName);
+    const nameError = nameCheck && !nameCheck.success ? nameCheck.error.issues[0]?.message : null;
+
+    const updateBatch = (index: number, patch: Partial<ImportBatch>) =>
+        setBatches((prev) => prev?.map((b) => (b.index === index ? { ...b, ...patch } : b)) ?? prev);
+
+    const run = async (toRun: ImportBatch[]) => {
+        if (!backup) return;
+        setRunning(true);
+        const start = Date.now();
+        try {
+            let collection: TargetCollection | null = target;
+            if (!collection) {
+                collection =
+                    mode === "same"
+                        ? currentCollection!
+                        : await createCollection(
+                            { name: targetName, metadata: backup.metadata ?? undefined },
+                            scope,
+                        );
+                setTarget(collection);
+            }
+
+            const failed: ImportBatch[] = [];
+            for (const batch of toRun) {
+                updateBatch(batch.index, { status: "running", error: undefined });
+                try {
+                    const attempts = await importBatch(collection.id, backup, batch, scope);
+                    updateBatch(batch.index, { status: "done", attempts: batch.attempts + attempts });
+                } catch (err) {
+                    const attempts = err instanceof ImportBatchError ? err.attempts : 1;
+                    updateBatch(batch.index, {
+                        status: "error",
+                        attempts: batch.attempts + attempts,
+                        error: (err as Error).message,
+                    });
+                    failed.push(batch);
+                }
+            }
+
+            logImport(collection.name, {
+                imported: toRun
+                    .filter((b) => !failed.includes(b))
+                    .reduce((sum, b) => sum + (b.end - b.start), 0),
+                total: toRun.reduce((sum, b) => sum + (b.end - b.start), 0),
+                failedBatches: failed.length,
+                durationMs: Date.now() - start,
+            });
+
+            if (failed.length > 0) {
+                toast.error(`${failed.length} batch(es) failed`);
+            } else {
+                toast.success(`Restored into "${collection.name}"`);
+            }
+
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ["collections", scope.tenant, scope.database] }),
+                queryClient.invalidateQueries({ queryKey: ["collectionCount", collection.id] }),
+                queryClient.invalidateQueries({ queryKey: ["count", collection.id] }),
+                queryClient.invalidateQueries({ queryKey: ["items", collection.id] }),
+            ]);
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const start = () => {
+        if (!backup) return;
+        const planned = planBatches(backup.data.ids.length, Math.max(1, batchSize));
+        setBatches(planned);
+        void run(planned.map((b) => ({ ...b })));
+    };
+
+    const retryFailed = () => {
+        const failed = batches?.filter((b) => b.status === "error") ?? [];
+        void run(failed.map((b) => ({ ...b })));
+    };
+
+    const total = backup?.data.ids.length ?? 0;
+    const imported =
+        batches?.filter((b) => b.status === "done").reduce((sum, b) => sum + (b.end - b.start), 0) ?? 0;
+    const failedBatches = batches?.filter((b) => b.status === "error") ?? [];
+    const finished = !!batches && !running && batches.every((b) => b.status === "done" || b.status === "error");
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    return (
+        <Modal open={open} onClose={close} title="Import Backup" maxWidth="max-w-xl">
+            <div className="space-y-4 text-sm">
+                {/* File picker */}
+                {!batches && (
+                    <label
+                        className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl cursor-pointer text-center"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px dashed var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        <FileJson size={24} style={{ color: "var(--color-accent)" }} />
+                        <span>{fileName ?? "Choose an exported *-backup.json file"}</span>
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) void handleFile(file);
+                                e.target.value = "";
+                            }}
+                        />
+                    </label>
+                )}
+
+                {parseError && (
+                    <div
+                        className="p-3 rounded-xl flex items-start gap-2"
+                        style={{ background: "rgba(255,71,87,0.06)", border: "1px solid rgba(255,71,87,0.2)" }}
+                    >
+                        <AlertCircle size={16} className="shrink-0 mt-0.5" style={{ color: "var(--color-error)" }} />
+                        <pre className="text-xs whitespace-pre-wrap" style={{ color: "var(--color-text-muted)" }}>
+                            {parseError}
+                        </pre>
+                    </div>
+                )}
+
+                {/* Summary + target */}
+                {backup && !batches && (
+                    <>
+                        <div
+                            className="grid grid-cols-2 gap-2 p-3 rounded-xl text-xs"
+                            style={{ background: "var(--color-bg-elevated)", color: "var(--color-text-muted)" }}
+                        >
+                            <span>Source collection</span>
+                            <span className="font-medium truncate" style={{ color: "var(--color-text)" }}>{backup.name}</span>
+                            <span>Items</span>
+                            <span className="font-medium" style={{ color: "var(--color-text)" }}>{total.toLocaleString()}</span>
+                            <span>Embeddings</span>
+                            <span className="font-medium" style={{ color: "var(--color-text)" }}>
+                                {backup.data.embeddings ? "included" : "none (server must embed documents)"}
+                            </span>
+                            {backup.exportedAt && (
+                                <>
+                                    <span>Exported</span>
+                                    <span className="font-medium" style={{ color: "var(--color-text)" }}>
+                                        {new Date(backup.exportedAt).toLocaleString()}
+                                    </span>
+                                </>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-xs font-medium" style={{ color: "var(--color-text-muted)" }}>
+                                Restore into
+                            </p>
+                            {currentCollection && (
+                                <TargetOption
+                                    checked={mode === "same"}
+                                    onSelect={() => setMode("same")}
+                                    label={`This collection (${currentCollection.name})`}
+                                    desc="Add the records to the collection you are viewing"
+                                />
+                            )}
+                            <TargetOption
+                                checked={mode === "new"}
+                                onSelect={() => setMode("new")}
+                                label={`New collection "${backup.name}"`}
+                                desc="Recreate the original collection with its metadata"
+                            />
+                            <TargetOption
+                                checked={mode === "rename"}
+                                onSelect={() => setMode("rename")}
+                                label="Renamed copy"
+                                desc="Create a new collection with a different name"
+                            />
+                            {mode === "rename" && (
+                                <input
+                                    value={renameTo}
+                                    onChange={(e) => setRenameTo(e.target.value)}
+                                    className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+                                    style={inputStyle}
+                                />
+                            )}
+                            {nameError && (
+                                <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                                    {nameError}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="flex items-center gap-3">
+                            <label className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                                Batch size
+                            </label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={5000}
+                                value={batchSize}
+                                onChange={(e) => setBatchSize(Number(e.target.value))}
+                                className="w-24 px-3 py-1.5 rounded-lg text-xs outline-none"
+                                style={inputStyle}
+                            />
+                            <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                                {Math.ceil(total / Math.max(1, batchSize))} batches
+                            </span>
+                        </div>
+                    </>
+                )}
+
+                {/* Progress */}
+                {batches && (
+                    <div className="space-y-3">
+                        <div className="flex justify-between text-xs" style={{ color: "var(--color-text-muted)" }}>
+                            <span>
+                                {target ? `Into "${target.name}"` : "Preparing…"}
+                            </span>
+                            <span>
+                                {imported.toLocaleString()} / {total.toLocaleString()}
+                            </span>
+                        </div>
+                        <div className="h-2 rounded-full overflow-hidden" style={{ background: "var(--color-bg-elevated)" }}>
+                            <div
+                                className="h-full transition-all"
+                                style={{
+                                    width: `${total ? (imported / total) * 100 : 0}%`,
+                                    background: failedBatches.length > 0 ? "var(--color-warning)" : "var(--color-accent)",
+                                }}
+                            />
+                        </div>
+
+                        {failedBatches.length > 0 && (
+                            <div className="max-h-40 overflow-y-auto space-y-1">
+                                {failedBatches.map((b) => (
+                                    <div key={b.index} className="flex items-start gap-2 text-xs">
+                                        <XCircle size={12} className="shrink-0 mt-0.5" style={{ color: "var(--color-error)" }} />
+                                        <span style={{ color: "var(--color-text-muted)" }}>
+                                            Batch {b.index + 1} (items {b.start + 1}–{b.end}, {b.attempts} attempt
+                                            {b.attempts !== 1 ? "s" : ""}): {b.error}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {finished && failedBatches.length === 0 && (
+                            <p className="flex items-center gap-2 text-xs" style={{ color: "var(--color-success)" }}>
+                                <CheckCircle2 size={14} /> All {batches.length} batches imported
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {/* Footer */}
+                <div className="flex gap-3 justify-end pt-1">
+                    <button
+                        onClick={close}
+                        disabled={running}
+                        className="px-4 py-2 rounded-xl text-sm cursor-pointer disabled:opacity-40"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        {finished ? "Close" : "Cancel"}
+                    </button>
+                    {!batches && (
+                        <button
+                            onClick={start}
+                            disabled={!backup || !!nameError || total === 0}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-40"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            <Upload size={14} /> Import {total.toLocaleString()} items
+                        </button>
+                    )}
+                    {running && (
+                        <span className="flex items-center gap-2 px-4 py-2 text-sm" style={{ color: "var(--color-text-muted)" }}>
+                            <Loader2 size={14} className="animate-spin" /> Importing…
+                        </span>
+                    )}
+                    {finished && failedBatches.length > 0 && (
+                        <button
+                            onClick={retryFailed}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer"
+                            style={{ background: "var(--color-warning)", color: "#000" }}
+                        >
+                            <RotateCcw size={14} /> Retry {failedBatches.length} failed
+                        </button>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+}
+
+function TargetOption({
+    checked,
+    onSelect,
+    label,
+    desc,
+}: {
+    checked: boolean;
+    onSelect: () => void;
+    label: string;
+    desc: string;
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onSelect}
+            className="w-full p-3 rounded-xl text-left cursor-pointer transition-all"
+            style={{
+                background: checked ? "var(--color-accent-glow)" : "var(--color-bg-input)",
+                border: checked ? "1px solid var(--color-accent)" : "1px solid var(--color-border)",
+            }}
+        >
+            <span className="block text-sm font-medium truncate">{label}</span>
+            <span className="block text-xs mt-0.5" style={{ color: "var(--color-text-dim)" }}>
+                {desc}
+            </span>
+        </button>
+    );
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+    buildWhereClause,
+    emptyFilterGroup,
+    filtersFromWhere,
+    type FilterCombinator,
+    type MetadataFilterGroup,
+    type MetadataFilterNode,
+} from "./MetadataFilterBuilder";
+
+const cond = (key: string, operator: string, value: string): MetadataFilterNode => ({
+    _id: `${key}${operator}${value}`,
+    key,
+    operator,
+    value,
+});
+
+const group = (combinator: FilterCombinator, children: MetadataFilterNode[], negated = false): MetadataFilterGroup => ({
+    ...emptyFilterGroup(combinator),
+    negated,
+    children,
+});
+
+describe("buildWhereClause", () => {
+    it("returns undefined for an empty group", () => {
+        expect(buildWhereClause(emptyFilterGroup())).toBeUndefined();
+    });
+
+    it("skips rows without a key or value", () => {
+        const filters = group("$and", [
+            cond("", "$eq", "1"),
+            cond("Select key…", "$eq", "1"),
+            cond("a", "$eq", "  "),
+        ]);
+        expect(buildWhereClause(filters)).toBeUndefined();
+    });
+
+    it("unwraps a group left with one condition", () => {
+        const filters = group("$or", [cond("a", "$eq", "1"), cond("b", "$eq", "")]);
+        expect(buildWhereClause(filters)).toEqual({ a: { $eq: 1 } });
+    });
+
+    it("drops sub-groups that end up empty", () => {
+        const filters = group("$and", [cond("a", "$gt", "1"), group("$or", []), cond("b", "$eq", "x")]);
+        expect(buildWhereClause(filters)).toEqual({ $and: [{ a: { $gt: 1 } }, { b: { $eq: "x" } }] });
+    });
+
+    it("parses numbers, booleans and lists", () => {
+        const filters = group("$and", [
+            cond("n", "$eq", " 42 "),
+            cond("flag", "$eq", "true"),
+            cond("tags", "$in", "red, 2"),
+            cond("ids", "$nin", '["1", "2"]'),
+        ]);
+        expect(buildWhereClause(filters)).toEqual({
+            $and: [
+                { n: { $eq: 42 } },
+                { flag: { $eq: true } },
+                { tags: { $in: ["red", 2] } },
+                { ids: { $nin: ["1", "2"] } },
+            ],
+        });
+    });
+
+    it.each([
+        ["$eq", "$ne"],
+        ["$ne", "$eq"],
+        ["$gt", "$lte"],
+        ["$gte", "$lt"],
+        ["$lt", "$gte"],
+        ["$lte", "$gt"],
+        ["$in", "$nin"],
+        ["$nin", "$in"],
+    ])("negates %s as %s", (operator, negated) => {
+        const value = operator === "$in" || operator === "$nin" ? "1" : "5";
+        const clause = buildWhereClause(group("$and", [cond("a", operator, value)], true));
+        expect(Object.keys((clause as { a: Record<string, unknown> }).a)).toEqual([negated]);
+    });
+
+    it("turns NOT (a AND b) into NOT a OR NOT b", () => {
+        const filters = group("$and", [cond("a", "$eq", "1"), cond("b", "$gt", "2")], true);
+        expect(buildWhereClause(filters)).toEqual({ $or: [{ a: { $ne: 1 } }, { b: { $lte: 2 } }] });
+    });
+
+    it("pushes a negation through nested groups", () => {
+        const filters = group(
+            "$or",
+            [cond("a", "$eq", "1"), group("$and", [cond("b", "$in", "x,y"), cond("c", "$lt", "3")])],
+            true,
+        );
+        expect(buildWhereClause(filters)).toEqual({
+            $and: [{ a: { $ne: 1 } }, { $or: [{ b: { $nin: ["x", "y"] } }, { c: { $gte: 3 } }] }],
+        });
+    });
+
+    it("cancels a negated group inside a negated group", () => {
+        const filters = group("$and", [group("$or", [cond("a", "$eq", "1"), cond("b", "$eq", "2")], true)], true);
+        expect(buildWhereClause(filters)).toEqual({ $or: [{ a: { $eq: 1 } }, { b: { $eq: 2 } }] });
+    });
+});
+
+describe("filtersFromWhere", () => {
+    it("round-trips a nested clause", () => {
+        const where = { $and: [{ a: { $gte: 2 } }, { $or: [{ b: { $eq: "x" } }, { c: { $in: [1, 2] } }] }] };
+        expect(buildWhereClause(filtersFromWhere(where)!)).toEqual(where);
+    });
+
+    it("reads a bare value as $eq", () => {
+        expect(buildWhereClause(filtersFromWhere({ a: "x" })!)).toEqual({ a: { $eq: "x" } });
+    });
+
+    it.each([
+        { name: "a string that reads as a number", where: { a: "42" } },
+        { name: "an unknown operator", where: { a: { $contains: "x" } } },
+        { name: "two keys in one clause", where: { a: 1, b: 2 } },
+        { name: "a logical operator without a list", where: { $and: { a: 1 } } },
+    ])("gives up on $name", ({ where }) => {
+        expect(filtersFromWhere(where)).toBeNull();
+    });
+});
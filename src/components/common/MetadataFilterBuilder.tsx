@@ -1,4 +1,7 @@
-import { Plus, X } from "lucide-react";
+import { useState } from "react";
+import { Plus, X, GripVertical, FolderPlus, Braces, Code2, ListTree } from "lucide-react";
+import { WhereJsonEditor } from "./WhereJsonEditor";
+import { parseWhereText, type WhereParseResult } from "../../lib/whereClause";
 
 export interface MetadataFilter {
     _id: string;
@@ -7,9 +10,28 @@ export interface MetadataFilter {
     value: string;
 }
 
+export type FilterCombinator = "$and" | "$or";
+
+/** A nestable AND/OR group of conditions and sub-groups. */
+export interface MetadataFilterGroup {
+    _id: string;
+    combinator: FilterCombinator;
+    /**
+     * Negate the whole group. Chroma has no `$not`, so it is pushed down with
+     * De Morgan's laws; records lacking a filtered key match neither way.
+     */
+    negated: boolean;
+    children: MetadataFilterNode[];
+}
+
+export type MetadataFilterNode = MetadataFilter | MetadataFilterGroup;
+
 interface MetadataFilterBuilderProps {
-    filters: MetadataFilter[];
-    onChange: (filters: MetadataFilter[]) => void;
+    filters: MetadataFilterGroup;
+    onChange: (filters: MetadataFilterGroup) => void;
+    /** Clause from the JSON editor that the builder cannot show; used instead of `filters` when set. */
+    rawWhere?: Record<string, unknown> | null;
+    onRawWhereChange?: (where: Record<string, unknown> | null) => void;
     availableKeys?: string[];
 }
 
@@ -29,21 +51,94 @@ const OPERATORS = [
     { value: "$nin", label: "not in" },
 ];
 
+/**
+ * Complement of each operator, used to push a group negation down to its
+ * conditions. Only exact for records that have the key: Chroma never matches a
+ * record without the key, whichever operator is used, so a NOT group leaves
+ * those records out just as the plain group does.
+ */
+const NEGATED_OPERATORS: Record<string, string> = {
+    $eq: "$ne",
+    $ne: "$eq",
+    $gt: "$lte",
+    $gte: "$lt",
+    $lt: "$gte",
+    $lte: "$gt",
+    $in: "$nin",
+    $nin: "$in",
+};
+
+export function isFilterGroup(node: MetadataFilterNode): node is MetadataFilterGroup {
+    return "children" in node;
+}
+
+export function emptyFilterGroup(combinator: FilterCombinator = "$and"): MetadataFilterGroup {
+    return { _id: nextFilterId(), combinator, negated: false, children: [] };
+}
+
+function emptyCondition(): MetadataFilter {
+    return { _id: nextFilterId(), key: "", operator: "$eq", value: "" };
+}
+
 export function buildWhereClause(
-    filters: MetadataFilter[],
+    filters: MetadataFilterGroup,
 ): Record<string, unknown> | undefined {
-    const active = filters.filter(
-        (f) => f.key.trim() && f.key !== "Select key…" && f.value.trim(),
-    );
-    if (active.length === 0) return undefined;
+    return buildNode(filters, false);
+}
 
-    const conditions = active.map((f) => {
-        const parsedValue = parseFilterValue(f.value, f.operator);
-        return { [f.key.trim()]: { [f.operator]: parsedValue } };
-    });
+function buildNode(node: MetadataFilterNode, negate: boolean): Record<string, unknown> | undefined {
+    if (!isFilterGroup(node)) {
+        if (!node.key.trim() || node.key === "Select key…" || !node.value.trim()) return undefined;
+        const operator = negate ? NEGATED_OPERATORS[node.operator] ?? node.operator : node.operator;
+        return { [node.key.trim()]: { [operator]: parseFilterValue(node.value, node.operator) } };
+    }
 
+    const negateChildren = negate !== node.negated;
+    const conditions = node.children
+        .map((child) => buildNode(child, negateChildren))
+        .filter((c): c is Record<string, unknown> => c !== undefined);
+    if (conditions.length === 0) return undefined;
     if (conditions.length === 1) return conditions[0]!;
-    return { $and: conditions };
+
+    // NOT (a AND b) = NOT a OR NOT b, and vice versa
+    const combinator = negateChildren ? (node.combinator === "$and" ? "$or" : "$and") : node.combinator;
+    return { [combinator]: conditions };
+}
+
+/**
+ * Convert a where clause back into builder rows, or return null when the
+ * clause cannot be represented exactly (e.g. a string that looks like a number).
+ */
+export function filtersFromWhere(where: Record<string, unknown>): MetadataFilterGroup | null {
+    const node = nodeFromWhere(where);
+    if (!node) return null;
+    if (isFilterGroup(node)) return node;
+    return { ...emptyFilterGroup(), children: [node] };
+}
+
+function nodeFromWhere(where: Record<string, unknown>): MetadataFilterNode | null {
+    const entries = Object.entries(where);
+    if (entries.length !== 1) return null;
+    const [key, value] = entries[0]!;
+
+    if (key === "$and" || key === "$or") {
+        if (!Array.isArray(value)) return null;
+        const children = value.map((c) =>
+            typeof c === "object" && c !== null ? nodeFromWhere(c as Record<string, unknown>) : null,
+        );
+        if (children.some((c) => c === null)) return null;
+        return { ...emptyFilterGroup(key), children: children as MetadataFilterNode[] };
+    }
+
+    const [operator, operand] =
+        typeof value === "object" && value !== null && !Array.isArray(value)
+            ? (Object.entries(value)[0] ?? [])
+            : ["$eq", value];
+    if (!operator || !OPERATORS.some((op) => op.value === operator)) return null;
+
+    const text = typeof operand === "string" ? operand : JSON.stringify(operand);
+    if (JSON.stringify(parseFilterValue(text, operator)) !== JSON.stringify(operand)) return null;
+    return { _id: nextFilterId(), key, operator, value: text };
 }
 
 function parseFilterValue(val: string, operator: string): unknown {
@@ -80,131 +175,474 @@ function parseFilterValue(val: string, operator: string): unknown {
     }
 }
 
+// ── Tree editing ─────────────────────────────────────────────────────
+
+function mapGroup(
+    group: MetadataFilterGroup,
+    id: string,
+    fn: (g: MetadataFilterGroup) => MetadataFilterGroup,
+): MetadataFilterGroup {
+    if (group._id === id) return fn(group);
+    return {
+        ...group,
+        children: group.children.map((c) => (isFilterGroup(c) ? mapGroup(c, id, fn) : c)),
+    };
+}
+
+function removeNode(group: MetadataFilterGroup, id: string): MetadataFilterGroup {
+    return {
+        ...group,
+        children: group.children
+            .filter((c) => c._id !== id)
+            .map((c) => (isFilterGroup(c) ? removeNode(c, id) : c)),
+    };
+}
+
+function findNode(group: MetadataFilterGroup, id: string): MetadataFilterNode | null {
+    for (const child of group.children) {
+        if (child._id === id) return child;
+        if (isFilterGroup(child)) {
+            const found = findNode(child, id);
+            if (found) return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * Move a node before `beforeId` inside `groupId` (or to the end when null).
+ * Dropping a group into itself or one of its descendants is ignored.
+ */
+function moveNode(
+    root: MetadataFilterGroup,
+    nodeId: string,
+    groupId: string,
+    beforeId: string | null,
+): MetadataFilterGroup {
+    if (nodeId === beforeId) return root;
+    const node = findNode(root, nodeId);
+    if (!node) return root;
+    if (isFilterGroup(node) && (node._id === groupId || findNode(node, groupId))) return root;
+
+    return mapGroup(removeNode(root, nodeId), groupId, (g) => {
+        const index = beforeId ? g.children.findIndex((c) => c._id === beforeId) : -1;
+        const children = [...g.children];
+        children.splice(index === -1 ? children.length : index, 0, node);
+        return { ...g, children };
+    });
+}
+
+// ── Editor ───────────────────────────────────────────────────────────
+
 export function MetadataFilterBuilder({
     filters,
     onChange,
+    rawWhere = null,
+    onRawWhereChange,
     availableKeys = [],
 }: MetadataFilterBuilderProps) {
-    const addFilter = () => {
-        onChange([...filters, { _id: nextFilterId(), key: "", operator: "$eq", value: "" }]);
+    const [dragId, setDragId] = useState<string | null>(null);
+    const [showJson, setShowJson] = useState(false);
+    const [jsonMode, setJsonMode] = useState(rawWhere !== null);
+    const [jsonText, setJsonText] = useState("");
+    const [jsonResult, setJsonResult] = useState<WhereParseResult>({ status: "empty" });
+    const where = buildWhereClause(filters);
+
+    const openJson = () => {
+        const current = rawWhere ?? where;
+        const text = current ? JSON.stringify(current, null, 2) : "";
+        setJsonText(text);
+        setJsonResult(parseWhereText(text));
+        setJsonMode(true);
     };
 
-    const removeFilter = (index: number) => {
-        onChange(filters.filter((_, i) => i !== index));
+    const editJson = (text: string) => {
+        const result = parseWhereText(text);
+        setJsonText(result.status === "valid" || result.status === "invalid" ? result.text : text);
+        setJsonResult(result);
+        if (result.status === "empty") {
+            onChange(emptyFilterGroup());
+            onRawWhereChange?.(null);
+        } else if (result.status === "valid") {
+            // Keep the builder in sync whenever it can show the clause
+            const group = filtersFromWhere(result.where);
+            if (group) onChange(group);
+            onRawWhereChange?.(group ? null : result.where);
+        }
     };
 
-    const updateFilter = (index: number, field: keyof MetadataFilter, value: string) => {
-        const updated = filters.map((f, i) =>
-            i === index ? { ...f, [field]: value } : f,
-        );
-        onChange(updated);
+    // The builder can only take over a clause it can represent
+    const visualBlocked =
+        jsonMode &&
+        (rawWhere !== null || jsonResult.status === "syntax" || jsonResult.status === "invalid");
+
+    const drop = (groupId: string, beforeId: string | null) => {
+        if (dragId) onChange(moveNode(filters, dragId, groupId, beforeId));
+        setDragId(null);
     };
 
     return (
         <div className="space-y-2">
-            <div className="flex items-center justify-between">
+            <div className="flex items-center justify-between gap-2">
                 <label
                     className="text-xs font-medium"
                     style={{ color: "var(--color-text-muted)" }}
                 >
                     Metadata Filters
                 </label>
+                <div className="flex items-center gap-2">
+                    {onRawWhereChange && (
+                        <button
+                            type="button"
+                            onClick={() => (jsonMode ? setJsonMode(false) : openJson())}
+                            disabled={visualBlocked}
+                            className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                            style={{ color: "var(--color-text-muted)" }}
+                            title={
+                                visualBlocked
+                                    ? rawWhere !== null
+                                        ? "The builder cannot show this clause"
+                                        : "Fix the JSON errors first"
+                                    : jsonMode
+                                      ? "Edit with the visual builder"
+                                      : "Edit as JSON"
+                            }
+                        >
+                            {jsonMode ? <ListTree size={12} /> : <Code2 size={12} />}
+                            {jsonMode ? "Builder" : "Edit JSON"}
+                        </button>
+                    )}
+                    {!jsonMode && (
+                        <>
+                            <button
+                                type="button"
+                                onClick={() => setShowJson((v) => !v)}
+                                className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors"
+                                style={{
+                                    background: showJson ? "var(--color-accent-glow)" : "transparent",
+                                    color: showJson ? "var(--color-accent)" : "var(--color-text-muted)",
+                                }}
+                                title="Preview the generated where clause"
+                            >
+                                <Braces size={12} /> JSON
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    onChange({ ...filters, children: [...filters.children, emptyFilterGroup("$or")] })
+                                }
+                                className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors"
+                                style={{
+                                    background: "var(--color-accent-glow)",
+                                    color: "var(--color-accent)",
+                                }}
+                            >
+                                <FolderPlus size={12} /> Add Group
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    onChange({ ...filters, children: [...filters.children, emptyCondition()] })
+                                }
+                                className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors"
+                                style={{
+                                    background: "var(--color-accent-glow)",
+                                    color: "var(--color-accent)",
+                                }}
+                            >
+                                <Plus size={12} /> Add Filter
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {jsonMode ? (
+                <WhereJsonEditor value={jsonText} onChange={editJson} result={jsonResult} />
+            ) : filters.children.length === 0 ? (
+                <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                    No filters applied. Click "Add Filter" to filter by metadata.
+                </p>
+            ) : (
+                <GroupEditor
+                    group={filters}
+                    root
+                    availableKeys={availableKeys}
+                    onChange={(g) => onChange(g)}
+                    onUpdate={(id, fn) => onChange(mapGroup(filters, id, fn))}
+                    onDragStart={setDragId}
+                    onDrop={drop}
+                    dragging={dragId !== null}
+                />
+            )}
+
+            {showJson && !jsonMode && (
+                <pre
+                    className="text-xs font-mono p-3 rounded-lg overflow-auto max-h-48"
+                    style={{
+                        background: "var(--color-bg-input)",
+                        border: "1px solid var(--color-border)",
+                        color: "var(--color-text-muted)",
+                    }}
+                >
+                    {where ? JSON.stringify(where, null, 2) : "// no active conditions"}
+                </pre>
+            )}
+        </div>
+    );
+}
+
+interface GroupEditorProps {
+    group: MetadataFilterGroup;
+    root?: boolean;
+    availableKeys: string[];
+    onChange: (group: MetadataFilterGroup) => void;
+    /** Replace a nested group by id, anywhere in the tree. */
+    onUpdate: (id: string, fn: (g: MetadataFilterGroup) => MetadataFilterGroup) => void;
+    onRemove?: () => void;
+    onDragStart: (id: string | null) => void;
+    onDrop: (groupId: string, beforeId: string | null) => void;
+    dragging: boolean;
+}
+
+function GroupEditor({
+    group,
+    root = false,
+    availableKeys,
+    onChange,
+    onUpdate,
+    onRemove,
+    onDragStart,
+    onDrop,
+    dragging,
+}: GroupEditorProps) {
+    const setChildren = (children: MetadataFilterNode[]) => onChange({ ...group, children });
+
+    const updateCondition = (index: number, field: keyof MetadataFilter, value: string) => {
+        setChildren(group.children.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+    };
+
+    const dropTarget = (beforeId: string | null) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (dragging) e.preventDefault();
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onDrop(group._id, beforeId);
+        },
+    });
+
+    const dragHandle = (id: string) => (
+        <span
+            draggable
+            onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = "move";
+                onDragStart(id);
+            }}
+            onDragEnd={() => onDragStart(null)}
+            className="cursor-grab shrink-0"
+            style={{ color: "var(--color-text-dim)" }}
+            title="Drag to reorder"
+        >
+            <GripVertical size={14} />
+        </span>
+    );
+
+    return (
+        <div
+            className={root ? "space-y-2" : "space-y-2 p-2 pl-3 rounded-lg"}
+            style={
+                root
+                    ? undefined
+                    : {
+                          border: "1px solid var(--color-border)",
+                          borderLeft: `3px solid ${group.negated ? "var(--color-error)" : "var(--color-accent)"}`,
+                      }
+            }
+            {...dropTarget(null)}
+        >
+            <div className="flex items-center gap-2 text-xs">
+                {!root && dragHandle(group._id)}
                 <button
                     type="button"
-                    onClick={addFilter}
-                    className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg cursor-pointer transition-colors"
+                    onClick={() => onChange({ ...group, negated: !group.negated })}
+                    className="px-2 py-1 rounded-lg cursor-pointer font-medium"
                     style={{
-                        background: "var(--color-accent-glow)",
-                        color: "var(--color-accent)",
+                        background: group.negated ? "var(--color-error)" : "transparent",
+                        color: group.negated ? "#fff" : "var(--color-text-dim)",
+                        border: "1px solid var(--color-border)",
                     }}
+                    title="Negate this group (applied by inverting each operator; records without a key never match)"
                 >
-                    <Plus size={12} /> Add Filter
+                    NOT
                 </button>
+                <div
+                    className="flex rounded-lg overflow-hidden"
+                    style={{ border: "1px solid var(--color-border)" }}
+                >
+                    {(["$and", "$or"] as const).map((c) => (
+                        <button
+                            key={c}
+                            type="button"
+                            onClick={() => onChange({ ...group, combinator: c })}
+                            className="px-2 py-1 cursor-pointer"
+                            style={{
+                                background: group.combinator === c ? "var(--color-accent-glow)" : "transparent",
+                                color: group.combinator === c ? "var(--color-accent)" : "var(--color-text-muted)",
+                            }}
+                        >
+                            {c === "$and" ? "AND" : "OR"}
+                        </button>
+                    ))}
+                </div>
+                <span className="flex-1" />
+                {!root && (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => setChildren([...group.children, emptyCondition()])}
+                            className="p-1 rounded-lg cursor-pointer"
+                            style={{ color: "var(--color-accent)" }}
+                            title="Add filter to group"
+                        >
+                            <Plus size={13} />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() =>
+                                setChildren([
+                                    ...group.children,
+                                    emptyFilterGroup(group.combinator === "$and" ? "$or" : "$and"),
+                                ])
+                            }
+                            className="p-1 rounded-lg cursor-pointer"
+                            style={{ color: "var(--color-accent)" }}
+                            title="Add nested group"
+                        >
+                            <FolderPlus size={13} />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onRemove}
+                            className="p-1 rounded-lg cursor-pointer"
+                            style={{ color: "var(--color-error)" }}
+                            title="Remove group"
+                        >
+                            <X size={13} />
+                        </button>
+                    </>
+                )}
             </div>
 
-            {filters.length === 0 && (
-                <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
-                    No filters applied. Click "Add Filter" to filter by metadata.
+            {group.negated && (
+                <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    NOT matches records whose values fail these filters. Records missing one of the keys are
+                    not matched either way.
                 </p>
             )}
 
-            {filters.map((filter, i) => (
-                <div key={filter._id} className="flex items-center gap-2">
-                    {/* Key */}
-                    {availableKeys.length > 0 ? (
+            {!root && group.children.length === 0 && (
+                <p className="text-xs py-1" style={{ color: "var(--color-text-dim)" }}>
+                    Empty group — add a filter or drop one here.
+                </p>
+            )}
+
+            {group.children.map((child, i) =>
+                isFilterGroup(child) ? (
+                    <div key={child._id} {...dropTarget(child._id)}>
+                        <GroupEditor
+                            group={child}
+                            availableKeys={availableKeys}
+                            onChange={(g) => onUpdate(g._id, () => g)}
+                            onUpdate={onUpdate}
+                            onRemove={() => setChildren(group.children.filter((c) => c._id !== child._id))}
+                            onDragStart={onDragStart}
+                            onDrop={onDrop}
+                            dragging={dragging}
+                        />
+                    </div>
+                ) : (
+                    <div key={child._id} className="flex items-center gap-2" {...dropTarget(child._id)}>
+                        {dragHandle(child._id)}
+
+                        {/* Key */}
+                        {availableKeys.length > 0 ? (
+                            <select
+                                value={child.key}
+                                onChange={(e) => updateCondition(i, "key", e.target.value)}
+                                className="flex-1 px-3 py-2 rounded-lg text-xs outline-none cursor-pointer"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-text)",
+                                }}
+                            >
+                                <option value="">Select key…</option>
+                                {availableKeys.map((k) => (
+                                    <option key={k} value={k}>
+                                        {k}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                value={child.key}
+                                onChange={(e) => updateCondition(i, "key", e.target.value)}
+                                placeholder="key"
+                                className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                                style={{
+                                    background: "var(--color-bg-input)",
+                                    border: "1px solid var(--color-border)",
+                                    color: "var(--color-text)",
+                                }}
+                            />
+                        )}
+
+                        {/* Operator */}
                         <select
-                            value={filter.key}
-                            onChange={(e) => updateFilter(i, "key", e.target.value)}
-                            className="flex-1 px-3 py-2 rounded-lg text-xs outline-none cursor-pointer"
+                            value={child.operator}
+                            onChange={(e) => updateCondition(i, "operator", e.target.value)}
+                            className="w-16 px-2 py-2 rounded-lg text-xs outline-none cursor-pointer text-center"
                             style={{
                                 background: "var(--color-bg-input)",
                                 border: "1px solid var(--color-border)",
-                                color: "var(--color-text)",
+                                color: "var(--color-accent)",
                             }}
                         >
-                            <option value="">Select key…</option>
-                            {availableKeys.map((k) => (
-                                <option key={k} value={k}>
-                                    {k}
+                            {OPERATORS.map((op) => (
+                                <option key={op.value} value={op.value}>
+                                    {op.label}
                                 </option>
                             ))}
                         </select>
-                    ) : (
+
+                        {/* Value */}
                         <input
-                            value={filter.key}
-                            onChange={(e) => updateFilter(i, "key", e.target.value)}
-                            placeholder="key"
-                            className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                            value={child.value}
+                            onChange={(e) => updateCondition(i, "value", e.target.value)}
+                            placeholder="value"
+                            className="flex-1 px-3 py-2 rounded-lg text-xs outline-none font-mono"
                             style={{
                                 background: "var(--color-bg-input)",
                                 border: "1px solid var(--color-border)",
                                 color: "var(--color-text)",
                             }}
                         />
-                    )}
 
-                    {/* Operator */}
-                    <select
-                        value={filter.operator}
-                        onChange={(e) => updateFilter(i, "operator", e.target.value)}
-                        className="w-16 px-2 py-2 rounded-lg text-xs outline-none cursor-pointer text-center"
-                        style={{
-                            background: "var(--color-bg-input)",
-                            border: "1px solid var(--color-border)",
-                            color: "var(--color-accent)",
-                        }}
-                    >
-                        {OPERATORS.map((op) => (
-                            <option key={op.value} value={op.value}>
-                                {op.label}
-                            </option>
-                        ))}
-                    </select>
-
-                    {/* Value */}
-                    <input
-                        value={filter.value}
-                        onChange={(e) => updateFilter(i, "value", e.target.value)}
-                        placeholder="value"
-                        className="flex-1 px-3 py-2 rounded-lg text-xs outline-none font-mono"
-                        style={{
-                            background: "var(--color-bg-input)",
-                            border: "1px solid var(--color-border)",
-                            color: "var(--color-text)",
-                        }}
-                    />
-
-                    {/* Remove */}
-                    <button
-                        type="button"
-                        onClick={() => removeFilter(i)}
-                        className="p-1.5 rounded-lg cursor-pointer transition-colors shrink-0"
-                        style={{ color: "var(--color-error)" }}
-                    >
-                        <X size={14} />
-                    </button>
-                </div>
-            ))}
+                        {/* Remove */}
+                        <button
+                            type="button"
+                            onClick={() => setChildren(group.children.filter((c) => c._id !== child._id))}
+                            className="p-1.5 rounded-lg cursor-pointer transition-colors shrink-0"
+                            style={{ color: "var(--color-error)" }}
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                ),
+            )}
         </div>
     );
 }
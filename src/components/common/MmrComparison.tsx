@@ -0,0 +1,157 @@
+import { useMemo, useState } from "react";
+import { SimilarityHeatmap } from "../charts/SimilarityHeatmap";
+import { cosineSimilarity, maximalMarginalRelevance, meanPairwiseSimilarity } from "../../lib/vectorMath";
+
+export interface MmrCandidate {
+    id: string;
+    distance: number | null;
+    document: string | null;
+    embedding: number[] | null;
+}
+
+interface MmrComparisonProps {
+    /** Vector query candidates in rank order. */
+    candidates: MmrCandidate[];
+    /** The query embedding when it was computed in the browser; otherwise relevance comes from distances. */
+    queryVector: number[] | null;
+    nResults: number;
+}
+
+/** Top results by distance next to an MMR-diversified selection, each with its similarity heatmap. */
+export function MmrComparison({ candidates, queryVector, nResults }: MmrComparisonProps) {
+    const [lambda, setLambda] = useState(0.5);
+
+    const embedded = useMemo(
+        () => candidates.filter((c): c is MmrCandidate & { embedding: number[] } => c.embedding !== null),
+        [candidates],
+    );
+
+    // Relevance on a 0–1 scale: cosine to the query, or min-max scaled distance
+    const relevance = useMemo(() => {
+        if (queryVector) return embedded.map((c) => cosineSimilarity(queryVector, c.embedding));
+        const distances = embedded.map((c) => c.distance ?? Infinity);
+        const min = Math.min(...distances);
+        const span = Math.max(...distances.filter(Number.isFinite)) - min || 1;
+        return distances.map((d) => (Number.isFinite(d) ? 1 - (d - min) / span : 0));
+    }, [embedded, queryVector]);
+
+    const topN = Math.min(nResults, embedded.length);
+    const baseline = embedded.slice(0, topN);
+    const diversified = useMemo(
+        () =>
+            maximalMarginalRelevance(
+                embedded.map((c) => c.embedding),
+                relevance,
+                topN,
+                lambda,
+            ).map((i) => ({ ...embedded[i]!, originalRank: i })),
+        [embedded, relevance, topN, lambda],
+    );
+
+    const baselineRedundancy = meanPairwiseSimilarity(baseline.map((c) => c.embedding));
+    const diversifiedRedundancy = meanPairwiseSimilarity(diversified.map((c) => c.embedding));
+
+    if (embedded.length < 2) {
+        return (
+            <div
+                className="p-5 rounded-2xl text-sm text-center"
+                style={{
+                    background: "var(--color-bg-card)",
+                    border: "1px solid var(--color-border)",
+                    color: "var(--color-text-dim)",
+                }}
+            >
+                MMR needs at least 2 results with stored embeddings.
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-4"
+            style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+        >
+            <div className="flex items-center gap-3 flex-wrap">
+                <h3 className="text-sm font-semibold flex-1">MMR diversification</h3>
+                <label className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                    diverse
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={lambda}
+                        onChange={(e) => setLambda(Number(e.target.value))}
+                        style={{ accentColor: "var(--color-accent)" }}
+                    />
+                    relevant
+                    <span className="font-mono w-12" style={{ color: "var(--color-text)" }}>
+                        λ {lambda.toFixed(2)}
+                    </span>
+                </label>
+            </div>
+            {!queryVector && (
+                <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                    The query was embedded server-side, so relevance is taken from the result distances.
+                </p>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {(
+                    [
+                        ["Top by distance", baseline, baselineRedundancy],
+                        ["MMR selection", diversified, diversifiedRedundancy],
+                    ] as const
+                ).map(([title, items, redundancy]) => (
+                    <div key={title} className="space-y-3 min-w-0">
+                        <div className="flex items-baseline gap-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider" style={{ color: "var(--color-text-dim)" }}>
+                                {title}
+                            </h4>
+                            <span className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                                mean pairwise similarity {redundancy.toFixed(3)}
+                            </span>
+                        </div>
+                        <SimilarityHeatmap
+                            key={items.length}
+                            embeddings={items.map((c) => c.embedding)}
+                            ids={items.map((c) => c.id)}
+                            maxItems={items.length}
+                            showSampleSize={false}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-1">
+                {diversified.map((c, i) => (
+                    <div
+                        key={c.id}
+                        className="flex items-start gap-2 px-3 py-2 rounded-lg text-xs"
+                        style={{ background: "var(--color-bg-elevated)" }}
+                    >
+                        <span className="font-mono w-6 text-right shrink-0" style={{ color: "var(--color-text-dim)" }}>
+                            {i + 1}
+                        </span>
+                        <span
+                            className="font-mono w-10 shrink-0"
+                            style={{ color: c.originalRank === i ? "var(--color-text-dim)" : "var(--color-warning)" }}
+                            title="Rank by distance"
+                        >
+                            #{c.originalRank + 1}
+                        </span>
+                        <span className="flex-1 min-w-0">
+                            <span className="block font-mono truncate">{c.id}</span>
+                            <span className="block truncate" style={{ color: "var(--color-text-muted)" }}>
+                                {c.document ?? "No document"}
+                            </span>
+                        </span>
+                        <span className="font-mono shrink-0" style={{ color: "var(--color-accent)" }}>
+                            {c.distance != null ? c.distance.toFixed(4) : "—"}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
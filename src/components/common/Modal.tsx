@@ -6,9 +6,11 @@ interface ModalProps {
     onClose: () => void;
     title: string;
     children: ReactNode;
+    /** Tailwind max-width class for the panel. */
+    maxWidth?: string;
 }
 
-export function Modal({ open, onClose, title, children }: ModalProps) {
+export function Modal({ open, onClose, title, children, maxWidth = "max-w-md" }: ModalProps) {
     useEffect(() => {
         const handler = (e: KeyboardEvent) => {
             if (e.key === "Escape") onClose();
@@ -28,7 +30,7 @@ export function Modal({ open, onClose, title, children }: ModalProps) {
             />
             {/* Panel */}
             <div
-                className="relative z-10 w-full max-w-md mx-4 p-6 rounded-2xl shadow-2xl animate-in fade-in-50"
+                className={`relative z-10 w-full ${maxWidth} mx-4 p-6 rounded-2xl shadow-2xl animate-in fade-in-50`}
                 style={{
                     background: "var(--color-bg-card)",
                     border: "1px solid var(--color-border)",
@@ -6,9 +6,11 @@ interface RecordDrawerProps {
     onClose: () => void;
     title: string;
     children: ReactNode;
+    /** Extra controls rendered in the header next to the close button. */
+    actions?: ReactNode;
 }
 
-export function RecordDrawer({ open, onClose, title, children }: RecordDrawerProps) {
+export function RecordDrawer({ open, onClose, title, children, actions }: RecordDrawerProps) {
     useEffect(() => {
         const handler = (e: KeyboardEvent) => {
             if (e.key === "Escape") onClose();
@@ -38,10 +40,11 @@ export function RecordDrawer({ open, onClose, title, children }: RecordDrawerPro
             >
                 {/* Header */}
                 <div
-                    className="flex items-center justify-between px-6 py-4 border-b shrink-0"
+                    className="flex items-center justify-between gap-2 px-6 py-4 border-b shrink-0"
                     style={{ borderColor: "var(--color-border)" }}
                 >
-                    <h3 className="text-lg font-semibold truncate">{title}</h3>
+                    <h3 className="text-lg font-semibold truncate flex-1">{title}</h3>
+                    {actions}
                     <button
                         onClick={onClose}
                         className="p-1.5 rounded-lg transition-colors cursor-pointer"
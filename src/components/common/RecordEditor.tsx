@@ -0,0 +1,416 @@
+import { useMemo, useState } from "react";
+import { Plus, Trash2, Loader2, Save, AlertCircle, Braces, List } from "lucide-react";
+import type { ItemsPayload } from "../../lib/chromaClient";
+
+export type MetadataValueType = "string" | "number" | "boolean";
+
+export interface EditableRecord {
+    id: string;
+    document: string | null;
+    metadata: Record<string, unknown> | null;
+    embedding: number[] | null;
+}
+
+export interface RecordSave {
+    /** "update" edits the record in place; "upsert" writes it under a new ID. */
+    mode: "update" | "upsert";
+    data: ItemsPayload;
+}
+
+interface MetaRow {
+    key: string;
+    type: MetadataValueType;
+    value: string;
+}
+
+export function metadataValueType(value: unknown): MetadataValueType | null {
+    if (typeof value === "number") return "number";
+    if (typeof value === "boolean") return "boolean";
+    if (typeof value === "string") return "string";
+    return null;
+}
+
+/** First type seen for each metadata key across the given records. */
+export function inferMetadataTypes(
+    metadatas: (Record<string, unknown> | null)[],
+): Record<string, MetadataValueType> {
+    const types: Record<string, MetadataValueType> = {};
+    for (const m of metadatas) {
+        if (!m) continue;
+        for (const [key, value] of Object.entries(m)) {
+            const t = metadataValueType(value);
+            if (t && !(key in types)) types[key] = t;
+        }
+    }
+    return types;
+}
+
+function toRows(metadata: Record<string, unknown> | null): MetaRow[] {
+    return Object.entries(metadata ?? {}).map(([key, value]) => ({
+        key,
+        type: metadataValueType(value) ?? "string",
+        value: String(value),
+    }));
+}
+
+function rowValue(row: MetaRow): string | number | boolean {
+    if (row.type === "number") return Number(row.value);
+    if (row.type === "boolean") return row.value === "true";
+    return row.value;
+}
+
+function rowsToObject(rows: MetaRow[]): Record<string, string | number | boolean> {
+    return Object.fromEntries(rows.filter((r) => r.key.trim()).map((r) => [r.key.trim(), rowValue(r)]));
+}
+
+function parseJsonMetadata(text: string): MetaRow[] {
+    const parsed: unknown = JSON.parse(text || "{}");
+    if (parsed === null) return [];
+    if (typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("Metadata must be a JSON object");
+    }
+    return Object.entries(parsed).map(([key, value]) => {
+        const type = metadataValueType(value);
+        if (!type) throw new Error(`"${key}" must be a string, number or boolean`);
+        return { key, type, value: String(value) };
+    });
+}
+
+interface RecordEditorProps {
+    record: EditableRecord;
+    /** Metadata key types seen on other records, used to flag conflicts. */
+    existingTypes: Record<string, MetadataValueType>;
+    /** Records `existingTypes` was inferred from; the check cannot see beyond them. */
+    typeSampleSize: number;
+    typeSampleLoading?: boolean;
+    /** Collection dimensionality, or null while unknown (e.g. an empty collection). */
+    embeddingDims: number | null;
+    saving: boolean;
+    onCancel: () => void;
+    onSave: (save: RecordSave) => void;
+}
+
+export function RecordEditor({
+    record,
+    existingTypes,
+    typeSampleSize,
+    typeSampleLoading,
+    embeddingDims,
+    saving,
+    onCancel,
+    onSave,
+}: RecordEditorProps) {
+    const [id, setId] = useState(record.id);
+    const [document, setDocument] = useState(record.document ?? "");
+    const [rows, setRows] = useState<MetaRow[]>(() => toRows(record.metadata));
+    const [jsonMode, setJsonMode] = useState(false);
+    const [jsonText, setJsonText] = useState("");
+    const [jsonError, setJsonError] = useState<string | null>(null);
+    const [embeddingText, setEmbeddingText] = useState("");
+
+    const toggleJson = () => {
+        if (jsonMode) {
+            try {
+                setRows(parseJsonMetadata(jsonText));
+                setJsonError(null);
+                setJsonMode(false);
+            } catch (err) {
+                setJsonError((err as Error).message);
+            }
+        } else {
+            setJsonText(JSON.stringify(rowsToObject(rows), null, 2));
+            setJsonError(null);
+            setJsonMode(true);
+        }
+    };
+
+    const updateRow = (index: number, patch: Partial<MetaRow>) =>
+        setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+    // Rows currently being edited — JSON mode is parsed on the fly
+    const liveRows = useMemo(() => {
+        if (!jsonMode) return rows;
+        try {
+            return parseJsonMetadata(jsonText);
+        } catch {
+            return null;
+        }
+    }, [jsonMode, jsonText, rows]);
+
+    const errors = useMemo(() => {
+        const list: string[] = [];
+        if (!id.trim()) list.push("ID is required");
+        if (!liveRows) {
+            list.push("Metadata JSON is invalid");
+        } else {
+            const seen = new Set<string>();
+            for (const row of liveRows) {
+                const key = row.key.trim();
+                if (!key) continue;
+                if (seen.has(key)) list.push(`Duplicate key "${key}"`);
+                seen.add(key);
+                if (row.type === "number" && (row.value.trim() === "" || !Number.isFinite(Number(row.value)))) {
+                    list.push(`"${key}" is not a valid number`);
+                }
+                const existing = existingTypes[key];
+                if (existing && existing !== row.type) {
+                    list.push(`"${key}" is stored as ${existing} on other records, not ${row.type}`);
+                }
+            }
+        }
+        if (embeddingText.trim()) {
+            try {
+                const vec: unknown = JSON.parse(embeddingText);
+                if (!Array.isArray(vec) || vec.some((v) => typeof v !== "number" || !Number.isFinite(v))) {
+                    list.push("Embedding must be a JSON array of numbers");
+                } else if (embeddingDims !== null && vec.length !== embeddingDims) {
+                    list.push(`Embedding has ${vec.length} dims, collection uses ${embeddingDims}`);
+                }
+            } catch {
+                list.push("Embedding is not valid JSON");
+            }
+        }
+        return list;
+    }, [id, liveRows, embeddingText, existingTypes, embeddingDims]);
+
+    const buildSave = (): RecordSave | null => {
+        if (!liveRows) return null;
+        const metadata = rowsToObject(liveRows);
+        const embedding = embeddingText.trim() ? (JSON.parse(embeddingText) as number[]) : null;
+        const newId = id.trim();
+
+        if (newId !== record.id) {
+            return {
+                mode: "upsert",
+                data: {
+                    ids: [newId],
+                    documents: [document || null],
+                    metadatas: [Object.keys(metadata).length ? metadata : null],
+                    embeddings: (embedding ?? record.embedding) ? [embedding ?? record.embedding] : undefined,
+                },
+            };
+        }
+
+        const data: ItemsPayload = { ids: [record.id] };
+        if (document !== (record.document ?? "")) data.documents = [document];
+
+        const original = record.metadata ?? {};
+        const removed = Object.keys(original).filter((k) => !(k in metadata));
+        const changed =
+            removed.length > 0 ||
+            Object.entries(metadata).some(([k, v]) => original[k] !== v);
+        if (changed) {
+            // A null value tells Chroma to drop the key
+            data.metadatas = [{ ...metadata, ...Object.fromEntries(removed.map((k) => [k, null])) }];
+        }
+        if (embedding) data.embeddings = [embedding];
+
+        return data.documents || data.metadatas || data.embeddings ? { mode: "update", data } : null;
+    };
+
+    const pending = errors.length === 0 ? buildSave() : null;
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    return (
+        <div className="space-y-4 text-sm">
+            <div>
+                <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                    ID
+                </label>
+                <input
+                    value={id}
+                    onChange={(e) => setId(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg text-xs font-mono outline-none"
+                    style={inputStyle}
+                />
+                {id.trim() !== record.id && id.trim() && (
+                    <p className="text-[11px] mt-1" style={{ color: "var(--color-warning)" }}>
+                        Saves a copy under the new ID (upsert); the original record is kept.
+                    </p>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                    Document
+                </label>
+                <textarea
+                    value={document}
+                    onChange={(e) => setDocument(e.target.value)}
+                    rows={6}
+                    className="w-full px-3 py-2 rounded-lg text-sm outline-none resize-y"
+                    style={inputStyle}
+                />
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-1.5">
+                    <label className="text-xs font-medium" style={{ color: "var(--color-text-muted)" }}>
+                        Metadata
+                    </label>
+                    <button
+                        type="button"
+                        onClick={toggleJson}
+                        className="flex items-center gap-1 text-[11px] px-2 py-1 rounded-md cursor-pointer"
+                        style={{ background: "var(--color-bg-elevated)", color: "var(--color-text-muted)" }}
+                    >
+                        {jsonMode ? <List size={11} /> : <Braces size={11} />}
+                        {jsonMode ? "Fields" : "JSON"}
+                    </button>
+                </div>
+                <p className="text-[11px] mb-1.5" style={{ color: "var(--color-text-dim)" }}>
+                    {typeSampleLoading
+                        ? "Loading a metadata sample to check key types…"
+                        : `Key types are checked against ${typeSampleSize.toLocaleString()} other records, not the whole collection.`}
+                </p>
+
+                {jsonMode ? (
+                    <>
+                        <textarea
+                            value={jsonText}
+                            onChange={(e) => setJsonText(e.target.value)}
+                            rows={8}
+                            spellCheck={false}
+                            className="w-full px-3 py-2 rounded-lg text-xs font-mono outline-none resize-y"
+                            style={inputStyle}
+                        />
+                        {jsonError && (
+                            <p className="text-xs mt-1" style={{ color: "var(--color-error)" }}>{jsonError}</p>
+                        )}
+                    </>
+                ) : (
+                    <div className="space-y-2">
+                        {rows.map((row, i) => {
+                            const conflict = existingTypes[row.key.trim()] && existingTypes[row.key.trim()] !== row.type;
+                            return (
+                                <div key={i} className="flex gap-2">
+                                    <input
+                                        value={row.key}
+                                        onChange={(e) => updateRow(i, { key: e.target.value })}
+                                        placeholder="key"
+                                        className="w-1/3 px-2 py-1.5 rounded-lg text-xs outline-none"
+                                        style={inputStyle}
+                                    />
+                                    <select
+                                        value={row.type}
+                                        onChange={(e) => {
+                                            const type = e.target.value as MetadataValueType;
+                                            updateRow(i, {
+                                                type,
+                                                value: type === "boolean" ? (row.value === "true" ? "true" : "false") : row.value,
+                                            });
+                                        }}
+                                        className="px-2 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                                        style={{
+                                            ...inputStyle,
+                                            border: conflict ? "1px solid var(--color-error)" : inputStyle.border,
+                                        }}
+                                    >
+                                        <option value="string">string</option>
+                                        <option value="number">number</option>
+                                        <option value="boolean">boolean</option>
+                                    </select>
+                                    {row.type === "boolean" ? (
+                                        <select
+                                            value={row.value}
+                                            onChange={(e) => updateRow(i, { value: e.target.value })}
+                                            className="flex-1 px-2 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                                            style={inputStyle}
+                                        >
+                                            <option value="true">true</option>
+                                            <option value="false">false</option>
+                                        </select>
+                                    ) : (
+                                        <input
+                                            value={row.value}
+                                            onChange={(e) => updateRow(i, { value: e.target.value })}
+                                            type={row.type === "number" ? "number" : "text"}
+                                            placeholder="value"
+                                            className="flex-1 min-w-0 px-2 py-1.5 rounded-lg text-xs outline-none"
+                                            style={inputStyle}
+                                        />
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))}
+                                        className="p-1.5 rounded-lg cursor-pointer"
+                                        style={{ color: "var(--color-text-dim)" }}
+                                    >
+                                        <Trash2 size={13} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                        <button
+                            type="button"
+                            onClick={() => setRows((prev) => [...prev, { key: "", type: "string", value: "" }])}
+                            className="flex items-center gap-1 text-xs px-2 py-1 rounded-md cursor-pointer"
+                            style={{ color: "var(--color-accent)" }}
+                        >
+                            <Plus size={12} /> Add field
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-xs font-medium mb-1.5" style={{ color: "var(--color-text-muted)" }}>
+                    Embedding <span style={{ color: "var(--color-text-dim)" }}>(optional — paste a JSON array to replace)</span>
+                </label>
+                <textarea
+                    value={embeddingText}
+                    onChange={(e) => setEmbeddingText(e.target.value)}
+                    rows={3}
+                    spellCheck={false}
+                    placeholder={record.embedding ? `[${record.embedding.length} numbers]` : "[0.12, -0.03, …]"}
+                    className="w-full px-3 py-2 rounded-lg text-xs font-mono outline-none resize-y"
+                    style={inputStyle}
+                />
+            </div>
+
+            {errors.length > 0 && (
+                <div
+                    className="p-3 rounded-xl space-y-1"
+                    style={{ background: "rgba(255,71,87,0.06)", border: "1px solid rgba(255,71,87,0.2)" }}
+                >
+                    {errors.map((e) => (
+                        <p key={e} className="flex items-start gap-2 text-xs" style={{ color: "var(--color-error)" }}>
+                            <AlertCircle size={12} className="shrink-0 mt-0.5" /> {e}
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex gap-3 justify-end pt-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={saving}
+                    className="px-4 py-2 rounded-xl text-sm cursor-pointer disabled:opacity-40"
+                    style={{
+                        background: "var(--color-bg-elevated)",
+                        border: "1px solid var(--color-border)",
+                        color: "var(--color-text-muted)",
+                    }}
+                >
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={() => pending && onSave(pending)}
+                    disabled={!pending || saving}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-40"
+                    style={{ background: "var(--color-accent)", color: "#fff" }}
+                >
+                    {saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+                    {pending?.mode === "upsert" ? "Save copy" : "Save"}
+                </button>
+            </div>
+        </div>
+    );
+}
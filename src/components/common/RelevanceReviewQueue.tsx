@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Modal } from "./Modal";
+import { RELEVANCE_GRADES, type RelevanceGrade } from "../../lib/relevanceLabels";
+
+export interface ReviewItem {
+    id: string;
+    distance: number | null;
+    document: string | null;
+    metadata: Record<string, unknown> | null;
+}
+
+interface RelevanceReviewQueueProps {
+    open: boolean;
+    onClose: () => void;
+    /** The query being judged, shown as the modal title. */
+    queryLabel: string;
+    items: ReviewItem[];
+    judgements: Record<string, RelevanceGrade>;
+    onJudge: (itemId: string, grade: RelevanceGrade | null) => void;
+}
+
+const GRADE_KEYS: Record<string, RelevanceGrade> = { "2": 2, r: 2, "1": 1, p: 1, "0": 0, i: 0 };
+
+/** Step through query results one at a time and grade them from the keyboard. */
+export function RelevanceReviewQueue({ open, onClose, queryLabel, items, judgements, onJudge }: RelevanceReviewQueueProps) {
+    const [index, setIndex] = useState(0);
+
+    // Start at the first unlabelled result each time the queue opens
+    useEffect(() => {
+        if (!open) return;
+        const first = items.findIndex((item) => judgements[item.id] === undefined);
+        setIndex(first < 0 ? 0 : first);
+    }, [open]);
+
+    const item = items[index];
+    const labelled = items.filter((i) => judgements[i.id] !== undefined).length;
+
+    const judge = (grade: RelevanceGrade | null) => {
+        if (!item) return;
+        onJudge(item.id, grade);
+        if (grade === null) return;
+        // Advance to the next unlabelled result, wrapping once; stay on the last one otherwise
+        const order = [...items.slice(index + 1), ...items.slice(0, index)];
+        const next = order.find((i) => i.id !== item.id && judgements[i.id] === undefined);
+        if (next) setIndex(items.indexOf(next));
+        else if (index < items.length - 1) setIndex(index + 1);
+    };
+
+    useEffect(() => {
+        if (!open) return;
+        const handler = (e: KeyboardEvent) => {
+            if (e.metaKey || e.ctrlKey || e.altKey) return;
+            const key = e.key.toLowerCase();
+            if (key in GRADE_KEYS) {
+                e.preventDefault();
+                judge(GRADE_KEYS[key]!);
+            } else if (key === "arrowright" || key === "j") {
+                setIndex((i) => Math.min(items.length - 1, i + 1));
+            } else if (key === "arrowleft" || key === "k") {
+                setIndex((i) => Math.max(0, i - 1));
+            } else if (key === "backspace" || key === "u") {
+                judge(null);
+            }
+        };
+        window.addEventListener("keydown", handler);
+        return () => window.removeEventListener("keydown", handler);
+    });
+
+    const current = item ? judgements[item.id] : undefined;
+
+    return (
+        <Modal open={open} onClose={onClose} title={`Review: ${queryLabel}`} maxWidth="max-w-2xl">
+            {!item ? (
+                <p className="text-sm" style={{ color: "var(--color-text-dim)" }}>
+                    No results to review.
+                </p>
+            ) : (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        <button
+                            type="button"
+                            onClick={() => setIndex(Math.max(0, index - 1))}
+                            disabled={index === 0}
+                            className="p-1 rounded cursor-pointer disabled:opacity-30"
+                        >
+                            <ChevronLeft size={14} />
+                        </button>
+                        <span>
+                            Result {index + 1} of {items.length}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={() => setIndex(Math.min(items.length - 1, index + 1))}
+                            disabled={index === items.length - 1}
+                            className="p-1 rounded cursor-pointer disabled:opacity-30"
+                        >
+                            <ChevronRight size={14} />
+                        </button>
+                        <span className="flex-1" />
+                        <span>
+                            {labelled} / {items.length} labelled
+                        </span>
+                    </div>
+                    <div className="h-1 rounded-full overflow-hidden" style={{ background: "var(--color-bg-elevated)" }}>
+                        <div
+                            className="h-full transition-all"
+                            style={{ width: `${(labelled / items.length) * 100}%`, background: "var(--color-accent)" }}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-baseline gap-3">
+                            <span className="font-mono text-sm truncate flex-1">{item.id}</span>
+                            <span className="font-mono text-xs" style={{ color: "var(--color-accent)" }}>
+                                {item.distance != null ? item.distance.toFixed(4) : "—"}
+                            </span>
+                        </div>
+                        <div
+                            className="p-3 rounded-xl text-sm max-h-64 overflow-y-auto whitespace-pre-wrap"
+                            style={{ background: "var(--color-bg-elevated)" }}
+                        >
+                            {item.document ?? <span style={{ color: "var(--color-text-dim)" }}>No document</span>}
+                        </div>
+                        {item.metadata && Object.keys(item.metadata).length > 0 && (
+                            <p className="text-xs font-mono truncate" style={{ color: "var(--color-text-dim)" }}>
+                                {JSON.stringify(item.metadata)}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                        {RELEVANCE_GRADES.map((g) => (
+                            <button
+                                key={g.grade}
+                                type="button"
+                                onClick={() => judge(g.grade)}
+                                className="px-3 py-2.5 rounded-xl text-sm font-medium cursor-pointer transition-colors"
+                                style={{
+                                    border: `1px solid ${current === g.grade ? g.color : "var(--color-border)"}`,
+                                    background: current === g.grade ? "var(--color-bg-elevated)" : "transparent",
+                                    color: current === g.grade ? g.color : "var(--color-text-muted)",
+                                }}
+                            >
+                                {g.label}
+                                <kbd className="ml-2 text-[10px] font-mono opacity-70">{g.shortcut}</kbd>
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[11px]" style={{ color: "var(--color-text-dim)" }}>
+                        2 / 1 / 0 (or r / p / i) to judge and advance · ← → or j k to move · u or Backspace to clear · Esc to
+                        close
+                    </p>
+                </div>
+            )}
+        </Modal>
+    );
+}
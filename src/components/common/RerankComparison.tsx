@@ -0,0 +1,189 @@
+import { useMemo, useState } from "react";
+import { ArrowUp, ArrowDown, Minus } from "lucide-react";
+import {
+    hybridRerank,
+    DEFAULT_RERANK_OPTIONS,
+    type RerankCandidate,
+    type RerankOptions,
+} from "../../lib/rerank";
+
+interface RerankComparisonProps {
+    /** Vector query candidates in rank order. */
+    candidates: RerankCandidate[];
+    /** Query text used as the initial BM25 keywords. */
+    query: string;
+    /** How many results each ranking shows. */
+    nResults: number;
+}
+
+function RankDelta({ from, to, topN }: { from: number; to: number; topN: number }) {
+    if (from >= topN) {
+        return (
+            <span className="text-[10px] font-semibold px-1.5 rounded" style={{ background: "rgba(0,214,143,0.15)", color: "var(--color-success)" }}>
+                new
+            </span>
+        );
+    }
+    const delta = from - to;
+    if (delta === 0) return <Minus size={11} style={{ color: "var(--color-text-dim)" }} />;
+    const up = delta > 0;
+    return (
+        <span
+            className="flex items-center text-[10px] font-mono"
+            style={{ color: up ? "var(--color-success)" : "var(--color-error)" }}
+        >
+            {up ? <ArrowUp size={11} /> : <ArrowDown size={11} />}
+            {Math.abs(delta)}
+        </span>
+    );
+}
+
+/** Vector ranking next to a BM25 hybrid re-ranking of the same candidate pool. */
+export function RerankComparison({ candidates, query, nResults }: RerankComparisonProps) {
+    const [keywords, setKeywords] = useState(query);
+    const [options, setOptions] = useState<RerankOptions>(DEFAULT_RERANK_OPTIONS);
+
+    const reranked = useMemo(() => hybridRerank(candidates, keywords, options), [candidates, keywords, options]);
+    const original = candidates.slice(0, nResults);
+    const top = reranked.slice(0, nResults);
+
+    const rerankedIds = new Set(top.map((r) => r.item.id));
+    const overlap = original.filter((c) => rerankedIds.has(c.id)).length;
+    const moved = top.filter((r) => r.rank !== r.vectorRank).length;
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+    const rowClass = "flex items-start gap-2 px-3 py-2 rounded-lg text-xs";
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-4"
+            style={{ background: "var(--color-bg-card)", border: "1px solid var(--color-border)" }}
+        >
+            <div className="flex items-center gap-2 flex-wrap">
+                <h3 className="text-sm font-semibold flex-1">Hybrid re-rank</h3>
+                <input
+                    value={keywords}
+                    onChange={(e) => setKeywords(e.target.value)}
+                    placeholder="BM25 keywords…"
+                    className="w-56 px-3 py-1.5 rounded-lg text-xs outline-none"
+                    style={inputStyle}
+                />
+                <div className="flex rounded-lg overflow-hidden text-xs" style={{ border: "1px solid var(--color-border)" }}>
+                    {(
+                        [
+                            ["rrf", "RRF"],
+                            ["weighted", "Weighted"],
+                        ] as const
+                    ).map(([method, label]) => (
+                        <button
+                            key={method}
+                            type="button"
+                            onClick={() => setOptions({ ...options, method })}
+                            className="px-2 py-1 cursor-pointer"
+                            style={{
+                                background: options.method === method ? "var(--color-accent-glow)" : "transparent",
+                                color: options.method === method ? "var(--color-accent)" : "var(--color-text-muted)",
+                            }}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {options.method === "rrf" ? (
+                    <label className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        k
+                        <input
+                            type="number"
+                            min={1}
+                            value={options.rrfK}
+                            onChange={(e) => setOptions({ ...options, rrfK: Math.max(1, Number(e.target.value)) })}
+                            className="w-16 px-2 py-1 rounded-lg text-xs outline-none"
+                            style={inputStyle}
+                        />
+                    </label>
+                ) : (
+                    <label className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        BM25
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={options.alpha}
+                            onChange={(e) => setOptions({ ...options, alpha: Number(e.target.value) })}
+                        />
+                        vector <span className="font-mono w-8">{options.alpha.toFixed(2)}</span>
+                    </label>
+                )}
+            </div>
+
+            <p className="text-xs" style={{ color: "var(--color-text-dim)" }}>
+                {candidates.length} candidates · {overlap} of {original.length} top results kept · {moved} moved
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                    <h4 className="text-xs font-semibold uppercase tracking-wider" style={{ color: "var(--color-text-dim)" }}>
+                        Vector order
+                    </h4>
+                    {original.map((c, i) => (
+                        <div
+                            key={c.id}
+                            className={rowClass}
+                            style={{
+                                background: "var(--color-bg-elevated)",
+                                opacity: rerankedIds.has(c.id) ? 1 : 0.5,
+                            }}
+                            title={rerankedIds.has(c.id) ? undefined : "Dropped from the re-ranked top results"}
+                        >
+                            <span className="font-mono w-6 text-right shrink-0" style={{ color: "var(--color-text-dim)" }}>
+                                {i + 1}
+                            </span>
+                            <span className="flex-1 min-w-0">
+                                <span className="block font-mono truncate">{c.id}</span>
+                                <span className="block truncate" style={{ color: "var(--color-text-muted)" }}>
+                                    {c.document ?? "No document"}
+                                </span>
+                            </span>
+                            <span className="font-mono shrink-0" style={{ color: "var(--color-accent)" }}>
+                                {c.distance != null ? c.distance.toFixed(4) : "—"}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                <div className="space-y-1">
+                    <h4 className="text-xs font-semibold uppercase tracking-wider" style={{ color: "var(--color-text-dim)" }}>
+                        Re-ranked
+                    </h4>
+                    {top.map((r) => (
+                        <div key={r.item.id} className={rowClass} style={{ background: "var(--color-bg-elevated)" }}>
+                            <span className="font-mono w-6 text-right shrink-0" style={{ color: "var(--color-text-dim)" }}>
+                                {r.rank + 1}
+                            </span>
+                            <span className="w-8 shrink-0 flex justify-center pt-0.5">
+                                <RankDelta from={r.vectorRank} to={r.rank} topN={nResults} />
+                            </span>
+                            <span className="flex-1 min-w-0">
+                                <span className="block font-mono truncate">{r.item.id}</span>
+                                <span className="block truncate" style={{ color: "var(--color-text-muted)" }}>
+                                    {r.item.document ?? "No document"}
+                                </span>
+                            </span>
+                            <span
+                                className="font-mono shrink-0 text-right"
+                                style={{ color: "var(--color-text-dim)" }}
+                                title={`BM25 ${r.bm25.toFixed(3)} · fused score ${r.score.toFixed(4)}`}
+                            >
+                                bm25 {r.bm25.toFixed(2)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
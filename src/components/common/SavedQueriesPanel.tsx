@@ -0,0 +1,297 @@
+import { useState, useRef } from "react";
+import toast from "react-hot-toast";
+import { Bookmark, History, Play, Save, Trash2, Upload, Download, RotateCcw } from "lucide-react";
+import {
+    useSavedQueries,
+    saveQuery,
+    deleteSavedQuery,
+    exportSavedQueries,
+    parseSavedQuerySet,
+    importSavedQueries,
+    clearQueryHistory,
+    historyQuerySpec,
+    type HistoryQuery,
+    type QuerySpec,
+} from "../../lib/savedQueries";
+import { useScope } from "../../lib/scopeContext";
+
+interface SavedQueriesPanelProps {
+    collectionId: string;
+    collectionName: string;
+    /** The query currently in the form, or null when it cannot be saved yet. */
+    current: QuerySpec | null;
+    onLoad: (query: QuerySpec) => void;
+    onRun: (query: QuerySpec) => void;
+}
+
+/** One-line description of a query for lists. */
+export function describeQuery(query: HistoryQuery & { vector?: number[] }): string {
+    const vectorDims = query.vectorDims ?? query.vector?.length;
+    const source = query.centroidOf
+        ? `centroid of ${query.centroidOf.length}`
+        : vectorDims !== undefined
+          ? `vector (${vectorDims}d)`
+          : query.texts
+            ? `batch of ${query.texts.length}`
+            : `"${query.text ?? ""}"`;
+    const parts = [source, `n=${query.nResults}`];
+    if (query.where) parts.push("where");
+    if (query.whereDocument) parts.push("where_document");
+    return parts.join(" · ");
+}
+
+export function SavedQueriesPanel({
+    collectionId,
+    collectionName,
+    current,
+    onLoad,
+    onRun,
+}: SavedQueriesPanelProps) {
+    const { saved, history } = useSavedQueries();
+    const scope = useScope();
+    const [view, setView] = useState<"saved" | "history">("saved");
+    const [name, setName] = useState("");
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const ownSaved = saved.filter((q) => q.collectionId === collectionId);
+    const ownHistory = history.filter((h) => h.collectionId === collectionId);
+
+    const handleSave = () => {
+        if (!current || !name.trim()) return;
+        saveQuery(collectionId, collectionName, name.trim(), current, scope);
+        toast.success(`Saved "${name.trim()}"`);
+        setName("");
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(exportSavedQueries(collectionId, collectionName), null, 2)], {
+            type: "application/json",
+        });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = `${collectionName}-saved-queries.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const set = parseSavedQuerySet(await file.text());
+            const count = importSavedQueries(set, collectionId, collectionName, scope);
+            toast.success(`Imported ${count} saved quer${count === 1 ? "y" : "ies"}`);
+        } catch (err) {
+            toast.error((err as Error).message);
+        }
+    };
+
+    const iconButton = "p-1.5 rounded-md cursor-pointer disabled:opacity-40";
+
+    return (
+        <div
+            className="p-4 rounded-2xl space-y-3"
+            style={{
+                background: "var(--color-bg-card)",
+                border: "1px solid var(--color-border)",
+            }}
+        >
+            <div className="flex items-center gap-2">
+                <div
+                    className="flex rounded-lg overflow-hidden text-xs"
+                    style={{ border: "1px solid var(--color-border)" }}
+                >
+                    {(
+                        [
+                            ["saved", <Bookmark size={12} />, `Saved (${ownSaved.length})`],
+                            ["history", <History size={12} />, `History (${ownHistory.length})`],
+                        ] as const
+                    ).map(([key, icon, label]) => (
+                        <button
+                            key={key}
+                            type="button"
+                            onClick={() => setView(key)}
+                            className="flex items-center gap-1.5 px-3 py-1.5 cursor-pointer"
+                            style={{
+                                background: view === key ? "var(--color-accent-glow)" : "transparent",
+                                color: view === key ? "var(--color-accent)" : "var(--color-text-muted)",
+                            }}
+                        >
+                            {icon} {label}
+                        </button>
+                    ))}
+                </div>
+                <span className="flex-1" />
+                {view === "saved" ? (
+                    <>
+                        <button
+                            type="button"
+                            onClick={() => fileRef.current?.click()}
+                            className={iconButton}
+                            style={{ color: "var(--color-text-muted)" }}
+                            title="Import saved queries (JSON)"
+                        >
+                            <Upload size={13} />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleExport}
+                            disabled={ownSaved.length === 0}
+                            className={iconButton}
+                            style={{ color: "var(--color-text-muted)" }}
+                            title="Export saved queries (JSON)"
+                        >
+                            <Download size={13} />
+                        </button>
+                        <input
+                            ref={fileRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) void handleImport(file);
+                                e.target.value = "";
+                            }}
+                        />
+                    </>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={() => clearQueryHistory(collectionId)}
+                        disabled={ownHistory.length === 0}
+                        className={iconButton}
+                        style={{ color: "var(--color-error)" }}
+                        title="Clear history"
+                    >
+                        <Trash2 size={13} />
+                    </button>
+                )}
+            </div>
+
+            {view === "saved" && (
+                <div className="flex gap-2">
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                        placeholder="Name the current query…"
+                        className="flex-1 px-3 py-2 rounded-lg text-xs outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    />
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={!current || !name.trim()}
+                        className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer disabled:opacity-40"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                        title={current ? "Save the current query" : "Enter a query first"}
+                    >
+                        <Save size={12} /> Save
+                    </button>
+                </div>
+            )}
+
+            <div className="space-y-1 max-h-60 overflow-y-auto">
+                {view === "saved" &&
+                    (ownSaved.length === 0 ? (
+                        <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                            No saved queries for this collection.
+                        </p>
+                    ) : (
+                        ownSaved.map((q) => (
+                            <div
+                                key={q.id}
+                                className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs"
+                                style={{ background: "var(--color-bg-elevated)" }}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => onLoad(q.query)}
+                                    className="flex-1 min-w-0 text-left cursor-pointer"
+                                    title="Load into the form"
+                                >
+                                    <p className="font-medium truncate">{q.name}</p>
+                                    <p className="truncate" style={{ color: "var(--color-text-dim)" }}>
+                                        {describeQuery(q.query)}
+                                    </p>
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onRun(q.query)}
+                                    className={iconButton}
+                                    style={{ color: "var(--color-accent)" }}
+                                    title="Run"
+                                >
+                                    <Play size={13} />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => deleteSavedQuery(q.id)}
+                                    className={iconButton}
+                                    style={{ color: "var(--color-error)" }}
+                                    title="Delete"
+                                >
+                                    <Trash2 size={13} />
+                                </button>
+                            </div>
+                        ))
+                    ))}
+
+                {view === "history" &&
+                    (ownHistory.length === 0 ? (
+                        <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                            Queries you run on this collection appear here.
+                        </p>
+                    ) : (
+                        ownHistory.map((h) => {
+                            // Vectors are not kept in history, so those entries cannot be re-run
+                            const spec = historyQuerySpec(h.query);
+                            const unavailable = "The vector is not kept in history; save the query to re-run it";
+                            return (
+                                <div
+                                    key={h.id}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs"
+                                    style={{ background: "var(--color-bg-elevated)" }}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <p className="truncate font-mono">{describeQuery(h.query)}</p>
+                                        <p
+                                            className="truncate"
+                                            style={{ color: h.error ? "var(--color-error)" : "var(--color-text-dim)" }}
+                                        >
+                                            {new Date(h.executedAt).toLocaleString()} · {h.durationMs} ms ·{" "}
+                                            {h.error ?? `${h.resultCount ?? 0} results`}
+                                        </p>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => spec && onLoad(spec)}
+                                        disabled={!spec}
+                                        className={iconButton}
+                                        style={{ color: "var(--color-text-muted)" }}
+                                        title={spec ? "Load into the form" : unavailable}
+                                    >
+                                        <RotateCcw size={13} />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => spec && onRun(spec)}
+                                        disabled={!spec}
+                                        className={iconButton}
+                                        style={{ color: "var(--color-accent)" }}
+                                        title={spec ? "Run again" : unavailable}
+                                    >
+                                        <Play size={13} />
+                                    </button>
+                                </div>
+                            );
+                        })
+                    ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Sparkles, AlertCircle } from "lucide-react";
+import { findSimilarItems, type SimilarItem } from "../../lib/chromaClient";
+import { useScope } from "../../lib/scopeContext";
+
+interface SimilarRecordsProps {
+    collectionId: string;
+    itemId: string;
+    onSelect: (item: SimilarItem) => void;
+}
+
+const RESULT_COUNTS = [5, 10, 25, 50];
+
+/** Nearest neighbours of a record by its stored embedding, shown in the record drawer. */
+export function SimilarRecords({ collectionId, itemId, onSelect }: SimilarRecordsProps) {
+    const scope = useScope();
+    const [nResults, setNResults] = useState(10);
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: ["similar", collectionId, itemId, nResults],
+        queryFn: () => findSimilarItems(collectionId, itemId, nResults, scope),
+        retry: false,
+    });
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <Sparkles size={14} style={{ color: "var(--color-accent)" }} />
+                <h4
+                    className="text-xs font-semibold uppercase tracking-wider flex-1"
+                    style={{ color: "var(--color-text-dim)" }}
+                >
+                    Similar records
+                </h4>
+                <select
+                    value={nResults}
+                    onChange={(e) => setNResults(Number(e.target.value))}
+                    className="px-2 py-1 rounded-lg text-xs outline-none cursor-pointer"
+                    style={{
+                        background: "var(--color-bg-input)",
+                        border: "1px solid var(--color-border)",
+                        color: "var(--color-text)",
+                    }}
+                >
+                    {RESULT_COUNTS.map((n) => (
+                        <option key={n} value={n}>
+                            Top {n}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {isLoading && (
+                <div className="flex justify-center py-6">
+                    <Loader2 size={18} className="animate-spin" style={{ color: "var(--color-accent)" }} />
+                </div>
+            )}
+
+            {error && (
+                <p className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={12} /> {(error as Error).message}
+                </p>
+            )}
+
+            {data && data.length === 0 && (
+                <p className="text-xs py-2" style={{ color: "var(--color-text-dim)" }}>
+                    No other records in this collection.
+                </p>
+            )}
+
+            {data?.map((item) => (
+                <button
+                    key={item.id}
+                    type="button"
+                    onClick={() => onSelect(item)}
+                    className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left text-xs cursor-pointer transition-colors"
+                    style={{ background: "var(--color-bg-elevated)" }}
+                    title="Open this record"
+                >
+                    <span className="font-mono shrink-0 w-16 text-right" style={{ color: "var(--color-accent)" }}>
+                        {item.distance != null ? item.distance.toFixed(4) : "—"}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                        <span className="block font-mono truncate">{item.id}</span>
+                        <span className="block line-clamp-2" style={{ color: "var(--color-text-muted)" }}>
+                            {item.document ?? "No document"}
+                        </span>
+                    </span>
+                </button>
+            ))}
+        </div>
+    );
+}
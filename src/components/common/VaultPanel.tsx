@@ -0,0 +1,241 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { ShieldCheck, Lock, Unlock, Loader2, Trash2, ShieldOff } from "lucide-react";
+import { Modal } from "./Modal";
+import {
+    useVaultState,
+    lockVault,
+    requestVaultUnlock,
+    getVaultIdleMinutes,
+    setVaultIdleMinutes,
+} from "../../lib/vault";
+import {
+    enableCredentialVault,
+    disableCredentialVault,
+    forgetAllSecrets,
+} from "../../lib/storage";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const IDLE_OPTIONS = [
+    { value: 5, label: "5 minutes" },
+    { value: 15, label: "15 minutes" },
+    { value: 30, label: "30 minutes" },
+    { value: 60, label: "1 hour" },
+    { value: 0, label: "Never" },
+];
+
+export function VaultPanel({ onSecretsChanged }: { onSecretsChanged: () => void }) {
+    const vault = useVaultState();
+    const [passphrase, setPassphrase] = useState("");
+    const [confirm, setConfirm] = useState("");
+    const [enabling, setEnabling] = useState(false);
+    const [showForget, setShowForget] = useState(false);
+
+    const passphraseError =
+        passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+            ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+            : confirm && confirm !== passphrase
+                ? "Passphrases do not match"
+                : null;
+
+    const enable = async () => {
+        setEnabling(true);
+        try {
+            await enableCredentialVault(passphrase);
+            setPassphrase("");
+            setConfirm("");
+            toast.success("Credentials encrypted");
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setEnabling(false);
+        }
+    };
+
+    const disable = () => {
+        try {
+            disableCredentialVault();
+            toast.success("Vault removed — credentials stored unencrypted");
+        } catch (err) {
+            toast.error((err as Error).message);
+        }
+    };
+
+    const forget = () => {
+        forgetAllSecrets();
+        setShowForget(false);
+        onSecretsChanged();
+        toast.success("All stored secrets erased");
+    };
+
+    const inputStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    const secondaryButton = {
+        background: "var(--color-bg-elevated)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text-muted)",
+    };
+
+    return (
+        <div
+            className="p-5 rounded-2xl space-y-3"
+            style={{
+                background: "var(--color-bg-card)",
+                border: "1px solid var(--color-border)",
+            }}
+        >
+            <div className="flex items-center gap-2">
+                <ShieldCheck size={15} style={{ color: vault.enabled ? "var(--color-success)" : "var(--color-text-muted)" }} />
+                <h3 className="text-sm font-semibold flex-1">Credential Vault</h3>
+                {vault.enabled && (
+                    <span
+                        className="text-[10px] px-1.5 py-0.5 rounded-md font-medium"
+                        style={{
+                            background: vault.unlocked ? "rgba(0,214,143,0.1)" : "rgba(255,165,2,0.1)",
+                            color: vault.unlocked ? "var(--color-success)" : "var(--color-warning)",
+                        }}
+                    >
+                        {vault.unlocked ? "unlocked" : "locked"}
+                    </span>
+                )}
+            </div>
+
+            {vault.writeError && (
+                <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                    {vault.writeError}. Recent credential changes are not saved and will be lost on reload.
+                </p>
+            )}
+
+            {!vault.enabled ? (
+                <>
+                    <p className="text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        Tokens, passwords and API keys are currently stored as plain text in this browser.
+                        Set a passphrase to encrypt them (AES-GCM, key derived with PBKDF2). You
+                        will be asked for it once per session.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="password"
+                            value={passphrase}
+                            onChange={(e) => setPassphrase(e.target.value)}
+                            className="flex-1 px-3 py-2 rounded-lg text-sm outline-none"
+                            style={inputStyle}
+                            placeholder="Passphrase"
+                        />
+                        <input
+                            type="password"
+                            value={confirm}
+                            onChange={(e) => setConfirm(e.target.value)}
+                            className="flex-1 px-3 py-2 rounded-lg text-sm outline-none"
+                            style={inputStyle}
+                            placeholder="Confirm passphrase"
+                        />
+                        <button
+                            type="button"
+                            onClick={enable}
+                            disabled={enabling || !passphrase || confirm !== passphrase || !!passphraseError}
+                            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium cursor-pointer disabled:opacity-40"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            {enabling ? <Loader2 size={14} className="animate-spin" /> : <Lock size={14} />}
+                            Encrypt
+                        </button>
+                    </div>
+                    {passphraseError && (
+                        <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                            {passphraseError}
+                        </p>
+                    )}
+                </>
+            ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                    {vault.unlocked ? (
+                        <button
+                            type="button"
+                            onClick={lockVault}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={secondaryButton}
+                        >
+                            <Lock size={12} /> Lock now
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={requestVaultUnlock}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer"
+                            style={{ background: "var(--color-accent)", color: "#fff" }}
+                        >
+                            <Unlock size={12} /> Unlock
+                        </button>
+                    )}
+                    <label className="flex items-center gap-2 text-xs" style={{ color: "var(--color-text-muted)" }}>
+                        Lock when idle for
+                        <select
+                            value={getVaultIdleMinutes()}
+                            onChange={(e) => setVaultIdleMinutes(Number(e.target.value))}
+                            className="px-2 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                            style={inputStyle}
+                        >
+                            {IDLE_OPTIONS.map((o) => (
+                                <option key={o.value} value={o.value}>
+                                    {o.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {vault.unlocked && (
+                        <button
+                            type="button"
+                            onClick={disable}
+                            className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg cursor-pointer ml-auto"
+                            style={secondaryButton}
+                        >
+                            <ShieldOff size={12} /> Remove encryption
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <div className="pt-1">
+                <button
+                    type="button"
+                    onClick={() => setShowForget(true)}
+                    className="flex items-center gap-1.5 text-xs cursor-pointer"
+                    style={{ color: "var(--color-error)" }}
+                >
+                    <Trash2 size={12} /> Forget all secrets
+                </button>
+            </div>
+
+            <Modal open={showForget} onClose={() => setShowForget(false)} title="Forget All Secrets">
+                <p className="text-sm mb-5" style={{ color: "var(--color-text-muted)" }}>
+                    This erases every stored token, password and API key, including the encrypted
+                    vault, the credentials saved on server profiles and embedding provider keys.
+                    Profiles and providers themselves are kept.
+                </p>
+                <div className="flex gap-3 justify-end">
+                    <button
+                        type="button"
+                        onClick={() => setShowForget(false)}
+                        className="px-4 py-2 rounded-xl text-sm cursor-pointer"
+                        style={secondaryButton}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={forget}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer"
+                        style={{ background: "var(--color-error)", color: "#fff" }}
+                    >
+                        <Trash2 size={14} /> Forget
+                    </button>
+                </div>
+            </Modal>
+        </div>
+    );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { Lock, Loader2 } from "lucide-react";
+import { Modal } from "./Modal";
+import { useVaultState, unlockVault, dismissVaultPrompt } from "../../lib/vault";
+
+export function VaultUnlockModal() {
+    const vault = useVaultState();
+    const queryClient = useQueryClient();
+    const [passphrase, setPassphrase] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [unlocking, setUnlocking] = useState(false);
+
+    const open = vault.enabled && !vault.unlocked && vault.promptOpen;
+
+    const close = () => {
+        setPassphrase("");
+        setError(null);
+        dismissVaultPrompt();
+    };
+
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setUnlocking(true);
+        setError(null);
+        try {
+            await unlockVault(passphrase);
+            setPassphrase("");
+            toast.success("Vault unlocked");
+            // Requests made while locked went out without credentials
+            await queryClient.invalidateQueries();
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setUnlocking(false);
+        }
+    };
+
+    return (
+        <Modal open={open} onClose={close} title="Unlock Credential Vault">
+            <form onSubmit={submit} className="space-y-4">
+                <p className="text-sm" style={{ color: "var(--color-text-muted)" }}>
+                    Saved tokens and passwords are encrypted. Enter your passphrase to use them
+                    for this session.
+                </p>
+                <input
+                    type="password"
+                    autoFocus
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="w-full px-4 py-2.5 rounded-xl text-sm outline-none"
+                    style={{
+                        background: "var(--color-bg-input)",
+                        border: error ? "1px solid var(--color-error)" : "1px solid var(--color-border)",
+                        color: "var(--color-text)",
+                    }}
+                    placeholder="Passphrase"
+                />
+                {error && (
+                    <p className="text-xs" style={{ color: "var(--color-error)" }}>
+                        {error}
+                    </p>
+                )}
+                <div className="flex gap-3 justify-end">
+                    <button
+                        type="button"
+                        onClick={close}
+                        className="px-4 py-2 rounded-xl text-sm cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-elevated)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text-muted)",
+                        }}
+                    >
+                        Not now
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!passphrase || unlocking}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium cursor-pointer disabled:opacity-40"
+                        style={{ background: "var(--color-accent)", color: "#fff" }}
+                    >
+                        {unlocking ? <Loader2 size={14} className="animate-spin" /> : <Lock size={14} />}
+                        Unlock
+                    </button>
+                </div>
+            </form>
+        </Modal>
+    );
+}
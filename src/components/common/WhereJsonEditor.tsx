@@ -0,0 +1,107 @@
+import { useRef, type ReactNode } from "react";
+import { AlertCircle, CheckCircle2 } from "lucide-react";
+import type { WhereParseResult } from "../../lib/whereClause";
+
+interface WhereJsonEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    result: WhereParseResult;
+}
+
+const textStyle = {
+    fontSize: "12px",
+    lineHeight: "18px",
+    padding: "10px 12px",
+    whiteSpace: "pre-wrap" as const,
+    overflowWrap: "anywhere" as const,
+};
+
+/**
+ * Textarea for a raw where clause. Invalid operators and type mismatches are
+ * underlined through a mirrored layer behind the (transparent) textarea.
+ */
+export function WhereJsonEditor({ value, onChange, result }: WhereJsonEditorProps) {
+    const mirrorRef = useRef<HTMLPreElement>(null);
+    const issues = result.status === "invalid" ? result.issues : [];
+
+    // Split the text into plain and underlined runs
+    const marked: ReactNode[] = [];
+    let cursor = 0;
+    [...issues]
+        .sort((a, b) => a.start - b.start)
+        .forEach((issue, i) => {
+            if (issue.start < cursor) return;
+            marked.push(value.slice(cursor, issue.start));
+            marked.push(
+                <span
+                    key={i}
+                    style={{
+                        textDecoration: "underline wavy var(--color-error)",
+                        textDecorationSkipInk: "none",
+                    }}
+                >
+                    {value.slice(issue.start, issue.end)}
+                </span>,
+            );
+            cursor = issue.end;
+        });
+    marked.push(value.slice(cursor));
+
+    return (
+        <div className="space-y-2">
+            <div
+                className="relative rounded-lg overflow-hidden"
+                style={{
+                    background: "var(--color-bg-input)",
+                    border: `1px solid ${
+                        result.status === "syntax" || result.status === "invalid"
+                            ? "var(--color-error)"
+                            : "var(--color-border)"
+                    }`,
+                }}
+            >
+                <pre
+                    ref={mirrorRef}
+                    aria-hidden
+                    className="absolute inset-0 m-0 overflow-hidden pointer-events-none font-mono"
+                    style={{ ...textStyle, color: "transparent" }}
+                >
+                    {marked}
+                    {"\n"}
+                </pre>
+                <textarea
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onScroll={(e) => {
+                        if (mirrorRef.current) mirrorRef.current.scrollTop = e.currentTarget.scrollTop;
+                    }}
+                    rows={8}
+                    spellCheck={false}
+                    className="relative block w-full outline-none resize-y font-mono"
+                    style={{ ...textStyle, background: "transparent", color: "var(--color-text)" }}
+                    placeholder={'{"source": {"$eq": "A"}}  — JSON or a Python dict'}
+                />
+            </div>
+
+            {result.status === "syntax" && (
+                <p className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={12} /> {result.message}
+                </p>
+            )}
+            {issues.map((issue, i) => (
+                <p key={i} className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-error)" }}>
+                    <AlertCircle size={12} className="shrink-0" />
+                    {issue.path.length > 0 && (
+                        <code style={{ color: "var(--color-text-muted)" }}>{issue.path.join(".")}</code>
+                    )}
+                    {issue.message}
+                </p>
+            ))}
+            {result.status === "valid" && (
+                <p className="flex items-center gap-1.5 text-xs" style={{ color: "var(--color-success)" }}>
+                    <CheckCircle2 size={12} /> Valid where clause
+                </p>
+            )}
+        </div>
+    );
+}
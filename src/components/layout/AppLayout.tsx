@@ -1,5 +1,7 @@
-import { useState } from "react";
-import { NavLink, Outlet, useLocation } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { NavLink, Outlet, useLocation, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import toast from "react-hot-toast";
 import {
     Database,
     PlugZap,
@@ -14,15 +16,28 @@ import {
     FileText,
     GitCompare,
     Command,
+    Building2,
+    Lock,
+    Unlock,
+    Star,
 } from "lucide-react";
 import { useTheme } from "../../lib/themeContext";
 import { useConnectionStatus } from "../../lib/connectionContext";
+import { useScope, useSetScope, scopedPath } from "../../lib/scopeContext";
+import { useProfiles } from "../../lib/profileContext";
+import { useVaultState, lockVault, requestVaultUnlock, recordVaultActivity } from "../../lib/vault";
+import { VaultUnlockModal } from "../common/VaultUnlockModal";
+import { useBookmarks } from "../../lib/bookmarks";
+import { getKnownTenants, profileScope, PROFILE_COLORS } from "../../lib/storage";
+import { listDatabases } from "../../lib/chromaClient";
 
 const NAV_ITEMS = [
     { to: "/connect", label: "Connect", icon: PlugZap },
     { to: "/collections", label: "Collections", icon: Layers },
+    { to: "/tenants", label: "Tenants", icon: Building2 },
     { to: "/server", label: "Server", icon: Server },
     { to: "/compare", label: "Compare", icon: GitCompare },
+    { to: "/bookmarks", label: "Bookmarks", icon: Star },
     { to: "/audit", label: "Audit Log", icon: FileText },
 ];
 
@@ -66,6 +81,160 @@ function ConnectionDot() {
     );
 }
 
+function ProfileSwitcher({ onSwitched }: { onSwitched: () => void }) {
+    const { profiles, activeProfile, switchTo } = useProfiles();
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    if (profiles.length === 0) return null;
+
+    const select = (id: string) => {
+        const profile = profiles.find((p) => p.id === id);
+        if (!profile) return;
+        switchTo(profile);
+        if (location.pathname.startsWith("/t/")) {
+            navigate(scopedPath(profileScope(profile), "/collections"));
+        }
+        onSwitched();
+    };
+
+    const color = activeProfile ? PROFILE_COLORS[activeProfile.color ?? "gray"] : "var(--color-border)";
+
+    return (
+        <div className="px-3 pt-4 space-y-1.5">
+            <p
+                className="px-1 text-[10px] font-semibold uppercase tracking-wider"
+                style={{ color: "var(--color-text-dim)" }}
+            >
+                Server Profile
+            </p>
+            <select
+                value={activeProfile?.id ?? ""}
+                onChange={(e) => select(e.target.value)}
+                className="w-full px-2.5 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                style={{
+                    background: "var(--color-bg-input)",
+                    border: "1px solid var(--color-border)",
+                    borderLeft: `3px solid ${color}`,
+                    color: "var(--color-text)",
+                }}
+            >
+                {!activeProfile && <option value="">Custom connection</option>}
+                {profiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                        {p.name}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
+
+function ScopeSwitcher({ onSwitched }: { onSwitched: () => void }) {
+    const scope = useScope();
+    const setScope = useSetScope();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const [tenant, setTenant] = useState(scope.tenant);
+
+    useEffect(() => setTenant(scope.tenant), [scope.tenant]);
+
+    const databasesQuery = useQuery({
+        queryKey: ["databases", tenant],
+        queryFn: () => listDatabases(tenant),
+        retry: false,
+    });
+
+    const tenants = getKnownTenants();
+    if (!tenants.includes(scope.tenant)) tenants.push(scope.tenant);
+
+    const databases = databasesQuery.data?.map((d) => d.name) ?? [];
+    if (tenant === scope.tenant && !databases.includes(scope.database)) {
+        databases.unshift(scope.database);
+    }
+
+    const commit = (database: string) => {
+        const next = { tenant, database };
+        setScope(next);
+        if (location.pathname.startsWith("/t/")) {
+            navigate(scopedPath(next, "/collections"));
+        }
+        onSwitched();
+    };
+
+    const selectStyle = {
+        background: "var(--color-bg-input)",
+        border: "1px solid var(--color-border)",
+        color: "var(--color-text)",
+    };
+
+    return (
+        <div className="px-3 pt-4 space-y-1.5">
+            <p
+                className="px-1 text-[10px] font-semibold uppercase tracking-wider"
+                style={{ color: "var(--color-text-dim)" }}
+            >
+                Tenant / Database
+            </p>
+            <select
+                value={tenant}
+                onChange={(e) => setTenant(e.target.value)}
+                className="w-full px-2.5 py-1.5 rounded-lg text-xs outline-none cursor-pointer"
+                style={selectStyle}
+            >
+                {tenants.map((t) => (
+                    <option key={t} value={t}>
+                        {t}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={tenant === scope.tenant ? scope.database : ""}
+                onChange={(e) => e.target.value && commit(e.target.value)}
+                disabled={databasesQuery.isLoading}
+                className="w-full px-2.5 py-1.5 rounded-lg text-xs outline-none cursor-pointer disabled:opacity-60"
+                style={selectStyle}
+            >
+                {tenant !== scope.tenant && <option value="">Select database…</option>}
+                {databases.map((d) => (
+                    <option key={d} value={d}>
+                        {d}
+                    </option>
+                ))}
+            </select>
+            {databasesQuery.isError && (
+                <p className="px-1 text-[10px]" style={{ color: "var(--color-error)" }}>
+                    Could not list databases for this tenant
+                </p>
+            )}
+        </div>
+    );
+}
+
+function VaultIndicator() {
+    const vault = useVaultState();
+
+    // Credential changes are encrypted in the background; a failed write would otherwise go unnoticed
+    useEffect(() => {
+        if (vault.writeError) toast.error(vault.writeError, { id: "vault-write-error" });
+    }, [vault.writeError]);
+
+    if (!vault.enabled) return null;
+
+    const Icon = vault.unlocked ? Unlock : Lock;
+    return (
+        <button
+            onClick={vault.unlocked ? lockVault : requestVaultUnlock}
+            className="flex items-center gap-2 text-xs cursor-pointer"
+            style={{ color: vault.unlocked ? "var(--color-text-muted)" : "var(--color-warning)" }}
+            title={vault.unlocked ? "Lock credential vault" : "Unlock credential vault"}
+        >
+            <Icon size={12} />
+            {vault.unlocked ? "Vault unlocked" : "Vault locked"}
+        </button>
+    );
+}
+
 const THEME_CYCLE: ("dark" | "light" | "system")[] = ["dark", "light", "system"];
 const THEME_ICONS = {
     dark: Moon,
@@ -80,8 +249,17 @@ const THEME_LABELS = {
 
 export function AppLayout() {
     const location = useLocation();
+    const scope = useScope();
     const { theme, setTheme } = useTheme();
     const [sidebarOpen, setSidebarOpen] = useState(false);
+    const bookmarkCount = useBookmarks().length;
+
+    // Any input counts as activity for the vault's idle lock
+    useEffect(() => {
+        const events = ["pointerdown", "keydown", "wheel"] as const;
+        events.forEach((e) => window.addEventListener(e, recordVaultActivity, { passive: true }));
+        return () => events.forEach((e) => window.removeEventListener(e, recordVaultActivity));
+    }, []);
 
     const cycleTheme = () => {
         const idx = THEME_CYCLE.indexOf(theme);
@@ -127,13 +305,17 @@ export function AppLayout() {
                 </button>
             </div>
 
+            <ProfileSwitcher onSwitched={() => setSidebarOpen(false)} />
+            <ScopeSwitcher onSwitched={() => setSidebarOpen(false)} />
+
             {/* Nav links */}
             <nav className="flex flex-col gap-1 px-3 pt-4 flex-1">
-                {NAV_ITEMS.map(({ to, label, icon: Icon }) => {
+                {NAV_ITEMS.map(({ to: path, label, icon: Icon }) => {
+                    const to = path === "/collections" ? scopedPath(scope, path) : path;
                     const active = location.pathname.startsWith(to);
                     return (
                         <NavLink
-                            key={to}
+                            key={path}
                             to={to}
                             onClick={() => setSidebarOpen(false)}
                             className="flex items-center gap-3 px-3 py-2.5 rounded-xl text-sm font-medium transition-all duration-200"
@@ -146,6 +328,14 @@ export function AppLayout() {
                         >
                             <Icon size={18} />
                             <span className="flex-1">{label}</span>
+                            {path === "/bookmarks" && bookmarkCount > 0 && (
+                                <span
+                                    className="text-[10px] px-1.5 py-0.5 rounded-md font-semibold"
+                                    style={{ background: "var(--color-bg-elevated)", color: "var(--color-text-muted)" }}
+                                >
+                                    {bookmarkCount}
+                                </span>
+                            )}
                             {active && (
                                 <ChevronRight
                                     size={14}
@@ -163,6 +353,7 @@ export function AppLayout() {
                 style={{ borderColor: "var(--color-border)" }}
             >
                 <ConnectionDot />
+                <VaultIndicator />
                 <div className="flex items-center justify-between">
                     <span className="text-xs" style={{ color: "var(--color-text-dim)" }}>
                         {THEME_LABELS[theme]} Theme
@@ -246,6 +437,8 @@ export function AppLayout() {
                     <Outlet />
                 </main>
             </div>
+
+            <VaultUnlockModal />
         </div>
     );
 }
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect, type ReactNode } from "react";
 import {
     useReactTable,
     getCoreRowModel,
@@ -30,7 +30,11 @@ interface DataTableProps<T> {
     pageSize?: number;
     enableSelection?: boolean;
     onBulkDelete?: (rows: T[]) => void;
+    /** Extra buttons shown while rows are selected; `clear` drops the selection. */
+    selectionActions?: (rows: T[], clear: () => void) => ReactNode;
     exportFilename?: string;
+    /** Rows are already one server-side page; skip client-side pagination. */
+    manualPagination?: boolean;
 }
 
 function exportToCSV<T>(data: T[], columns: ColumnDef<T, unknown>[], filename: string) {
@@ -83,12 +87,19 @@ export function DataTable<T>({
     pageSize = 20,
     enableSelection = false,
     onBulkDelete,
+    selectionActions,
     exportFilename = "export",
+    manualPagination = false,
 }: DataTableProps<T>) {
     const [globalFilter, setGlobalFilter] = useState("");
     const [sorting, setSorting] = useState<SortingState>([]);
     const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
 
+    // Selection is index-based, so it cannot survive a new server page
+    useEffect(() => {
+        if (manualPagination) setRowSelection({});
+    }, [manualPagination, data]);
+
     const columns = useMemo(() => {
         if (!enableSelection) return userColumns;
         const selectCol: ColumnDef<T, unknown> = {
@@ -127,7 +138,8 @@ export function DataTable<T>({
         getCoreRowModel: getCoreRowModel(),
         getFilteredRowModel: getFilteredRowModel(),
         getSortedRowModel: getSortedRowModel(),
-        getPaginationRowModel: getPaginationRowModel(),
+        getPaginationRowModel: manualPagination ? undefined : getPaginationRowModel(),
+        manualPagination,
         initialState: { pagination: { pageSize } },
     });
 
@@ -162,6 +174,8 @@ export function DataTable<T>({
 
                 {/* Action buttons */}
                 <div className="flex items-center gap-2 shrink-0">
+                    {hasSelection && selectionActions?.(selectedRows, () => setRowSelection({}))}
+
                     {hasSelection && onBulkDelete && (
                         <button
                             onClick={() => {
@@ -336,7 +350,7 @@ export function DataTable<T>({
             </div>
 
             {/* Pagination */}
-            {pageCount > 1 && (
+            {!manualPagination && pageCount > 1 && (
                 <div className="flex items-center justify-between text-xs" style={{ color: "var(--color-text-muted)" }}>
                     <span>
                         Page {pageIndex + 1} of {pageCount} · {table.getFilteredRowModel().rows.length} rows
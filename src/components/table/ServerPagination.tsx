@@ -0,0 +1,165 @@
+import { useState } from "react";
+import {
+    ChevronsLeft,
+    ChevronsRight,
+    ChevronLeft,
+    ChevronRight,
+    Loader2,
+    CornerDownLeft,
+} from "lucide-react";
+
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 250, 500];
+
+interface ServerPaginationProps {
+    offset: number;
+    pageSize: number;
+    /** Rows returned for the current page. */
+    rowCount: number;
+    /** Total matching items, or null when the server cannot tell (e.g. filtered). */
+    total: number | null;
+    fetching?: boolean;
+    onOffsetChange: (offset: number) => void;
+    onPageSizeChange: (pageSize: number) => void;
+}
+
+/**
+ * Offset-based pager for data that lives on the server. Shows the absolute
+ * item range and lets the user jump to any item number.
+ */
+export function ServerPagination({
+    offset,
+    pageSize,
+    rowCount,
+    total,
+    fetching,
+    onOffsetChange,
+    onPageSizeChange,
+}: ServerPaginationProps) {
+    const [jumpTo, setJumpTo] = useState("");
+
+    const first = rowCount > 0 ? offset + 1 : 0;
+    const last = offset + rowCount;
+    const hasNext = total !== null ? last < total : rowCount === pageSize;
+    const lastOffset = total !== null ? Math.max(0, Math.floor((total - 1) / pageSize) * pageSize) : null;
+
+    const jump = () => {
+        const item = Number(jumpTo);
+        if (!Number.isInteger(item) || item < 1) return;
+        const target = total !== null ? Math.min(item, total) : item;
+        onOffsetChange(target - 1);
+        setJumpTo("");
+    };
+
+    return (
+        <div
+            className="flex flex-col lg:flex-row justify-between items-center gap-3 text-xs"
+            style={{ color: "var(--color-text-muted)" }}
+        >
+            <span className="flex items-center gap-2">
+                {fetching && <Loader2 size={12} className="animate-spin" style={{ color: "var(--color-accent)" }} />}
+                Items {first.toLocaleString()}–{last.toLocaleString()}
+                {total !== null ? ` of ${total.toLocaleString()}` : " (total unknown with filters)"}
+            </span>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-1.5">
+                    Page size
+                    <select
+                        value={pageSize}
+                        onChange={(e) => onPageSizeChange(Number(e.target.value))}
+                        className="px-2 py-1.5 rounded-lg outline-none cursor-pointer"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    >
+                        {PAGE_SIZE_OPTIONS.map((n) => (
+                            <option key={n} value={n}>
+                                {n}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+
+                <form
+                    className="flex items-center gap-1"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        jump();
+                    }}
+                >
+                    <input
+                        type="number"
+                        min={1}
+                        max={total ?? undefined}
+                        value={jumpTo}
+                        onChange={(e) => setJumpTo(e.target.value)}
+                        placeholder="Go to item #"
+                        className="w-28 px-2 py-1.5 rounded-lg outline-none"
+                        style={{
+                            background: "var(--color-bg-input)",
+                            border: "1px solid var(--color-border)",
+                            color: "var(--color-text)",
+                        }}
+                    />
+                    <PagerBtn onClick={jump} disabled={!jumpTo} title="Jump">
+                        <CornerDownLeft size={14} />
+                    </PagerBtn>
+                </form>
+
+                <div className="flex items-center gap-1">
+                    <PagerBtn onClick={() => onOffsetChange(0)} disabled={offset === 0} title="First page">
+                        <ChevronsLeft size={14} />
+                    </PagerBtn>
+                    <PagerBtn
+                        onClick={() => onOffsetChange(Math.max(0, offset - pageSize))}
+                        disabled={offset === 0}
+                        title="Previous page"
+                    >
+                        <ChevronLeft size={14} />
+                    </PagerBtn>
+                    <PagerBtn onClick={() => onOffsetChange(offset + pageSize)} disabled={!hasNext} title="Next page">
+                        <ChevronRight size={14} />
+                    </PagerBtn>
+                    <PagerBtn
+                        onClick={() => lastOffset !== null && onOffsetChange(lastOffset)}
+                        disabled={lastOffset === null || offset >= lastOffset}
+                        title="Last page"
+                    >
+                        <ChevronsRight size={14} />
+                    </PagerBtn>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function PagerBtn({
+    children,
+    onClick,
+    disabled,
+    title,
+}: {
+    children: React.ReactNode;
+    onClick: () => void;
+    disabled: boolean;
+    title: string;
+}) {
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={disabled}
+            title={title}
+            className="p-1.5 rounded-lg transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+            style={{
+                background: "var(--color-bg-elevated)",
+                border: "1px solid var(--color-border)",
+                color: "var(--color-text)",
+            }}
+        >
+            {children}
+        </button>
+    );
+}
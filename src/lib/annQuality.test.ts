@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { collectionSpace } from "./annQuality";
+
+describe("collectionSpace", () => {
+    it("reads cosine and ip from hnsw:space", () => {
+        expect(collectionSpace({ "hnsw:space": "cosine" })).toBe("cosine");
+        expect(collectionSpace({ "hnsw:space": "ip" })).toBe("ip");
+    });
+
+    it("falls back to Chroma's l2 default without metadata or the key", () => {
+        expect(collectionSpace(null)).toBe("l2");
+        expect(collectionSpace(undefined)).toBe("l2");
+        expect(collectionSpace({ other: "cosine" })).toBe("l2");
+    });
+
+    it("falls back to l2 for a value Chroma does not support", () => {
+        expect(collectionSpace({ "hnsw:space": "manhattan" })).toBe("l2");
+        expect(collectionSpace({ "hnsw:space": 1 })).toBe("l2");
+    });
+});
@@ -0,0 +1,261 @@
+// ── ANN Quality ──────────────────────────────────────────────────────
+// Checks whether the HNSW index returns the true nearest neighbours.
+// Embeddings are streamed from the collection (all of them or a sample of
+// random pages), a sample of them is re-run through the index, and a
+// Web Worker computes the exact kNN by brute force in the collection's
+// distance space to score recall@k per query.
+
+import { fetchItems, fetchQuery } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import type {
+    AnnQueryInput,
+    AnnQueryResult,
+    DistanceSpace,
+    RecallBucket,
+    RecallSummary,
+} from "./exactKnn";
+import type { ChromaScope } from "./storage";
+
+export type { DistanceSpace } from "./exactKnn";
+
+/** Query vectors sent to Chroma per request. */
+const QUERY_BATCH = 10;
+
+export const DISTANCE_SPACES: { value: DistanceSpace; label: string }[] = [
+    { value: "l2", label: "L2 (squared)" },
+    { value: "cosine", label: "Cosine" },
+    { value: "ip", label: "Inner product" },
+];
+
+/** The collection's `hnsw:space`, falling back to Chroma's default of l2. */
+export function collectionSpace(metadata: Record<string, unknown> | null | undefined): DistanceSpace {
+    const space = metadata?.["hnsw:space"];
+    return space === "cosine" || space === "ip" ? space : "l2";
+}
+
+export interface AnnCheckOptions {
+    space: DistanceSpace;
+    k: number;
+    /** Records sampled as query vectors. */
+    queryCount: number;
+    /** Records streamed for the exact search; null streams the whole collection. */
+    corpusLimit: number | null;
+    pageSize?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: AnnProgress) => void;
+}
+
+export interface AnnProgress {
+    phase: "stream" | "query" | "exact";
+    done: number;
+    total: number;
+}
+
+export interface AnnReport {
+    collectionName: string;
+    space: DistanceSpace;
+    k: number;
+    /** Records in the collection when the check started. */
+    total: number;
+    /** Records with embeddings the exact search ran over. */
+    corpusSize: number;
+    /** True when the whole collection was scanned, so recall is exact rather than an upper bound. */
+    exhaustive: boolean;
+    queries: AnnQueryResult[];
+    summary: RecallSummary;
+    histogram: RecallBucket[];
+    startedAt: string;
+    durationMs: number;
+}
+
+// ── Worker protocol ──────────────────────────────────────────────────
+
+export interface AnnWorkerRequest {
+    space: DistanceSpace;
+    k: number;
+    dims: number;
+    corpusIds: string[];
+    /** Row-major embeddings of `corpusIds`. */
+    corpus: Float32Array;
+    queries: AnnQueryInput[];
+}
+
+export type AnnWorkerResponse =
+    | { type: "progress"; done: number; total: number }
+    | { type: "done"; results: AnnQueryResult[]; summary: RecallSummary; histogram: RecallBucket[] }
+    | { type: "error"; message: string };
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new DOMException("ANN check cancelled", "AbortError");
+}
+
+/** `count` distinct random integers in [0, n). */
+function sampleIndices(n: number, count: number): number[] {
+    const pool = Array.from({ length: n }, (_, i) => i);
+    const take = Math.min(n, count);
+    for (let i = 0; i < take; i++) {
+        const j = i + Math.floor(Math.random() * (n - i));
+        [pool[i], pool[j]] = [pool[j]!, pool[i]!];
+    }
+    return pool.slice(0, take);
+}
+
+/** Stream embeddings page by page, either every page or random pages up to `limit` records. */
+async function streamCorpus(
+    collectionId: string,
+    total: number,
+    limit: number | null,
+    pageSize: number,
+    scope: ChromaScope | undefined,
+    options: AnnCheckOptions,
+): Promise<{ ids: string[]; corpus: Float32Array; dims: number; exhaustive: boolean }> {
+    const pageCount = Math.ceil(total / pageSize);
+    const exhaustive = limit === null || limit >= total;
+    const pages = exhaustive
+        ? Array.from({ length: pageCount }, (_, i) => i)
+        : sampleIndices(pageCount, Math.ceil(limit / pageSize)).sort((a, b) => a - b);
+
+    const ids: string[] = [];
+    const vectors: number[][] = [];
+    for (let p = 0; p < pages.length; p++) {
+        throwIfAborted(options.signal);
+        const page = await fetchItems(
+            collectionId,
+            { limit: pageSize, offset: pages[p]! * pageSize, include: ["embeddings"] },
+            scope,
+        );
+        page.ids.forEach((id, i) => {
+            const e = page.embeddings?.[i];
+            if (e && e.length > 0 && (vectors.length === 0 || e.length === vectors[0]!.length)) {
+                ids.push(id);
+                vectors.push(e);
+            }
+        });
+        options.onProgress?.({ phase: "stream", done: p + 1, total: pages.length });
+    }
+
+    const dims = vectors[0]?.length ?? 0;
+    const corpus = new Float32Array(vectors.length * dims);
+    vectors.forEach((v, i) => corpus.set(v, i * dims));
+    return { ids, corpus, dims, exhaustive };
+}
+
+function scoreInWorker(request: AnnWorkerRequest, options: AnnCheckOptions) {
+    return new Promise<Extract<AnnWorkerResponse, { type: "done" }>>((resolve, reject) => {
+        const worker = new Worker(new URL("./annQuality.worker.ts", import.meta.url), { type: "module" });
+        const stop = () => {
+            worker.terminate();
+            reject(new DOMException("ANN check cancelled", "AbortError"));
+        };
+        options.signal?.addEventListener("abort", stop, { once: true });
+        const finish = () => {
+            options.signal?.removeEventListener("abort", stop);
+            worker.terminate();
+        };
+
+        worker.onmessage = (event: MessageEvent<AnnWorkerResponse>) => {
+            const msg = event.data;
+            if (msg.type === "progress") {
+                options.onProgress?.({ phase: "exact", done: msg.done, total: msg.total });
+            } else if (msg.type === "done") {
+                finish();
+                resolve(msg);
+            } else {
+                finish();
+                reject(new Error(msg.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || "ANN worker failed"));
+        };
+        worker.postMessage(request, [request.corpus.buffer]);
+    });
+}
+
+/**
+ * Sample query vectors from the collection, run them through the index and
+ * score each against the exact kNN. The query's own record is left out of
+ * both result lists. Pages and query batches go out unlogged; one audit
+ * entry covers the whole check.
+ */
+export async function runAnnCheck(
+    collectionId: string,
+    collectionName: string,
+    total: number,
+    scope: ChromaScope | undefined,
+    options: AnnCheckOptions,
+): Promise<AnnReport> {
+    const start = Date.now();
+    const { space, k, pageSize = 250 } = options;
+
+    try {
+        const { ids, corpus, dims, exhaustive } = await streamCorpus(
+            collectionId,
+            total,
+            options.corpusLimit,
+            pageSize,
+            scope,
+            options,
+        );
+        if (ids.length < 2) throw new Error("The collection needs at least two records with embeddings");
+
+        const sampled = sampleIndices(ids.length, options.queryCount);
+        const queries: AnnQueryInput[] = [];
+        for (let b = 0; b < sampled.length; b += QUERY_BATCH) {
+            throwIfAborted(options.signal);
+            const batch = sampled.slice(b, b + QUERY_BATCH);
+            const vectors = batch.map((r) => Array.from(corpus.subarray(r * dims, (r + 1) * dims)));
+            const resp = await fetchQuery(
+                collectionId,
+                { query_embeddings: vectors, n_results: k + 1, include: ["embeddings"] },
+                scope,
+            );
+            batch.forEach((r, q) => {
+                const id = ids[r]!;
+                const returned = resp.ids[q] ?? [];
+                const keep = returned.flatMap((rid, i) => (rid === id ? [] : [i])).slice(0, k);
+                queries.push({
+                    id,
+                    vector: vectors[q]!,
+                    annIds: keep.map((i) => returned[i]!),
+                    annVectors: keep.map((i) => resp.embeddings?.[q]?.[i] ?? null),
+                });
+            });
+            options.onProgress?.({ phase: "query", done: queries.length, total: sampled.length });
+        }
+
+        // The corpus buffer is transferred to the worker, so take its size first
+        const corpusSize = ids.length;
+        const scored = await scoreInWorker({ space, k, dims, corpusIds: ids, corpus, queries }, options);
+
+        logOperation("ann_check", {
+            collection: collectionName,
+            details: `space=${space} k=${k} queries=${queries.length} corpus=${corpusSize} recall=${scored.summary.mean.toFixed(3)}`,
+            status: "success",
+            durationMs: Date.now() - start,
+        });
+
+        return {
+            collectionName,
+            space,
+            k,
+            total,
+            corpusSize,
+            exhaustive,
+            queries: scored.results,
+            summary: scored.summary,
+            histogram: scored.histogram,
+            startedAt: new Date(start).toISOString(),
+            durationMs: Date.now() - start,
+        };
+    } catch (err) {
+        logOperation("ann_check", {
+            collection: collectionName,
+            details: (err as Error).message,
+            status: "error",
+            durationMs: Date.now() - start,
+        });
+        throw err;
+    }
+}
@@ -0,0 +1,26 @@
+// Scores ANN results against brute-force kNN off the main thread; see annQuality.ts.
+
+import { recallHistogram, scoreAnnQuery, summarizeRecall, type AnnQueryResult } from "./exactKnn";
+import type { AnnWorkerRequest, AnnWorkerResponse } from "./annQuality";
+
+const PROGRESS_EVERY = 5;
+
+function post(message: AnnWorkerResponse): void {
+    self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<AnnWorkerRequest>) => {
+    const { space, k, dims, corpusIds, corpus, queries } = event.data;
+    try {
+        const corpusIndex = new Map(corpusIds.map((id, i) => [id, i]));
+        const results: AnnQueryResult[] = [];
+        for (const query of queries) {
+            results.push(scoreAnnQuery(space, query, k, corpusIds, corpus, dims, corpusIndex));
+            if (results.length % PROGRESS_EVERY === 0) post({ type: "progress", done: results.length, total: queries.length });
+        }
+        const recalls = results.map((r) => r.recall);
+        post({ type: "done", results, summary: summarizeRecall(recalls), histogram: recallHistogram(recalls) });
+    } catch (err) {
+        post({ type: "error", message: (err as Error).message });
+    }
+};
@@ -1,6 +1,8 @@
 // ── Audit Log ────────────────────────────────────────────────────────
 // Tracks client-side operations for debugging and accountability.
 
+import { getActiveProfileId, getBaseUrl, getProfiles } from "./storage";
+
 const STORAGE_KEY = "chroma-admin:auditLog";
 const MAX_ENTRIES = 500;
 
@@ -12,8 +14,19 @@ export type AuditOperation =
     | "get_items"
     | "delete_collection"
     | "delete_items"
+    | "add_items"
+    | "update_items"
+    | "upsert_items"
+    | "create_collection"
+    | "create_tenant"
+    | "create_database"
     | "export"
-    | "import";
+    | "diff_collections"
+    | "ann_check"
+    | "find_duplicates"
+    | "import"
+    | "evaluate"
+    | "golden_run";
 
 export interface AuditEntry {
     id: string;
@@ -23,6 +36,11 @@ export interface AuditEntry {
     details?: string;
     status: "success" | "error";
     durationMs?: number;
+    /** Server profile active when the operation ran, if any. */
+    profileId?: string;
+    profileName?: string;
+    /** Base URL the request went to. */
+    server?: string;
 }
 
 function load(): AuditEntry[] {
@@ -58,6 +76,7 @@ export function logOperation(
     } = {},
 ): void {
     const entries = load();
+    const profileId = getActiveProfileId() ?? undefined;
     entries.push({
         id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
         timestamp: Date.now(),
@@ -66,6 +85,11 @@ export function logOperation(
         details: opts.details,
         status: opts.status ?? "success",
         durationMs: opts.durationMs,
+        profileId,
+        profileName: profileId
+            ? getProfiles().find((p) => p.id === profileId)?.name
+            : undefined,
+        server: getBaseUrl(),
     });
     save(entries);
 }
@@ -74,12 +98,35 @@ export function getAuditLog(): AuditEntry[] {
     return load().sort((a, b) => b.timestamp - a.timestamp);
 }
 
-export function getAuditLogFiltered(
-    operation?: AuditOperation,
+export interface AuditFilter {
+    operation?: AuditOperation;
+    /** Matches `profileId`, or `server` for entries logged without a profile. */
+    source?: string;
+    /** Inclusive epoch-ms bounds. */
+    from?: number;
+    to?: number;
+}
+
+/** The profile ID, or the server URL when no profile was active. */
+export function auditSource(entry: AuditEntry): string | undefined {
+    return entry.profileId ?? entry.server;
+}
+
+export function filterAuditEntries(
+    entries: AuditEntry[],
+    filter: AuditFilter,
 ): AuditEntry[] {
-    const all = getAuditLog();
-    if (!operation) return all;
-    return all.filter((e) => e.operation === operation);
+    return entries.filter(
+        (e) =>
+            (!filter.operation || e.operation === filter.operation) &&
+            (!filter.source || auditSource(e) === filter.source) &&
+            (filter.from == null || e.timestamp >= filter.from) &&
+            (filter.to == null || e.timestamp <= filter.to),
+    );
+}
+
+export function getAuditLogFiltered(filter: AuditFilter = {}): AuditEntry[] {
+    return filterAuditEntries(getAuditLog(), filter);
 }
 
 export function clearAuditLog(): void {
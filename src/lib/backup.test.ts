@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { postItems } from "./chromaClient";
+import { ImportBatchError, importBatch, parseBackup, planBatches } from "./backup";
+import type { CollectionBackup } from "./zodSchemas";
+
+vi.mock("./chromaClient", () => ({ postItems: vi.fn() }));
+
+const backupText = (data: Record<string, unknown>) => JSON.stringify({ name: "docs", data });
+
+describe("parseBackup", () => {
+    it("accepts null columns and null entries", () => {
+        const parsed = parseBackup(backupText({ ids: ["1", "2"], documents: ["a", null], metadatas: null }));
+        expect(parsed.data.ids).toEqual(["1", "2"]);
+        expect(parsed.data.documents).toEqual(["a", null]);
+    });
+
+    it("names the JSON syntax error", () => {
+        expect(() => parseBackup("{")).toThrow(/^Not valid JSON: /);
+    });
+
+    it("reports a missing name at its path", () => {
+        expect(() => parseBackup(JSON.stringify({ data: { ids: [] } }))).toThrow(/^name: /);
+    });
+
+    it("lists every column mismatch and duplicate id in one error", () => {
+        const text = backupText({ ids: ["1", "1"], documents: ["a"], embeddings: [[1]] });
+        expect(() => parseBackup(text)).toThrow(
+            [
+                "data.documents: Expected 2 documents (one per id), found 1",
+                "data.embeddings: Expected 2 embeddings (one per id), found 1",
+                "data.ids: Duplicate ids in backup",
+            ].join("\n"),
+        );
+    });
+
+    it("caps the list at ten problems", () => {
+        const ids = Array.from({ length: 12 }, (_, i) => i);
+        let message = "";
+        try {
+            parseBackup(backupText({ ids }));
+        } catch (err) {
+            message = (err as Error).message;
+        }
+        const lines = message.split("\n");
+        expect(lines).toHaveLength(11);
+        expect(lines[10]).toBe("…and 2 more");
+    });
+});
+
+describe("planBatches", () => {
+    it("plans nothing for an empty backup", () => {
+        expect(planBatches(0, 100)).toEqual([]);
+    });
+
+    it("gives the last batch the remainder", () => {
+        const batches = planBatches(250, 100);
+        expect(batches.map((b) => [b.start, b.end])).toEqual([
+            [0, 100],
+            [100, 200],
+            [200, 250],
+        ]);
+        expect(batches.every((b) => b.status === "pending" && b.attempts === 0)).toBe(true);
+    });
+
+    it("does not add an empty batch for an exact multiple", () => {
+        expect(planBatches(200, 100)).toHaveLength(2);
+    });
+});
+
+describe("importBatch", () => {
+    const backup: CollectionBackup = {
+        name: "docs",
+        data: { ids: ["1", "2", "3"], documents: ["a", "b", "c"], embeddings: null },
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.mocked(postItems).mockReset();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("sends only the batch's slice of each column", async () => {
+        vi.mocked(postItems).mockResolvedValue();
+        await expect(importBatch("c1", backup, { start: 1, end: 3 })).resolves.toBe(1);
+        expect(postItems).toHaveBeenCalledWith(
+            "add",
+            "c1",
+            { ids: ["2", "3"], documents: ["b", "c"], metadatas: undefined, embeddings: undefined },
+            undefined,
+        );
+    });
+
+    it("returns the attempt that succeeded", async () => {
+        vi.mocked(postItems).mockRejectedValueOnce(new Error("busy")).mockResolvedValue();
+        const result = importBatch("c1", backup, { start: 0, end: 1 });
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe(2);
+    });
+
+    it("throws the last error with the attempt count once every attempt fails", async () => {
+        vi.mocked(postItems)
+            .mockRejectedValueOnce(new Error("busy"))
+            .mockRejectedValueOnce(new Error("busy"))
+            .mockRejectedValueOnce(new Error("quota exceeded"));
+        const result = importBatch("c1", backup, { start: 0, end: 1 }).catch((err: unknown) => err);
+        await vi.runAllTimersAsync();
+        const err = await result;
+        expect(err).toBeInstanceOf(ImportBatchError);
+        expect(err).toMatchObject({ message: "quota exceeded", attempts: 3 });
+        expect(postItems).toHaveBeenCalledTimes(3);
+    });
+});
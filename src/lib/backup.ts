@@ -0,0 +1,123 @@
+// ── Collection Backup / Restore ──────────────────────────────────────
+// Reads the JSON written by Settings → Export JSON and replays it into a
+// collection through batched, unlogged `postItems` calls; `logImport` records
+// the whole import as one audit entry.
+
+import { postItems } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import { CollectionBackupSchema, type CollectionBackup } from "./zodSchemas";
+import type { ChromaScope } from "./storage";
+
+export const DEFAULT_BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 3;
+
+export interface ImportBatch {
+    index: number;
+    start: number;
+    end: number;
+    status: "pending" | "running" | "done" | "error";
+    attempts: number;
+    error?: string;
+}
+
+/** Thrown by `importBatch` once every attempt has failed; carries how many were made. */
+export class ImportBatchError extends Error {
+    attempts: number;
+    constructor(message: string, attempts: number) {
+        super(message);
+        this.name = "ImportBatchError";
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * Parse and validate a backup file. Throws an Error listing every problem
+ * found so the user can fix the file in one go.
+ */
+export function parseBackup(text: string): CollectionBackup {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Not valid JSON: ${(err as Error).message}`);
+    }
+
+    const result = CollectionBackupSchema.safeParse(json);
+    if (!result.success) {
+        const issues = result.error.issues
+            .slice(0, 10)
+            .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+        if (result.error.issues.length > 10) {
+            issues.push(`…and ${result.error.issues.length - 10} more`);
+        }
+        throw new Error(issues.join("\n"));
+    }
+    return result.data;
+}
+
+export function planBatches(total: number, batchSize: number): ImportBatch[] {
+    const batches: ImportBatch[] = [];
+    for (let start = 0, index = 0; start < total; start += batchSize, index++) {
+        batches.push({
+            index,
+            start,
+            end: Math.min(start + batchSize, total),
+            status: "pending",
+            attempts: 0,
+        });
+    }
+    return batches;
+}
+
+/**
+ * Send one batch, retrying with a short backoff. Returns the number of
+ * attempts made; if every attempt failed, throws an `ImportBatchError`
+ * with the last error's message and the attempt count.
+ */
+export async function importBatch(
+    collectionId: string,
+    backup: CollectionBackup,
+    batch: Pick<ImportBatch, "start" | "end">,
+    scope?: ChromaScope,
+): Promise<number> {
+    const { data } = backup;
+    const slice = <T>(values: T[] | null | undefined) =>
+        values ? values.slice(batch.start, batch.end) : undefined;
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        try {
+            await postItems(
+                "add",
+                collectionId,
+                {
+                    ids: data.ids.slice(batch.start, batch.end),
+                    documents: slice(data.documents),
+                    metadatas: slice(data.metadatas),
+                    embeddings: slice(data.embeddings),
+                },
+                scope,
+            );
+            return attempt;
+        } catch (err) {
+            lastError = err;
+            if (attempt < MAX_ATTEMPTS) {
+                await new Promise((r) => setTimeout(r, 500 * 2 ** (attempt - 1)));
+            }
+        }
+    }
+    throw new ImportBatchError((lastError as Error).message, MAX_ATTEMPTS);
+}
+
+export function logImport(
+    collectionName: string,
+    stats: { imported: number; total: number; failedBatches: number; durationMs: number },
+): void {
+    logOperation("import", {
+        collection: collectionName,
+        details: `${stats.imported}/${stats.total} items` +
+            (stats.failedBatches > 0 ? `, ${stats.failedBatches} failed batch(es)` : ""),
+        status: stats.failedBatches > 0 ? "error" : "success",
+        durationMs: stats.durationMs,
+    });
+}
@@ -1,6 +1,9 @@
 // ── Bookmarked Records ───────────────────────────────────────────────
 // Persist bookmarked item IDs per collection in localStorage.
 
+import { createLocalStore, useStore } from "./localStore";
+import type { ChromaScope } from "./storage";
+
 const STORAGE_KEY = "chroma-admin:bookmarks";
 
 export interface Bookmark {
@@ -8,33 +11,31 @@ export interface Bookmark {
     collectionId: string;
     collectionName: string;
     timestamp: number;
+    /** Scope the collection lives in; absent on bookmarks made before scopes existed. */
+    tenant?: string;
+    database?: string;
 }
 
-function load(): Bookmark[] {
-    try {
-        const raw = localStorage.getItem(STORAGE_KEY);
-        return raw ? (JSON.parse(raw) as Bookmark[]) : [];
-    } catch {
-        return [];
-    }
-}
+const newestFirst = (a: Bookmark, b: Bookmark) => b.timestamp - a.timestamp;
+const store = createLocalStore<Bookmark>(STORAGE_KEY, newestFirst);
 
-function save(bookmarks: Bookmark[]): void {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookmarks));
+/** All bookmarks, newest first. */
+export function useBookmarks(): Bookmark[] {
+    return useStore(store);
 }
 
 export function getBookmarks(): Bookmark[] {
-    return load().sort((a, b) => b.timestamp - a.timestamp);
+    return store.read().sort(newestFirst);
 }
 
 export function getBookmarksForCollection(collectionId: string): Bookmark[] {
-    return load()
+    return store.read()
         .filter((b) => b.collectionId === collectionId)
-        .sort((a, b) => b.timestamp - a.timestamp);
+        .sort(newestFirst);
 }
 
 export function isBookmarked(collectionId: string, itemId: string): boolean {
-    return load().some(
+    return store.read().some(
         (b) => b.collectionId === collectionId && b.id === itemId,
     );
 }
@@ -43,8 +44,9 @@ export function addBookmark(
     collectionId: string,
     collectionName: string,
     itemId: string,
+    scope?: ChromaScope,
 ): void {
-    const all = load();
+    const all = store.read();
     if (all.some((b) => b.collectionId === collectionId && b.id === itemId))
         return;
     all.push({
@@ -52,32 +54,40 @@ export function addBookmark(
         collectionId,
         collectionName,
         timestamp: Date.now(),
+        tenant: scope?.tenant,
+        database: scope?.database,
     });
     // Max 200 bookmarks
-    save(all.length > 200 ? all.slice(-200) : all);
+    store.write(all.length > 200 ? all.slice(-200) : all);
 }
 
 export function removeBookmark(collectionId: string, itemId: string): void {
-    const all = load().filter(
+    const all = store.read().filter(
         (b) => !(b.collectionId === collectionId && b.id === itemId),
     );
-    save(all);
+    store.write(all);
+}
+
+export function removeBookmarks(collectionId: string, itemIds: string[]): void {
+    const ids = new Set(itemIds);
+    store.write(store.read().filter((b) => !(b.collectionId === collectionId && ids.has(b.id))));
 }
 
 export function toggleBookmark(
     collectionId: string,
     collectionName: string,
     itemId: string,
+    scope?: ChromaScope,
 ): boolean {
     if (isBookmarked(collectionId, itemId)) {
         removeBookmark(collectionId, itemId);
         return false;
     } else {
-        addBookmark(collectionId, collectionName, itemId);
+        addBookmark(collectionId, collectionName, itemId, scope);
         return true;
     }
 }
 
 export function getBookmarkCount(): number {
-    return load().length;
+    return store.read().length;
 }
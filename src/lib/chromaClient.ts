@@ -1,5 +1,12 @@
 import { z } from "zod";
-import { getBaseUrl, getConnectionMode, getAuthHeaders } from "./storage";
+import {
+    getBaseUrl,
+    getConnectionMode,
+    getAuthHeaders,
+    getScope,
+    addKnownTenant,
+    type ChromaScope,
+} from "./storage";
 import {
     HeartbeatSchema,
     VersionSchema,
@@ -8,11 +15,19 @@ import {
     CountSchema,
     GetItemsResponseSchema,
     QueryResponseSchema,
+    TenantSchema,
+    DatabaseSchema,
+    DatabaseListSchema,
+    UserIdentitySchema,
     type Collection,
     type GetItemsResponse,
     type QueryResponse,
     type Heartbeat,
+    type Tenant,
+    type DatabaseInfo,
+    type UserIdentity,
 } from "./zodSchemas";
+import { logOperation, type AuditOperation } from "./auditLog";
 
 // ── Error types ──────────────────────────────────────────────────────
 
@@ -32,13 +47,14 @@ export class ChromaError extends Error {
 type ApiVersion = "v2" | "v1";
 let detectedApiVersion: ApiVersion | null = null;
 
-const DEFAULT_TENANT = "default_tenant";
-const DEFAULT_DATABASE = "default_database";
-
-function apiPrefix(): string {
+/**
+ * Collection endpoints are nested under a tenant/database in v2. The v1 API
+ * has no such nesting, so the scope is ignored there.
+ */
+function apiPrefix(scope: ChromaScope = getScope()): string {
     const v = detectedApiVersion ?? "v2";
     if (v === "v2") {
-        return `/api/v2/tenants/${DEFAULT_TENANT}/databases/${DEFAULT_DATABASE}`;
+        return `/api/v2/tenants/${encodeURIComponent(scope.tenant)}/databases/${encodeURIComponent(scope.database)}`;
     }
     return "/api/v1";
 }
@@ -130,6 +146,71 @@ async function chromaFetch<T>(
     }
 }
 
+// ── Audit logging ────────────────────────────────────────────────────
+// Every data operation below is timed and recorded in the audit log.
+// Counts, capability probes and database listings are polled by the UI and
+// would drown out everything else, so they are not recorded. Operations that
+// issue many requests (scans, imports, evaluation runs) use the unlogged
+// `fetchItems` / `fetchQuery` / `postItems` and record one summary entry of
+// their own, so a single run cannot push everything else out of the log.
+
+const collectionNames = new Map<string, string>();
+
+function rememberCollections(collections: Collection[]): void {
+    for (const c of collections) collectionNames.set(c.id, c.name);
+}
+
+/** Collection name for an ID if we have seen it, else the ID itself. */
+function collectionLabel(idOrName: string): string {
+    return collectionNames.get(idOrName) ?? idOrName;
+}
+
+const MAX_SUMMARY_LENGTH = 240;
+
+function summarize(params: Record<string, unknown>): string {
+    const parts: string[] = [];
+    for (const [key, value] of Object.entries(params)) {
+        if (value === undefined || value === null) continue;
+        if (Array.isArray(value)) {
+            parts.push(`${key}=[${value.length}]`);
+        } else if (typeof value === "object") {
+            parts.push(`${key}=${JSON.stringify(value)}`);
+        } else {
+            parts.push(`${key}=${String(value)}`);
+        }
+    }
+    const summary = parts.join(" ");
+    return summary.length > MAX_SUMMARY_LENGTH
+        ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+        : summary;
+}
+
+async function audited<T>(
+    operation: AuditOperation,
+    info: { collection?: string; details?: string },
+    fn: () => Promise<T>,
+): Promise<T> {
+    const start = Date.now();
+    try {
+        const result = await fn();
+        logOperation(operation, {
+            ...info,
+            status: "success",
+            durationMs: Date.now() - start,
+        });
+        return result;
+    } catch (err) {
+        const message = (err as Error).message;
+        logOperation(operation, {
+            ...info,
+            details: info.details ? `${info.details} — ${message}` : message,
+            status: "error",
+            durationMs: Date.now() - start,
+        });
+        throw err;
+    }
+}
+
 // ── Capability detection ─────────────────────────────────────────────
 
 export interface Capabilities {
@@ -218,8 +299,7 @@ export async function testConnection(): Promise<{
     heartbeat: Heartbeat;
     version: string;
 }> {
-    const start = Date.now();
-    try {
+    return audited("connect", { details: getBaseUrl() }, async () => {
         // Auto-detect API version
         const v2ok = await probeUrl("/api/v2/heartbeat");
         if (v2ok) {
@@ -231,43 +311,159 @@ export async function testConnection(): Promise<{
         const heartbeat = await chromaFetch(`${apiBase()}/heartbeat`, HeartbeatSchema);
         const version = await chromaFetch(`${apiBase()}/version`, VersionSchema);
         return { heartbeat, version };
-    } catch (err) {
-        throw err;
-    }
+    });
+}
+
+// ── Tenants & databases ──────────────────────────────────────────────
+
+export async function getUserIdentity(): Promise<UserIdentity> {
+    return chromaFetch(`${apiBase()}/auth/identity`, UserIdentitySchema);
+}
+
+export async function getTenant(name: string): Promise<Tenant> {
+    return chromaFetch(
+        `${apiBase()}/tenants/${encodeURIComponent(name)}`,
+        TenantSchema,
+    );
+}
+
+export async function createTenant(name: string): Promise<void> {
+    await audited("create_tenant", { details: summarize({ name }) }, () =>
+        chromaFetch(`${apiBase()}/tenants`, z.unknown(), {
+            method: "POST",
+            body: JSON.stringify({ name }),
+        }),
+    );
+    addKnownTenant(name);
+}
+
+export async function listDatabases(tenant: string): Promise<DatabaseInfo[]> {
+    return chromaFetch(
+        `${apiBase()}/tenants/${encodeURIComponent(tenant)}/databases`,
+        DatabaseListSchema,
+    );
 }
 
-export async function listCollections(): Promise<Collection[]> {
-    return chromaFetch(`${apiPrefix()}/collections`, CollectionListSchema);
+export async function getDatabase(scope: ChromaScope): Promise<DatabaseInfo> {
+    return chromaFetch(
+        `${apiBase()}/tenants/${encodeURIComponent(scope.tenant)}/databases/${encodeURIComponent(scope.database)}`,
+        DatabaseSchema,
+    );
 }
 
-export async function getCollection(name: string): Promise<Collection> {
+export async function createDatabase(tenant: string, name: string): Promise<void> {
+    await audited("create_database", { details: summarize({ tenant, name }) }, () =>
+        chromaFetch(
+            `${apiBase()}/tenants/${encodeURIComponent(tenant)}/databases`,
+            z.unknown(),
+            {
+                method: "POST",
+                body: JSON.stringify({ name }),
+            },
+        ),
+    );
+}
+
+// ── Collections ──────────────────────────────────────────────────────
+
+export async function listCollections(scope?: ChromaScope): Promise<Collection[]> {
+    const collections = await audited("list_collections", { details: summarize({ ...(scope ?? getScope()) }) }, () =>
+        chromaFetch(`${apiPrefix(scope)}/collections`, CollectionListSchema),
+    );
+    rememberCollections(collections);
+    return collections;
+}
+
+export async function getCollection(name: string, scope?: ChromaScope): Promise<Collection> {
     // v2 uses GET with query param, but also supports name-based lookup
-    return chromaFetch(`${apiPrefix()}/collections/${encodeURIComponent(name)}`, CollectionSchema);
+    const collection = await audited("get_collection", { collection: name }, () =>
+        chromaFetch(`${apiPrefix(scope)}/collections/${encodeURIComponent(name)}`, CollectionSchema),
+    );
+    rememberCollections([collection]);
+    return collection;
 }
 
-export async function getCollectionCount(collectionId: string): Promise<number> {
-    return chromaFetch(`${apiPrefix()}/collections/${collectionId}/count`, CountSchema);
+/**
+ * Create a collection. With `get_or_create` an existing collection of the same
+ * name is returned instead of failing.
+ */
+export async function createCollection(
+    params: {
+        name: string;
+        metadata?: Record<string, unknown>;
+        configuration?: Record<string, unknown>;
+        get_or_create?: boolean;
+    },
+    scope?: ChromaScope,
+): Promise<Collection> {
+    const body: Record<string, unknown> = { name: params.name };
+    if (params.metadata && Object.keys(params.metadata).length > 0) body.metadata = params.metadata;
+    if (params.configuration) body.configuration = params.configuration;
+    if (params.get_or_create) body.get_or_create = true;
+
+    const collection = await audited(
+        "create_collection",
+        {
+            collection: params.name,
+            details: summarize({ metadata: params.metadata, get_or_create: params.get_or_create }),
+        },
+        () =>
+            chromaFetch(`${apiPrefix(scope)}/collections`, CollectionSchema, {
+                method: "POST",
+                body: JSON.stringify(body),
+            }),
+    );
+    rememberCollections([collection]);
+    return collection;
+}
+
+export async function getCollectionCount(
+    collectionId: string,
+    scope?: ChromaScope,
+): Promise<number> {
+    return chromaFetch(`${apiPrefix(scope)}/collections/${collectionId}/count`, CountSchema);
+}
+
+interface GetItemsParams {
+    limit?: number;
+    offset?: number;
+    include?: string[];
+    where?: Record<string, unknown>;
+    where_document?: Record<string, unknown>;
+    ids?: string[];
 }
 
 export async function getItems(
     collectionId: string,
-    params: {
-        limit?: number;
-        offset?: number;
-        include?: string[];
-        where?: Record<string, unknown>;
-        ids?: string[];
-    } = {},
+    params: GetItemsParams = {},
+    scope?: ChromaScope,
+): Promise<GetItemsResponse> {
+    return audited(
+        "get_items",
+        { collection: collectionLabel(collectionId), details: summarize({ ...params }) },
+        () => fetchItems(collectionId, params, scope),
+    );
+}
+
+/**
+ * Unlogged `get` used by operations that page through a collection. Callers
+ * log one summary entry for the whole scan instead of one per page.
+ */
+export async function fetchItems(
+    collectionId: string,
+    params: GetItemsParams,
+    scope?: ChromaScope,
 ): Promise<GetItemsResponse> {
     const body: Record<string, unknown> = {};
     if (params.limit != null) body.limit = params.limit;
     if (params.offset != null) body.offset = params.offset;
     if (params.include) body.include = params.include;
     if (params.where) body.where = params.where;
+    if (params.where_document) body.where_document = params.where_document;
     if (params.ids) body.ids = params.ids;
 
     return chromaFetch(
-        `${apiPrefix()}/collections/${collectionId}/get`,
+        `${apiPrefix(scope)}/collections/${collectionId}/get`,
         GetItemsResponseSchema,
         {
             method: "POST",
@@ -276,15 +472,44 @@ export async function getItems(
     );
 }
 
+interface QueryParams {
+    query_texts?: string[];
+    query_embeddings?: number[][];
+    n_results?: number;
+    include?: string[];
+    where?: Record<string, unknown>;
+    where_document?: Record<string, unknown>;
+}
+
 export async function queryCollection(
     collectionId: string,
-    params: {
-        query_texts?: string[];
-        query_embeddings?: number[][];
-        n_results?: number;
-        include?: string[];
-        where?: Record<string, unknown>;
-    },
+    params: QueryParams,
+    scope?: ChromaScope,
+): Promise<QueryResponse> {
+    return audited(
+        "query",
+        {
+            collection: collectionLabel(collectionId),
+            details: summarize({
+                query_texts: params.query_texts?.length === 1 ? params.query_texts[0] : params.query_texts,
+                query_embeddings: params.query_embeddings,
+                n_results: params.n_results ?? 10,
+                where: params.where,
+                where_document: params.where_document,
+            }),
+        },
+        () => fetchQuery(collectionId, params, scope),
+    );
+}
+
+/**
+ * Unlogged `query` used by operations that run many queries in a row. Callers
+ * log one summary entry for the whole run instead of one per query.
+ */
+export async function fetchQuery(
+    collectionId: string,
+    params: QueryParams,
+    scope?: ChromaScope,
 ): Promise<QueryResponse> {
     // ChromaDB v2 requires query_embeddings to always be present in the body
     const body = {
@@ -293,10 +518,11 @@ export async function queryCollection(
         n_results: params.n_results ?? 10,
         include: params.include ?? ["documents", "metadatas", "distances"],
         ...(params.where ? { where: params.where } : {}),
+        ...(params.where_document ? { where_document: params.where_document } : {}),
     };
 
     return chromaFetch(
-        `${apiPrefix()}/collections/${collectionId}/query`,
+        `${apiPrefix(scope)}/collections/${collectionId}/query`,
         QueryResponseSchema,
         {
             method: "POST",
@@ -305,10 +531,54 @@ export async function queryCollection(
     );
 }
 
-export async function deleteCollection(name: string): Promise<void> {
-    const start = Date.now();
-    try {
-        const url = resolveUrl(`${apiPrefix()}/collections/${encodeURIComponent(name)}`);
+export interface SimilarItem {
+    id: string;
+    distance: number | null;
+    document: string | null;
+    metadata: Record<string, unknown> | null;
+    embedding: number[] | null;
+}
+
+/**
+ * Nearest neighbours of a stored record, queried with the record's own
+ * embedding so no text embedding is needed. The record itself is left out.
+ */
+export async function findSimilarItems(
+    collectionId: string,
+    itemId: string,
+    nResults: number,
+    scope?: ChromaScope,
+): Promise<SimilarItem[]> {
+    const source = await getItems(collectionId, { ids: [itemId], include: ["embeddings"] }, scope);
+    const embedding = source.embeddings?.[0];
+    if (!source.ids.length) throw new Error(`Record "${itemId}" not found`);
+    if (!embedding?.length) throw new Error(`Record "${itemId}" has no stored embedding`);
+
+    // Ask for one extra result since the record normally matches itself first
+    const resp = await queryCollection(
+        collectionId,
+        {
+            query_embeddings: [embedding],
+            n_results: nResults + 1,
+            include: ["documents", "metadatas", "distances", "embeddings"],
+        },
+        scope,
+    );
+    return (resp.ids[0] ?? [])
+        .map((id, i) => ({
+            id,
+            distance: resp.distances?.[0]?.[i] ?? null,
+            document: resp.documents?.[0]?.[i] ?? null,
+            metadata: resp.metadatas?.[0]?.[i] ?? null,
+            embedding: resp.embeddings?.[0]?.[i] ?? null,
+        }))
+        .filter((item) => item.id !== itemId)
+        .slice(0, nResults);
+}
+
+export async function deleteCollection(name: string, scope?: ChromaScope): Promise<void> {
+    return audited("delete_collection", { collection: name }, async () => {
+        const url = resolveUrl(`${apiPrefix(scope)}/collections/${encodeURIComponent(name)}`);
         const res = await fetch(url, {
             method: "DELETE",
             headers: { ...getAuthHeaders() },
@@ -317,9 +587,7 @@ export async function deleteCollection(name: string): Promise<void> {
             const text = await res.text().catch(() => "");
             throw new ChromaError(`Delete failed: ${res.status} ${text}`, res.status);
         }
-    } catch (err) {
-        throw err;
-    }
+    });
 }
 
 // ── Backup / Restore helpers ─────────────────────────────────────────
@@ -328,6 +596,20 @@ export async function getAllItems(
     collectionId: string,
     totalCount: number,
     onProgress?: (fetched: number) => void,
+    scope?: ChromaScope,
+): Promise<GetItemsResponse> {
+    return audited(
+        "export",
+        { collection: collectionLabel(collectionId), details: summarize({ totalCount }) },
+        () => fetchAllItems(collectionId, totalCount, onProgress, scope),
+    );
+}
+
+async function fetchAllItems(
+    collectionId: string,
+    totalCount: number,
+    onProgress?: (fetched: number) => void,
+    scope?: ChromaScope,
 ): Promise<GetItemsResponse> {
     const pageSize = 500;
     const allIds: string[] = [];
@@ -336,11 +618,11 @@ export async function getAllItems(
     const allEmbeddings: (number[] | null)[] = [];
 
     for (let offset = 0; offset < totalCount; offset += pageSize) {
-        const page = await getItems(collectionId, {
+        const page = await fetchItems(collectionId, {
             limit: pageSize,
             offset,
             include: ["documents", "metadatas", "embeddings"],
-        });
+        }, scope);
         allIds.push(...page.ids);
         page.documents?.forEach((d) => allDocs.push(d));
         page.metadatas?.forEach((m) => allMetas.push(m));
@@ -356,21 +638,52 @@ export async function getAllItems(
     };
 }
 
-export async function addItems(
+export interface ItemsPayload {
+    ids: string[];
+    documents?: (string | null)[];
+    metadatas?: (Record<string, unknown> | null)[];
+    embeddings?: (number[] | null)[];
+}
+
+/** Shared POST for the add / update / upsert record endpoints. */
+function writeItems(
+    operation: "add_items" | "update_items" | "upsert_items",
+    endpoint: "add" | "update" | "upsert",
     collectionId: string,
-    data: {
-        ids: string[];
-        documents?: (string | null)[];
-        metadatas?: (Record<string, unknown> | null)[];
-        embeddings?: (number[] | null)[];
-    },
+    data: ItemsPayload,
+    scope?: ChromaScope,
+): Promise<void> {
+    const fields = ["documents", "metadatas", "embeddings"].filter(
+        (k) => data[k as keyof ItemsPayload] != null,
+    );
+    const details =
+        operation === "add_items"
+            ? summarize({ ids: data.ids })
+            : summarize({ ids: data.ids, fields: fields.join(",") || undefined });
+
+    return audited(
+        operation,
+        { collection: collectionLabel(collectionId), details },
+        () => postItems(endpoint, collectionId, data, scope),
+    );
+}
+
+/**
+ * Unlogged add / update / upsert used by operations that write in batches.
+ * Callers log one summary entry for the whole write instead of one per batch.
+ */
+export async function postItems(
+    endpoint: "add" | "update" | "upsert",
+    collectionId: string,
+    data: ItemsPayload,
+    scope?: ChromaScope,
 ): Promise<void> {
     const body: Record<string, unknown> = { ids: data.ids };
     if (data.documents) body.documents = data.documents;
     if (data.metadatas) body.metadatas = data.metadatas;
     if (data.embeddings) body.embeddings = data.embeddings;
 
-    const url = resolveUrl(`${apiPrefix()}/collections/${collectionId}/add`);
+    const url = resolveUrl(`${apiPrefix(scope)}/collections/${collectionId}/${endpoint}`);
     const res = await fetch(url, {
         method: "POST",
         headers: {
@@ -381,26 +694,63 @@ export async function addItems(
     });
     if (!res.ok) {
         const text = await res.text().catch(() => "");
-        throw new ChromaError(`Add items failed: ${res.status} ${text}`, res.status);
+        const verb = endpoint.charAt(0).toUpperCase() + endpoint.slice(1);
+        throw new ChromaError(`${verb} items failed: ${res.status} ${text}`, res.status);
     }
 }
 
+export async function addItems(
+    collectionId: string,
+    data: ItemsPayload,
+    scope?: ChromaScope,
+): Promise<void> {
+    return writeItems("add_items", "add", collectionId, data, scope);
+}
+
+/**
+ * Update existing records. Omitted columns are left untouched; a metadata key
+ * set to `null` is removed from the record.
+ */
+export async function updateItems(
+    collectionId: string,
+    data: ItemsPayload,
+    scope?: ChromaScope,
+): Promise<void> {
+    return writeItems("update_items", "update", collectionId, data, scope);
+}
+
+/** Insert records, overwriting any that already exist with the same ID. */
+export async function upsertItems(
+    collectionId: string,
+    data: ItemsPayload,
+    scope?: ChromaScope,
+): Promise<void> {
+    return writeItems("upsert_items", "upsert", collectionId, data, scope);
+}
+
 export async function deleteItems(
     collectionId: string,
     ids: string[],
+    scope?: ChromaScope,
 ): Promise<void> {
-    const url = resolveUrl(`${apiPrefix()}/collections/${collectionId}/delete`);
-    const res = await fetch(url, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            ...getAuthHeaders(),
+    return audited(
+        "delete_items",
+        { collection: collectionLabel(collectionId), details: summarize({ ids }) },
+        async () => {
+            const url = resolveUrl(`${apiPrefix(scope)}/collections/${collectionId}/delete`);
+            const res = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    ...getAuthHeaders(),
+                },
+                body: JSON.stringify({ ids }),
+            });
+            if (!res.ok) {
+                const text = await res.text().catch(() => "");
+                throw new ChromaError(`Delete items failed: ${res.status} ${text}`, res.status);
+            }
         },
-        body: JSON.stringify({ ids }),
-    });
-    if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        throw new ChromaError(`Delete items failed: ${res.status} ${text}`, res.status);
-    }
+    );
 }
 
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchItems } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import { diffCollections } from "./collectionDiff";
+
+vi.mock("./chromaClient", () => ({ fetchItems: vi.fn() }));
+vi.mock("./auditLog", () => ({ logOperation: vi.fn() }));
+
+interface FakeRecord {
+    id: string;
+    document?: string | null;
+    metadata?: Record<string, unknown> | null;
+    embedding?: number[] | null;
+}
+
+/** Serve `fetchItems` from in-memory collections, by ID or by page. */
+function serve(collections: Record<string, FakeRecord[]>) {
+    vi.mocked(fetchItems).mockImplementation(async (collectionId, params) => {
+        const all = collections[collectionId]!;
+        const records = params.ids
+            ? all.filter((r) => params.ids!.includes(r.id))
+            : all.slice(params.offset ?? 0, (params.offset ?? 0) + (params.limit ?? all.length));
+        return {
+            ids: records.map((r) => r.id),
+            documents: records.map((r) => r.document ?? null),
+            metadatas: records.map((r) => r.metadata ?? null),
+            embeddings: records.map((r) => r.embedding ?? null),
+        };
+    });
+}
+
+const A = { id: "a", name: "alpha" };
+const B = { id: "b", name: "beta" };
+const scope = { tenant: "t", database: "d" };
+
+describe("diffCollections", () => {
+    beforeEach(() => {
+        vi.mocked(fetchItems).mockReset();
+        vi.mocked(logOperation).mockReset();
+    });
+
+    it("reports two empty collections as identical", async () => {
+        serve({ a: [], b: [] });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: true });
+        expect(report).toMatchObject({ identical: 0, onlyInA: [], onlyInB: [], changed: [] });
+    });
+
+    it("finds records on one side only across several pages", async () => {
+        const records = (ids: string[]) => ids.map((id) => ({ id, document: id }));
+        serve({ a: records(["1", "2", "3", "4", "5"]), b: records(["2", "4", "6", "7"]) });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: false, pageSize: 2 });
+        expect(report.onlyInA).toEqual(["1", "3", "5"]);
+        expect(report.onlyInB).toEqual(["6", "7"]);
+        expect(report.identical).toBe(2);
+    });
+
+    it("splits metadata changes into added, removed and changed keys", async () => {
+        serve({
+            a: [{ id: "1", metadata: { kept: 1, gone: "x", moved: [1, 2] } }],
+            b: [{ id: "1", metadata: { kept: 1, moved: [2, 1], fresh: true } }],
+        });
+        const [diff] = (await diffCollections(A, B, scope, { compareEmbeddings: false })).changed;
+        expect(diff!.metadata).toEqual({
+            added: [{ key: "fresh", a: undefined, b: true }],
+            removed: [{ key: "gone", a: "x", b: undefined }],
+            changed: [{ key: "moved", a: [1, 2], b: [2, 1] }],
+        });
+        expect(diff!.document).toBeUndefined();
+    });
+
+    it("treats null metadata as having no keys", async () => {
+        serve({ a: [{ id: "1", metadata: null }], b: [{ id: "1", metadata: {} }] });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: false });
+        expect(report.identical).toBe(1);
+    });
+
+    it("reports a document removed on one side", async () => {
+        serve({ a: [{ id: "1", document: "text" }], b: [{ id: "1", document: null }] });
+        const [diff] = (await diffCollections(A, B, scope, { compareEmbeddings: false })).changed;
+        expect(diff!.document).toEqual({ a: "text", b: null });
+    });
+
+    it("ignores embedding drift within the tolerance", async () => {
+        serve({ a: [{ id: "1", embedding: [0.5, 0.5] }], b: [{ id: "1", embedding: [0.5, 0.5 + 1e-7] }] });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: true });
+        expect(report.identical).toBe(1);
+    });
+
+    it("reports the largest embedding delta, or the dimensions when they differ", async () => {
+        serve({
+            a: [
+                { id: "1", embedding: [0, 1, 2] },
+                { id: "2", embedding: [0, 1] },
+                { id: "3", embedding: null },
+            ],
+            b: [
+                { id: "1", embedding: [0, 1.5, 1.75] },
+                { id: "2", embedding: [0, 1, 2] },
+                { id: "3", embedding: [1] },
+            ],
+        });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: true });
+        expect(report.changed.map((d) => d.embedding)).toEqual([
+            { dimsA: 3, dimsB: 3, maxAbsDelta: 0.5 },
+            { dimsA: 2, dimsB: 3, maxAbsDelta: null },
+            { dimsA: null, dimsB: 1, maxAbsDelta: null },
+        ]);
+    });
+
+    it("skips embeddings unless asked to compare them", async () => {
+        serve({ a: [{ id: "1", embedding: [0] }], b: [{ id: "1", embedding: [1] }] });
+        const report = await diffCollections(A, B, scope, { compareEmbeddings: false });
+        expect(report.identical).toBe(1);
+        expect(vi.mocked(fetchItems).mock.calls[0]![1].include).toEqual(["documents", "metadatas"]);
+    });
+
+    it("stops when cancelled and logs the failure", async () => {
+        serve({ a: [{ id: "1" }], b: [] });
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+            diffCollections(A, B, scope, { compareEmbeddings: false, signal: controller.signal }),
+        ).rejects.toMatchObject({ name: "AbortError" });
+        expect(fetchItems).not.toHaveBeenCalled();
+        expect(logOperation).toHaveBeenCalledWith("diff_collections", expect.objectContaining({ status: "error" }));
+    });
+});
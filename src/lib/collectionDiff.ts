@@ -0,0 +1,190 @@
+// ── Collection Diff ──────────────────────────────────────────────────
+// Streams two collections page by page and reports which records exist
+// only on one side and which differ in document, metadata or embedding.
+
+import { fetchItems } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import type { ChromaScope } from "./storage";
+
+const EMBEDDING_TOLERANCE = 1e-6;
+
+export interface DiffSide {
+    id: string;
+    name: string;
+}
+
+export interface MetadataChange {
+    key: string;
+    a: unknown;
+    b: unknown;
+}
+
+export interface RecordDiff {
+    id: string;
+    document?: { a: string | null; b: string | null };
+    metadata?: {
+        added: MetadataChange[];
+        removed: MetadataChange[];
+        changed: MetadataChange[];
+    };
+    embedding?: {
+        dimsA: number | null;
+        dimsB: number | null;
+        maxAbsDelta: number | null;
+    };
+}
+
+export interface DiffReport {
+    collectionA: DiffSide;
+    collectionB: DiffSide;
+    startedAt: string;
+    finishedAt: string;
+    comparedEmbeddings: boolean;
+    identical: number;
+    onlyInA: string[];
+    onlyInB: string[];
+    changed: RecordDiff[];
+}
+
+export interface DiffProgress {
+    phase: "a" | "b";
+    scanned: number;
+}
+
+export interface DiffOptions {
+    compareEmbeddings: boolean;
+    pageSize?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: DiffProgress) => void;
+}
+
+function diffMetadata(
+    a: Record<string, unknown> | null,
+    b: Record<string, unknown> | null,
+): RecordDiff["metadata"] | undefined {
+    const ma = a ?? {};
+    const mb = b ?? {};
+    const added: MetadataChange[] = [];
+    const removed: MetadataChange[] = [];
+    const changed: MetadataChange[] = [];
+
+    for (const [key, value] of Object.entries(ma)) {
+        if (!(key in mb)) removed.push({ key, a: value, b: undefined });
+        else if (JSON.stringify(value) !== JSON.stringify(mb[key])) changed.push({ key, a: value, b: mb[key] });
+    }
+    for (const [key, value] of Object.entries(mb)) {
+        if (!(key in ma)) added.push({ key, a: undefined, b: value });
+    }
+
+    return added.length || removed.length || changed.length ? { added, removed, changed } : undefined;
+}
+
+function diffEmbedding(a: number[] | null, b: number[] | null): RecordDiff["embedding"] | undefined {
+    if (!a && !b) return undefined;
+    if (!a || !b || a.length !== b.length) {
+        return { dimsA: a?.length ?? null, dimsB: b?.length ?? null, maxAbsDelta: null };
+    }
+    let maxAbsDelta = 0;
+    for (let i = 0; i < a.length; i++) {
+        maxAbsDelta = Math.max(maxAbsDelta, Math.abs(a[i]! - b[i]!));
+    }
+    return maxAbsDelta > EMBEDDING_TOLERANCE ? { dimsA: a.length, dimsB: b.length, maxAbsDelta } : undefined;
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new DOMException("Diff cancelled", "AbortError");
+}
+
+/**
+ * Walk A page by page, looking up each page's IDs in B, then walk B's IDs
+ * to find records A does not have. Only IDs are kept across pages.
+ */
+export async function diffCollections(
+    collectionA: DiffSide,
+    collectionB: DiffSide,
+    scope: ChromaScope,
+    { compareEmbeddings, pageSize = 250, signal, onProgress }: DiffOptions,
+): Promise<DiffReport> {
+    const start = Date.now();
+    const include = compareEmbeddings ? ["documents", "metadatas", "embeddings"] : ["documents", "metadatas"];
+    const idsInA = new Set<string>();
+    const onlyInA: string[] = [];
+    const onlyInB: string[] = [];
+    const changed: RecordDiff[] = [];
+    let identical = 0;
+
+    try {
+        // Phase 1: every record in A, matched against B by ID
+        for (let offset = 0; ; offset += pageSize) {
+            throwIfAborted(signal);
+            const pageA = await fetchItems(collectionA.id, { limit: pageSize, offset, include }, scope);
+            if (pageA.ids.length === 0) break;
+
+            const pageB = await fetchItems(collectionB.id, { ids: pageA.ids, include }, scope);
+            const indexInB = new Map(pageB.ids.map((id, i) => [id, i]));
+
+            pageA.ids.forEach((id, i) => {
+                idsInA.add(id);
+                const j = indexInB.get(id);
+                if (j === undefined) {
+                    onlyInA.push(id);
+                    return;
+                }
+
+                const diff: RecordDiff = { id };
+                const docA = pageA.documents?.[i] ?? null;
+                const docB = pageB.documents?.[j] ?? null;
+                if (docA !== docB) diff.document = { a: docA, b: docB };
+                diff.metadata = diffMetadata(pageA.metadatas?.[i] ?? null, pageB.metadatas?.[j] ?? null);
+                if (compareEmbeddings) {
+                    diff.embedding = diffEmbedding(pageA.embeddings?.[i] ?? null, pageB.embeddings?.[j] ?? null);
+                }
+
+                if (diff.document || diff.metadata || diff.embedding) changed.push(diff);
+                else identical++;
+            });
+
+            onProgress?.({ phase: "a", scanned: offset + pageA.ids.length });
+            if (pageA.ids.length < pageSize) break;
+        }
+
+        // Phase 2: IDs in B that A never had
+        for (let offset = 0; ; offset += pageSize) {
+            throwIfAborted(signal);
+            const pageB = await fetchItems(collectionB.id, { limit: pageSize, offset, include: [] }, scope);
+            if (pageB.ids.length === 0) break;
+            pageB.ids.forEach((id) => {
+                if (!idsInA.has(id)) onlyInB.push(id);
+            });
+            onProgress?.({ phase: "b", scanned: offset + pageB.ids.length });
+            if (pageB.ids.length < pageSize) break;
+        }
+    } catch (err) {
+        logOperation("diff_collections", {
+            collection: `${collectionA.name} ↔ ${collectionB.name}`,
+            details: (err as Error).message,
+            status: "error",
+            durationMs: Date.now() - start,
+        });
+        throw err;
+    }
+
+    logOperation("diff_collections", {
+        collection: `${collectionA.name} ↔ ${collectionB.name}`,
+        details: `onlyA=${onlyInA.length} onlyB=${onlyInB.length} changed=${changed.length} identical=${identical}`,
+        status: "success",
+        durationMs: Date.now() - start,
+    });
+
+    return {
+        collectionA,
+        collectionB,
+        startedAt: new Date(start).toISOString(),
+        finishedAt: new Date().toISOString(),
+        comparedEmbeddings: compareEmbeddings,
+        identical,
+        onlyInA,
+        onlyInB,
+        changed,
+    };
+}
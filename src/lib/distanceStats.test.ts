@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { distanceHistogram, findElbow, largestGaps, summarizeDistances } from "./distanceStats";
+
+describe("summarizeDistances", () => {
+    it("has nothing to summarise without distances", () => {
+        expect(summarizeDistances([])).toBeNull();
+    });
+
+    it("collapses to the one value for a single result", () => {
+        expect(summarizeDistances([0.4])).toEqual({
+            count: 1,
+            min: 0.4,
+            max: 0.4,
+            mean: 0.4,
+            median: 0.4,
+            p90: 0.4,
+            stdDev: 0,
+        });
+    });
+
+    it("interpolates quantiles over unsorted input", () => {
+        const summary = summarizeDistances([3, 1, 4, 2])!;
+        expect(summary).toMatchObject({ count: 4, min: 1, max: 4, mean: 2.5, median: 2.5 });
+        expect(summary.p90).toBeCloseTo(3.7, 10);
+        expect(summary.stdDev).toBeCloseTo(Math.sqrt(1.25), 10);
+    });
+});
+
+describe("distanceHistogram", () => {
+    it("returns no bins for no distances", () => {
+        expect(distanceHistogram([])).toEqual([]);
+    });
+
+    it("uses one bin when every distance is equal", () => {
+        expect(distanceHistogram([0.3, 0.3, 0.3])).toEqual([{ start: 0.3, end: 0.3, count: 3 }]);
+    });
+
+    it("puts the largest distance in the last bin", () => {
+        const bins = distanceHistogram([0, 0.2, 0.5, 1], 2);
+        expect(bins.map((b) => b.count)).toEqual([2, 2]);
+        expect(bins[1]!.end).toBe(1);
+    });
+
+    it("counts every distance once", () => {
+        const distances = [0.11, 0.52, 0.53, 0.9, 0.91, 1.4];
+        const bins = distanceHistogram(distances, 7);
+        expect(bins).toHaveLength(7);
+        expect(bins.reduce((s, b) => s + b.count, 0)).toBe(distances.length);
+    });
+});
+
+describe("findElbow", () => {
+    it("needs at least three results", () => {
+        expect(findElbow([0.1, 0.9])).toBeNull();
+    });
+
+    it("finds no elbow on a flat curve", () => {
+        expect(findElbow([0.5, 0.5, 0.5, 0.5])).toBeNull();
+    });
+
+    it("finds no elbow on a straight line", () => {
+        expect(findElbow([0, 1, 2, 3])).toBeNull();
+    });
+
+    it("picks the last close result before the jump", () => {
+        expect(findElbow([0.1, 0.12, 0.13, 0.6, 0.7])).toEqual({ rank: 2, distance: 0.13 });
+    });
+});
+
+describe("largestGaps", () => {
+    it("has no gaps with fewer than two results", () => {
+        expect(largestGaps([])).toEqual([]);
+        expect(largestGaps([0.2])).toEqual([]);
+    });
+
+    it("ignores ties", () => {
+        expect(largestGaps([0.2, 0.2, 0.2])).toEqual([]);
+    });
+
+    it("returns the biggest jumps first, up to the limit", () => {
+        const gaps = largestGaps([0.1, 0.15, 0.5, 0.55, 0.8], 2);
+        expect(gaps.map((g) => g.rank)).toEqual([1, 3]);
+        expect(gaps[0]).toMatchObject({ before: 0.15, after: 0.5 });
+        expect(gaps[0]!.size).toBeCloseTo(0.35, 10);
+    });
+});
@@ -0,0 +1,107 @@
+// ── Distance Statistics ──────────────────────────────────────────────
+// Summaries of the distances returned by a similarity query, used to pick
+// a relevance cut-off: histogram, the elbow of the ranked distance curve
+// and the largest jumps between consecutive results.
+
+export interface DistanceSummary {
+    count: number;
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    p90: number;
+    stdDev: number;
+}
+
+export interface HistogramBin {
+    start: number;
+    end: number;
+    count: number;
+}
+
+/** A jump between the results at `rank` and `rank + 1` (0-based, ascending distance). */
+export interface DistanceGap {
+    rank: number;
+    before: number;
+    after: number;
+    size: number;
+}
+
+function quantile(sorted: number[], q: number): number {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+}
+
+export function summarizeDistances(distances: number[]): DistanceSummary | null {
+    if (distances.length === 0) return null;
+    const sorted = [...distances].sort((a, b) => a - b);
+    const mean = sorted.reduce((s, d) => s + d, 0) / sorted.length;
+    const variance = sorted.reduce((s, d) => s + (d - mean) ** 2, 0) / sorted.length;
+    return {
+        count: sorted.length,
+        min: sorted[0]!,
+        max: sorted[sorted.length - 1]!,
+        mean,
+        median: quantile(sorted, 0.5),
+        p90: quantile(sorted, 0.9),
+        stdDev: Math.sqrt(variance),
+    };
+}
+
+/** Equal-width bins between the smallest and largest distance. */
+export function distanceHistogram(distances: number[], binCount = 20): HistogramBin[] {
+    if (distances.length === 0) return [];
+    const min = Math.min(...distances);
+    const max = Math.max(...distances);
+    if (min === max) return [{ start: min, end: max, count: distances.length }];
+
+    const width = (max - min) / binCount;
+    const bins = Array.from({ length: binCount }, (_, i) => ({
+        start: min + i * width,
+        end: min + (i + 1) * width,
+        count: 0,
+    }));
+    for (const d of distances) {
+        bins[Math.min(binCount - 1, Math.floor((d - min) / width))]!.count++;
+    }
+    return bins;
+}
+
+/**
+ * Rank where the ascending distance curve bends most: the point farthest
+ * from the straight line between the first and last result once both axes
+ * are scaled to [0, 1].
+ */
+export function findElbow(sorted: number[]): { rank: number; distance: number } | null {
+    if (sorted.length < 3) return null;
+    const first = sorted[0]!;
+    const range = sorted[sorted.length - 1]! - first;
+    if (range === 0) return null;
+
+    let best = -1;
+    let bestOffset = 0;
+    for (let i = 1; i < sorted.length - 1; i++) {
+        const x = i / (sorted.length - 1);
+        const y = (sorted[i]! - first) / range;
+        const offset = Math.abs(x - y);
+        if (offset > bestOffset) {
+            bestOffset = offset;
+            best = i;
+        }
+    }
+    return best < 0 ? null : { rank: best, distance: sorted[best]! };
+}
+
+/** The largest jumps between consecutive ranked distances, biggest first. */
+export function largestGaps(sorted: number[], limit = 3): DistanceGap[] {
+    const gaps: DistanceGap[] = [];
+    for (let i = 0; i < sorted.length - 1; i++) {
+        gaps.push({ rank: i, before: sorted[i]!, after: sorted[i + 1]!, size: sorted[i + 1]! - sorted[i]! });
+    }
+    return gaps
+        .filter((g) => g.size > 0)
+        .sort((a, b) => b.size - a.size)
+        .slice(0, limit);
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteItems, fetchItems } from "./chromaClient";
+import { deleteDuplicates, findDuplicates, planDuplicateDeletion, type DuplicateGroup } from "./duplicates";
+
+vi.mock("./chromaClient", () => ({ fetchItems: vi.fn(), deleteItems: vi.fn() }));
+vi.mock("./auditLog", () => ({ logOperation: vi.fn() }));
+
+const group = (key: string, ids: string[]): DuplicateGroup => ({
+    key,
+    kind: "document",
+    ids,
+    similarity: null,
+    preview: null,
+});
+
+describe("planDuplicateDeletion", () => {
+    it("deletes nothing without groups", () => {
+        expect(planDuplicateDeletion([], new Map())).toEqual([]);
+    });
+
+    it("keeps the first record when none was chosen", () => {
+        expect(planDuplicateDeletion([group("g1", ["a", "b", "c"])], new Map())).toEqual(["b", "c"]);
+    });
+
+    it("keeps the chosen record", () => {
+        expect(planDuplicateDeletion([group("g1", ["a", "b", "c"])], new Map([["g1", "b"]]))).toEqual(["a", "c"]);
+    });
+
+    it("never deletes a record that another group keeps", () => {
+        const groups = [group("g1", ["a", "b"]), group("g2", ["b", "c"])];
+        expect(planDuplicateDeletion(groups, new Map([["g2", "b"]]))).toEqual(["c"]);
+    });
+
+    it("lists a record in several groups once", () => {
+        const groups = [group("g1", ["a", "b"]), group("g2", ["a", "b", "c"])];
+        expect(planDuplicateDeletion(groups, new Map())).toEqual(["b", "c"]);
+    });
+});
+
+describe("findDuplicates", () => {
+    const options = { findNear: false, threshold: 0.95, maxNearRecords: 100 };
+
+    beforeEach(() => {
+        vi.mocked(fetchItems).mockReset();
+    });
+
+    const servePages = (pages: { ids: string[]; documents: (string | null)[]; embeddings: number[][] }[]) => {
+        pages.forEach((page) => vi.mocked(fetchItems).mockResolvedValueOnce(page));
+        vi.mocked(fetchItems).mockResolvedValue({ ids: [], documents: [], embeddings: [] });
+    };
+
+    it("finds nothing in an empty collection", async () => {
+        servePages([]);
+        const report = await findDuplicates("c1", "docs", undefined, options);
+        expect(report).toMatchObject({ scanned: 0, groups: [], nearCompared: 0 });
+    });
+
+    it("groups equal documents and equal embeddings across pages, largest group first", async () => {
+        servePages([
+            { ids: ["1", "2"], documents: ["same", "same"], embeddings: [[1, 0], [0, 1]] },
+            { ids: ["3", "4"], documents: ["same", null], embeddings: [[0, 1], [0, 1]] },
+        ]);
+        const report = await findDuplicates("c1", "docs", undefined, { ...options, pageSize: 2 });
+        expect(report.scanned).toBe(4);
+        expect(report.groups.map((g) => [g.kind, g.ids])).toEqual([
+            ["document", ["1", "2", "3"]],
+            ["embedding", ["2", "3", "4"]],
+        ]);
+        expect(report.groups[1]).toMatchObject({ similarity: 1, preview: "same" });
+    });
+
+    it("does not group records without documents or embeddings", async () => {
+        servePages([{ ids: ["1", "2"], documents: [null, ""], embeddings: [[], []] }]);
+        const report = await findDuplicates("c1", "docs", undefined, options);
+        expect(report.groups).toEqual([]);
+    });
+
+    it("stops when cancelled", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+            findDuplicates("c1", "docs", undefined, { ...options, signal: controller.signal }),
+        ).rejects.toMatchObject({ name: "AbortError" });
+    });
+});
+
+describe("deleteDuplicates", () => {
+    it("deletes in batches of 100 and reports progress", async () => {
+        vi.mocked(deleteItems).mockResolvedValue();
+        const ids = Array.from({ length: 250 }, (_, i) => `id-${i}`);
+        const progress: number[] = [];
+        await deleteDuplicates("c1", ids, undefined, (done) => progress.push(done));
+        expect(vi.mocked(deleteItems).mock.calls.map((c) => c[1].length)).toEqual([100, 100, 50]);
+        expect(progress).toEqual([100, 200, 250]);
+    });
+});
@@ -0,0 +1,267 @@
+// ── Duplicates ───────────────────────────────────────────────────────
+// Streams a collection page by page and groups records that share a
+// document (by SHA-256), share an identical embedding, or have embeddings
+// above a cosine-similarity threshold. The quadratic near-duplicate search
+// runs in a Web Worker over a capped number of distinct embeddings.
+
+import { deleteItems, fetchItems } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import type { VectorCluster } from "./vectorMath";
+import type { ChromaScope } from "./storage";
+
+const PREVIEW_LENGTH = 160;
+const DELETE_BATCH = 100;
+
+export type DuplicateKind = "document" | "embedding" | "near";
+
+export interface DuplicateGroup {
+    key: string;
+    kind: DuplicateKind;
+    ids: string[];
+    /** Lowest linked cosine similarity; near-duplicate groups only. */
+    similarity: number | null;
+    /** Start of the first member's document. */
+    preview: string | null;
+}
+
+export interface DuplicateReport {
+    collectionName: string;
+    /** Records streamed. */
+    scanned: number;
+    /** Distinct embeddings compared for near duplicates; 0 when skipped. */
+    nearCompared: number;
+    /** True when more distinct embeddings existed than the near-duplicate cap. */
+    nearTruncated: boolean;
+    threshold: number | null;
+    groups: DuplicateGroup[];
+    startedAt: string;
+    durationMs: number;
+}
+
+export interface DuplicateProgress {
+    phase: "scan" | "near";
+    done: number;
+    /** Total for the phase, when known. */
+    total: number | null;
+}
+
+export interface DuplicateOptions {
+    /** Also cluster embeddings by cosine similarity. */
+    findNear: boolean;
+    threshold: number;
+    /** Cap on distinct embeddings compared pairwise. */
+    maxNearRecords: number;
+    pageSize?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: DuplicateProgress) => void;
+}
+
+// ── Worker protocol ──────────────────────────────────────────────────
+
+export interface NearDuplicateRequest {
+    /** Row-major embeddings. */
+    vectors: Float32Array;
+    dims: number;
+    threshold: number;
+}
+
+export type NearDuplicateResponse =
+    | { type: "progress"; done: number; total: number }
+    | { type: "done"; clusters: VectorCluster[] }
+    | { type: "error"; message: string };
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new DOMException("Duplicate scan cancelled", "AbortError");
+}
+
+async function sha256(data: BufferSource): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+    return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function clusterInWorker(request: NearDuplicateRequest, options: DuplicateOptions): Promise<VectorCluster[]> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL("./duplicates.worker.ts", import.meta.url), { type: "module" });
+        const stop = () => {
+            worker.terminate();
+            reject(new DOMException("Duplicate scan cancelled", "AbortError"));
+        };
+        options.signal?.addEventListener("abort", stop, { once: true });
+        const finish = () => {
+            options.signal?.removeEventListener("abort", stop);
+            worker.terminate();
+        };
+
+        worker.onmessage = (event: MessageEvent<NearDuplicateResponse>) => {
+            const msg = event.data;
+            if (msg.type === "progress") {
+                options.onProgress?.({ phase: "near", done: msg.done, total: msg.total });
+            } else if (msg.type === "done") {
+                finish();
+                resolve(msg.clusters);
+            } else {
+                finish();
+                reject(new Error(msg.message));
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || "Duplicate worker failed"));
+        };
+        worker.postMessage(request, [request.vectors.buffer]);
+    });
+}
+
+/** Only IDs, hashes and short previews are kept across pages, plus the capped embeddings for near duplicates. */
+export async function findDuplicates(
+    collectionId: string,
+    collectionName: string,
+    scope: ChromaScope | undefined,
+    options: DuplicateOptions,
+): Promise<DuplicateReport> {
+    const start = Date.now();
+    const { pageSize = 250 } = options;
+    const byDocument = new Map<string, { ids: string[]; preview: string }>();
+    const byEmbedding = new Map<string, string[]>();
+    const previews = new Map<string, string>();
+    const nearVectors: number[][] = [];
+    const nearHashes: string[] = [];
+    let nearTruncated = false;
+    let scanned = 0;
+
+    try {
+        for (let offset = 0; ; offset += pageSize) {
+            throwIfAborted(options.signal);
+            const page = await fetchItems(
+                collectionId,
+                { limit: pageSize, offset, include: ["documents", "embeddings"] },
+                scope,
+            );
+            if (page.ids.length === 0) break;
+
+            for (let i = 0; i < page.ids.length; i++) {
+                const id = page.ids[i]!;
+                const doc = page.documents?.[i];
+                if (doc) {
+                    const hash = await sha256(new TextEncoder().encode(doc));
+                    const entry = byDocument.get(hash);
+                    if (entry) entry.ids.push(id);
+                    else byDocument.set(hash, { ids: [id], preview: doc.slice(0, PREVIEW_LENGTH) });
+                }
+
+                const embedding = page.embeddings?.[i];
+                if (embedding && embedding.length > 0) {
+                    const hash = await sha256(new Float32Array(embedding));
+                    const ids = byEmbedding.get(hash);
+                    if (ids) {
+                        ids.push(id);
+                    } else {
+                        byEmbedding.set(hash, [id]);
+                        if (doc) previews.set(id, doc.slice(0, PREVIEW_LENGTH));
+                        if (options.findNear) {
+                            const sameDims = nearVectors.length === 0 || embedding.length === nearVectors[0]!.length;
+                            if (nearVectors.length < options.maxNearRecords && sameDims) {
+                                nearVectors.push(embedding);
+                                nearHashes.push(hash);
+                            } else if (sameDims) {
+                                nearTruncated = true;
+                            }
+                        }
+                    }
+                }
+            }
+
+            scanned += page.ids.length;
+            options.onProgress?.({ phase: "scan", done: scanned, total: null });
+            if (page.ids.length < pageSize) break;
+        }
+
+        const groups: DuplicateGroup[] = [];
+        for (const [hash, { ids, preview }] of byDocument) {
+            if (ids.length > 1) groups.push({ key: `document:${hash}`, kind: "document", ids, similarity: null, preview });
+        }
+        for (const [hash, ids] of byEmbedding) {
+            if (ids.length > 1) {
+                groups.push({
+                    key: `embedding:${hash}`,
+                    kind: "embedding",
+                    ids,
+                    similarity: 1,
+                    preview: previews.get(ids[0]!) ?? null,
+                });
+            }
+        }
+
+        if (options.findNear && nearVectors.length > 1) {
+            const dims = nearVectors[0]!.length;
+            const vectors = new Float32Array(nearVectors.length * dims);
+            nearVectors.forEach((v, i) => vectors.set(v, i * dims));
+            const clusters = await clusterInWorker({ vectors, dims, threshold: options.threshold }, options);
+            // Each compared embedding stands for every record that shares it
+            clusters.forEach((c) => {
+                const ids = c.members.flatMap((m) => byEmbedding.get(nearHashes[m]!) ?? []);
+                groups.push({
+                    key: `near:${nearHashes[c.members[0]!]}`,
+                    kind: "near",
+                    ids,
+                    similarity: c.minSimilarity,
+                    preview: previews.get(ids[0]!) ?? null,
+                });
+            });
+        }
+
+        groups.sort((a, b) => b.ids.length - a.ids.length);
+
+        logOperation("find_duplicates", {
+            collection: collectionName,
+            details: `scanned=${scanned} groups=${groups.length}${options.findNear ? ` threshold=${options.threshold}` : ""}`,
+            status: "success",
+            durationMs: Date.now() - start,
+        });
+
+        return {
+            collectionName,
+            scanned,
+            nearCompared: options.findNear ? nearVectors.length : 0,
+            nearTruncated,
+            threshold: options.findNear ? options.threshold : null,
+            groups,
+            startedAt: new Date(start).toISOString(),
+            durationMs: Date.now() - start,
+        };
+    } catch (err) {
+        logOperation("find_duplicates", {
+            collection: collectionName,
+            details: (err as Error).message,
+            status: "error",
+            durationMs: Date.now() - start,
+        });
+        throw err;
+    }
+}
+
+/**
+ * IDs to delete so each group keeps only its chosen record. A record kept
+ * by one group is never deleted on behalf of another it also belongs to.
+ */
+export function planDuplicateDeletion(groups: DuplicateGroup[], keep: Map<string, string>): string[] {
+    const kept = new Set(groups.map((g) => keep.get(g.key) ?? g.ids[0]!));
+    const ids = new Set<string>();
+    for (const g of groups) {
+        for (const id of g.ids) if (!kept.has(id)) ids.add(id);
+    }
+    return [...ids];
+}
+
+/** Delete in batches of DELETE_BATCH IDs. */
+export async function deleteDuplicates(
+    collectionId: string,
+    ids: string[],
+    scope: ChromaScope | undefined,
+    onProgress?: (done: number, total: number) => void,
+): Promise<void> {
+    for (let i = 0; i < ids.length; i += DELETE_BATCH) {
+        await deleteItems(collectionId, ids.slice(i, i + DELETE_BATCH), scope);
+        onProgress?.(Math.min(ids.length, i + DELETE_BATCH), ids.length);
+    }
+}
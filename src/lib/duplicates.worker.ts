@@ -0,0 +1,20 @@
+// Clusters near-duplicate embeddings off the main thread; see duplicates.ts.
+
+import { similarityClusters } from "./vectorMath";
+import type { NearDuplicateRequest, NearDuplicateResponse } from "./duplicates";
+
+function post(message: NearDuplicateResponse): void {
+    self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<NearDuplicateRequest>) => {
+    const { vectors, dims, threshold } = event.data;
+    try {
+        const clusters = similarityClusters(vectors, dims, threshold, (done, total) =>
+            post({ type: "progress", done, total }),
+        );
+        post({ type: "done", clusters });
+    } catch (err) {
+        post({ type: "error", message: (err as Error).message });
+    }
+};
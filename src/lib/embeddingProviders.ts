@@ -0,0 +1,257 @@
+// ── Embedding Providers ──────────────────────────────────────────────
+// Embed query text in the browser for collections that have no server-side
+// embedding function. Providers are registered once, assigned as a default
+// per server profile and optionally overridden per collection. API keys
+// follow the credential vault like every other secret.
+
+import { createExternalStore, useStore } from "./localStore";
+import { z } from "zod";
+import {
+    isVaultEnabled,
+    isVaultLocked,
+    getVaultSecrets,
+    updateVaultSecrets,
+    subscribeVault,
+    VAULT_LOCKED_MESSAGE,
+} from "./vault";
+
+const PROVIDERS_KEY = "chroma-admin:embeddingProviders";
+const ASSIGNMENTS_KEY = "chroma-admin:embeddingAssignments";
+
+/** Assignment value that forces Chroma's own embedding function. */
+export const SERVER_SIDE = "server";
+/** Assignment slot used when no server profile is active. */
+const NO_PROFILE = "default";
+
+export type EmbeddingProviderKind = "openai" | "ollama" | "manual";
+
+export interface EmbeddingProvider {
+    id: string;
+    name: string;
+    kind: EmbeddingProviderKind;
+    url: string;
+    model: string;
+    apiKey?: string;
+    createdAt: number;
+}
+
+export const PROVIDER_KINDS: Record<
+    EmbeddingProviderKind,
+    { label: string; defaultUrl: string; defaultModel: string }
+> = {
+    openai: { label: "OpenAI-compatible", defaultUrl: "https://api.openai.com/v1", defaultModel: "text-embedding-3-small" },
+    ollama: { label: "Ollama", defaultUrl: "http://localhost:11434", defaultModel: "nomic-embed-text" },
+    manual: { label: "Paste vector", defaultUrl: "", defaultModel: "" },
+};
+
+interface Assignments {
+    /** Default provider id per server profile id. */
+    profiles: Record<string, string>;
+    /** Provider id (or SERVER_SIDE) per collection id. */
+    collections: Record<string, string>;
+}
+
+// ── Persistence ──────────────────────────────────────────────────────
+
+function readProviders(): EmbeddingProvider[] {
+    try {
+        const raw = localStorage.getItem(PROVIDERS_KEY);
+        return raw ? (JSON.parse(raw) as EmbeddingProvider[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+function readAssignments(): Assignments {
+    try {
+        const raw = localStorage.getItem(ASSIGNMENTS_KEY);
+        const parsed = raw ? (JSON.parse(raw) as Partial<Assignments>) : {};
+        return { profiles: parsed.profiles ?? {}, collections: parsed.collections ?? {} };
+    } catch {
+        return { profiles: {}, collections: {} };
+    }
+}
+
+function writeAssignments(assignments: Assignments): void {
+    localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(assignments));
+    notify();
+}
+
+/** All providers, with API keys merged in from the vault when it is enabled. */
+export function getEmbeddingProviders(): EmbeddingProvider[] {
+    const providers = readProviders();
+    if (!isVaultEnabled()) return providers;
+    const keys = getVaultSecrets()?.providers ?? {};
+    return providers.map((p) => ({ ...p, apiKey: keys[p.id] }));
+}
+
+/** Persist providers, moving their API keys into the vault when it is enabled. */
+export function writeEmbeddingProviders(providers: EmbeddingProvider[]): void {
+    if (isVaultEnabled()) {
+        if (isVaultLocked()) {
+            if (providers.some((p) => p.apiKey)) throw new Error(VAULT_LOCKED_MESSAGE);
+        } else {
+            updateVaultSecrets((s) => ({
+                ...s,
+                providers: Object.fromEntries(providers.filter((p) => p.apiKey).map((p) => [p.id, p.apiKey!])),
+            }));
+        }
+        providers = providers.map(({ apiKey: _apiKey, ...p }) => p);
+    }
+    localStorage.setItem(PROVIDERS_KEY, JSON.stringify(providers));
+    notify();
+}
+
+/** Drop every provider API key; used by "forget all secrets". */
+export function forgetProviderApiKeys(): void {
+    writeEmbeddingProviders(readProviders().map(({ apiKey: _apiKey, ...p }) => p));
+}
+
+export function saveEmbeddingProvider(provider: Omit<EmbeddingProvider, "id" | "createdAt">): EmbeddingProvider {
+    const created: EmbeddingProvider = {
+        ...provider,
+        id: `ep-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        createdAt: Date.now(),
+    };
+    writeEmbeddingProviders([...getEmbeddingProviders(), created]);
+    return created;
+}
+
+export function updateEmbeddingProvider(
+    id: string,
+    patch: Partial<Omit<EmbeddingProvider, "id" | "createdAt">>,
+): void {
+    writeEmbeddingProviders(getEmbeddingProviders().map((p) => (p.id === id ? { ...p, ...patch } : p)));
+}
+
+export function deleteEmbeddingProvider(id: string): void {
+    writeEmbeddingProviders(getEmbeddingProviders().filter((p) => p.id !== id));
+    const { profiles, collections } = readAssignments();
+    const keep = ([, value]: [string, string]) => value !== id;
+    writeAssignments({
+        profiles: Object.fromEntries(Object.entries(profiles).filter(keep)),
+        collections: Object.fromEntries(Object.entries(collections).filter(keep)),
+    });
+}
+
+// ── Assignment ───────────────────────────────────────────────────────
+
+export function getProfileProviderId(profileId: string | null): string | null {
+    return readAssignments().profiles[profileId ?? NO_PROFILE] ?? null;
+}
+
+export function setProfileProvider(profileId: string | null, providerId: string | null): void {
+    const assignments = readAssignments();
+    const key = profileId ?? NO_PROFILE;
+    if (providerId) assignments.profiles[key] = providerId;
+    else delete assignments.profiles[key];
+    writeAssignments(assignments);
+}
+
+/** Collection override: a provider id, SERVER_SIDE, or null to inherit the profile default. */
+export function getCollectionProviderId(collectionId: string): string | null {
+    return readAssignments().collections[collectionId] ?? null;
+}
+
+export function setCollectionProvider(collectionId: string, providerId: string | null): void {
+    const assignments = readAssignments();
+    if (providerId) assignments.collections[collectionId] = providerId;
+    else delete assignments.collections[collectionId];
+    writeAssignments(assignments);
+}
+
+/** Provider used for a collection, or null when Chroma should embed server-side. */
+export function resolveEmbeddingProvider(collectionId: string, profileId: string | null): EmbeddingProvider | null {
+    const id = getCollectionProviderId(collectionId) ?? getProfileProviderId(profileId);
+    if (!id || id === SERVER_SIDE) return null;
+    return getEmbeddingProviders().find((p) => p.id === id) ?? null;
+}
+
+// ── Store ────────────────────────────────────────────────────────────
+
+interface ProviderState {
+    providers: EmbeddingProvider[];
+    assignments: Assignments;
+}
+
+const store = createExternalStore<ProviderState>(() => ({
+    providers: getEmbeddingProviders(),
+    assignments: readAssignments(),
+}));
+const notify = store.notify;
+
+// Keys appear and disappear as the vault unlocks and locks
+subscribeVault(notify);
+
+export function useEmbeddingProviders(): ProviderState {
+    return useStore(store);
+}
+
+// ── Embedding ────────────────────────────────────────────────────────
+
+const OpenAIEmbeddingSchema = z.object({
+    data: z.array(z.object({ index: z.number(), embedding: z.array(z.number()) })),
+});
+
+const OllamaEmbeddingSchema = z.object({
+    embeddings: z.array(z.array(z.number())),
+});
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<unknown> {
+    let res: Response;
+    try {
+        res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(body),
+        });
+    } catch {
+        throw new Error(`Could not reach ${url} — check the URL and that the provider allows this origin (CORS)`);
+    }
+    if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`Embedding request failed (${res.status}): ${text.slice(0, 300) || res.statusText}`);
+    }
+    return res.json();
+}
+
+/** Embed `texts` with a provider, returning one vector per text in order. */
+export async function embedTexts(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const base = provider.url.replace(/\/+$/, "");
+    switch (provider.kind) {
+        case "openai": {
+            const json = await postJson(
+                `${base}/embeddings`,
+                { model: provider.model, input: texts },
+                provider.apiKey ? { Authorization: `Bearer ${provider.apiKey}` } : {},
+            );
+            const parsed = OpenAIEmbeddingSchema.safeParse(json);
+            if (!parsed.success) throw new Error("Unexpected response from embedding endpoint");
+            return [...parsed.data.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+        }
+        case "ollama": {
+            const json = await postJson(`${base}/api/embed`, { model: provider.model, input: texts });
+            const parsed = OllamaEmbeddingSchema.safeParse(json);
+            if (!parsed.success) throw new Error("Unexpected response from Ollama");
+            return parsed.data.embeddings;
+        }
+        case "manual":
+            throw new Error(`"${provider.name}" takes a pasted vector instead of text`);
+    }
+}
+
+/** Parse a pasted vector: a JSON array or numbers separated by commas/whitespace. */
+export function parseVector(text: string): number[] {
+    const trimmed = text.trim();
+    let values: unknown;
+    try {
+        values = trimmed.startsWith("[") ? JSON.parse(trimmed) : trimmed.split(/[\s,]+/).filter(Boolean).map(Number);
+    } catch {
+        throw new Error("Vector is not valid JSON");
+    }
+    if (!Array.isArray(values) || values.length === 0) throw new Error("Vector is empty");
+    if (!values.every((v) => typeof v === "number" && Number.isFinite(v))) {
+        throw new Error("Vector must contain only numbers");
+    }
+    return values as number[];
+}
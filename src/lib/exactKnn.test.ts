@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+    exactKnn,
+    recallHistogram,
+    scoreAnnQuery,
+    spaceDistance,
+    summarizeRecall,
+    type AnnQueryInput,
+} from "./exactKnn";
+
+describe("spaceDistance", () => {
+    it("uses squared L2", () => {
+        expect(spaceDistance("l2", [1, 2], [3, 4])).toBe(8);
+    });
+
+    it("uses 1 - dot product for ip, which can go negative", () => {
+        expect(spaceDistance("ip", [1, 0], [0.5, 0])).toBe(0.5);
+        expect(spaceDistance("ip", [2, 0], [1, 0])).toBe(-1);
+    });
+
+    it("ignores magnitude in cosine space", () => {
+        expect(spaceDistance("cosine", [1, 1], [3, 3])).toBeCloseTo(0, 10);
+        expect(spaceDistance("cosine", [1, 0], [0, 2])).toBeCloseTo(1, 10);
+    });
+
+    it("puts a zero vector at cosine distance 1", () => {
+        expect(spaceDistance("cosine", [0, 0], [1, 1])).toBe(1);
+    });
+});
+
+// Points at x = 0, 1, 2, 3 on the x axis, and "b2" at (0, 2): as far from "q" as "b"
+const corpusIds = ["q", "a", "b", "c", "b2"];
+const corpus = new Float32Array([0, 0, 1, 0, 2, 0, 3, 0, 0, 2]);
+const corpusIndex = new Map(corpusIds.map((id, i) => [id, i]));
+const vectorOf = (id: string) => {
+    const row = corpusIndex.get(id)!;
+    return Array.from(corpus.subarray(row * 2, row * 2 + 2));
+};
+
+describe("exactKnn", () => {
+    it("returns the nearest first and leaves out the query itself", () => {
+        const top = exactKnn("l2", [0, 0], 2, corpusIds, corpus, 2, "q");
+        expect(top).toEqual([
+            { id: "a", distance: 1 },
+            { id: "b", distance: 4 },
+        ]);
+    });
+
+    it("keeps the earlier record on a tie at rank k", () => {
+        const top = exactKnn("l2", [0, 0], 2, corpusIds, corpus, 2, "a");
+        expect(top.map((t) => t.id)).toEqual(["q", "b"]);
+    });
+
+    it("returns everything when k exceeds the corpus", () => {
+        expect(exactKnn("l2", [0, 0], 10, corpusIds, corpus, 2, "q")).toHaveLength(4);
+    });
+
+    it("returns nothing for an empty corpus", () => {
+        expect(exactKnn("l2", [0, 0], 3, [], new Float32Array(), 2, "q")).toEqual([]);
+    });
+
+    it("ranks extra vectors alongside the corpus", () => {
+        const top = exactKnn("l2", [0, 0], 2, corpusIds, corpus, 2, "q", [{ id: "z", vector: [0.5, 0] }]);
+        expect(top.map((t) => t.id)).toEqual(["z", "a"]);
+    });
+});
+
+describe("scoreAnnQuery", () => {
+    const query = (annIds: string[], annVectors?: (number[] | null)[]): AnnQueryInput => ({
+        id: "q",
+        vector: [0, 0],
+        annIds,
+        annVectors: annVectors ?? annIds.map(vectorOf),
+    });
+    const score = (input: AnnQueryInput, k = 2, ids = corpusIds, vectors = corpus, index = corpusIndex) =>
+        scoreAnnQuery("l2", input, k, ids, vectors, 2, index);
+
+    it("scores the exact neighbours 1", () => {
+        expect(score(query(["a", "b"]))).toMatchObject({ recall: 1, missed: [], exactIds: ["a", "b"] });
+    });
+
+    it("lists the neighbours the index missed", () => {
+        expect(score(query(["a", "c"]))).toMatchObject({ recall: 0.5, missed: ["b"] });
+    });
+
+    it("credits a result tied with the k-th exact neighbour", () => {
+        expect(score(query(["a", "b2"]))).toMatchObject({ recall: 1, missed: ["b"] });
+    });
+
+    it("only compares the first k returned results", () => {
+        expect(score(query(["c", "a", "b"])).recall).toBe(0.5);
+    });
+
+    it("adds returned records outside a sampled corpus to the exact search", () => {
+        const result = score(
+            query(["z", "a"], [
+                [0.5, 0],
+                [1, 0],
+            ]),
+        );
+        expect(result).toMatchObject({ recall: 1, exactIds: ["z", "a"], exactKthDistance: 1, annKthDistance: 1 });
+    });
+
+    it("cannot credit a non-exact result whose embedding is unknown", () => {
+        const result = score(query(["a", "b2"], [null, null]));
+        expect(result.recall).toBe(0.5);
+        expect(result.annKthDistance).toBeNull();
+    });
+
+    it("counts recall 1 when there is nothing to find", () => {
+        const result = score(query([]), 2, [], new Float32Array(), new Map());
+        expect(result).toMatchObject({ recall: 1, exactKthDistance: null, annKthDistance: null });
+    });
+});
+
+describe("summarizeRecall", () => {
+    it("is all zeros for no queries", () => {
+        expect(summarizeRecall([])).toEqual({ mean: 0, median: 0, p10: 0, min: 0, perfect: 0 });
+    });
+
+    it("takes order statistics from the sorted recalls", () => {
+        expect(summarizeRecall([1, 0.5, 0, 1])).toEqual({ mean: 0.625, median: 1, p10: 0, min: 0, perfect: 2 });
+    });
+});
+
+describe("recallHistogram", () => {
+    it("has ten empty buckets and a perfect bucket for no queries", () => {
+        const buckets = recallHistogram([]);
+        expect(buckets).toHaveLength(11);
+        expect(buckets.every((b) => b.count === 0)).toBe(true);
+        expect(buckets[10]!.label).toBe("1.0");
+    });
+
+    it("keeps near-perfect recall out of the perfect bucket", () => {
+        const buckets = recallHistogram([0, 0.05, 0.95, 0.999, 1, 1]);
+        expect(buckets.map((b) => b.count)).toEqual([2, 0, 0, 0, 0, 0, 0, 0, 0, 2, 2]);
+    });
+});
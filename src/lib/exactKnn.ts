@@ -0,0 +1,166 @@
+// ── Exact kNN ────────────────────────────────────────────────────────
+// Brute-force nearest neighbours in Chroma's distance spaces, and recall@k
+// of approximate results against them. Kept free of browser storage and
+// network imports so the ANN quality worker can load it.
+
+export type DistanceSpace = "l2" | "cosine" | "ip";
+
+/** Relative slack when comparing distances, so ties at rank k count as hits. */
+const TIE_TOLERANCE = 1e-6;
+
+/** Chroma's distance for `space`: squared L2, 1 − cosine similarity or 1 − dot product. */
+export function spaceDistance(space: DistanceSpace, a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let dot = 0;
+    let sq = 0;
+    let na = 0;
+    let nb = 0;
+    for (let i = 0; i < a.length; i++) {
+        const x = a[i]!;
+        const y = b[i]!;
+        dot += x * y;
+        sq += (x - y) * (x - y);
+        na += x * x;
+        nb += y * y;
+    }
+    if (space === "l2") return sq;
+    if (space === "ip") return 1 - dot;
+    return na === 0 || nb === 0 ? 1 : 1 - dot / Math.sqrt(na * nb);
+}
+
+export interface AnnQueryInput {
+    /** ID of the record whose embedding is the query; excluded from both result lists. */
+    id: string;
+    vector: number[];
+    /** Ranked IDs Chroma returned, self excluded. */
+    annIds: string[];
+    /** Embeddings of `annIds`, so records outside a sampled corpus still join the pool. */
+    annVectors: (number[] | null)[];
+}
+
+export interface AnnQueryResult {
+    id: string;
+    recall: number;
+    annIds: string[];
+    exactIds: string[];
+    /** Exact neighbours the index did not return. */
+    missed: string[];
+    annKthDistance: number | null;
+    exactKthDistance: number | null;
+}
+
+export interface RecallSummary {
+    mean: number;
+    median: number;
+    p10: number;
+    min: number;
+    /** Queries with recall 1. */
+    perfect: number;
+}
+
+export interface RecallBucket {
+    label: string;
+    count: number;
+}
+
+/** The k smallest distances from `query` over a flat row-major corpus plus extra vectors. */
+export function exactKnn(
+    space: DistanceSpace,
+    query: number[],
+    k: number,
+    corpusIds: string[],
+    corpus: Float32Array,
+    dims: number,
+    exclude: string,
+    extra: { id: string; vector: number[] }[] = [],
+): { id: string; distance: number }[] {
+    const top: { id: string; distance: number }[] = [];
+    const consider = (id: string, distance: number) => {
+        if (id === exclude) return;
+        if (top.length === k && distance >= top[k - 1]!.distance) return;
+        let i = top.length;
+        while (i > 0 && top[i - 1]!.distance > distance) i--;
+        top.splice(i, 0, { id, distance });
+        if (top.length > k) top.pop();
+    };
+
+    for (let r = 0; r < corpusIds.length; r++) {
+        consider(corpusIds[r]!, spaceDistance(space, query, corpus.subarray(r * dims, (r + 1) * dims)));
+    }
+    for (const e of extra) consider(e.id, spaceDistance(space, query, e.vector));
+    return top;
+}
+
+/**
+ * Recall@k of one approximate result list. The exact neighbours are taken
+ * over the corpus plus whatever the index returned, so with a sampled corpus
+ * the score is an upper bound: misses outside the sample go unseen.
+ */
+export function scoreAnnQuery(
+    space: DistanceSpace,
+    query: AnnQueryInput,
+    k: number,
+    corpusIds: string[],
+    corpus: Float32Array,
+    dims: number,
+    corpusIndex: Map<string, number>,
+): AnnQueryResult {
+    const extra: { id: string; vector: number[] }[] = [];
+    query.annIds.forEach((id, i) => {
+        const vector = query.annVectors[i];
+        if (vector && !corpusIndex.has(id)) extra.push({ id, vector });
+    });
+    const exact = exactKnn(space, query.vector, k, corpusIds, corpus, dims, query.id, extra);
+    const exactKthDistance = exact.length > 0 ? exact[exact.length - 1]!.distance : null;
+    const exactIds = exact.map((e) => e.id);
+    const exactSet = new Set(exactIds);
+
+    const annIds = query.annIds.slice(0, k);
+    const annDistances = annIds.map((_, i) => {
+        const vector = query.annVectors[i];
+        return vector ? spaceDistance(space, query.vector, vector) : null;
+    });
+    const limit = exactKthDistance === null ? null : exactKthDistance + Math.abs(exactKthDistance) * TIE_TOLERANCE + 1e-9;
+    const hits = annIds.filter((id, i) => {
+        if (exactSet.has(id)) return true;
+        const d = annDistances[i];
+        return d != null && limit !== null && d <= limit;
+    }).length;
+
+    const annSet = new Set(annIds);
+    return {
+        id: query.id,
+        recall: exact.length === 0 ? 1 : Math.min(hits, exact.length) / exact.length,
+        annIds,
+        exactIds,
+        missed: exactIds.filter((id) => !annSet.has(id)),
+        annKthDistance: annDistances.length > 0 ? (annDistances[annDistances.length - 1] ?? null) : null,
+        exactKthDistance,
+    };
+}
+
+export function summarizeRecall(recalls: number[]): RecallSummary {
+    if (recalls.length === 0) return { mean: 0, median: 0, p10: 0, min: 0, perfect: 0 };
+    const sorted = [...recalls].sort((a, b) => a - b);
+    const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]!;
+    return {
+        mean: sorted.reduce((s, v) => s + v, 0) / sorted.length,
+        median: at(0.5),
+        p10: at(0.1),
+        min: sorted[0]!,
+        perfect: sorted.filter((v) => v >= 1).length,
+    };
+}
+
+/** Recall counts in tenths, with perfect recall in its own bucket. */
+export function recallHistogram(recalls: number[]): RecallBucket[] {
+    const buckets: RecallBucket[] = Array.from({ length: 10 }, (_, i) => ({
+        label: `${(i / 10).toFixed(1)}–${((i + 1) / 10).toFixed(1)}`,
+        count: 0,
+    }));
+    buckets.push({ label: "1.0", count: 0 });
+    for (const r of recalls) {
+        if (r >= 1) buckets[10]!.count++;
+        else buckets[Math.min(9, Math.floor(r * 10))]!.count++;
+    }
+    return buckets;
+}
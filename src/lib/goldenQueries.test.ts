@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { logOperation } from "./auditLog";
+import { fetchQuery } from "./chromaClient";
+import {
+    buildGoldenReport,
+    diffGoldenResult,
+    jaccard,
+    rankBiasedOverlap,
+    runGoldenQueries,
+    type GoldenResult,
+    type GoldenSnapshot,
+} from "./goldenQueries";
+
+vi.mock("./chromaClient", () => ({ fetchQuery: vi.fn() }));
+vi.mock("./auditLog", () => ({ logOperation: vi.fn() }));
+
+const result = (key: string, ids: string[], distances: (number | null)[] = [], error?: string): GoldenResult => ({
+    key,
+    label: key,
+    ids,
+    distances,
+    error,
+});
+
+describe("jaccard", () => {
+    it("treats two empty lists as identical", () => {
+        expect(jaccard([], [])).toBe(1);
+    });
+
+    it("is 0 against an empty list", () => {
+        expect(jaccard(["a"], [])).toBe(0);
+    });
+
+    it("ignores order", () => {
+        expect(jaccard(["a", "b"], ["b", "a"])).toBe(1);
+    });
+
+    it("divides shared IDs by the union", () => {
+        expect(jaccard(["a", "b"], ["b", "c"])).toBeCloseTo(1 / 3, 10);
+    });
+});
+
+describe("rankBiasedOverlap", () => {
+    it("treats two empty lists as identical", () => {
+        expect(rankBiasedOverlap([], [])).toBe(1);
+    });
+
+    it("is 1 for identical rankings and 0 for disjoint ones", () => {
+        expect(rankBiasedOverlap(["a", "b", "c"], ["a", "b", "c"])).toBeCloseTo(1, 10);
+        expect(rankBiasedOverlap(["a", "b"], ["c", "d"])).toBe(0);
+    });
+
+    it("penalises a swap of the top two by 1 - p", () => {
+        expect(rankBiasedOverlap(["a", "b"], ["b", "a"])).toBeCloseTo(0.9, 10);
+        expect(rankBiasedOverlap(["a", "b"], ["b", "a"], 0.5)).toBeCloseTo(0.5, 10);
+    });
+
+    it("weights disagreement at the top more than at the bottom", () => {
+        const base = ["a", "b", "c", "d"];
+        const topSwapped = rankBiasedOverlap(base, ["b", "a", "c", "d"]);
+        const bottomSwapped = rankBiasedOverlap(base, ["a", "b", "d", "c"]);
+        expect(topSwapped).toBeLessThan(bottomSwapped);
+    });
+
+    it("handles lists of different lengths symmetrically", () => {
+        const a = ["a", "b", "c", "d"];
+        const b = ["c", "a", "e"];
+        expect(rankBiasedOverlap(a, b)).toBeCloseTo(rankBiasedOverlap(b, a), 10);
+    });
+});
+
+describe("diffGoldenResult", () => {
+    it("reports added, dropped and moved IDs and the distance shifts", () => {
+        const diff = diffGoldenResult(
+            result("q", ["a", "b", "c"], [0.1, 0.2, 0.3]),
+            result("q", ["b", "a", "d"], [0.15, 0.1, 0.4]),
+        );
+        expect(diff).toMatchObject({
+            added: ["d"],
+            dropped: ["c"],
+            reordered: [
+                { id: "a", from: 0, to: 1 },
+                { id: "b", from: 1, to: 0 },
+            ],
+            identical: false,
+        });
+        expect(diff.distanceShifts.map((s) => s.id)).toEqual(["b"]);
+        expect(diff.maxDistanceShift).toBeCloseTo(0.05, 10);
+    });
+
+    it("calls a result with only distance changes identical", () => {
+        const diff = diffGoldenResult(result("q", ["a"], [0.1]), result("q", ["a"], [0.3]));
+        expect(diff.identical).toBe(true);
+        expect(diff.maxDistanceShift).toBeCloseTo(0.2, 10);
+    });
+
+    it("skips distance shifts where either side has no distance", () => {
+        const diff = diffGoldenResult(result("q", ["a"], [null]), result("q", ["a"], [0.3]));
+        expect(diff.distanceShifts).toEqual([]);
+        expect(diff.maxDistanceShift).toBe(0);
+    });
+
+    it("flags a query missing from the new run", () => {
+        const diff = diffGoldenResult(result("q", ["a"]), undefined);
+        expect(diff).toMatchObject({ error: "Query missing from the new run", dropped: ["a"], identical: false });
+    });
+
+    it("never calls a failed query identical", () => {
+        expect(diffGoldenResult(result("q", []), result("q", [], [], "timeout")).identical).toBe(false);
+    });
+});
+
+describe("buildGoldenReport", () => {
+    const snapshot: GoldenSnapshot = {
+        id: "gs-1",
+        name: "baseline",
+        collectionId: "c1",
+        collectionName: "docs",
+        queries: [],
+        results: [result("same", ["a", "b"]), result("changed", ["a", "b"]), result("failed", ["a"])],
+        providerName: null,
+        createdAt: 0,
+    };
+
+    it("leaves failed queries out of the mean scores", () => {
+        const report = buildGoldenReport(snapshot, [
+            result("same", ["a", "b"]),
+            result("changed", ["c", "d"]),
+            result("failed", [], [], "timeout"),
+        ]);
+        expect(report.summary).toEqual({ queries: 3, identical: 1, meanJaccard: 0.5, meanRbo: 0.5 });
+    });
+
+    it("scores zero when every query failed", () => {
+        const report = buildGoldenReport({ ...snapshot, results: [result("failed", ["a"])] }, []);
+        expect(report.summary).toEqual({ queries: 1, identical: 0, meanJaccard: 0, meanRbo: 0 });
+    });
+});
+
+describe("runGoldenQueries", () => {
+    beforeEach(() => {
+        vi.mocked(fetchQuery).mockReset();
+        vi.mocked(logOperation).mockReset();
+    });
+
+    it("keys each text of a batch query separately", async () => {
+        vi.mocked(fetchQuery).mockResolvedValue({ ids: [["a"], ["b"]], distances: [[0.1], null] });
+        const results = await runGoldenQueries(
+            "c1",
+            "docs",
+            [{ name: "pets", spec: { texts: ["cat", "dog"], nResults: 1, include: [] } }],
+            { provider: null, embeddingDims: null },
+        );
+        expect(results).toEqual([
+            { key: "pets#1", label: "pets · cat", ids: ["a"], distances: [0.1] },
+            { key: "pets#2", label: "pets · dog", ids: ["b"], distances: [null] },
+        ]);
+    });
+
+    it("records a failure under every key of the batch", async () => {
+        vi.mocked(fetchQuery).mockRejectedValue(new Error("server down"));
+        const results = await runGoldenQueries(
+            "c1",
+            "docs",
+            [{ name: "pets", spec: { texts: ["cat", "dog"], nResults: 1, include: [] } }],
+            { provider: null, embeddingDims: null },
+        );
+        expect(results.map((r) => [r.key, r.error])).toEqual([
+            ["pets#1", "server down"],
+            ["pets#2", "server down"],
+        ]);
+    });
+
+    it("logs one audit entry for the whole run", async () => {
+        vi.mocked(fetchQuery).mockResolvedValue({ ids: [["a"]] });
+        await runGoldenQueries(
+            "c1",
+            "docs",
+            [
+                { name: "cats", spec: { text: "cat", nResults: 1, include: [] } },
+                { name: "dogs", spec: { text: "dog", nResults: 1, include: [] } },
+            ],
+            { provider: null, embeddingDims: null },
+        );
+        expect(fetchQuery).toHaveBeenCalledTimes(2);
+        expect(logOperation).toHaveBeenCalledTimes(1);
+        expect(logOperation).toHaveBeenCalledWith("golden_run", expect.objectContaining({
+            collection: "docs",
+            details: "queries=2 results=2",
+            status: "success",
+        }));
+    });
+
+    it("rejects a saved vector of the wrong dimensionality", async () => {
+        const [res] = await runGoldenQueries(
+            "c1",
+            "docs",
+            [{ name: "vec", spec: { vector: [1, 2], nResults: 1, include: [] } }],
+            { provider: null, embeddingDims: 3 },
+        );
+        expect(res).toMatchObject({ key: "vec", error: "Query vector has 2 dimensions but the collection expects 3" });
+        expect(fetchQuery).not.toHaveBeenCalled();
+    });
+});
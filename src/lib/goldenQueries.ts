@@ -0,0 +1,270 @@
+// ── Golden Queries ───────────────────────────────────────────────────
+// Regression snapshots of query results. A snapshot records the ranked IDs
+// and distances of a set of saved queries; re-running it later diffs the
+// new results against the snapshot so silent changes after a re-index,
+// upgrade or embedding-model switch show up as added, dropped and
+// re-ordered results with a stability score.
+
+import { createLocalStore, useStore } from "./localStore";
+import { fetchQuery } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import { embedTexts, type EmbeddingProvider } from "./embeddingProviders";
+import type { QuerySpec } from "./zodSchemas";
+import type { ChromaScope } from "./storage";
+
+const SNAPSHOTS_KEY = "chroma-admin:goldenSnapshots";
+
+/** Persistence for rank-biased overlap; 0.9 weights roughly the top 10 results. */
+const RBO_P = 0.9;
+
+export interface GoldenQuery {
+    name: string;
+    spec: QuerySpec;
+}
+
+/** Ranked results of one query; a batch spec yields one result per text. */
+export interface GoldenResult {
+    key: string;
+    label: string;
+    ids: string[];
+    distances: (number | null)[];
+    error?: string;
+}
+
+export interface GoldenSnapshot {
+    id: string;
+    name: string;
+    collectionId: string;
+    collectionName: string;
+    queries: GoldenQuery[];
+    results: GoldenResult[];
+    providerName: string | null;
+    createdAt: number;
+    tenant?: string;
+    database?: string;
+}
+
+export interface DistanceShift {
+    id: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface GoldenQueryDiff {
+    key: string;
+    label: string;
+    added: string[];
+    dropped: string[];
+    /** Results present in both runs at a different rank (0-based). */
+    reordered: { id: string; from: number; to: number }[];
+    distanceShifts: DistanceShift[];
+    maxDistanceShift: number;
+    jaccard: number;
+    rbo: number;
+    identical: boolean;
+    error?: string;
+}
+
+export interface GoldenReport {
+    generatedAt: string;
+    collectionName: string;
+    snapshot: { name: string; createdAt: string };
+    summary: { queries: number; identical: number; meanJaccard: number; meanRbo: number };
+    queries: GoldenQueryDiff[];
+}
+
+// ── Execution ────────────────────────────────────────────────────────
+
+export interface GoldenRunOptions {
+    provider: EmbeddingProvider | null;
+    embeddingDims: number | null;
+    scope?: ChromaScope;
+    onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Run each golden query and collect its ranked IDs and distances; failures are
+ * kept as errors. One audit entry covers the whole run.
+ */
+export async function runGoldenQueries(
+    collectionId: string,
+    collectionName: string,
+    queries: GoldenQuery[],
+    options: GoldenRunOptions,
+): Promise<GoldenResult[]> {
+    const { provider, embeddingDims, scope } = options;
+    const start = Date.now();
+    const results: GoldenResult[] = [];
+
+    for (let q = 0; q < queries.length; q++) {
+        const { name, spec } = queries[q]!;
+        const texts = spec.texts ?? (spec.text !== undefined ? [spec.text] : []);
+        const labelOf = (i: number) => (spec.texts ? `${name} · ${texts[i]}` : name);
+        const keyOf = (i: number) => (spec.texts ? `${name}#${i + 1}` : name);
+        try {
+            let embeddings: number[][] | null = spec.vector ? [spec.vector] : null;
+            if (!embeddings && provider) {
+                if (provider.kind === "manual") throw new Error(`"${provider.name}" cannot embed query text`);
+                embeddings = await embedTexts(provider, texts);
+            }
+            const mismatch = embeddings?.find((e) => embeddingDims !== null && e.length !== embeddingDims);
+            if (mismatch) {
+                throw new Error(`Query vector has ${mismatch.length} dimensions but the collection expects ${embeddingDims}`);
+            }
+
+            const resp = await fetchQuery(collectionId, {
+                ...(embeddings ? { query_embeddings: embeddings } : { query_texts: texts }),
+                n_results: spec.nResults,
+                include: ["distances"],
+                where: spec.where,
+                where_document: spec.whereDocument,
+            }, scope);
+
+            resp.ids.forEach((ids, i) => {
+                results.push({
+                    key: keyOf(i),
+                    label: labelOf(i),
+                    ids,
+                    distances: ids.map((_, j) => resp.distances?.[i]?.[j] ?? null),
+                });
+            });
+        } catch (err) {
+            // Keep the per-text keys of a batch so the failure lines up with the snapshot
+            for (let i = 0; i < (spec.texts ? texts.length : 1); i++) {
+                results.push({ key: keyOf(i), label: labelOf(i), ids: [], distances: [], error: (err as Error).message });
+            }
+        }
+        options.onProgress?.(q + 1, queries.length);
+    }
+
+    const failed = results.filter((r) => r.error).length;
+    logOperation("golden_run", {
+        collection: collectionName,
+        details: `queries=${queries.length} results=${results.length}` +
+            (failed > 0 ? `, ${failed} failed` : ""),
+        status: failed > 0 ? "error" : "success",
+        durationMs: Date.now() - start,
+    });
+    return results;
+}
+
+// ── Comparison ───────────────────────────────────────────────────────
+
+export function jaccard(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const union = new Set([...a, ...b]).size;
+    if (union === 0) return 1;
+    let shared = 0;
+    for (const id of setA) if (setB.has(id)) shared++;
+    return shared / union;
+}
+
+/**
+ * Extrapolated rank-biased overlap (Webber et al., 2010) of two rankings,
+ * evaluated to the depth of the longer list. 1 means identical order.
+ */
+export function rankBiasedOverlap(a: string[], b: string[], p = RBO_P): number {
+    const depth = Math.max(a.length, b.length);
+    if (depth === 0) return 1;
+    const seenA = new Set<string>();
+    const seenB = new Set<string>();
+    let overlap = 0;
+    let sum = 0;
+    for (let d = 1; d <= depth; d++) {
+        const x = a[d - 1];
+        const y = b[d - 1];
+        if (x !== undefined && x === y) {
+            overlap++;
+        } else {
+            if (x !== undefined && seenB.has(x)) overlap++;
+            if (y !== undefined && seenA.has(y)) overlap++;
+        }
+        if (x !== undefined) seenA.add(x);
+        if (y !== undefined) seenB.add(y);
+        sum += (overlap / d) * p ** d;
+    }
+    return (overlap / depth) * p ** depth + ((1 - p) / p) * sum;
+}
+
+export function diffGoldenResult(before: GoldenResult, after: GoldenResult | undefined): GoldenQueryDiff {
+    const error = before.error ?? after?.error ?? (after ? undefined : "Query missing from the new run");
+    const current = after?.ids ?? [];
+    const beforeRank = new Map(before.ids.map((id, i) => [id, i]));
+    const afterRank = new Map(current.map((id, i) => [id, i]));
+
+    const reordered: GoldenQueryDiff["reordered"] = [];
+    const distanceShifts: DistanceShift[] = [];
+    for (const [id, from] of beforeRank) {
+        const to = afterRank.get(id);
+        if (to === undefined) continue;
+        if (to !== from) reordered.push({ id, from, to });
+        const d0 = before.distances[from];
+        const d1 = after!.distances[to];
+        if (d0 != null && d1 != null && d0 !== d1) {
+            distanceShifts.push({ id, before: d0, after: d1, delta: d1 - d0 });
+        }
+    }
+    distanceShifts.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+    const added = current.filter((id) => !beforeRank.has(id));
+    const dropped = before.ids.filter((id) => !afterRank.has(id));
+    return {
+        key: before.key,
+        label: before.label,
+        added,
+        dropped,
+        reordered,
+        distanceShifts,
+        maxDistanceShift: distanceShifts.length > 0 ? Math.abs(distanceShifts[0]!.delta) : 0,
+        jaccard: jaccard(before.ids, current),
+        rbo: rankBiasedOverlap(before.ids, current),
+        identical: !error && added.length === 0 && dropped.length === 0 && reordered.length === 0,
+        error,
+    };
+}
+
+/** Diff a re-run against its snapshot. */
+export function buildGoldenReport(snapshot: GoldenSnapshot, results: GoldenResult[]): GoldenReport {
+    const byKey = new Map(results.map((r) => [r.key, r]));
+    const queries = snapshot.results.map((r) => diffGoldenResult(r, byKey.get(r.key)));
+    const scored = queries.filter((q) => !q.error);
+    const mean = (f: (q: GoldenQueryDiff) => number) =>
+        scored.length === 0 ? 0 : scored.reduce((s, q) => s + f(q), 0) / scored.length;
+    return {
+        generatedAt: new Date().toISOString(),
+        collectionName: snapshot.collectionName,
+        snapshot: { name: snapshot.name, createdAt: new Date(snapshot.createdAt).toISOString() },
+        summary: {
+            queries: queries.length,
+            identical: queries.filter((q) => q.identical).length,
+            meanJaccard: mean((q) => q.jaccard),
+            meanRbo: mean((q) => q.rbo),
+        },
+        queries,
+    };
+}
+
+// ── Snapshots ────────────────────────────────────────────────────────
+
+const store = createLocalStore<GoldenSnapshot>(SNAPSHOTS_KEY, (a, b) => b.createdAt - a.createdAt);
+
+/** Every golden snapshot, newest first. */
+export function useGoldenSnapshots(): GoldenSnapshot[] {
+    return useStore(store);
+}
+
+export function saveGoldenSnapshot(snapshot: Omit<GoldenSnapshot, "id" | "createdAt">): GoldenSnapshot {
+    const saved: GoldenSnapshot = {
+        ...snapshot,
+        id: `gs-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        createdAt: Date.now(),
+    };
+    store.write([...store.read(), saved]);
+    return saved;
+}
+
+export function deleteGoldenSnapshot(id: string): void {
+    store.write(store.read().filter((s) => s.id !== id));
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createExternalStore, createLocalStore, StorageFullError } from "./localStore";
+
+describe("createLocalStore", () => {
+    beforeEach(() => localStorage.clear());
+    afterEach(() => vi.restoreAllMocks());
+
+    it("reads a missing key as an empty list", () => {
+        expect(createLocalStore("missing").getSnapshot()).toEqual([]);
+    });
+
+    it("reads corrupt JSON as an empty list", () => {
+        localStorage.setItem("corrupt", "{not json");
+        expect(createLocalStore("corrupt").read()).toEqual([]);
+    });
+
+    it("sorts snapshots but leaves read() in stored order", () => {
+        const store = createLocalStore<number>("numbers", (a, b) => a - b);
+        store.write([3, 1, 2]);
+        expect(store.getSnapshot()).toEqual([1, 2, 3]);
+        expect(store.read()).toEqual([3, 1, 2]);
+    });
+
+    it("keeps the same snapshot until a write", () => {
+        const store = createLocalStore<number>("stable");
+        const first = store.getSnapshot();
+        expect(store.getSnapshot()).toBe(first);
+        store.write([1]);
+        expect(store.getSnapshot()).not.toBe(first);
+        expect(store.getSnapshot()).toEqual([1]);
+    });
+
+    it("notifies subscribers on write until they unsubscribe", () => {
+        const store = createLocalStore<number>("subscribed");
+        const listener = vi.fn();
+        const unsubscribe = store.subscribe(listener);
+        store.write([1]);
+        unsubscribe();
+        store.write([2]);
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports a full store without notifying subscribers", () => {
+        const store = createLocalStore<number>("full");
+        const listener = vi.fn();
+        store.subscribe(listener);
+        vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+            throw new DOMException("quota", "QuotaExceededError");
+        });
+        expect(() => store.write([1])).toThrow(StorageFullError);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("rethrows other storage errors unchanged", () => {
+        const store = createLocalStore<number>("broken");
+        vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+            throw new DOMException("denied", "SecurityError");
+        });
+        expect(() => store.write([1])).toThrow("denied");
+    });
+});
+
+describe("createExternalStore", () => {
+    it("recomputes only after notify", () => {
+        let value = 1;
+        const compute = vi.fn(() => ({ value }));
+        const store = createExternalStore(compute);
+        store.getSnapshot();
+        value = 2;
+        expect(store.getSnapshot()).toEqual({ value: 1 });
+        store.notify();
+        expect(store.getSnapshot()).toEqual({ value: 2 });
+        expect(compute).toHaveBeenCalledTimes(2);
+    });
+});
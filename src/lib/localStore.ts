@@ -0,0 +1,89 @@
+// ── Local Store ──────────────────────────────────────────────────────
+// Cached snapshots for React's useSyncExternalStore, and the JSON lists in
+// localStorage that most feature modules persist through them.
+
+import { useSyncExternalStore } from "react";
+
+export interface ExternalStore<S> {
+    subscribe: (listener: () => void) => () => void;
+    /** Cached until the next `notify`, so React sees a stable value. */
+    getSnapshot: () => S;
+    /** Drop the cached snapshot and re-render subscribers. */
+    notify: () => void;
+}
+
+export interface LocalStore<T> extends ExternalStore<T[]> {
+    /** The stored list as a fresh, unsorted array; empty if missing or corrupt. */
+    read: () => T[];
+    /** Replace the stored list; throws `StorageFullError` if it does not fit. */
+    write: (items: T[]) => void;
+}
+
+/** Thrown by `write` when localStorage has no room left for the list. */
+export class StorageFullError extends Error {
+    key: string;
+    constructor(key: string) {
+        super(`Browser storage is full; could not save ${key}`);
+        this.name = "StorageFullError";
+        this.key = key;
+    }
+}
+
+function isQuotaExceeded(err: unknown): boolean {
+    // Firefox used its own name for the error before adopting the standard one
+    return (
+        err instanceof DOMException &&
+        (err.name === "QuotaExceededError" || err.name === "NS_ERROR_DOM_QUOTA_REACHED")
+    );
+}
+
+export function createExternalStore<S>(compute: () => S): ExternalStore<S> {
+    const listeners = new Set<() => void>();
+    let snapshot: { value: S } | null = null;
+
+    return {
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        getSnapshot: () => {
+            if (!snapshot) snapshot = { value: compute() };
+            return snapshot.value;
+        },
+        notify: () => {
+            snapshot = null;
+            listeners.forEach((l) => l());
+        },
+    };
+}
+
+/** A JSON array kept under `key`; snapshots are sorted with `sort` when given. */
+export function createLocalStore<T>(key: string, sort?: (a: T, b: T) => number): LocalStore<T> {
+    const read = (): T[] => {
+        try {
+            const raw = localStorage.getItem(key);
+            return raw ? (JSON.parse(raw) as T[]) : [];
+        } catch {
+            return [];
+        }
+    };
+    const store = createExternalStore(() => (sort ? read().sort(sort) : read()));
+
+    return {
+        ...store,
+        read,
+        write: (items) => {
+            try {
+                localStorage.setItem(key, JSON.stringify(items));
+            } catch (err) {
+                throw isQuotaExceeded(err) ? new StorageFullError(key) : err;
+            }
+            store.notify();
+        },
+    };
+}
+
+/** Subscribe a component to a store; it re-renders on every change. */
+export function useStore<S>(store: ExternalStore<S>): S {
+    return useSyncExternalStore(store.subscribe, store.getSnapshot);
+}
@@ -0,0 +1,134 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+    getProfiles,
+    getActiveProfileId,
+    saveProfile,
+    updateProfile,
+    duplicateProfile,
+    deleteProfile,
+    applyProfile,
+    clearActiveProfile,
+    profileScope,
+    type ServerProfile,
+} from "./storage";
+import { useSetScope } from "./scopeContext";
+import { isVaultLocked, requestVaultUnlock, subscribeVault } from "./vault";
+import { useConnectionStatus } from "./connectionContext";
+
+type ProfileDraft = Omit<ServerProfile, "id" | "createdAt">;
+
+interface ProfileContextValue {
+    profiles: ServerProfile[];
+    activeProfile: ServerProfile | null;
+    create: (draft: ProfileDraft) => ServerProfile;
+    update: (id: string, patch: Partial<ProfileDraft>) => void;
+    duplicate: (id: string) => void;
+    remove: (id: string) => void;
+    /** Apply a profile's connection settings and drop data cached from the previous server. */
+    switchTo: (profile: ServerProfile) => void;
+    /** Forget which profile is active, e.g. after connecting with ad-hoc settings. */
+    clearActive: () => void;
+}
+
+const ProfileContext = createContext<ProfileContextValue>({
+    profiles: [],
+    activeProfile: null,
+    create: saveProfile,
+    update: () => { },
+    duplicate: () => { },
+    remove: () => { },
+    switchTo: () => { },
+    clearActive: () => { },
+});
+
+export function ProfileProvider({ children }: { children: ReactNode }) {
+    const queryClient = useQueryClient();
+    const setScope = useSetScope();
+    const { checkNow } = useConnectionStatus();
+    const [profiles, setProfiles] = useState<ServerProfile[]>(() => getProfiles());
+    const [activeId, setActiveId] = useState<string | null>(() => getActiveProfileId());
+
+    const refresh = useCallback(() => {
+        setProfiles(getProfiles());
+        setActiveId(getActiveProfileId());
+    }, []);
+
+    // Profile credentials appear and disappear as the vault unlocks and locks
+    useEffect(() => subscribeVault(refresh), [refresh]);
+
+    const create = useCallback(
+        (draft: ProfileDraft) => {
+            const profile = saveProfile(draft);
+            refresh();
+            return profile;
+        },
+        [refresh],
+    );
+
+    const update = useCallback(
+        (id: string, patch: Partial<ProfileDraft>) => {
+            updateProfile(id, patch);
+            refresh();
+        },
+        [refresh],
+    );
+
+    const duplicate = useCallback(
+        (id: string) => {
+            duplicateProfile(id);
+            refresh();
+        },
+        [refresh],
+    );
+
+    const remove = useCallback(
+        (id: string) => {
+            deleteProfile(id);
+            refresh();
+        },
+        [refresh],
+    );
+
+    const switchTo = useCallback(
+        (profile: ServerProfile) => {
+            if (isVaultLocked()) {
+                requestVaultUnlock();
+                return;
+            }
+            applyProfile(profile);
+            setScope(profileScope(profile));
+            refresh();
+            // Cached results belong to the previous server
+            queryClient.removeQueries({ type: "inactive" });
+            void queryClient.invalidateQueries();
+            checkNow();
+        },
+        [queryClient, setScope, checkNow, refresh],
+    );
+
+    const clearActive = useCallback(() => {
+        clearActiveProfile();
+        refresh();
+    }, [refresh]);
+
+    const value = useMemo<ProfileContextValue>(
+        () => ({
+            profiles,
+            activeProfile: profiles.find((p) => p.id === activeId) ?? null,
+            create,
+            update,
+            duplicate,
+            remove,
+            switchTo,
+            clearActive,
+        }),
+        [profiles, activeId, create, update, duplicate, remove, switchTo, clearActive],
+    );
+
+    return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+}
+
+export function useProfiles(): ProfileContextValue {
+    return useContext(ProfileContext);
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+    clearCollectionLabels,
+    labelQueryId,
+    setJudgement,
+    toEvalJsonl,
+    toQrels,
+    type LabelledQuery,
+} from "./relevanceLabels";
+import { parseEvalQueries } from "./retrievalEval";
+
+const stored = () => JSON.parse(localStorage.getItem("chroma-admin:relevanceLabels") ?? "[]") as LabelledQuery[];
+
+describe("labelQueryId", () => {
+    it("is an 8-digit hex topic id", () => {
+        expect(labelQueryId({ text: "cats" })).toMatch(/^q[0-9a-f]{8}$/);
+    });
+
+    it("ignores surrounding whitespace in the text", () => {
+        expect(labelQueryId({ text: "  cats\n" })).toBe(labelQueryId({ text: "cats" }));
+    });
+
+    it("tells a text from a vector with the same characters", () => {
+        expect(labelQueryId({ text: "1,2" })).not.toBe(labelQueryId({ vector: [1, 2] }));
+    });
+
+    it("hashes an empty query without failing", () => {
+        expect(labelQueryId({})).toBe(labelQueryId({ vector: [] }));
+    });
+});
+
+describe("setJudgement", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("creates a labelled query with the trimmed text", () => {
+        setJudgement("c1", "docs", { text: " cats " }, "a", 2);
+        expect(stored()).toMatchObject([{ collectionId: "c1", text: "cats", judgements: { a: 2 } }]);
+    });
+
+    it("regrades and adds results on the same query", () => {
+        setJudgement("c1", "docs", { text: "cats" }, "a", 2);
+        setJudgement("c1", "docs", { text: "cats" }, "a", 0);
+        setJudgement("c1", "docs", { text: "cats" }, "b", 1);
+        expect(stored()).toHaveLength(1);
+        expect(stored()[0]!.judgements).toEqual({ a: 0, b: 1 });
+    });
+
+    it("drops the query when its last judgement is cleared", () => {
+        setJudgement("c1", "docs", { text: "cats" }, "a", 2);
+        setJudgement("c1", "docs", { text: "cats" }, "a", null);
+        expect(stored()).toEqual([]);
+    });
+
+    it("keeps the same query separate per collection", () => {
+        setJudgement("c1", "docs", { text: "cats" }, "a", 2);
+        setJudgement("c2", "other", { text: "cats" }, "a", 1);
+        clearCollectionLabels("c1");
+        expect(stored()).toMatchObject([{ collectionId: "c2", judgements: { a: 1 } }]);
+    });
+
+    it("stores a vector query without a text", () => {
+        setJudgement("c1", "docs", { vector: [0.5, 0.25] }, "a", 1);
+        const [query] = stored();
+        expect(query!.vector).toEqual([0.5, 0.25]);
+        expect(query).not.toHaveProperty("text");
+    });
+});
+
+describe("export", () => {
+    const labelled = (id: string, query: Partial<LabelledQuery>, judgements: LabelledQuery["judgements"]) => ({
+        id,
+        collectionId: "c1",
+        collectionName: "docs",
+        judgements,
+        updatedAt: 0,
+        ...query,
+    });
+
+    it("writes nothing for no labels", () => {
+        expect(toQrels([])).toBe("");
+        expect(toEvalJsonl([])).toBe("");
+    });
+
+    it("writes one qrels line per judgement, irrelevant ones included", () => {
+        const qrels = toQrels([
+            labelled("q1", { text: "cats" }, { a: 2, b: 0 }),
+            labelled("q2", { text: "dogs" }, { c: 1 }),
+        ]);
+        expect(qrels).toBe("q1 0 a 2\nq1 0 b 0\nq2 0 c 1");
+    });
+
+    it("writes JSONL the Evaluate tab reads back", () => {
+        const jsonl = toEvalJsonl([
+            labelled("q1", { text: "cats" }, { a: 2 }),
+            labelled("q2", { vector: [1, 0] }, { b: 1 }),
+        ]);
+        expect(parseEvalQueries(jsonl)).toEqual([
+            { id: "q1", text: "cats", embedding: undefined, judgements: { a: 2 } },
+            { id: "q2", text: undefined, embedding: [1, 0], judgements: { b: 1 } },
+        ]);
+    });
+});
@@ -0,0 +1,108 @@
+// ── Relevance Labels ─────────────────────────────────────────────────
+// Graded relevance judgements on query results, kept per collection and
+// query in localStorage. Labelled queries export as TREC qrels or as JSONL
+// in the evaluation-set format the Evaluate tab reads.
+
+import { createLocalStore, useStore } from "./localStore";
+
+const LABELS_KEY = "chroma-admin:relevanceLabels";
+
+export type RelevanceGrade = 0 | 1 | 2;
+
+export const RELEVANCE_GRADES: { grade: RelevanceGrade; label: string; shortcut: string; color: string }[] = [
+    { grade: 2, label: "Relevant", shortcut: "2", color: "var(--color-success)" },
+    { grade: 1, label: "Partially relevant", shortcut: "1", color: "var(--color-warning)" },
+    { grade: 0, label: "Irrelevant", shortcut: "0", color: "var(--color-error)" },
+];
+
+/** What identifies a query: its text, or the vector it was run with. */
+export interface LabelQuery {
+    text?: string;
+    vector?: number[];
+}
+
+export interface LabelledQuery extends LabelQuery {
+    /** Stable id derived from the query, used as the qrels topic id. */
+    id: string;
+    collectionId: string;
+    collectionName: string;
+    judgements: Record<string, RelevanceGrade>;
+    updatedAt: number;
+}
+
+/** FNV-1a hash of the query text or vector, as an 8-digit hex topic id. */
+export function labelQueryId(query: LabelQuery): string {
+    const source = query.text !== undefined ? `t:${query.text.trim()}` : `v:${(query.vector ?? []).join(",")}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < source.length; i++) {
+        hash ^= source.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `q${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+const store = createLocalStore<LabelledQuery>(LABELS_KEY, (a, b) => b.updatedAt - a.updatedAt);
+
+/** Every labelled query, most recently labelled first. */
+export function useRelevanceLabels(): LabelledQuery[] {
+    return useStore(store);
+}
+
+/** Record (or with `null`, clear) the grade of one result for a query. */
+export function setJudgement(
+    collectionId: string,
+    collectionName: string,
+    query: LabelQuery,
+    itemId: string,
+    grade: RelevanceGrade | null,
+): void {
+    const id = labelQueryId(query);
+    const all = store.read();
+    const existing = all.find((q) => q.collectionId === collectionId && q.id === id);
+    const judgements = { ...existing?.judgements };
+    if (grade === null) delete judgements[itemId];
+    else judgements[itemId] = grade;
+
+    const rest = all.filter((q) => q !== existing);
+    if (Object.keys(judgements).length === 0) {
+        store.write(rest);
+        return;
+    }
+    store.write([
+        ...rest,
+        {
+            id,
+            collectionId,
+            collectionName,
+            ...(query.text !== undefined ? { text: query.text.trim() } : { vector: query.vector }),
+            judgements,
+            updatedAt: Date.now(),
+        },
+    ]);
+}
+
+export function clearCollectionLabels(collectionId: string): void {
+    store.write(store.read().filter((q) => q.collectionId !== collectionId));
+}
+
+// ── Export ───────────────────────────────────────────────────────────
+
+/** TREC qrels: `topic 0 docid grade`, one judgement per line. */
+export function toQrels(queries: LabelledQuery[]): string {
+    return queries
+        .flatMap((q) => Object.entries(q.judgements).map(([docId, grade]) => `${q.id} 0 ${docId} ${grade}`))
+        .join("\n");
+}
+
+/** One JSON object per query with graded `relevant` judgements, as read by the Evaluate tab. */
+export function toEvalJsonl(queries: LabelledQuery[]): string {
+    return queries
+        .map((q) =>
+            JSON.stringify({
+                id: q.id,
+                ...(q.text !== undefined ? { text: q.text } : { embedding: q.vector }),
+                relevant: q.judgements,
+            }),
+        )
+        .join("\n");
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { bm25Scores, hybridRerank, tokenize, type RerankOptions } from "./rerank";
+
+const candidate = (id: string, distance: number | null, document: string | null) => ({ id, distance, document });
+const ids = (items: { item: { id: string } }[]) => items.map((r) => r.item.id);
+
+const RRF: RerankOptions = { method: "rrf", alpha: 0.5, rrfK: 60 };
+const weighted = (alpha: number): RerankOptions => ({ method: "weighted", alpha, rrfK: 60 });
+
+describe("tokenize", () => {
+    it("lower-cases and splits on anything but letters and digits", () => {
+        expect(tokenize("Hello, World! gpt-4o")).toEqual(["hello", "world", "gpt", "4o"]);
+    });
+
+    it("keeps non-ASCII letters", () => {
+        expect(tokenize("Straße Ünïcode")).toEqual(["straße", "ünïcode"]);
+    });
+
+    it("returns nothing for punctuation only", () => {
+        expect(tokenize(" ... ")).toEqual([]);
+    });
+});
+
+describe("bm25Scores", () => {
+    it("scores nothing when the query has no terms", () => {
+        expect(bm25Scores("!!", ["cat", "dog"])).toEqual([0, 0]);
+    });
+
+    it("scores null and non-matching documents zero", () => {
+        expect(bm25Scores("cat", ["dog", null])).toEqual([0, 0]);
+    });
+
+    it("favours the shorter document at equal term frequency", () => {
+        const [short, long] = bm25Scores("cat", ["cat", "cat on a very long mat today", "dog"]);
+        expect(short).toBeGreaterThan(long!);
+    });
+
+    it("favours the rarer term", () => {
+        const [rare, common] = bm25Scores("tiger cat", ["tiger", "cat", "cat", "cat"]);
+        expect(rare).toBeGreaterThan(common!);
+    });
+
+    it("counts a repeated query term once", () => {
+        const docs = ["cat", "dog"];
+        expect(bm25Scores("cat cat cat", docs)).toEqual(bm25Scores("cat", docs));
+    });
+});
+
+describe("hybridRerank", () => {
+    const candidates = [
+        candidate("x", 0.1, "nothing relevant"),
+        candidate("y", 0.2, "nothing here either"),
+        candidate("z", 0.3, "the keyword appears"),
+    ];
+
+    it("returns nothing for no candidates", () => {
+        expect(hybridRerank([], "keyword")).toEqual([]);
+    });
+
+    it("keeps the vector order when no document matches", () => {
+        const reranked = hybridRerank(candidates, "absent", RRF);
+        expect(reranked.map((r) => [r.item.id, r.vectorRank, r.rank])).toEqual([
+            ["x", 0, 0],
+            ["y", 1, 1],
+            ["z", 2, 2],
+        ]);
+    });
+
+    it("lifts a keyword match above vector-only results with RRF", () => {
+        expect(ids(hybridRerank(candidates, "keyword", RRF))).toEqual(["z", "x", "y"]);
+    });
+
+    it("follows the vector order with alpha 1 and BM25 with alpha 0", () => {
+        expect(ids(hybridRerank(candidates, "keyword", weighted(1)))).toEqual(["x", "y", "z"]);
+        expect(ids(hybridRerank(candidates, "keyword", weighted(0)))).toEqual(["z", "x", "y"]);
+    });
+
+    it("gives a missing distance the weakest vector score", () => {
+        const reranked = hybridRerank(
+            [candidate("a", null, "a"), candidate("b", 0.5, "b"), candidate("c", 0.9, "c")],
+            "none",
+            weighted(1),
+        );
+        expect(ids(reranked)).toEqual(["b", "a", "c"]);
+    });
+
+    it("copes when no candidate has a distance", () => {
+        const nulls = [candidate("a", null, "x"), candidate("b", null, "keyword")];
+        const reranked = hybridRerank(nulls, "keyword", weighted(0.5));
+        expect(ids(reranked)).toEqual(["b", "a"]);
+        expect(reranked.every((r) => Number.isFinite(r.score))).toBe(true);
+    });
+});
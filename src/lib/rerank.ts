@@ -0,0 +1,104 @@
+// ── Hybrid Re-ranking ────────────────────────────────────────────────
+// Client-side keyword re-ranking of vector query candidates: BM25 over the
+// returned documents, fused with the vector ranking by reciprocal-rank
+// fusion or a weighted sum of normalised scores.
+
+export type FusionMethod = "rrf" | "weighted";
+
+export interface RerankOptions {
+    method: FusionMethod;
+    /** Weight of the vector score in weighted fusion (0 = BM25 only, 1 = vector only). */
+    alpha: number;
+    /** RRF damping constant; 60 is the usual default. */
+    rrfK: number;
+}
+
+export const DEFAULT_RERANK_OPTIONS: RerankOptions = { method: "rrf", alpha: 0.5, rrfK: 60 };
+
+export interface RerankCandidate {
+    id: string;
+    distance: number | null;
+    document: string | null;
+}
+
+export interface RerankedItem<T extends RerankCandidate> {
+    item: T;
+    /** 0-based rank in the vector result order. */
+    vectorRank: number;
+    /** 0-based rank after fusion. */
+    rank: number;
+    bm25: number;
+    score: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** BM25 score of each document for the query, with IDF taken over the documents themselves. */
+export function bm25Scores(query: string, documents: (string | null)[]): number[] {
+    const docs = documents.map((d) => tokenize(d ?? ""));
+    const terms = Array.from(new Set(tokenize(query)));
+    if (docs.length === 0 || terms.length === 0) return docs.map(() => 0);
+
+    const avgLength = docs.reduce((s, d) => s + d.length, 0) / docs.length || 1;
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+        const n = docs.filter((d) => d.includes(term)).length;
+        idf.set(term, Math.log(1 + (docs.length - n + 0.5) / (n + 0.5)));
+    }
+
+    return docs.map((tokens) => {
+        const freq = new Map<string, number>();
+        for (const t of tokens) freq.set(t, (freq.get(t) ?? 0) + 1);
+        let score = 0;
+        for (const term of terms) {
+            const f = freq.get(term) ?? 0;
+            if (f === 0) continue;
+            score +=
+                idf.get(term)! * ((f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / avgLength)));
+        }
+        return score;
+    });
+}
+
+/** Re-order candidates (given in vector rank order) by fusing their BM25 and vector rankings. */
+export function hybridRerank<T extends RerankCandidate>(
+    candidates: T[],
+    query: string,
+    options: RerankOptions = DEFAULT_RERANK_OPTIONS,
+): RerankedItem<T>[] {
+    const bm25 = bm25Scores(query, candidates.map((c) => c.document));
+
+    // Keyword ranking of the documents that match at all; ties keep the vector order
+    const keywordRank = new Map<number, number>();
+    candidates
+        .map((_, i) => i)
+        .filter((i) => bm25[i]! > 0)
+        .sort((a, b) => bm25[b]! - bm25[a]! || a - b)
+        .forEach((idx, rank) => keywordRank.set(idx, rank));
+
+    const distances = candidates.map((c) => c.distance).filter((d): d is number => d != null);
+    const minD = Math.min(...distances);
+    const spanD = Math.max(...distances) - minD || 1;
+    const maxBm25 = Math.max(0, ...bm25) || 1;
+
+    const scored = candidates.map((item, i) => {
+        let score: number;
+        if (options.method === "rrf") {
+            const keyword = keywordRank.get(i);
+            score = 1 / (options.rrfK + i + 1) + (keyword === undefined ? 0 : 1 / (options.rrfK + keyword + 1));
+        } else {
+            const vector = item.distance == null ? 0 : 1 - (item.distance - minD) / spanD;
+            score = options.alpha * vector + (1 - options.alpha) * (bm25[i]! / maxBm25);
+        }
+        return { item, vectorRank: i, rank: 0, bm25: bm25[i]!, score };
+    });
+
+    return scored
+        .sort((a, b) => b.score - a.score || a.vectorRank - b.vectorRank)
+        .map((r, rank) => ({ ...r, rank }));
+}
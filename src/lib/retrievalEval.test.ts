@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { logOperation } from "./auditLog";
+import { fetchQuery } from "./chromaClient";
+import {
+    aggregateMetrics,
+    parseEvalQueries,
+    runEvaluation,
+    saveEvalRun,
+    scoreRetrieval,
+    type EvalQueryResult,
+    type EvalRun,
+} from "./retrievalEval";
+
+vi.mock("./chromaClient", () => ({ fetchQuery: vi.fn() }));
+vi.mock("./auditLog", () => ({ logOperation: vi.fn() }));
+
+const LOG3 = Math.log2(3);
+
+describe("scoreRetrieval", () => {
+    it("scores a perfect ranking 1 on every metric", () => {
+        expect(scoreRetrieval(["a", "b"], { a: 1, b: 1 }, 2)).toEqual({ recall: 1, precision: 1, mrr: 1, ndcg: 1 });
+    });
+
+    it("scores an empty result list 0 rather than NaN", () => {
+        expect(scoreRetrieval([], { a: 1 }, 10)).toEqual({ recall: 0, precision: 0, mrr: 0, ndcg: 0 });
+    });
+
+    it("scores 0 when no judgement is positive", () => {
+        expect(scoreRetrieval(["a"], { a: 0 }, 1)).toEqual({ recall: 0, precision: 0, mrr: 0, ndcg: 0 });
+    });
+
+    it("scores 0 precision at k 0", () => {
+        expect(scoreRetrieval(["a"], { a: 1 }, 0).precision).toBe(0);
+    });
+
+    it("ignores hits below the cut-off", () => {
+        expect(scoreRetrieval(["x", "a"], { a: 1 }, 1)).toEqual({ recall: 0, precision: 0, mrr: 0, ndcg: 0 });
+    });
+
+    it("divides precision by k even when fewer results came back", () => {
+        expect(scoreRetrieval(["a"], { a: 1 }, 5).precision).toBeCloseTo(0.2, 10);
+    });
+
+    it("discounts a hit by its rank", () => {
+        const metrics = scoreRetrieval(["x", "a", "y"], { a: 1, b: 1, c: 1 }, 3);
+        expect(metrics.recall).toBeCloseTo(1 / 3, 10);
+        expect(metrics.mrr).toBe(0.5);
+        expect(metrics.ndcg).toBeCloseTo(1 / LOG3 / (1 + 1 / LOG3 + 1 / 2), 10);
+    });
+
+    it("uses graded gains, so retrieving the better result first scores higher", () => {
+        const judgements = { a: 2, b: 1 };
+        const wrongOrder = scoreRetrieval(["b", "a"], judgements, 2);
+        expect(wrongOrder.recall).toBe(1);
+        expect(wrongOrder.ndcg).toBeCloseTo((1 + 3 / LOG3) / (3 + 1 / LOG3), 10);
+        expect(scoreRetrieval(["a", "b"], judgements, 2).ndcg).toBe(1);
+    });
+});
+
+describe("aggregateMetrics", () => {
+    const result = (overrides: Partial<EvalQueryResult>): EvalQueryResult => ({
+        queryId: "q",
+        label: "q",
+        retrieved: [],
+        relevantCount: 1,
+        durationMs: 0,
+        recall: 0,
+        precision: 0,
+        mrr: 0,
+        ndcg: 0,
+        ...overrides,
+    });
+
+    it("is all zeros for no results", () => {
+        expect(aggregateMetrics([])).toEqual({ recall: 0, precision: 0, mrr: 0, ndcg: 0 });
+    });
+
+    it("averages each metric", () => {
+        const results = [result({ recall: 1, precision: 0.5, mrr: 1, ndcg: 1 }), result({ mrr: 0.5 })];
+        expect(aggregateMetrics(results)).toEqual({ recall: 0.5, precision: 0.25, mrr: 0.75, ndcg: 0.5 });
+    });
+
+    it("leaves failed queries out of the mean", () => {
+        const results = [result({ recall: 1, precision: 1, mrr: 1, ndcg: 1 }), result({ error: "timeout" })];
+        expect(aggregateMetrics(results)).toEqual({ recall: 1, precision: 1, mrr: 1, ndcg: 1 });
+        expect(aggregateMetrics([result({ recall: 1, error: "timeout" })]).recall).toBe(0);
+    });
+});
+
+describe("parseEvalQueries", () => {
+    it("stores a relevance list as grade 1 and keeps graded judgements", () => {
+        const queries = parseEvalQueries(
+            [
+                '{"id": "q1", "text": "cats", "relevant": ["a", "b"]}',
+                '{"id": 7, "embedding": [0.1], "relevant": {"a": 2, "b": 0}}',
+            ].join("\n"),
+        );
+        expect(queries).toEqual([
+            { id: "q1", text: "cats", embedding: undefined, judgements: { a: 1, b: 1 } },
+            { id: "7", text: undefined, embedding: [0.1], judgements: { a: 2, b: 0 } },
+        ]);
+    });
+
+    it("numbers queries without an id and skips blank lines", () => {
+        const text = '\n{"text": "one", "relevant": ["a"]}\n\n{"text": "two", "relevant": ["b"]}\n';
+        expect(parseEvalQueries(text).map((q) => q.id)).toEqual(["q1", "q2"]);
+    });
+
+    it("names the line that is not JSON", () => {
+        expect(() => parseEvalQueries('{"text": "a", "relevant": ["a"]}\n{oops')).toThrow(/^Line 2: not valid JSON/);
+    });
+
+    it("needs a text or an embedding", () => {
+        expect(() => parseEvalQueries('{"relevant": ["a"]}')).toThrow(
+            "Line 1: (root): Expected a query text or embedding",
+        );
+    });
+
+    it("rejects an empty relevance list or object", () => {
+        expect(() => parseEvalQueries('{"text": "a", "relevant": []}')).toThrow(/^Line 1: relevant:/);
+        expect(() => parseEvalQueries('{"text": "a", "relevant": {}}')).toThrow(/^Line 1: relevant:/);
+    });
+
+    it("rejects a file with no queries", () => {
+        expect(() => parseEvalQueries("\n  \n")).toThrow("The file contains no queries");
+    });
+
+    it("rejects duplicate ids, including a generated one", () => {
+        const text = '{"text": "a", "relevant": ["a"]}\n{"id": "q1", "text": "b", "relevant": ["b"]}';
+        expect(() => parseEvalQueries(text)).toThrow('Duplicate query id "q1"');
+    });
+});
+
+describe("runEvaluation", () => {
+    const config = { nResults: 3, k: 2 };
+
+    beforeEach(() => {
+        vi.mocked(fetchQuery).mockReset();
+        vi.mocked(logOperation).mockReset();
+    });
+
+    it("scores each query and records failures without stopping", async () => {
+        vi.mocked(fetchQuery)
+            .mockResolvedValueOnce({ ids: [["a", "x", "b"]] })
+            .mockRejectedValueOnce(new Error("server down"));
+        const queries = parseEvalQueries('{"text": "one", "relevant": ["a"]}\n{"text": "two", "relevant": ["b"]}');
+        const results = await runEvaluation("c1", "docs", queries, config, { provider: null, embeddingDims: null });
+        expect(results[0]).toMatchObject({ queryId: "q1", retrieved: ["a", "x", "b"], recall: 1, precision: 0.5 });
+        expect(results[1]).toMatchObject({ queryId: "q2", error: "server down", recall: 0 });
+    });
+
+    it("logs one audit entry for the whole run", async () => {
+        vi.mocked(fetchQuery).mockResolvedValue({ ids: [["a"]] });
+        const queries = parseEvalQueries('{"text": "one", "relevant": ["a"]}\n{"text": "two", "relevant": ["b"]}');
+        await runEvaluation("c1", "docs", queries, config, { provider: null, embeddingDims: null });
+        expect(fetchQuery).toHaveBeenCalledTimes(2);
+        expect(logOperation).toHaveBeenCalledTimes(1);
+        expect(logOperation).toHaveBeenCalledWith("evaluate", expect.objectContaining({
+            collection: "docs",
+            details: "queries=2/2 k=2",
+            status: "success",
+        }));
+    });
+
+    it("rejects a query vector of the wrong dimensionality without querying", async () => {
+        const queries = parseEvalQueries('{"embedding": [1, 2], "relevant": ["a"]}');
+        const [result] = await runEvaluation("c1", "docs", queries, config, { provider: null, embeddingDims: 3 });
+        expect(result!.error).toBe("Query vector has 2 dimensions but the collection expects 3");
+        expect(fetchQuery).not.toHaveBeenCalled();
+    });
+
+    it("stops between queries when cancelled", async () => {
+        vi.mocked(fetchQuery).mockResolvedValue({ ids: [[]] });
+        const queries = parseEvalQueries('{"text": "one", "relevant": ["a"]}\n{"text": "two", "relevant": ["b"]}');
+        let calls = 0;
+        const results = await runEvaluation("c1", "docs", queries, config, {
+            provider: null,
+            embeddingDims: null,
+            cancelled: () => calls++ > 0,
+        });
+        expect(results).toHaveLength(1);
+    });
+});
+
+describe("saveEvalRun", () => {
+    beforeEach(() => {
+        localStorage.clear();
+        let now = 1_000;
+        vi.spyOn(Date, "now").mockImplementation(() => now++);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const run = (collectionId: string, name: string): Omit<EvalRun, "id" | "createdAt"> => ({
+        name,
+        collectionId,
+        collectionName: collectionId,
+        datasetName: "set.jsonl",
+        config: { nResults: 10, k: 10 },
+        providerName: null,
+        results: [],
+        aggregate: { recall: 0, precision: 0, mrr: 0, ndcg: 0 },
+    });
+
+    it("keeps the newest 20 runs per collection", () => {
+        saveEvalRun(run("other", "kept"));
+        for (let i = 0; i < 22; i++) saveEvalRun(run("c1", `run ${i}`));
+        const stored = JSON.parse(localStorage.getItem("chroma-admin:evalRuns")!) as EvalRun[];
+        const own = stored.filter((r) => r.collectionId === "c1").map((r) => r.name);
+        expect(own).toHaveLength(20);
+        expect(own).not.toContain("run 1");
+        expect(own).toContain("run 2");
+        expect(stored.some((r) => r.name === "kept")).toBe(true);
+    });
+});
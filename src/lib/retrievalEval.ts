@@ -0,0 +1,260 @@
+// ── Retrieval Evaluation ─────────────────────────────────────────────
+// Runs a labelled query set (JSONL) against a collection and scores the
+// results with recall@k, precision@k, MRR and nDCG. Runs are kept per
+// collection in localStorage so a re-index or a new embedding model can be
+// compared against an earlier baseline.
+
+import { createLocalStore, useStore } from "./localStore";
+import { fetchQuery } from "./chromaClient";
+import { logOperation } from "./auditLog";
+import { embedTexts, type EmbeddingProvider } from "./embeddingProviders";
+import { EvalQuerySchema } from "./zodSchemas";
+import type { ChromaScope } from "./storage";
+
+const RUNS_KEY = "chroma-admin:evalRuns";
+const MAX_RUNS_PER_COLLECTION = 20;
+
+export interface EvalQuery {
+    id: string;
+    text?: string;
+    embedding?: number[];
+    /** Graded judgements; binary sets are stored with grade 1. */
+    judgements: Record<string, number>;
+}
+
+export interface EvalMetrics {
+    recall: number;
+    precision: number;
+    mrr: number;
+    ndcg: number;
+}
+
+export interface EvalQueryResult extends EvalMetrics {
+    queryId: string;
+    label: string;
+    retrieved: string[];
+    relevantCount: number;
+    durationMs: number;
+    error?: string;
+}
+
+export interface EvalConfig {
+    nResults: number;
+    /** Cut-off for the metrics; at most nResults. */
+    k: number;
+    where?: Record<string, unknown>;
+    whereDocument?: Record<string, unknown>;
+}
+
+export interface EvalRun {
+    id: string;
+    name: string;
+    collectionId: string;
+    collectionName: string;
+    datasetName: string;
+    config: EvalConfig;
+    /** Provider that embedded the query texts, or null for server-side embedding. */
+    providerName: string | null;
+    results: EvalQueryResult[];
+    aggregate: EvalMetrics;
+    createdAt: number;
+    tenant?: string;
+    database?: string;
+}
+
+// ── Dataset ──────────────────────────────────────────────────────────
+
+/** Parse a JSONL evaluation set; errors name the offending line. */
+export function parseEvalQueries(text: string): EvalQuery[] {
+    const queries: EvalQuery[] = [];
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i]!.trim();
+        if (!line) continue;
+
+        let json: unknown;
+        try {
+            json = JSON.parse(line);
+        } catch (err) {
+            throw new Error(`Line ${i + 1}: not valid JSON (${(err as Error).message})`);
+        }
+        const result = EvalQuerySchema.safeParse(json);
+        if (!result.success) {
+            const issue = result.error.issues[0]!;
+            throw new Error(`Line ${i + 1}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+        }
+
+        const q = result.data;
+        queries.push({
+            id: q.id ?? `q${queries.length + 1}`,
+            text: q.text,
+            embedding: q.embedding,
+            judgements: Array.isArray(q.relevant)
+                ? Object.fromEntries(q.relevant.map((id) => [id, 1]))
+                : q.relevant,
+        });
+    }
+    if (queries.length === 0) throw new Error("The file contains no queries");
+
+    const seen = new Set<string>();
+    for (const q of queries) {
+        if (seen.has(q.id)) throw new Error(`Duplicate query id "${q.id}"`);
+        seen.add(q.id);
+    }
+    return queries;
+}
+
+// ── Metrics ──────────────────────────────────────────────────────────
+
+/** Score one ranked result list against graded judgements at cut-off k. */
+export function scoreRetrieval(retrieved: string[], judgements: Record<string, number>, k: number): EvalMetrics {
+    const top = retrieved.slice(0, k);
+    const grade = (id: string) => judgements[id] ?? 0;
+    const relevantCount = Object.values(judgements).filter((g) => g > 0).length;
+    const hits = top.filter((id) => grade(id) > 0).length;
+    const firstHit = top.findIndex((id) => grade(id) > 0);
+
+    const gain = (g: number, rank: number) => (2 ** g - 1) / Math.log2(rank + 2);
+    const dcg = top.reduce((s, id, i) => s + gain(grade(id), i), 0);
+    const idcg = Object.values(judgements)
+        .filter((g) => g > 0)
+        .sort((a, b) => b - a)
+        .slice(0, k)
+        .reduce((s, g, i) => s + gain(g, i), 0);
+
+    return {
+        recall: relevantCount === 0 ? 0 : hits / relevantCount,
+        precision: k === 0 ? 0 : hits / k,
+        mrr: firstHit < 0 ? 0 : 1 / (firstHit + 1),
+        ndcg: idcg === 0 ? 0 : dcg / idcg,
+    };
+}
+
+/** Mean of each metric over the queries that ran without error. */
+export function aggregateMetrics(results: EvalQueryResult[]): EvalMetrics {
+    const ok = results.filter((r) => !r.error);
+    const mean = (key: keyof EvalMetrics) => (ok.length === 0 ? 0 : ok.reduce((s, r) => s + r[key], 0) / ok.length);
+    return { recall: mean("recall"), precision: mean("precision"), mrr: mean("mrr"), ndcg: mean("ndcg") };
+}
+
+// ── Runner ───────────────────────────────────────────────────────────
+
+export interface EvalRunOptions {
+    /** Embeds query texts in the browser; null lets Chroma embed them. */
+    provider: EmbeddingProvider | null;
+    /** Collection dimensionality, used to reject mismatched query vectors. */
+    embeddingDims: number | null;
+    scope?: ChromaScope;
+    onProgress?: (done: number, total: number) => void;
+    /** Checked between queries; return true to stop early. */
+    cancelled?: () => boolean;
+}
+
+/**
+ * Run every query in turn; a failing query is recorded with its error instead
+ * of aborting the run. One audit entry covers the whole run.
+ */
+export async function runEvaluation(
+    collectionId: string,
+    collectionName: string,
+    queries: EvalQuery[],
+    config: EvalConfig,
+    options: EvalRunOptions,
+): Promise<EvalQueryResult[]> {
+    const { provider, embeddingDims, scope } = options;
+    const start = Date.now();
+    const results: EvalQueryResult[] = [];
+
+    for (const q of queries) {
+        if (options.cancelled?.()) break;
+        const started = performance.now();
+        const label = q.text ?? `vector (${q.embedding!.length}d)`;
+        const relevantCount = Object.values(q.judgements).filter((g) => g > 0).length;
+        try {
+            let embedding = q.embedding ?? null;
+            if (!embedding && provider) {
+                if (provider.kind === "manual") {
+                    throw new Error(`"${provider.name}" cannot embed text; give this query an embedding`);
+                }
+                embedding = (await embedTexts(provider, [q.text!]))[0] ?? null;
+            }
+            if (embedding && embeddingDims !== null && embedding.length !== embeddingDims) {
+                throw new Error(`Query vector has ${embedding.length} dimensions but the collection expects ${embeddingDims}`);
+            }
+
+            const resp = await fetchQuery(collectionId, {
+                ...(embedding ? { query_embeddings: [embedding] } : { query_texts: [q.text!] }),
+                n_results: config.nResults,
+                include: ["distances"],
+                where: config.where,
+                where_document: config.whereDocument,
+            }, scope);
+
+            const retrieved = resp.ids[0] ?? [];
+            results.push({
+                queryId: q.id,
+                label,
+                retrieved,
+                relevantCount,
+                durationMs: Math.round(performance.now() - started),
+                ...scoreRetrieval(retrieved, q.judgements, config.k),
+            });
+        } catch (err) {
+            results.push({
+                queryId: q.id,
+                label,
+                retrieved: [],
+                relevantCount,
+                durationMs: Math.round(performance.now() - started),
+                recall: 0,
+                precision: 0,
+                mrr: 0,
+                ndcg: 0,
+                error: (err as Error).message,
+            });
+        }
+        options.onProgress?.(results.length, queries.length);
+    }
+
+    const failed = results.filter((r) => r.error).length;
+    logOperation("evaluate", {
+        collection: collectionName,
+        details: `queries=${results.length}/${queries.length} k=${config.k}` +
+            (failed > 0 ? `, ${failed} failed` : ""),
+        status: failed > 0 ? "error" : "success",
+        durationMs: Date.now() - start,
+    });
+    return results;
+}
+
+// ── Saved runs ───────────────────────────────────────────────────────
+
+const store = createLocalStore<EvalRun>(RUNS_KEY, (a, b) => b.createdAt - a.createdAt);
+
+/** Every saved evaluation run, newest first. */
+export function useEvalRuns(): EvalRun[] {
+    return useStore(store);
+}
+
+/** Store a run, keeping the newest MAX_RUNS_PER_COLLECTION per collection. */
+export function saveEvalRun(run: Omit<EvalRun, "id" | "createdAt">): EvalRun {
+    const saved: EvalRun = {
+        ...run,
+        id: `ev-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+        createdAt: Date.now(),
+    };
+    const all = [...store.read(), saved];
+    const drop = new Set(
+        all
+            .filter((r) => r.collectionId === run.collectionId)
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(MAX_RUNS_PER_COLLECTION)
+            .map((r) => r.id),
+    );
+    store.write(all.filter((r) => !drop.has(r.id)));
+    return saved;
+}
+
+export function deleteEvalRun(id: string): void {
+    store.write(store.read().filter((r) => r.id !== id));
+}
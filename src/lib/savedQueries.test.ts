@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    clearQueryHistory,
+    exportSavedQueries,
+    getLastQuery,
+    importSavedQueries,
+    parseSavedQuerySet,
+    recordQueryHistory,
+    saveQuery,
+    type QueryHistoryEntry,
+    type QuerySpec,
+} from "./savedQueries";
+
+const spec = (text: string): QuerySpec => ({ text, nResults: 10, include: ["documents"] });
+const run = (collectionId: string, text: string) =>
+    recordQueryHistory({ collectionId, query: spec(text), durationMs: 5, resultCount: 10 });
+const historyIn = (collectionId: string) =>
+    (JSON.parse(localStorage.getItem("chroma-admin:queryHistory") ?? "[]") as QueryHistoryEntry[]).filter(
+        (h) => h.collectionId === collectionId,
+    );
+
+describe("query history", () => {
+    beforeEach(() => {
+        localStorage.clear();
+        let now = 1_000;
+        vi.spyOn(Date, "now").mockImplementation(() => now++);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("has no last query for a collection never queried", () => {
+        run("other", "x");
+        expect(getLastQuery("c1")).toBeNull();
+    });
+
+    it("restores the most recent query", () => {
+        run("c1", "first");
+        run("c1", "second");
+        expect(getLastQuery("c1")?.text).toBe("second");
+    });
+
+    it("keeps the newest 50 entries per collection", () => {
+        for (let i = 0; i < 55; i++) run("c1", `q${i}`);
+        const kept = historyIn("c1");
+        expect(kept).toHaveLength(50);
+        expect(kept.map((h) => h.query.text)).not.toContain("q4");
+        expect(kept.map((h) => h.query.text)).toContain("q5");
+    });
+
+    it("does not trim other collections' history", () => {
+        run("c2", "kept");
+        for (let i = 0; i < 51; i++) run("c1", `q${i}`);
+        expect(historyIn("c2")).toHaveLength(1);
+    });
+
+    it("keeps a vector query's dimension count instead of its vector", () => {
+        recordQueryHistory({
+            collectionId: "c1",
+            query: { vector: [0.1, 0.2, 0.3], nResults: 5, include: [] },
+            durationMs: 5,
+            resultCount: 5,
+        });
+        expect(historyIn("c1")[0]!.query).toEqual({ nResults: 5, include: [], vectorDims: 3 });
+        expect(getLastQuery("c1")).toBeNull();
+    });
+
+    it("keeps the newer half of history when storage is full", () => {
+        for (let i = 0; i < 4; i++) run("c1", `q${i}`);
+        const setItem = Storage.prototype.setItem;
+        vi.spyOn(Storage.prototype, "setItem").mockImplementationOnce(() => {
+            throw new DOMException("quota", "QuotaExceededError");
+        }).mockImplementation(function (this: Storage, key, value) {
+            setItem.call(this, key, value);
+        });
+        run("c1", "q4");
+        expect(historyIn("c1").map((h) => h.query.text)).toEqual(["q4", "q3", "q2"]);
+    });
+
+    it("clears one collection only", () => {
+        run("c1", "a");
+        run("c2", "b");
+        clearQueryHistory("c1");
+        expect(getLastQuery("c1")).toBeNull();
+        expect(getLastQuery("c2")?.text).toBe("b");
+    });
+});
+
+describe("saved query sets", () => {
+    beforeEach(() => localStorage.clear());
+
+    it("replaces a saved query with the same name in the same collection", () => {
+        saveQuery("c1", "docs", "cats", spec("cats"));
+        saveQuery("c1", "docs", "cats", spec("kittens"));
+        saveQuery("c2", "other", "cats", spec("lions"));
+        expect(exportSavedQueries("c1", "docs").queries).toEqual([{ name: "cats", query: spec("kittens") }]);
+    });
+
+    it("imports a set, overwriting same-named queries", () => {
+        saveQuery("c1", "docs", "cats", spec("cats"));
+        saveQuery("c1", "docs", "dogs", spec("dogs"));
+        const set = parseSavedQuerySet(JSON.stringify({ queries: [{ name: "cats", query: spec("tigers") }] }));
+        expect(importSavedQueries(set, "c1", "docs")).toBe(1);
+        const queries = exportSavedQueries("c1", "docs").queries;
+        expect(queries.map((q) => [q.name, q.query.text]).sort()).toEqual([
+            ["cats", "tigers"],
+            ["dogs", "dogs"],
+        ]);
+    });
+
+    it("rejects a set whose query has no text or vector", () => {
+        const text = JSON.stringify({ queries: [{ name: "bad", query: { nResults: 5, include: [] } }] });
+        expect(() => parseSavedQuerySet(text)).toThrow("queries.0.query: Expected a query text, texts or vector");
+    });
+
+    it("rejects text that is not JSON", () => {
+        expect(() => parseSavedQuerySet("nope")).toThrow(/^Not valid JSON: /);
+    });
+});
@@ -0,0 +1,194 @@
+// ── Saved Queries & Query History ────────────────────────────────────
+// Named queries and a rolling history of executed queries, both kept per
+// collection in localStorage. Saved sets can be exported and imported as
+// JSON so a team can share them across collections.
+
+import { createLocalStore, StorageFullError, useStore } from "./localStore";
+import { SavedQuerySetSchema, type QuerySpec, type SavedQuerySet } from "./zodSchemas";
+import type { ChromaScope } from "./storage";
+
+export type { QuerySpec } from "./zodSchemas";
+
+const SAVED_KEY = "chroma-admin:savedQueries";
+const HISTORY_KEY = "chroma-admin:queryHistory";
+const MAX_HISTORY_PER_COLLECTION = 50;
+
+export interface SavedQuery {
+    id: string;
+    name: string;
+    collectionId: string;
+    collectionName: string;
+    query: QuerySpec;
+    createdAt: number;
+    tenant?: string;
+    database?: string;
+}
+
+/**
+ * A query as kept in history. Vectors are replaced by their dimension count so
+ * fifty vector queries per collection do not fill localStorage; save a query
+ * to keep its vector.
+ */
+export type HistoryQuery = Omit<QuerySpec, "vector"> & { vectorDims?: number };
+
+export interface QueryHistoryEntry {
+    id: string;
+    collectionId: string;
+    query: HistoryQuery;
+    executedAt: number;
+    durationMs: number;
+    resultCount: number | null;
+    error?: string;
+}
+
+const nextId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// ── Store ────────────────────────────────────────────────────────────
+
+interface QueryStoreState {
+    saved: SavedQuery[];
+    history: QueryHistoryEntry[];
+}
+
+const savedStore = createLocalStore<SavedQuery>(SAVED_KEY, (a, b) => a.name.localeCompare(b.name));
+const historyStore = createLocalStore<QueryHistoryEntry>(HISTORY_KEY, (a, b) => b.executedAt - a.executedAt);
+
+/** Every saved query (by name) and history entry (newest first). */
+export function useSavedQueries(): QueryStoreState {
+    return { saved: useStore(savedStore), history: useStore(historyStore) };
+}
+
+// ── Saved queries ────────────────────────────────────────────────────
+
+export function getSavedQuery(id: string): SavedQuery | null {
+    return savedStore.read().find((q) => q.id === id) ?? null;
+}
+
+/** Save a named query; an existing one with the same name in the collection is replaced. */
+export function saveQuery(
+    collectionId: string,
+    collectionName: string,
+    name: string,
+    query: QuerySpec,
+    scope?: ChromaScope,
+): SavedQuery {
+    const saved: SavedQuery = {
+        id: nextId("sq"),
+        name,
+        collectionId,
+        collectionName,
+        query,
+        createdAt: Date.now(),
+        tenant: scope?.tenant,
+        database: scope?.database,
+    };
+    const rest = savedStore.read().filter((q) => !(q.collectionId === collectionId && q.name === name));
+    savedStore.write([...rest, saved]);
+    return saved;
+}
+
+export function deleteSavedQuery(id: string): void {
+    savedStore.write(savedStore.read().filter((q) => q.id !== id));
+}
+
+/** Serialise a collection's saved queries for sharing. */
+export function exportSavedQueries(collectionId: string, collectionName: string): SavedQuerySet {
+    return {
+        exportedAt: new Date().toISOString(),
+        collectionName,
+        queries: savedStore
+            .read()
+            .filter((q) => q.collectionId === collectionId)
+            .map((q) => ({ name: q.name, query: q.query })),
+    };
+}
+
+export function parseSavedQuerySet(text: string): SavedQuerySet {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Not valid JSON: ${(err as Error).message}`);
+    }
+
+    const result = SavedQuerySetSchema.safeParse(json);
+    if (!result.success) {
+        const issues = result.error.issues
+            .slice(0, 10)
+            .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+        if (result.error.issues.length > 10) {
+            issues.push(`…and ${result.error.issues.length - 10} more`);
+        }
+        throw new Error(issues.join("\n"));
+    }
+    return result.data;
+}
+
+/** Add an imported set to a collection, replacing same-named queries. Returns the count. */
+export function importSavedQueries(
+    set: SavedQuerySet,
+    collectionId: string,
+    collectionName: string,
+    scope?: ChromaScope,
+): number {
+    const names = new Set(set.queries.map((q) => q.name));
+    const rest = savedStore.read().filter((q) => !(q.collectionId === collectionId && names.has(q.name)));
+    const now = Date.now();
+    const imported = set.queries.map<SavedQuery>((q) => ({
+        id: nextId("sq"),
+        name: q.name,
+        collectionId,
+        collectionName,
+        query: q.query,
+        createdAt: now,
+        tenant: scope?.tenant,
+        database: scope?.database,
+    }));
+    savedStore.write([...rest, ...imported]);
+    return imported.length;
+}
+
+// ── History ──────────────────────────────────────────────────────────
+
+export function recordQueryHistory(
+    entry: Omit<QueryHistoryEntry, "id" | "executedAt" | "query"> & { query: QuerySpec },
+): void {
+    const { vector, ...rest } = entry.query;
+    const query: HistoryQuery = vector ? { ...rest, vectorDims: vector.length } : rest;
+    const all = historyStore.read();
+    all.push({ ...entry, query, id: nextId("qh"), executedAt: Date.now() });
+
+    // Keep the newest entries per collection
+    const own = all.filter((h) => h.collectionId === entry.collectionId);
+    const drop = new Set(
+        own
+            .sort((a, b) => b.executedAt - a.executedAt)
+            .slice(MAX_HISTORY_PER_COLLECTION)
+            .map((h) => h.id),
+    );
+    const kept = all.filter((h) => !drop.has(h.id));
+    try {
+        historyStore.write(kept);
+    } catch (err) {
+        if (!(err instanceof StorageFullError)) throw err;
+        // History is the first thing to give up when storage is full: keep the newer half
+        kept.sort((a, b) => b.executedAt - a.executedAt);
+        historyStore.write(kept.slice(0, Math.ceil(kept.length / 2)));
+    }
+}
+
+/** The runnable spec of a history query, or null if its vector was dropped. */
+export function historyQuerySpec(query: HistoryQuery): QuerySpec | null {
+    if (query.vectorDims !== undefined) return null;
+    return query;
+}
+
+/** Most recent executed query for a collection, used to restore the Query tab. */
+export function getLastQuery(collectionId: string): QuerySpec | null {
+    const last = historyStore.getSnapshot().find((h) => h.collectionId === collectionId);
+    return last ? historyQuerySpec(last.query) : null;
+}
+
+export function clearQueryHistory(collectionId: string): void {
+    historyStore.write(historyStore.read().filter((h) => h.collectionId !== collectionId));
+}
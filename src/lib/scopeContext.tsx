@@ -0,0 +1,77 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
+import { Navigate, Outlet, useLocation, useParams } from "react-router-dom";
+import { getScope, setScope as persistScope, type ChromaScope } from "./storage";
+
+interface ScopeContextValue {
+    scope: ChromaScope;
+    setScope: (scope: ChromaScope) => void;
+}
+
+const ScopeContext = createContext<ScopeContextValue>({
+    scope: getScope(),
+    setScope: () => { },
+});
+
+export function ScopeProvider({ children }: { children: ReactNode }) {
+    const [scope, setScopeState] = useState<ChromaScope>(() => getScope());
+
+    const setScope = useCallback((next: ChromaScope) => {
+        persistScope(next);
+        setScopeState((prev) =>
+            prev.tenant === next.tenant && prev.database === next.database ? prev : next,
+        );
+    }, []);
+
+    return (
+        <ScopeContext.Provider value={{ scope, setScope }}>
+            {children}
+        </ScopeContext.Provider>
+    );
+}
+
+/**
+ * The tenant/database in effect for the current page. Routes under
+ * `/t/:tenant/d/:database` win over the globally selected scope.
+ */
+export function useScope(): ChromaScope {
+    const { tenant, database } = useParams<{ tenant: string; database: string }>();
+    const { scope } = useContext(ScopeContext);
+    return useMemo(
+        () =>
+            tenant && database
+                ? { tenant, database }
+                : scope,
+        [tenant, database, scope],
+    );
+}
+
+export function useSetScope(): (scope: ChromaScope) => void {
+    return useContext(ScopeContext).setScope;
+}
+
+/** Build an app path nested under a tenant/database, e.g. `/t/x/d/y/collections`. */
+export function scopedPath(scope: ChromaScope, path = ""): string {
+    return `/t/${encodeURIComponent(scope.tenant)}/d/${encodeURIComponent(scope.database)}${path}`;
+}
+
+/**
+ * Layout route for `/t/:tenant/d/:database/*` that keeps the global scope in
+ * sync with whatever the URL points at.
+ */
+export function ScopedRoute() {
+    const { tenant, database } = useParams<{ tenant: string; database: string }>();
+    const setScope = useSetScope();
+
+    useEffect(() => {
+        if (tenant && database) setScope({ tenant, database });
+    }, [tenant, database, setScope]);
+
+    return <Outlet />;
+}
+
+/** Redirects unscoped paths such as `/collections/foo` into the active scope. */
+export function ScopeRedirect() {
+    const { scope } = useContext(ScopeContext);
+    const location = useLocation();
+    return <Navigate to={scopedPath(scope, location.pathname + location.search)} replace />;
+}
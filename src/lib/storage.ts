@@ -1,10 +1,31 @@
+import {
+    isVaultEnabled,
+    isVaultLocked,
+    getVaultSecrets,
+    createVault,
+    destroyVault,
+    updateVaultSecrets,
+    VAULT_LOCKED_MESSAGE,
+} from "./vault";
+import {
+    getEmbeddingProviders,
+    writeEmbeddingProviders,
+    forgetProviderApiKeys,
+} from "./embeddingProviders";
+
 const STORAGE_KEYS = {
     BASE_URL: "chroma-admin:baseUrl",
     CONNECTION_MODE: "chroma-admin:connectionMode",
     AUTH_TYPE: "chroma-admin:authType",
     AUTH_CREDENTIALS: "chroma-admin:authCredentials",
+    TENANT: "chroma-admin:tenant",
+    DATABASE: "chroma-admin:database",
+    KNOWN_TENANTS: "chroma-admin:knownTenants",
 } as const;
 
+export const DEFAULT_TENANT = "default_tenant";
+export const DEFAULT_DATABASE = "default_database";
+
 export type ConnectionMode = "direct" | "proxy";
 export type AuthType = "none" | "token" | "basic" | "x-chroma-token";
 
@@ -14,6 +35,12 @@ export interface AuthCredentials {
     password?: string;
 }
 
+/** Tenant/database pair that v2 collection endpoints are nested under. */
+export interface ChromaScope {
+    tenant: string;
+    database: string;
+}
+
 // ── Connection ───────────────────────────────────────────────────────
 
 export function getBaseUrl(): string {
@@ -45,7 +72,12 @@ export function getAuthType(): AuthType {
     return (localStorage.getItem(STORAGE_KEYS.AUTH_TYPE) as AuthType) ?? "none";
 }
 
+/**
+ * Credentials for the current connection. With the vault enabled these come
+ * from the unlocked in-memory vault and are empty while it is locked.
+ */
 export function getAuthCredentials(): AuthCredentials {
+    if (isVaultEnabled()) return getVaultSecrets()?.connection ?? {};
     try {
         const raw = localStorage.getItem(STORAGE_KEYS.AUTH_CREDENTIALS);
         return raw ? (JSON.parse(raw) as AuthCredentials) : {};
@@ -55,6 +87,13 @@ export function getAuthCredentials(): AuthCredentials {
 }
 
 export function setAuth(type: AuthType, credentials: AuthCredentials): void {
+    if (isVaultEnabled()) {
+        if (isVaultLocked()) throw new Error(VAULT_LOCKED_MESSAGE);
+        updateVaultSecrets((s) => ({ ...s, connection: credentials }));
+        localStorage.setItem(STORAGE_KEYS.AUTH_TYPE, type);
+        localStorage.removeItem(STORAGE_KEYS.AUTH_CREDENTIALS);
+        return;
+    }
     localStorage.setItem(STORAGE_KEYS.AUTH_TYPE, type);
     localStorage.setItem(
         STORAGE_KEYS.AUTH_CREDENTIALS,
@@ -65,6 +104,9 @@ export function setAuth(type: AuthType, credentials: AuthCredentials): void {
 export function clearAuth(): void {
     localStorage.removeItem(STORAGE_KEYS.AUTH_TYPE);
     localStorage.removeItem(STORAGE_KEYS.AUTH_CREDENTIALS);
+    if (isVaultEnabled() && !isVaultLocked()) {
+        updateVaultSecrets((s) => ({ ...s, connection: {} }));
+    }
 }
 
 /**
@@ -93,11 +135,66 @@ export function getAuthHeaders(): Record<string, string> {
     }
 }
 
+// ── Tenant / Database scope ───────────────────────────────────────────
+
+export function getScope(): ChromaScope {
+    return {
+        tenant: localStorage.getItem(STORAGE_KEYS.TENANT) ?? DEFAULT_TENANT,
+        database: localStorage.getItem(STORAGE_KEYS.DATABASE) ?? DEFAULT_DATABASE,
+    };
+}
+
+/**
+ * Persist the active tenant/database and remember it on the active profile
+ * so switching back to that profile restores the same context.
+ */
+export function setScope(scope: ChromaScope): void {
+    localStorage.setItem(STORAGE_KEYS.TENANT, scope.tenant);
+    localStorage.setItem(STORAGE_KEYS.DATABASE, scope.database);
+    addKnownTenant(scope.tenant);
+
+    // Remember the scope on the active profile, but only when it changed: with
+    // the vault on, every profile write re-encrypts the whole vault
+    const activeId = getActiveProfileId();
+    const active = activeId ? readProfiles().find((p) => p.id === activeId) : undefined;
+    if (active && (active.tenant !== scope.tenant || active.database !== scope.database)) {
+        updateProfile(active.id, { tenant: scope.tenant, database: scope.database });
+    }
+}
+
+/**
+ * Chroma has no "list tenants" endpoint, so we remember every tenant the
+ * user has opened or created.
+ */
+export function getKnownTenants(): string[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEYS.KNOWN_TENANTS);
+        const tenants = raw ? (JSON.parse(raw) as string[]) : [];
+        return tenants.includes(DEFAULT_TENANT) ? tenants : [DEFAULT_TENANT, ...tenants];
+    } catch {
+        return [DEFAULT_TENANT];
+    }
+}
+
+export function addKnownTenant(name: string): void {
+    const tenants = getKnownTenants();
+    if (tenants.includes(name)) return;
+    tenants.push(name);
+    localStorage.setItem(STORAGE_KEYS.KNOWN_TENANTS, JSON.stringify(tenants));
+}
+
+export function removeKnownTenant(name: string): void {
+    const tenants = getKnownTenants().filter((t) => t !== name);
+    localStorage.setItem(STORAGE_KEYS.KNOWN_TENANTS, JSON.stringify(tenants));
+}
+
 // ── Cleanup ──────────────────────────────────────────────────────────
 
 export function clearConnection(): void {
     localStorage.removeItem(STORAGE_KEYS.BASE_URL);
     localStorage.removeItem(STORAGE_KEYS.CONNECTION_MODE);
+    localStorage.removeItem(STORAGE_KEYS.TENANT);
+    localStorage.removeItem(STORAGE_KEYS.DATABASE);
     clearAuth();
 }
 
@@ -106,17 +203,32 @@ export function clearConnection(): void {
 const PROFILES_KEY = "chroma-admin:profiles";
 const ACTIVE_PROFILE_KEY = "chroma-admin:activeProfile";
 
+/** Colour tag shown next to a profile, e.g. red for production. */
+export type ProfileColor = "gray" | "red" | "orange" | "green" | "blue" | "purple";
+
+export const PROFILE_COLORS: Record<ProfileColor, string> = {
+    gray: "#8b8fa3",
+    red: "#ef4444",
+    orange: "#f59e0b",
+    green: "#22c55e",
+    blue: "#3b82f6",
+    purple: "#a78bfa",
+};
+
 export interface ServerProfile {
     id: string;
     name: string;
+    color?: ProfileColor;
     url: string;
     mode: ConnectionMode;
     authType: AuthType;
     authCredentials: AuthCredentials;
+    tenant?: string;
+    database?: string;
     createdAt: number;
 }
 
-export function getProfiles(): ServerProfile[] {
+function readProfiles(): ServerProfile[] {
     try {
         const raw = localStorage.getItem(PROFILES_KEY);
         return raw ? (JSON.parse(raw) as ServerProfile[]) : [];
@@ -125,6 +237,32 @@ export function getProfiles(): ServerProfile[] {
     }
 }
 
+const hasSecrets = (c: AuthCredentials) => !!(c.token || c.username || c.password);
+
+/** Persist profiles, moving their credentials into the vault when it is enabled. */
+function writeProfiles(profiles: ServerProfile[]): void {
+    if (isVaultEnabled()) {
+        if (isVaultLocked()) {
+            // Credentials read while locked are empty; refuse to drop real ones
+            if (profiles.some((p) => hasSecrets(p.authCredentials))) throw new Error(VAULT_LOCKED_MESSAGE);
+        } else {
+            updateVaultSecrets((s) => ({
+                ...s,
+                profiles: Object.fromEntries(profiles.map((p) => [p.id, p.authCredentials])),
+            }));
+        }
+        profiles = profiles.map((p) => ({ ...p, authCredentials: {} }));
+    }
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getProfiles(): ServerProfile[] {
+    const profiles = readProfiles();
+    if (!isVaultEnabled()) return profiles;
+    const vaulted = getVaultSecrets()?.profiles ?? {};
+    return profiles.map((p) => ({ ...p, authCredentials: vaulted[p.id] ?? {} }));
+}
+
 export function saveProfile(profile: Omit<ServerProfile, "id" | "createdAt">): ServerProfile {
     const profiles = getProfiles();
     const newProfile: ServerProfile = {
@@ -133,13 +271,33 @@ export function saveProfile(profile: Omit<ServerProfile, "id" | "createdAt">): S
         createdAt: Date.now(),
     };
     profiles.push(newProfile);
-    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    writeProfiles(profiles);
     return newProfile;
 }
 
+export function updateProfile(
+    id: string,
+    patch: Partial<Omit<ServerProfile, "id" | "createdAt">>,
+): ServerProfile | null {
+    const profiles = getProfiles();
+    const idx = profiles.findIndex((p) => p.id === id);
+    if (idx === -1) return null;
+    const updated: ServerProfile = { ...profiles[idx]!, ...patch };
+    profiles[idx] = updated;
+    writeProfiles(profiles);
+    return updated;
+}
+
+export function duplicateProfile(id: string): ServerProfile | null {
+    const source = getProfiles().find((p) => p.id === id);
+    if (!source) return null;
+    const { id: _id, createdAt: _createdAt, ...rest } = source;
+    return saveProfile({ ...rest, name: `${source.name} (copy)` });
+}
+
 export function deleteProfile(id: string): void {
     const profiles = getProfiles().filter((p) => p.id !== id);
-    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    writeProfiles(profiles);
     if (getActiveProfileId() === id) {
         localStorage.removeItem(ACTIVE_PROFILE_KEY);
     }
@@ -153,10 +311,61 @@ export function setActiveProfile(id: string): void {
     localStorage.setItem(ACTIVE_PROFILE_KEY, id);
 }
 
+export function clearActiveProfile(): void {
+    localStorage.removeItem(ACTIVE_PROFILE_KEY);
+}
+
+/** Tenant/database a profile was last used with. */
+export function profileScope(profile: ServerProfile): ChromaScope {
+    return {
+        tenant: profile.tenant ?? DEFAULT_TENANT,
+        database: profile.database ?? DEFAULT_DATABASE,
+    };
+}
+
 export function applyProfile(profile: ServerProfile): void {
     setBaseUrl(profile.url);
     setConnectionMode(profile.mode);
     setAuth(profile.authType, profile.authCredentials);
     setActiveProfile(profile.id);
+    setScope(profileScope(profile));
+}
+
+// ── Credential vault ─────────────────────────────────────────────────
+
+/** Move all stored credentials into a new passphrase-protected vault. */
+export async function enableCredentialVault(passphrase: string): Promise<void> {
+    const profiles = getProfiles();
+    const providers = getEmbeddingProviders();
+    await createVault(passphrase, {
+        connection: getAuthCredentials(),
+        profiles: Object.fromEntries(profiles.map((p) => [p.id, p.authCredentials])),
+    });
+    localStorage.removeItem(STORAGE_KEYS.AUTH_CREDENTIALS);
+    writeProfiles(profiles);
+    writeEmbeddingProviders(providers);
+}
+
+/** Decrypt everything back into plain localStorage and delete the vault. */
+export function disableCredentialVault(): void {
+    const secrets = getVaultSecrets();
+    if (!secrets) throw new Error(VAULT_LOCKED_MESSAGE);
+    const profiles = getProfiles();
+    const providers = getEmbeddingProviders();
+    destroyVault();
+    localStorage.setItem(STORAGE_KEYS.AUTH_CREDENTIALS, JSON.stringify(secrets.connection));
+    writeProfiles(profiles);
+    writeEmbeddingProviders(providers);
 }
 
+/**
+ * Erase every stored token, password and API key, vaulted or not. Profiles and
+ * embedding providers are kept without credentials.
+ */
+export function forgetAllSecrets(): void {
+    const profiles = readProfiles().map((p) => ({ ...p, authCredentials: {} }));
+    destroyVault();
+    localStorage.removeItem(STORAGE_KEYS.AUTH_CREDENTIALS);
+    writeProfiles(profiles);
+    forgetProviderApiKeys();
+}
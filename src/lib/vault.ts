@@ -0,0 +1,259 @@
+// ── Credential Vault ─────────────────────────────────────────────────
+// Optional passphrase-protected store for auth tokens and passwords.
+// Secrets are encrypted with AES-GCM under a PBKDF2-derived key and only
+// ever held in plaintext in memory while the vault is unlocked.
+
+import { useSyncExternalStore } from "react";
+import type { AuthCredentials } from "./storage";
+
+const VAULT_KEY = "chroma-admin:vault";
+const IDLE_MINUTES_KEY = "chroma-admin:vaultIdleMinutes";
+const PBKDF2_ITERATIONS = 310_000;
+const DEFAULT_IDLE_MINUTES = 15;
+const ACTIVITY_THROTTLE_MS = 5_000;
+
+export const VAULT_LOCKED_MESSAGE = "Credential vault is locked — unlock it first";
+
+export interface VaultSecrets {
+    connection: AuthCredentials;
+    /** Credentials per server profile id. */
+    profiles: Record<string, AuthCredentials>;
+    /** Embedding provider API keys per provider id; absent in older vaults. */
+    providers?: Record<string, string>;
+}
+
+interface VaultFile {
+    version: 1;
+    iterations: number;
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+export interface VaultState {
+    enabled: boolean;
+    unlocked: boolean;
+    /** Whether the unlock prompt should be shown. */
+    promptOpen: boolean;
+    /** Why the last encrypted write failed; cleared by the next successful one. */
+    writeError: string | null;
+}
+
+// ── In-memory state ──────────────────────────────────────────────────
+
+let key: CryptoKey | null = null;
+let salt: Uint8Array | null = null;
+let secrets: VaultSecrets | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+let lastActivity = 0;
+
+let state: VaultState = {
+    enabled: isVaultEnabled(),
+    unlocked: false,
+    promptOpen: isVaultEnabled(),
+    writeError: null,
+};
+const listeners = new Set<() => void>();
+
+function emit(patch: Partial<VaultState> = {}): void {
+    state = { ...state, enabled: isVaultEnabled(), unlocked: secrets !== null, ...patch };
+    listeners.forEach((l) => l());
+}
+
+export function subscribeVault(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function getVaultState(): VaultState {
+    return state;
+}
+
+export function useVaultState(): VaultState {
+    return useSyncExternalStore(subscribeVault, getVaultState);
+}
+
+// ── Crypto helpers ───────────────────────────────────────────────────
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+async function deriveKey(passphrase: string, keySalt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(passphrase),
+        "PBKDF2",
+        false,
+        ["deriveKey"],
+    );
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt: keySalt as BufferSource, iterations, hash: "SHA-256" },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+    );
+}
+
+function readVaultFile(): VaultFile | null {
+    try {
+        const raw = localStorage.getItem(VAULT_KEY);
+        return raw ? (JSON.parse(raw) as VaultFile) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Encrypt the in-memory secrets and write them out; writes are serialised.
+ * The returned promise rejects if this write fails, and the failure is also
+ * published as `writeError` for callers that do not wait on it.
+ */
+function persist(): Promise<void> {
+    const snapshot = secrets;
+    const cryptoKey = key;
+    const keySalt = salt;
+    if (!snapshot || !cryptoKey || !keySalt) return writeChain;
+
+    const write = writeChain
+        .then(async () => {
+            const iv = crypto.getRandomValues(new Uint8Array(12));
+            const data = await crypto.subtle.encrypt(
+                { name: "AES-GCM", iv },
+                cryptoKey,
+                new TextEncoder().encode(JSON.stringify(snapshot)),
+            );
+            const file: VaultFile = {
+                version: 1,
+                iterations: PBKDF2_ITERATIONS,
+                salt: toBase64(keySalt),
+                iv: toBase64(iv),
+                data: toBase64(new Uint8Array(data)),
+            };
+            // The vault may have been destroyed while encrypting
+            if (key === cryptoKey) localStorage.setItem(VAULT_KEY, JSON.stringify(file));
+        });
+    // Keep the chain usable after a failed write
+    writeChain = write.then(
+        () => {
+            if (state.writeError) emit({ writeError: null });
+        },
+        (err: unknown) => emit({ writeError: `Failed to save the credential vault: ${(err as Error).message}` }),
+    );
+    return write;
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+export function isVaultEnabled(): boolean {
+    return localStorage.getItem(VAULT_KEY) !== null;
+}
+
+export function isVaultLocked(): boolean {
+    return isVaultEnabled() && secrets === null;
+}
+
+export function getVaultSecrets(): VaultSecrets | null {
+    return secrets;
+}
+
+/** Create a new vault holding `initial`, replacing any existing one. */
+export async function createVault(passphrase: string, initial: VaultSecrets): Promise<void> {
+    salt = crypto.getRandomValues(new Uint8Array(16));
+    key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    secrets = initial;
+    await persist();
+    scheduleIdleLock();
+    emit({ promptOpen: false });
+}
+
+/** Decrypt the vault. Throws if the passphrase is wrong. */
+export async function unlockVault(passphrase: string): Promise<void> {
+    const file = readVaultFile();
+    if (!file) throw new Error("No credential vault found");
+
+    const fileSalt = fromBase64(file.salt);
+    const cryptoKey = await deriveKey(passphrase, fileSalt, file.iterations);
+    let plain: ArrayBuffer;
+    try {
+        plain = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: fromBase64(file.iv) as BufferSource },
+            cryptoKey,
+            fromBase64(file.data) as BufferSource,
+        );
+    } catch {
+        throw new Error("Wrong passphrase");
+    }
+
+    key = cryptoKey;
+    salt = fileSalt;
+    secrets = JSON.parse(new TextDecoder().decode(plain)) as VaultSecrets;
+    scheduleIdleLock();
+    emit({ promptOpen: false });
+}
+
+export function lockVault(): void {
+    clearTimeout(idleTimer);
+    key = null;
+    salt = null;
+    secrets = null;
+    emit();
+}
+
+/** Delete the vault and everything in it. */
+export function destroyVault(): void {
+    clearTimeout(idleTimer);
+    key = null;
+    salt = null;
+    secrets = null;
+    localStorage.removeItem(VAULT_KEY);
+    emit({ promptOpen: false });
+}
+
+/** Apply a change to the unlocked secrets and re-encrypt them. */
+export function updateVaultSecrets(update: (current: VaultSecrets) => VaultSecrets): void {
+    if (!secrets) throw new Error(VAULT_LOCKED_MESSAGE);
+    secrets = update(secrets);
+    // Failures surface through `writeError`
+    persist().catch(() => undefined);
+}
+
+export function requestVaultUnlock(): void {
+    emit({ promptOpen: true });
+}
+
+export function dismissVaultPrompt(): void {
+    emit({ promptOpen: false });
+}
+
+// ── Idle lock ────────────────────────────────────────────────────────
+
+/** Minutes of inactivity before the vault locks itself; 0 disables. */
+export function getVaultIdleMinutes(): number {
+    const raw = localStorage.getItem(IDLE_MINUTES_KEY);
+    const minutes = raw === null ? DEFAULT_IDLE_MINUTES : Number(raw);
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_IDLE_MINUTES;
+}
+
+export function setVaultIdleMinutes(minutes: number): void {
+    localStorage.setItem(IDLE_MINUTES_KEY, String(minutes));
+    scheduleIdleLock();
+    emit();
+}
+
+function scheduleIdleLock(): void {
+    clearTimeout(idleTimer);
+    const minutes = getVaultIdleMinutes();
+    if (!secrets || minutes <= 0) return;
+    idleTimer = setTimeout(lockVault, minutes * 60_000);
+}
+
+/** Call on user input to push back the idle lock. */
+export function recordVaultActivity(): void {
+    if (!secrets) return;
+    const now = Date.now();
+    if (now - lastActivity < ACTIVITY_THROTTLE_MS) return;
+    lastActivity = now;
+    scheduleIdleLock();
+}
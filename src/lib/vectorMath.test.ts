@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+    cosineSimilarity,
+    maximalMarginalRelevance,
+    meanPairwiseSimilarity,
+    meanVector,
+    similarityClusters,
+} from "./vectorMath";
+
+describe("meanVector", () => {
+    it("averages element-wise", () => {
+        expect(
+            meanVector([
+                [1, 2],
+                [3, 6],
+            ]),
+        ).toEqual([2, 4]);
+    });
+
+    it("returns a single vector unchanged", () => {
+        expect(meanVector([[0.5, -1]])).toEqual([0.5, -1]);
+    });
+
+    it("refuses to average nothing", () => {
+        expect(() => meanVector([])).toThrow("No vectors to average");
+    });
+
+    it("names both dimensions when they differ", () => {
+        expect(() => meanVector([[1, 2], [1]])).toThrow("Vectors have different dimensions (2 and 1)");
+    });
+});
+
+describe("cosineSimilarity", () => {
+    it("ignores magnitude", () => {
+        expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1, 10);
+    });
+
+    it("is -1 for opposite vectors", () => {
+        expect(cosineSimilarity([1, 0], [-3, 0])).toBeCloseTo(-1, 10);
+    });
+
+    it("is 0 rather than NaN for a zero vector", () => {
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+});
+
+describe("meanPairwiseSimilarity", () => {
+    it("is 0 for fewer than two vectors", () => {
+        expect(meanPairwiseSimilarity([])).toBe(0);
+        expect(meanPairwiseSimilarity([[1, 0]])).toBe(0);
+    });
+
+    it("averages over distinct pairs", () => {
+        // Pairs: (a, b) = 1, (a, c) = 0, (b, c) = 0
+        expect(meanPairwiseSimilarity([[1, 0], [2, 0], [0, 1]])).toBeCloseTo(1 / 3, 10);
+    });
+});
+
+describe("maximalMarginalRelevance", () => {
+    // 0 and 1 are near duplicates; 2 is orthogonal to both
+    const embeddings = [
+        [1, 0],
+        [1, 0.01],
+        [0, 1],
+    ];
+    const relevance = [0.9, 0.85, 0.5];
+
+    it("keeps the relevance order with lambda 1", () => {
+        expect(maximalMarginalRelevance(embeddings, relevance, 3, 1)).toEqual([0, 1, 2]);
+    });
+
+    it("skips a near duplicate of the top result with lambda 0.5", () => {
+        expect(maximalMarginalRelevance(embeddings, relevance, 3, 0.5)).toEqual([0, 2, 1]);
+    });
+
+    it("stops at k or when candidates run out", () => {
+        expect(maximalMarginalRelevance(embeddings, relevance, 2, 0.5)).toEqual([0, 2]);
+        expect(maximalMarginalRelevance(embeddings, relevance, 10, 0.5)).toHaveLength(3);
+        expect(maximalMarginalRelevance([], [], 5, 0.5)).toEqual([]);
+    });
+});
+
+describe("similarityClusters", () => {
+    const rows = (vectors: number[][]) => new Float32Array(vectors.flat());
+
+    it("finds nothing with no rows or zero dimensions", () => {
+        expect(similarityClusters(new Float32Array(), 2, 0.9)).toEqual([]);
+        expect(similarityClusters(new Float32Array(), 0, 0.9)).toEqual([]);
+    });
+
+    it("clusters parallel rows and skips zero rows", () => {
+        const clusters = similarityClusters(rows([[1, 0], [2, 0], [0, 1], [0, 0], [0, 3]]), 2, 0.99);
+        expect(clusters.map((c) => c.members)).toEqual([
+            [0, 1],
+            [2, 4],
+        ]);
+        clusters.forEach((c) => expect(c.minSimilarity).toBeCloseTo(1, 5));
+    });
+
+    it("chains rows through a middle row and reports the weakest link", () => {
+        const step = Math.acos(0.95);
+        const at = (theta: number) => [Math.cos(theta), Math.sin(theta)];
+        // The ends are only 0.805 similar, below the threshold, but both link to the middle
+        const [cluster, ...rest] = similarityClusters(rows([at(0), at(step), at(2 * step)]), 2, 0.9);
+        expect(rest).toEqual([]);
+        expect(cluster!.members).toEqual([0, 1, 2]);
+        expect(cluster!.minSimilarity).toBeCloseTo(0.95, 5);
+    });
+
+    it("reports progress up to the row count", () => {
+        const progress: [number, number][] = [];
+        similarityClusters(rows([[1, 0], [0, 1], [1, 1]]), 2, 0.9, (done, total) => progress.push([done, total]));
+        expect(progress[progress.length - 1]).toEqual([3, 3]);
+    });
+});
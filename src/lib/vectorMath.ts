@@ -0,0 +1,146 @@
+// ── Vector Math ──────────────────────────────────────────────────────
+// Small dense-vector helpers for client-side query building and analysis.
+
+/** Element-wise mean of equally sized vectors. */
+export function meanVector(vectors: number[][]): number[] {
+    if (vectors.length === 0) throw new Error("No vectors to average");
+    const dims = vectors[0]!.length;
+    const sum = new Array<number>(dims).fill(0);
+    for (const v of vectors) {
+        if (v.length !== dims) {
+            throw new Error(`Vectors have different dimensions (${dims} and ${v.length})`);
+        }
+        for (let i = 0; i < dims; i++) sum[i]! += v[i]!;
+    }
+    return sum.map((s) => s / vectors.length);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let magA = 0;
+    let magB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i]! * b[i]!;
+        magA += a[i]! * a[i]!;
+        magB += b[i]! * b[i]!;
+    }
+    const denom = Math.sqrt(magA) * Math.sqrt(magB);
+    return denom === 0 ? 0 : dot / denom;
+}
+
+/** Mean cosine similarity over all distinct pairs; 0 for fewer than two vectors. */
+export function meanPairwiseSimilarity(vectors: number[][]): number {
+    let sum = 0;
+    let pairs = 0;
+    for (let i = 0; i < vectors.length; i++) {
+        for (let j = i + 1; j < vectors.length; j++) {
+            sum += cosineSimilarity(vectors[i]!, vectors[j]!);
+            pairs++;
+        }
+    }
+    return pairs === 0 ? 0 : sum / pairs;
+}
+
+/**
+ * Maximal marginal relevance: greedily pick `k` indices, each maximising
+ * `lambda * relevance - (1 - lambda) * max similarity to those already picked`.
+ * `lambda = 1` keeps the relevance order; lower values favour diversity.
+ */
+export function maximalMarginalRelevance(
+    embeddings: number[][],
+    relevance: number[],
+    k: number,
+    lambda: number,
+): number[] {
+    const selected: number[] = [];
+    // Highest similarity of each candidate to the selected set so far
+    const redundancy = embeddings.map(() => -Infinity);
+    const remaining = new Set(embeddings.map((_, i) => i));
+
+    while (selected.length < k && remaining.size > 0) {
+        let best = -1;
+        let bestScore = -Infinity;
+        for (const i of remaining) {
+            const penalty = selected.length === 0 ? 0 : redundancy[i]!;
+            const score = lambda * relevance[i]! - (1 - lambda) * penalty;
+            if (score > bestScore) {
+                bestScore = score;
+                best = i;
+            }
+        }
+        selected.push(best);
+        remaining.delete(best);
+        for (const i of remaining) {
+            redundancy[i] = Math.max(redundancy[i]!, cosineSimilarity(embeddings[i]!, embeddings[best]!));
+        }
+    }
+    return selected;
+}
+
+export interface VectorCluster {
+    /** Row indices of the cluster members. */
+    members: number[];
+    /** Lowest cosine similarity among the linked pairs. */
+    minSimilarity: number;
+}
+
+/**
+ * Single-linkage clusters of rows whose cosine similarity reaches
+ * `threshold`, over a flat row-major matrix. Quadratic in the row count.
+ */
+export function similarityClusters(
+    vectors: Float32Array,
+    dims: number,
+    threshold: number,
+    onProgress?: (done: number, total: number) => void,
+): VectorCluster[] {
+    const n = dims === 0 ? 0 : vectors.length / dims;
+    const unit = new Float32Array(vectors.length);
+    const valid: boolean[] = [];
+    for (let r = 0; r < n; r++) {
+        let norm = 0;
+        for (let i = r * dims; i < (r + 1) * dims; i++) norm += vectors[i]! * vectors[i]!;
+        norm = Math.sqrt(norm);
+        valid.push(norm > 0);
+        for (let i = r * dims; i < (r + 1) * dims; i++) unit[i] = norm > 0 ? vectors[i]! / norm : 0;
+    }
+
+    const parent = Array.from({ length: n }, (_, i) => i);
+    const find = (x: number): number => {
+        while (parent[x] !== x) {
+            parent[x] = parent[parent[x]!]!;
+            x = parent[x]!;
+        }
+        return x;
+    };
+    const minEdge = new Map<number, number>();
+
+    for (let a = 0; a < n; a++) {
+        if (!valid[a]) continue;
+        const offA = a * dims;
+        for (let b = a + 1; b < n; b++) {
+            if (!valid[b]) continue;
+            const offB = b * dims;
+            let dot = 0;
+            for (let i = 0; i < dims; i++) dot += unit[offA + i]! * unit[offB + i]!;
+            if (dot < threshold) continue;
+            const ra = find(a);
+            const rb = find(b);
+            const min = Math.min(dot, minEdge.get(ra) ?? 1, minEdge.get(rb) ?? 1);
+            parent[rb] = ra;
+            minEdge.delete(rb);
+            minEdge.set(ra, min);
+        }
+        if (onProgress && (a % 200 === 0 || a === n - 1)) onProgress(a + 1, n);
+    }
+
+    const clusters = new Map<number, number[]>();
+    for (let r = 0; r < n; r++) {
+        const root = find(r);
+        if (!minEdge.has(root)) continue;
+        const members = clusters.get(root);
+        if (members) members.push(r);
+        else clusters.set(root, [r]);
+    }
+    return [...clusters].map(([root, members]) => ({ members, minSimilarity: minEdge.get(root)! }));
+}
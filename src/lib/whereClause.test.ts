@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parseWhereText, pythonToJson } from "./whereClause";
+
+describe("pythonToJson", () => {
+    it("rewrites Python literals and single quotes", () => {
+        expect(pythonToJson("{'a': True, 'b': False, 'c': None}")).toBe('{"a": true, "b": false, "c": null}');
+    });
+
+    it("drops trailing commas in lists and dicts", () => {
+        expect(pythonToJson("{'a': [1, 2,],\n}")).toBe('{"a": [1, 2]\n}');
+    });
+
+    it("leaves commas and Python keywords inside strings untouched", () => {
+        expect(pythonToJson("{'a': 'x,]', 'b': ['None', 'True,}',]}")).toBe('{"a": "x,]", "b": ["None", "True,}"]}');
+    });
+
+    it("unescapes \\' and escapes double quotes inside single-quoted strings", () => {
+        expect(pythonToJson(`{'it\\'s': 'say "hi"'}`)).toBe('{"it\'s": "say \\"hi\\""}');
+    });
+
+    it("returns null when the result is still not JSON", () => {
+        expect(pythonToJson("{'a': }")).toBeNull();
+        expect(pythonToJson("{'a': undefined}")).toBeNull();
+    });
+});
+
+describe("parseWhereText", () => {
+    it("treats blank text and {} as no filter", () => {
+        expect(parseWhereText("  \n")).toEqual({ status: "empty" });
+        expect(parseWhereText("{}")).toEqual({ status: "empty" });
+    });
+
+    it("keeps valid JSON text as typed", () => {
+        const text = '{"$and": [{"a": 1}, {"b": {"$in": ["x", "y"]}}]}';
+        expect(parseWhereText(text)).toEqual({
+            status: "valid",
+            text,
+            where: { $and: [{ a: 1 }, { b: { $in: ["x", "y"] } }] },
+        });
+    });
+
+    it("replaces a Python literal with pretty-printed JSON", () => {
+        expect(parseWhereText("{'done': True}")).toEqual({
+            status: "valid",
+            text: '{\n  "done": true\n}',
+            where: { done: true },
+        });
+    });
+
+    it("reports the JSON error when neither JSON nor Python parses", () => {
+        expect(parseWhereText('{"a": ')).toMatchObject({ status: "syntax" });
+    });
+
+    /** The text each issue underlines. */
+    const underlined = (text: string) => {
+        const result = parseWhereText(text);
+        if (result.status !== "invalid") throw new Error(`Expected invalid, got ${result.status}`);
+        return result.issues.map((i) => ({ message: i.message, span: result.text.slice(i.start, i.end) }));
+    };
+
+    it("underlines the extra key of a clause with two", () => {
+        expect(underlined('{"a": 1, "b": 2}')).toEqual([
+            { message: "A clause takes exactly one key; combine conditions with $and", span: '"b"' },
+        ]);
+    });
+
+    it("underlines an unknown operator key", () => {
+        expect(underlined('{"$any": [{"a": 1}]}')).toEqual([{ message: "Unknown operator $any", span: '"$any"' }]);
+    });
+
+    it("underlines a logical operator with a single branch", () => {
+        expect(underlined('{"$or": [{"a": 1}]}')).toEqual([
+            { message: "$or needs at least two clauses", span: '[{"a": 1}]' },
+        ]);
+    });
+
+    it("underlines a bad value deep inside nested clauses", () => {
+        const [issue] = underlined('{"$and": [{"a": 1}, {"$or": [{"b": 2}, {"year": {"$gt": "1990"}}]}]}');
+        expect(issue!.span).toBe('"1990"');
+    });
+
+    it("maps offsets into the converted text for Python input", () => {
+        const [issue] = underlined("{'a': 1, 'b': None}");
+        expect(issue!.span).toBe('"b"');
+    });
+});
@@ -0,0 +1,155 @@
+// ── Where Clause Text ────────────────────────────────────────────────
+// Parses where clauses typed or pasted as JSON (or as a Python dict literal),
+// validates them against WhereClauseSchema and maps each problem back to a
+// character range so the editor can underline it.
+
+import { WhereClauseSchema, type WhereClause } from "./zodSchemas";
+
+export interface WhereIssue {
+    message: string;
+    path: (string | number)[];
+    start: number;
+    end: number;
+}
+
+export type WhereParseResult =
+    | { status: "empty" }
+    | { status: "syntax"; message: string }
+    | { status: "invalid"; text: string; issues: WhereIssue[] }
+    | { status: "valid"; text: string; where: WhereClause };
+
+interface Span {
+    key?: [number, number];
+    value: [number, number];
+}
+
+/**
+ * Rewrite a Python dict literal as JSON: single-quoted strings, True/False/None
+ * and trailing commas. Returns null when the text still does not parse.
+ */
+export function pythonToJson(text: string): string | null {
+    let out = "";
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i]!;
+        if (ch === '"' || ch === "'") {
+            let value = "";
+            i++;
+            while (i < text.length && text[i] !== ch) {
+                if (text[i] === "\\" && i + 1 < text.length) {
+                    // \' has no JSON equivalent; other escapes carry over
+                    value += text[i + 1] === "'" ? "'" : text.slice(i, i + 2);
+                    i += 2;
+                } else {
+                    value += text[i] === '"' ? '\\"' : text[i];
+                    i++;
+                }
+            }
+            i++;
+            out += `"${value}"`;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const word = /^[A-Za-z_]\w*/.exec(text.slice(i))![0];
+            out += word === "True" ? "true" : word === "False" ? "false" : word === "None" ? "null" : word;
+            i += word.length;
+        } else if (ch === "," && /^,\s*[}\]]/.test(text.slice(i))) {
+            // Trailing comma; dropped here so commas inside strings are left alone
+            i++;
+        } else {
+            out += ch;
+            i++;
+        }
+    }
+    try {
+        JSON.parse(out);
+        return out;
+    } catch {
+        return null;
+    }
+}
+
+/** Character spans of every key and value in valid JSON text, keyed by JSON path. */
+function locateJson(text: string): Map<string, Span> {
+    const spans = new Map<string, Span>();
+    let i = 0;
+    const skipSpace = () => {
+        while (i < text.length && /\s/.test(text[i]!)) i++;
+    };
+    const readString = (): [number, number] => {
+        const start = i++;
+        while (text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+        i++;
+        return [start, i];
+    };
+    const readValue = (path: (string | number)[], key?: [number, number]) => {
+        skipSpace();
+        const start = i;
+        const ch = text[i];
+        if (ch === "{" || ch === "[") {
+            const close = ch === "{" ? "}" : "]";
+            i++;
+            skipSpace();
+            if (text[i] === close) {
+                i++;
+            } else {
+                for (let n = 0; ; n++) {
+                    if (ch === "{") {
+                        skipSpace();
+                        const keySpan = readString();
+                        const name = JSON.parse(text.slice(keySpan[0], keySpan[1])) as string;
+                        skipSpace();
+                        i++; // ':'
+                        readValue([...path, name], keySpan);
+                    } else {
+                        readValue([...path, n]);
+                    }
+                    skipSpace();
+                    if (text[i++] === close) break;
+                }
+            }
+        } else if (ch === '"') {
+            readString();
+        } else {
+            while (i < text.length && !/[\s,\]}]/.test(text[i]!)) i++;
+        }
+        spans.set(JSON.stringify(path), { key, value: [start, i] });
+    };
+    readValue([]);
+    return spans;
+}
+
+/**
+ * Parse and validate where-clause text. Python literals are converted to
+ * pretty-printed JSON first, and the converted text is returned so the editor
+ * can adopt it and keep underline offsets aligned.
+ */
+export function parseWhereText(input: string): WhereParseResult {
+    if (!input.trim()) return { status: "empty" };
+
+    let text = input;
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (err) {
+        const converted = pythonToJson(input);
+        if (converted === null) return { status: "syntax", message: (err as Error).message };
+        value = JSON.parse(converted);
+        text = JSON.stringify(value, null, 2);
+    }
+
+    if (typeof value === "object" && value !== null && !Array.isArray(value) && Object.keys(value).length === 0) {
+        return { status: "empty" };
+    }
+
+    const parsed = WhereClauseSchema.safeParse(value);
+    if (parsed.success) return { status: "valid", text, where: parsed.data };
+
+    const spans = locateJson(text);
+    const issues: WhereIssue[] = [];
+    for (const issue of parsed.error.issues) {
+        const onKey = issue.code === "custom" && issue.params?.target === "key";
+        const span = spans.get(JSON.stringify(issue.path));
+        const [start, end] = (onKey ? span?.key : span?.value) ?? [0, text.length];
+        issues.push({ message: issue.message, path: issue.path, start, end });
+    }
+    return { status: "invalid", text, issues };
+}
@@ -10,12 +10,52 @@ export type Heartbeat = z.infer<typeof HeartbeatSchema>;
 
 export const VersionSchema = z.string();
 
+// ── Resource names ───────────────────────────────────────────────────
+// Chroma applies the same naming rule to tenants, databases and collections.
+
+export const ResourceNameSchema = z
+    .string()
+    .trim()
+    .regex(
+        /^[a-zA-Z0-9][a-zA-Z0-9._-]{1,61}[a-zA-Z0-9]$/,
+        "3–63 characters: letters, digits, '.', '_' or '-', starting and ending with a letter or digit",
+    )
+    .refine((v) => !v.includes(".."), "Name cannot contain '..'");
+
+// ── Tenant / Database ────────────────────────────────────────────────
+
+export const TenantSchema = z.object({
+    name: z.string(),
+}).passthrough();
+
+export type Tenant = z.infer<typeof TenantSchema>;
+
+export const DatabaseSchema = z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    tenant: z.string().optional(),
+});
+
+export type DatabaseInfo = z.infer<typeof DatabaseSchema>;
+
+export const DatabaseListSchema = z.array(DatabaseSchema);
+
+export const UserIdentitySchema = z.object({
+    user_id: z.string().optional(),
+    tenant: z.string(),
+    databases: z.array(z.string()).optional(),
+}).passthrough();
+
+export type UserIdentity = z.infer<typeof UserIdentitySchema>;
+
 // ── Collection ───────────────────────────────────────────────────────
 
 export const CollectionSchema = z.object({
     id: z.string(),
     name: z.string(),
     metadata: z.record(z.unknown()).nullable().optional(),
+    /** Embedding dimensionality; null until the first record is added. */
+    dimension: z.number().nullable().optional(),
     tenant: z.string().optional(),
     database: z.string().optional(),
 });
@@ -48,6 +88,39 @@ export const GetItemsResponseSchema = z.object({
 
 export type GetItemsResponse = z.infer<typeof GetItemsResponseSchema>;
 
+// ── Collection backup (Settings → Export JSON) ──────────────────────
+
+export const CollectionBackupSchema = z
+    .object({
+        name: z.string().min(1),
+        metadata: z.record(z.unknown()).nullable().optional(),
+        data: GetItemsResponseSchema,
+        exportedAt: z.string().optional(),
+    })
+    .superRefine((backup, ctx) => {
+        const n = backup.data.ids.length;
+        const columns = ["documents", "metadatas", "embeddings", "uris"] as const;
+        for (const col of columns) {
+            const values = backup.data[col];
+            if (values && values.length !== n) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: ["data", col],
+                    message: `Expected ${n} ${col} (one per id), found ${values.length}`,
+                });
+            }
+        }
+        if (new Set(backup.data.ids).size !== n) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["data", "ids"],
+                message: "Duplicate ids in backup",
+            });
+        }
+    });
+
+export type CollectionBackup = z.infer<typeof CollectionBackupSchema>;
+
 // ── Query ────────────────────────────────────────────────────────────
 
 export const QueryResponseSchema = z.object({
@@ -72,6 +145,102 @@ export const QueryResponseSchema = z.object({
 
 export type QueryResponse = z.infer<typeof QueryResponseSchema>;
 
+// ── Where clause (metadata filter grammar) ───────────────────────────
+// Each clause has exactly one key: `$and`/`$or` with two or more clauses, or a
+// metadata field mapped to a value (shorthand for `$eq`) or one operator.
+
+export const WhereScalarSchema = z.union([z.string(), z.number(), z.boolean()], {
+    errorMap: () => ({ message: "Expected a string, number or boolean" }),
+});
+
+const WhereListSchema = z
+    .array(WhereScalarSchema)
+    .min(1, "List must not be empty")
+    .refine((v) => new Set(v.map((x) => typeof x)).size <= 1, "List values must all be the same type");
+
+const WHERE_FIELD_OPERATORS = ["$eq", "$ne", "$gt", "$gte", "$lt", "$lte", "$in", "$nin"];
+
+export const WhereOperatorSchema = z
+    .object({
+        $eq: WhereScalarSchema,
+        $ne: WhereScalarSchema,
+        $gt: z.number(),
+        $gte: z.number(),
+        $lt: z.number(),
+        $lte: z.number(),
+        $in: WhereListSchema,
+        $nin: WhereListSchema,
+    })
+    .partial()
+    .passthrough()
+    .superRefine((ops, ctx) => {
+        const keys = Object.keys(ops);
+        const unknown = keys.filter((k) => !WHERE_FIELD_OPERATORS.includes(k));
+        unknown.forEach((key) =>
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Unknown operator ${key}`,
+                path: [key],
+                params: { target: "key" },
+            }),
+        );
+        if (unknown.length === 0 && keys.length !== 1) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Expected exactly one operator" });
+        }
+    });
+
+export const WHERE_LOGICAL_OPERATORS = ["$and", "$or"] as const;
+
+export type WhereClause = Record<string, unknown>;
+
+/** Copy a sub-schema's issues into `ctx` under `prefix`. */
+function forwardIssues(ctx: z.RefinementCtx, error: z.ZodError, prefix: (string | number)[]): void {
+    for (const issue of error.issues) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: issue.message,
+            path: [...prefix, ...issue.path],
+            params: issue.code === "custom" ? issue.params : undefined,
+        });
+    }
+}
+
+export const WhereClauseSchema: z.ZodType<WhereClause> = z.lazy(() =>
+    z.record(z.unknown()).superRefine((clause, ctx) => {
+        const keys = Object.keys(clause);
+        if (keys.length === 0) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Clause must not be empty" });
+            return;
+        }
+        keys.slice(1).forEach((key) =>
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "A clause takes exactly one key; combine conditions with $and",
+                path: [key],
+                params: { target: "key" },
+            }),
+        );
+
+        const key = keys[0]!;
+        const value = clause[key];
+        if ((WHERE_LOGICAL_OPERATORS as readonly string[]).includes(key)) {
+            const parsed = z.array(WhereClauseSchema).min(2, `${key} needs at least two clauses`).safeParse(value);
+            if (!parsed.success) forwardIssues(ctx, parsed.error, [key]);
+        } else if (key.startsWith("$")) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Unknown operator ${key}`,
+                path: [key],
+                params: { target: "key" },
+            });
+        } else {
+            const isObject = typeof value === "object" && value !== null && !Array.isArray(value);
+            const parsed = (isObject ? WhereOperatorSchema : WhereScalarSchema).safeParse(value);
+            if (!parsed.success) forwardIssues(ctx, parsed.error, [key]);
+        }
+    }),
+);
+
 // ── Count ────────────────────────────────────────────────────────────
 
 export const CountSchema = z.number();
@@ -79,3 +248,51 @@ export const CountSchema = z.number();
 // ── Pre-flight info (version endpoint) ───────────────────────────────
 
 export const PreFlightSchema = z.string();
+
+// ── Saved queries (QueryTab → Export) ────────────────────────────────
+
+export const QuerySpecSchema = z
+    .object({
+        text: z.string().optional(),
+        /** Batch mode: one query text per entry, results grouped per text. */
+        texts: z.array(z.string()).min(1).optional(),
+        vector: z.array(z.number()).min(1).optional(),
+        /** Records whose mean embedding produced `vector`. */
+        centroidOf: z.array(z.string()).optional(),
+        nResults: z.number().int().min(1),
+        include: z.array(z.string()),
+        where: WhereClauseSchema.optional(),
+        whereDocument: z.record(z.unknown()).optional(),
+    })
+    .refine(
+        (q) => q.text !== undefined || q.texts !== undefined || q.vector !== undefined,
+        "Expected a query text, texts or vector",
+    );
+
+export type QuerySpec = z.infer<typeof QuerySpecSchema>;
+
+export const SavedQuerySetSchema = z.object({
+    exportedAt: z.string().optional(),
+    collectionName: z.string().optional(),
+    queries: z.array(z.object({ name: z.string().min(1), query: QuerySpecSchema })),
+});
+
+export type SavedQuerySet = z.infer<typeof SavedQuerySetSchema>;
+
+// ── Retrieval evaluation (EvaluateTab → JSONL upload) ────────────────
+
+/** One line of an evaluation set: a query and the IDs that should be retrieved. */
+export const EvalQuerySchema = z
+    .object({
+        id: z.union([z.string(), z.number()]).transform(String).optional(),
+        text: z.string().min(1).optional(),
+        embedding: z.array(z.number()).min(1).optional(),
+        /** Relevant IDs, or graded judgements `{ id: grade }` where 0 means not relevant. */
+        relevant: z.union([
+            z.array(z.string()).min(1),
+            z.record(z.number().min(0)).refine((r) => Object.keys(r).length > 0, "Expected at least one judgement"),
+        ]),
+    })
+    .refine((q) => q.text !== undefined || q.embedding !== undefined, "Expected a query text or embedding");
+
+export type EvalQueryInput = z.infer<typeof EvalQuerySchema>;
@@ -7,6 +7,8 @@ import { ErrorBoundary } from "./components/common/ErrorBoundary";
 import { AppLayout } from "./components/layout/AppLayout";
 import { ThemeProvider } from "./lib/themeContext";
 import { ConnectionStatusProvider } from "./lib/connectionContext";
+import { ScopeProvider, ScopedRoute, ScopeRedirect } from "./lib/scopeContext";
+import { ProfileProvider } from "./lib/profileContext";
 import { CommandPalette } from "./components/common/CommandPalette";
 import { ConnectPage } from "./app/routes/connect/ConnectPage";
 import { CollectionsPage } from "./app/routes/collections/CollectionsPage";
@@ -14,6 +16,8 @@ import { CollectionPage } from "./app/routes/collection/CollectionPage";
 import { ServerPage } from "./app/routes/server/ServerPage";
 import { AuditLogPage } from "./app/routes/audit/AuditLogPage";
 import { ComparePage } from "./app/routes/compare/ComparePage";
+import { TenantsPage } from "./app/routes/tenants/TenantsPage";
+import { BookmarksPage } from "./app/routes/bookmarks/BookmarksPage";
 import "./index.css";
 
 const queryClient = new QueryClient({
@@ -32,19 +36,31 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
             <ThemeProvider>
                 <ConnectionStatusProvider>
                     <QueryClientProvider client={queryClient}>
-                        <BrowserRouter>
-                            <CommandPalette />
-                            <Routes>
-                                <Route path="/" element={<AppLayout />}>
-                                    <Route index element={<Navigate to="/connect" replace />} />
-                                    <Route path="connect" element={<ConnectPage />} />
-                                    <Route path="collections" element={<CollectionsPage />} />
-                                    <Route path="collections/:name" element={<CollectionPage />} />
-                                    <Route path="server" element={<ServerPage />} />
-                                    <Route path="compare" element={<ComparePage />} />
-                                </Route>
-                            </Routes>
-                        </BrowserRouter>
+                        <ScopeProvider>
+                            <ProfileProvider>
+                                <BrowserRouter>
+                                    <CommandPalette />
+                                    <Routes>
+                                        <Route path="/" element={<AppLayout />}>
+                                            <Route index element={<Navigate to="/connect" replace />} />
+                                            <Route path="connect" element={<ConnectPage />} />
+                                            <Route path="collections" element={<ScopeRedirect />} />
+                                            <Route path="collections/:name" element={<ScopeRedirect />} />
+                                            <Route path="t/:tenant/d/:database" element={<ScopedRoute />}>
+                                                <Route index element={<Navigate to="collections" replace />} />
+                                                <Route path="collections" element={<CollectionsPage />} />
+                                                <Route path="collections/:name" element={<CollectionPage />} />
+                                            </Route>
+                                            <Route path="tenants" element={<TenantsPage />} />
+                                            <Route path="server" element={<ServerPage />} />
+                                            <Route path="compare" element={<ComparePage />} />
+                                            <Route path="bookmarks" element={<BookmarksPage />} />
+                                            <Route path="audit" element={<AuditLogPage />} />
+                                        </Route>
+                                    </Routes>
+                                </BrowserRouter>
+                            </ProfileProvider>
+                        </ScopeProvider>
                         <Toaster
                             position="bottom-right"
                             toastOptions={{
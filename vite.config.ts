@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
@@ -18,5 +19,9 @@ export default defineConfig(({ mode }) => {
         },
       },
     },
+    test: {
+      // Feature modules read localStorage when they load
+      environment: "jsdom",
+    },
   };
 });